@@ -13,43 +13,33 @@ import CellsPage from "@/pages/cells";
 import SpcData from "@/pages/spc-data";
 import PartsPage from "@/pages/parts";
 import CharacteristicsPage from "@/pages/characteristics";
+import DowntimeReasonsPage from "@/pages/downtime-reasons";
+import ShiftCalendarPage from "@/pages/shift-calendar";
+import SpcChartsPage from "@/pages/spc-charts";
+import MeasurementEntryPage from "@/pages/measurement-entry";
+import SpcImportPage from "@/pages/spc-import";
+import GaugesPage from "@/pages/gauges";
+import GaugeStudiesPage from "@/pages/gauge-studies";
+import UsersPage from "@/pages/users";
+import RecycleBinPage from "@/pages/recycle-bin";
 import NotFound from "@/pages/not-found";
 
 
-import PasswordScreen from "@/pages/password-screen";
-import { setApiPassword } from "./lib/queryClient";
+import LoginScreen from "@/pages/login-screen";
+import { UserMenu } from "@/components/user-menu";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
 
 
 function AppContent() {
-  const [authenticated, setAuthenticated] = React.useState(false);
-  const [loading, setLoading] = React.useState(true);
+  const { user, ready, can } = useAuth();
   const style = {
     "--sidebar-width": "16rem",
     "--sidebar-width-icon": "3rem",
   };
 
-  React.useEffect(() => {
-    const pw = sessionStorage.getItem("apiPassword");
-    console.log("[App] Restoring password from sessionStorage:", pw);
-    if (pw) {
-      setApiPassword(pw);
-      setAuthenticated(true);
-    } else {
-      setAuthenticated(false);
-    }
-    setLoading(false);
-  }, []);
-
-  // Store password and authenticate
-  const handlePasswordSuccess = (password: string) => {
-    setApiPassword(password);
-    sessionStorage.setItem("apiPassword", password);
-    setAuthenticated(true);
-  };
-
-  if (loading) return null;
-  if (!authenticated) {
-    return <PasswordScreen onSuccess={handlePasswordSuccess} />;
+  if (!ready) return null;
+  if (!user) {
+    return <LoginScreen />;
   }
 
   return (
@@ -61,6 +51,7 @@ function AppContent() {
             <SidebarTrigger data-testid="button-sidebar-toggle" />
             <div className="flex items-center gap-2">
               <ThemeToggle />
+              <UserMenu />
             </div>
           </header>
           <main className="flex-1 overflow-hidden">
@@ -71,6 +62,15 @@ function AppContent() {
               <Route path="/parts" component={PartsPage} />
               <Route path="/characteristics" component={CharacteristicsPage} />
               <Route path="/spc-data" component={SpcData} />
+              <Route path="/spc-charts" component={SpcChartsPage} />
+              {can("operator") && <Route path="/measurement-entry" component={MeasurementEntryPage} />}
+              {can("quality_engineer") && <Route path="/spc-import" component={SpcImportPage} />}
+              <Route path="/gauges" component={GaugesPage} />
+              <Route path="/gauge-studies" component={GaugeStudiesPage} />
+              <Route path="/downtime-reasons" component={DowntimeReasonsPage} />
+              <Route path="/shift-calendar" component={ShiftCalendarPage} />
+              {can("quality_engineer") && <Route path="/recycle-bin" component={RecycleBinPage} />}
+              {can("admin") && <Route path="/users" component={UsersPage} />}
               <Route component={NotFound} />
             </Switch>
           </main>
@@ -87,7 +87,9 @@ export default function App() {
     <Router base={base}>
       <QueryClientProvider client={queryClient}>
         <TooltipProvider>
-          <AppContent />
+          <AuthProvider>
+            <AppContent />
+          </AuthProvider>
           <Toaster />
         </TooltipProvider>
       </QueryClientProvider>
@@ -0,0 +1,123 @@
+import { useMemo } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { AlertTriangle, Plus, Square } from "lucide-react";
+import type { DowntimeLog, DowntimeReason, Machine } from "@shared/schema";
+
+const formatElapsed = (startTime: string) => {
+  const totalMinutes = Math.max(0, Math.round((Date.now() - new Date(startTime).getTime()) / 60000));
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+interface ActiveDowntimeCardProps {
+  machines: Machine[];
+  onLogDowntime: () => void;
+}
+
+// Open downtime events (no end time yet) with a one-click End action
+export function ActiveDowntimeCard({ machines, onLogDowntime }: ActiveDowntimeCardProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+
+  const { data: downtimeLogs = [], isLoading } = useQuery<DowntimeLog[]>({
+    queryKey: ["/api/downtime"],
+    queryFn: () => apiRequest("GET", "/api/downtime"),
+  });
+
+  // Includes deactivated codes so logs recorded before a code was retired still show its label
+  const { data: reasons = [] } = useQuery<DowntimeReason[]>({
+    queryKey: ["/api/downtime-reasons"],
+    queryFn: () => apiRequest("GET", "/api/downtime-reasons"),
+  });
+
+  const reasonByCode = useMemo(() => new Map(reasons.map((reason) => [reason.code, reason])), [reasons]);
+
+  const machineById = useMemo(() => new Map(machines.map((machine) => [machine.id, machine])), [machines]);
+
+  const activeLogs = useMemo(
+    () => downtimeLogs
+      .filter((log) => !log.endTime)
+      .sort((left, right) => left.startTime.localeCompare(right.startTime)),
+    [downtimeLogs],
+  );
+
+  const endMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/downtime/${id}/end`, {}),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/downtime"] });
+      toast({ title: "Downtime ended" });
+    },
+    onError: () => {
+      toast({ title: "Failed to end downtime", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <AlertTriangle className="h-4 w-4 text-machine-down" />
+          Active Downtime
+          {activeLogs.length > 0 && <Badge variant="destructive">{activeLogs.length}</Badge>}
+        </CardTitle>
+        {can("operator") && (
+          <Button size="sm" variant="outline" className="gap-1" onClick={onLogDowntime} data-testid="button-log-downtime">
+            <Plus className="h-4 w-4" />
+            Log Downtime
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-12 w-full" />
+        ) : activeLogs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No open downtime.</p>
+        ) : (
+          <div className="space-y-2">
+            {activeLogs.map((log) => {
+              const machine = machineById.get(log.machineId);
+              const reason = reasonByCode.get(log.reasonCode)?.label ?? log.reasonCode;
+              return (
+                <div key={log.id} className="flex items-center justify-between gap-3 rounded border p-2">
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium truncate">
+                      {machine ? `${machine.name} (${machine.machineId})` : "Unknown machine"}
+                    </div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {reason}{log.description ? ` — ${log.description}` : ""}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      Since {new Date(log.startTime).toLocaleString()} · {formatElapsed(log.startTime)}
+                      {log.reportedBy ? ` · ${log.reportedBy}` : ""}
+                    </div>
+                  </div>
+                  {can("operator") && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="gap-1 shrink-0"
+                      onClick={() => endMutation.mutate(log.id)}
+                      disabled={endMutation.isPending}
+                      data-testid={`button-end-downtime-${log.id}`}
+                    >
+                      <Square className="h-3 w-3" />
+                      End
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
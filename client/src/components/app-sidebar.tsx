@@ -7,6 +7,15 @@ import {
   Workflow,
   ListOrdered,
   Ruler,
+  TimerOff,
+  CalendarClock,
+  LineChart,
+  ClipboardPen,
+  FileUp,
+  Gauge,
+  Crosshair,
+  Users,
+  Trash2,
 } from "lucide-react";
 import {
   Sidebar,
@@ -20,8 +29,10 @@ import {
   SidebarHeader,
   SidebarFooter,
 } from "@/components/ui/sidebar";
+import { useAuth } from "@/hooks/use-auth";
+import type { UserRole } from "@shared/schema";
 
-const navItems = [
+const navItems: { title: string; url: string; icon: typeof Factory; minRole?: UserRole }[] = [
   {
     title: "Dashboard",
     url: "/",
@@ -47,15 +58,65 @@ const navItems = [
     url: "/cells",
     icon: Workflow,
   },
+  {
+    title: "SPC Charts",
+    url: "/spc-charts",
+    icon: LineChart,
+  },
+  {
+    title: "Measurement Entry",
+    url: "/measurement-entry",
+    icon: ClipboardPen,
+    minRole: "operator",
+  },
+  {
+    title: "Import Measurements",
+    url: "/spc-import",
+    icon: FileUp,
+    minRole: "quality_engineer",
+  },
+  {
+    title: "Gauges",
+    url: "/gauges",
+    icon: Crosshair,
+  },
+  {
+    title: "Gauge R&R",
+    url: "/gauge-studies",
+    icon: Gauge,
+  },
   {
     title: "Scrap Incidents",
     url: "/spc-data",
     icon: FileText,
   },
+  {
+    title: "Downtime Reasons",
+    url: "/downtime-reasons",
+    icon: TimerOff,
+  },
+  {
+    title: "Shift Calendar",
+    url: "/shift-calendar",
+    icon: CalendarClock,
+  },
+  {
+    title: "Recycle Bin",
+    url: "/recycle-bin",
+    icon: Trash2,
+    minRole: "quality_engineer",
+  },
+  {
+    title: "Users",
+    url: "/users",
+    icon: Users,
+    minRole: "admin",
+  },
 ];
 
 export function AppSidebar() {
   const [location] = useLocation();
+  const { can } = useAuth();
 
   return (
     <Sidebar>
@@ -77,7 +138,7 @@ export function AppSidebar() {
           </SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {navItems.map((item) => {
+              {navItems.filter((item) => !item.minRole || can(item.minRole)).map((item) => {
                 const isActive = location === item.url || 
                   (item.url !== "/" && location.startsWith(item.url));
                 return (
@@ -0,0 +1,229 @@
+import { useMemo, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ControlChart, type ControlChartPoint } from "@/components/control-chart";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { computeAttributeChart } from "@/lib/spc-export";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Plus } from "lucide-react";
+import type { AttributeChartType, Characteristic, Machine, SpcMeasurement } from "@shared/schema";
+import { attributeChartTypeLabels, attributeChartTypes } from "@shared/schema";
+
+interface AttributeChartPanelProps {
+  characteristic: Characteristic;
+  // Already filtered to the charted machines and sorted oldest first
+  measurements: SpcMeasurement[];
+  machines: Machine[];
+  defaultMachineId?: string;
+}
+
+const countsDefectives = (type: AttributeChartType) => type === "p" || type === "np";
+
+const formatValue = (value: number, type: AttributeChartType) =>
+  type === "p" ? `${(value * 100).toFixed(2)}%` : value.toFixed(type === "u" ? 4 : 2);
+
+// Inspection recording and p/np/c/u chart for an attribute-check characteristic
+export function AttributeChartPanel({ characteristic, measurements, machines, defaultMachineId }: AttributeChartPanelProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [chartOverride, setChartOverride] = useState<AttributeChartType | null>(null);
+  const [form, setForm] = useState({ machineId: defaultMachineId ?? "", sampleSize: "", count: "", note: "" });
+  const chartType = chartOverride ?? characteristic.attributeChartType ?? "p";
+  const countLabel = countsDefectives(chartType) ? "Defectives" : "Defects";
+
+  const analysis = useMemo(() => {
+    const recorded = measurements.filter((measurement) => measurement.sampleSize != null && measurement.defectCount != null);
+    const chart = computeAttributeChart(
+      recorded.map((measurement) => ({ sampleSize: measurement.sampleSize!, count: measurement.defectCount! })),
+      chartType,
+    );
+    const points: ControlChartPoint[] = chart
+      ? chart.values.map((value, index) => ({
+        label: `${index + 1} · ${new Date(recorded[index].createdAt).toLocaleDateString(undefined, { month: "short", day: "numeric" })}`,
+        value,
+        upper: chart.ucl[index],
+        lower: chart.lcl[index] > 0 ? chart.lcl[index] : null,
+        flagged: value > chart.ucl[index] || (chart.lcl[index] > 0 && value < chart.lcl[index]),
+      }))
+      : [];
+    return { chart, points, skipped: measurements.length - recorded.length };
+  }, [chartType, measurements]);
+
+  const recordMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", "/api/measurements", {
+        characteristicId: characteristic.id,
+        machineId: form.machineId,
+        sampleSize: Number(form.sampleSize),
+        defectCount: Number(form.count),
+        recordNote: form.note.trim() || null,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/characteristics", characteristic.id, "measurements"] });
+      setForm((prev) => ({ ...prev, count: "", note: "" }));
+      toast({ title: "Inspection recorded" });
+    },
+    onError: () => toast({ title: "Failed to record inspection", variant: "destructive" }),
+  });
+
+  const submit = () => {
+    const sampleSize = Number(form.sampleSize);
+    const count = Number(form.count);
+    if (!form.machineId) {
+      toast({ title: "Machine is required", variant: "destructive" });
+      return;
+    }
+    if (!Number.isInteger(sampleSize) || sampleSize < 1) {
+      toast({ title: "Sample size must be a whole number of at least 1", variant: "destructive" });
+      return;
+    }
+    if (form.count.trim() === "" || !Number.isInteger(count) || count < 0) {
+      toast({ title: `${countLabel} must be a whole number`, variant: "destructive" });
+      return;
+    }
+    if (countsDefectives(chartType) && count > sampleSize) {
+      toast({ title: "Defectives cannot exceed the sample size", variant: "destructive" });
+      return;
+    }
+    recordMutation.mutate();
+  };
+
+  const { chart } = analysis;
+  const uniformLimits = chart && (chartType === "np" || chartType === "c" || chart.constantSampleSize);
+  const centerLabel = { p: "p̄", np: "n·p̄", c: "c̄", u: "ū" }[chartType];
+
+  return (
+    <>
+      {can("operator") && (
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm font-medium">Record Inspection</CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+          <div>
+            <Label className="mb-1 block">Machine *</Label>
+            <Select value={form.machineId} onValueChange={(value) => setForm((prev) => ({ ...prev, machineId: value }))}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select machine" />
+              </SelectTrigger>
+              <SelectContent>
+                {machines.map((machine) => (
+                  <SelectItem key={machine.id} value={machine.id}>
+                    {machine.machineId ? `${machine.name} (${machine.machineId})` : machine.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="mb-1 block">Sample Size *</Label>
+            <Input
+              type="number"
+              min={1}
+              step={1}
+              value={form.sampleSize}
+              onChange={(event) => setForm((prev) => ({ ...prev, sampleSize: event.target.value }))}
+            />
+          </div>
+          <div>
+            <Label className="mb-1 block">{countLabel} *</Label>
+            <Input
+              type="number"
+              min={0}
+              step={1}
+              value={form.count}
+              onChange={(event) => setForm((prev) => ({ ...prev, count: event.target.value }))}
+            />
+          </div>
+          <div>
+            <Label className="mb-1 block">Note</Label>
+            <Input value={form.note} onChange={(event) => setForm((prev) => ({ ...prev, note: event.target.value }))} />
+          </div>
+          <Button onClick={submit} disabled={recordMutation.isPending}>
+            <Plus className="h-4 w-4 mr-1" /> Record
+          </Button>
+        </CardContent>
+      </Card>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-muted-foreground">
+          {chart
+            ? `${analysis.points.length} inspections · ${chart.totalInspected} units inspected · ${chart.totalCount} ${countLabel.toLowerCase()}`
+            : "No inspections recorded for this selection."}
+        </p>
+        <div className="inline-flex rounded-md border p-1">
+          {attributeChartTypes.map((type) => (
+            <Button
+              key={type}
+              size="sm"
+              variant={chartType === type ? "default" : "ghost"}
+              title={attributeChartTypeLabels[type]}
+              onClick={() => setChartOverride(type)}
+            >
+              {type}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {chart && (
+        <>
+          <div className="grid gap-3 grid-cols-2 md:grid-cols-4">
+            {[
+              { label: "Inspections", value: String(analysis.points.length) },
+              { label: "Units Inspected", value: String(chart.totalInspected) },
+              { label: `Total ${countLabel}`, value: String(chart.totalCount) },
+              { label: `Center (${centerLabel})`, value: formatValue(chart.center, chartType) },
+            ].map((tile) => (
+              <div key={tile.label} className="rounded border p-3">
+                <div className="text-xs text-muted-foreground">{tile.label}</div>
+                <div className="text-lg font-semibold font-mono">{tile.value}</div>
+              </div>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">{attributeChartTypeLabels[chartType]}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ControlChart
+                points={uniformLimits ? analysis.points.map(({ upper, lower, ...point }) => point) : analysis.points}
+                seriesLabel={chartType === "p" ? "Fraction defective" : chartType === "u" ? "Defects per unit" : countLabel}
+                digits={chartType === "p" || chartType === "u" ? 4 : 2}
+                limits={[
+                  ...(uniformLimits
+                    ? [
+                      { label: "UCL", value: chart.ucl[0], kind: "control" as const },
+                      { label: "LCL", value: chart.lcl[0] > 0 ? chart.lcl[0] : null, kind: "control" as const },
+                    ]
+                    : []),
+                  { label: centerLabel, value: chart.center, kind: "center" },
+                ]}
+              />
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        {countsDefectives(chartType)
+          ? "p and np charts count defective units, with limits from the binomial model: p̄ ± 3·√(p̄(1−p̄)/n)."
+          : "c and u charts count defects (a unit can have several), with limits from the Poisson model: ū ± 3·√(ū/n)."}
+        {" "}{chartType === "p" || chartType === "u"
+          ? "Limits are worked out per inspection, so they step in and out as the sample size changes."
+          : chart && !chart.constantSampleSize
+            ? `The ${chartType} chart assumes a constant sample size; these samples vary, so the ${chartType === "np" ? "p" : "u"} chart is the better fit.`
+            : `The ${chartType} chart assumes every inspection covers the same sample size.`}
+        {" "}Red points are outside the control limits.
+        {analysis.skipped > 0 && ` ${analysis.skipped} measurement${analysis.skipped === 1 ? "" : "s"} recorded without a sample size ${analysis.skipped === 1 ? "was" : "were"} left out.`}
+      </p>
+    </>
+  );
+}
@@ -0,0 +1,83 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { apiRequest } from "@/lib/queryClient";
+import { Crosshair } from "lucide-react";
+import type { Gauge } from "@shared/schema";
+import { CALIBRATION_DUE_SOON_DAYS, calibrationStatus, gaugeTypeLabels } from "@shared/schema";
+
+export function CalibrationBadge({ gauge }: { gauge: Gauge }) {
+  switch (calibrationStatus(gauge)) {
+    case "overdue":
+      return <Badge variant="outline" className="bg-machine-down/15 text-machine-down border-machine-down/30">Overdue</Badge>;
+    case "due_soon":
+      return <Badge variant="outline" className="bg-machine-idle/15 text-machine-idle border-machine-idle/30">Due soon</Badge>;
+    case "current":
+      return <Badge variant="secondary">Current</Badge>;
+    default:
+      return <Badge variant="outline">Not calibrated</Badge>;
+  }
+}
+
+// Active gauges that are overdue or fall due within CALIBRATION_DUE_SOON_DAYS, earliest first
+export function CalibrationDueCard() {
+  const [, setLocation] = useLocation();
+
+  const { data: gauges = [], isLoading } = useQuery<Gauge[]>({
+    queryKey: ["/api/gauges"],
+    queryFn: () => apiRequest("GET", "/api/gauges"),
+  });
+
+  const due = useMemo(
+    () =>
+      gauges
+        .filter((gauge) => gauge.isActive && ["overdue", "due_soon"].includes(calibrationStatus(gauge)))
+        .sort((left, right) => (left.nextCalibrationDue ?? "").localeCompare(right.nextCalibrationDue ?? "")),
+    [gauges],
+  );
+  const overdueCount = due.filter((gauge) => calibrationStatus(gauge) === "overdue").length;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <Crosshair className="h-4 w-4 text-machine-idle" />
+          Calibration Due
+          {overdueCount > 0 && <Badge variant="destructive">{overdueCount} overdue</Badge>}
+        </CardTitle>
+        <span className="text-xs text-muted-foreground">Next {CALIBRATION_DUE_SOON_DAYS} days</span>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-12 w-full" />
+        ) : due.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No gauges due for calibration.</p>
+        ) : (
+          <div className="space-y-2">
+            {due.map((gauge) => (
+              <div key={gauge.id} className="flex items-center justify-between gap-3 rounded border p-2">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium truncate">
+                    <span className="font-mono">{gauge.gaugeNumber}</span>
+                    {gauge.description ? ` ${gauge.description}` : ""}
+                  </div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    {gaugeTypeLabels[gauge.type] ?? gauge.type} · due {gauge.nextCalibrationDue}
+                  </div>
+                </div>
+                <CalibrationBadge gauge={gauge} />
+              </div>
+            ))}
+            <Button size="sm" variant="outline" className="w-full" onClick={() => setLocation("/gauges")}>
+              Open gauge master
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,49 @@
+import { useQueries } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { OeeTile } from "@/components/oee-tile";
+import { apiRequest } from "@/lib/queryClient";
+import type { CellConfiguration, CellOeeResult } from "@shared/schema";
+
+interface CellOeeCardProps {
+  cells: CellConfiguration[];
+}
+
+// Last-24h OEE per configured cell, computed server-side
+export function CellOeeCard({ cells }: CellOeeCardProps) {
+  const results = useQueries({
+    queries: cells.map((cell) => ({
+      queryKey: ["/api/cells", cell.id, "oee"],
+      queryFn: () => apiRequest<CellOeeResult>("GET", `/api/cells/${cell.id}/oee`),
+    })),
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium">OEE by Cell — Last 24h</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {cells.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No cells configured.</p>
+        ) : (
+          <div className="grid gap-3 grid-cols-1 sm:grid-cols-2 lg:grid-cols-4">
+            {cells.map((cell, index) => {
+              const query = results[index];
+              return (
+                <div key={cell.id} className="space-y-1">
+                  <div className="text-sm font-medium truncate">{cell.name}</div>
+                  {query?.isLoading ? (
+                    <Skeleton className="h-16 w-full" />
+                  ) : (
+                    <OeeTile result={query?.data} />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,194 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import type { ChangeLogAction, ChangeLogEntityType, ChangeLogEntry } from "@shared/schema";
+import { changeLogEntityLabels } from "@shared/schema";
+
+export type PageView = "records" | "history";
+
+// Switches a master data page between its records and their change history
+export function PageViewTabs({
+  value,
+  onValueChange,
+  recordsLabel,
+}: {
+  value: PageView;
+  onValueChange: (view: PageView) => void;
+  recordsLabel: string;
+}) {
+  return (
+    <Tabs value={value} onValueChange={(view) => onValueChange(view as PageView)}>
+      <TabsList>
+        <TabsTrigger value="records">{recordsLabel}</TabsTrigger>
+        <TabsTrigger value="history" data-testid="tab-history">History</TabsTrigger>
+      </TabsList>
+    </Tabs>
+  );
+}
+
+const actionStyle: Record<ChangeLogAction, { label: string; variant: "default" | "secondary" | "destructive" }> = {
+  create: { label: "Created", variant: "secondary" },
+  update: { label: "Updated", variant: "default" },
+  delete: { label: "Deleted", variant: "destructive" },
+};
+
+const ALL = "all";
+const MAX_VALUE_LENGTH = 120;
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "empty";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+};
+
+const fullValue = (value: unknown) => (typeof value === "string" ? value : JSON.stringify(value));
+
+function ChangeValues({ entry }: { entry: ChangeLogEntry }) {
+  const fields = Object.entries(entry.changes);
+  if (fields.length === 0) return <span className="text-muted-foreground">-</span>;
+  return (
+    <div className="space-y-0.5">
+      {fields.map(([field, { before, after }]) => (
+        <div key={field} className="text-xs break-all">
+          <span className="font-mono text-muted-foreground">{field}</span>{" "}
+          {entry.action !== "create" && <span title={fullValue(before)} className="line-through decoration-muted-foreground/60">{formatValue(before)}</span>}
+          {entry.action === "update" && " → "}
+          {entry.action !== "delete" && <span title={fullValue(after)}>{formatValue(after)}</span>}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Field-level changes to one type of record, newest first, from /api/audit-log
+export function ChangeHistory({ entityType }: { entityType: ChangeLogEntityType }) {
+  const [entityId, setEntityId] = useState(ALL);
+  const [actorId, setActorId] = useState(ALL);
+
+  const filtered = entityId !== ALL || actorId !== ALL;
+  const queryString = (filters: { entityId?: string; actorId?: string }) => {
+    const params = new URLSearchParams({ entityType, limit: "500" });
+    if (filters.entityId) params.set("entityId", filters.entityId);
+    if (filters.actorId) params.set("actorId", filters.actorId);
+    return `/api/audit-log?${params.toString()}`;
+  };
+
+  // Unfiltered, for the record and user choices
+  const { data: allEntries = [], isLoading: allLoading } = useQuery<ChangeLogEntry[]>({
+    queryKey: ["/api/audit-log", entityType],
+    queryFn: () => apiRequest("GET", queryString({})),
+    staleTime: 0,
+  });
+
+  const { data: filteredEntries = [], isLoading: filteredLoading } = useQuery<ChangeLogEntry[]>({
+    queryKey: ["/api/audit-log", entityType, entityId, actorId],
+    queryFn: () => apiRequest("GET", queryString({
+      entityId: entityId === ALL ? undefined : entityId,
+      actorId: actorId === ALL ? undefined : actorId,
+    })),
+    enabled: filtered,
+    staleTime: 0,
+  });
+
+  const entries = filtered ? filteredEntries : allEntries;
+  const isLoading = filtered ? filteredLoading : allLoading;
+
+  const recordOptions = useMemo(() => {
+    const labels = new Map<string, string>();
+    for (const entry of allEntries) {
+      if (!labels.has(entry.entityId)) labels.set(entry.entityId, entry.entityLabel || entry.entityId);
+    }
+    return Array.from(labels, ([id, label]) => ({ id, label })).sort((left, right) => left.label.localeCompare(right.label));
+  }, [allEntries]);
+
+  const actorOptions = useMemo(() => {
+    const names = new Map<string, string>();
+    for (const entry of allEntries) {
+      if (entry.actorId && !names.has(entry.actorId)) names.set(entry.actorId, entry.actorName || entry.actorId);
+    }
+    return Array.from(names, ([id, name]) => ({ id, name })).sort((left, right) => left.name.localeCompare(right.name));
+  }, [allEntries]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{changeLogEntityLabels[entityType]} History</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div>
+            <Label className="mb-1 block">Record</Label>
+            <Select value={entityId} onValueChange={setEntityId}>
+              <SelectTrigger data-testid="select-history-record">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All records</SelectItem>
+                {recordOptions.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="mb-1 block">Changed By</Label>
+            <Select value={actorId} onValueChange={setActorId}>
+              <SelectTrigger data-testid="select-history-actor">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Anyone</SelectItem>
+                {actorOptions.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">No changes recorded yet.</p>
+        ) : (
+          <div className="overflow-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-muted-foreground">
+                  <th className="text-left p-2">Time</th>
+                  <th className="text-left p-2">Record</th>
+                  <th className="text-left p-2">Action</th>
+                  <th className="text-left p-2">Changed By</th>
+                  <th className="text-left p-2">Changes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => (
+                  <tr key={entry.id} className="border-t align-top">
+                    <td className="p-2 whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</td>
+                    <td className="p-2">{entry.entityLabel || <span className="font-mono text-xs">{entry.entityId}</span>}</td>
+                    <td className="p-2">
+                      <Badge variant={actionStyle[entry.action].variant}>{actionStyle[entry.action].label}</Badge>
+                    </td>
+                    <td className="p-2 whitespace-nowrap">{entry.actorName || <span className="text-muted-foreground">System</span>}</td>
+                    <td className="p-2"><ChangeValues entry={entry} /></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
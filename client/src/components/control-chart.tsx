@@ -0,0 +1,141 @@
+import {
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ReferenceLine,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+
+export type ControlChartPoint = {
+  label: string;
+  value: number | null;
+  // Drawn in red: outside control limits or specification
+  flagged?: boolean;
+  // Per-point control limits, for charts whose limits vary with sample size (p, u)
+  upper?: number | null;
+  lower?: number | null;
+};
+
+export type ControlChartLimit = {
+  label: string;
+  value: number | null;
+  kind: "center" | "control" | "spec";
+};
+
+interface ControlChartProps {
+  points: ControlChartPoint[];
+  limits: ControlChartLimit[];
+  seriesLabel: string;
+  digits?: number;
+  height?: number;
+}
+
+const limitStyles: Record<ControlChartLimit["kind"], { stroke: string; strokeDasharray?: string }> = {
+  center: { stroke: "hsl(var(--chart-1))" },
+  control: { stroke: "hsl(var(--chart-4))", strokeDasharray: "4 4" },
+  spec: { stroke: "hsl(var(--destructive))", strokeDasharray: "6 3" },
+};
+
+export function ControlChart({ points, limits, seriesLabel, digits = 3, height = 260 }: ControlChartProps) {
+  const chartConfig: ChartConfig = {
+    value: { label: seriesLabel, color: "hsl(var(--chart-2))" },
+  };
+  const visibleLimits = limits.filter((limit): limit is ControlChartLimit & { value: number } =>
+    limit.value !== null && Number.isFinite(limit.value));
+  const hasPointLimits = points.some((point) => point.upper !== undefined || point.lower !== undefined);
+  const seriesNames: Record<string, string> = { value: seriesLabel, upper: "UCL", lower: "LCL" };
+
+  // Keep every limit line on screen even when the data sits well inside them
+  const values = [
+    ...points.map((point) => point.value).filter((value): value is number => value !== null),
+    ...visibleLimits.map((limit) => limit.value),
+    ...points.flatMap((point) => [point.upper, point.lower]).filter((value): value is number => typeof value === "number"),
+  ];
+  const min = values.length > 0 ? Math.min(...values) : 0;
+  const max = values.length > 0 ? Math.max(...values) : 1;
+  const margin = (max - min) * 0.08 || 0.1;
+
+  return (
+    <ChartContainer config={chartConfig} className="w-full aspect-auto" style={{ height }}>
+      <ComposedChart data={points} margin={{ left: 8, right: 56, top: 8, bottom: 0 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} minTickGap={24} />
+        <YAxis
+          tickLine={false}
+          axisLine={false}
+          width={64}
+          domain={[min - margin, max + margin]}
+          tickFormatter={(value) => Number(value).toFixed(digits)}
+        />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              formatter={(value, name) => (
+                <>
+                  <span>{seriesNames[String(name)] ?? seriesLabel}</span>
+                  <span className="ml-auto font-mono">{Number(value).toFixed(digits)}</span>
+                </>
+              )}
+            />
+          }
+        />
+        {visibleLimits.map((limit) => (
+          <ReferenceLine
+            key={limit.label}
+            y={limit.value}
+            {...limitStyles[limit.kind]}
+            label={{
+              value: `${limit.label} ${limit.value.toFixed(digits)}`,
+              position: "right",
+              fontSize: 10,
+              fill: limitStyles[limit.kind].stroke,
+            }}
+          />
+        ))}
+        {hasPointLimits && (["upper", "lower"] as const).map((key) => (
+          <Line
+            key={key}
+            type="stepAfter"
+            dataKey={key}
+            stroke={limitStyles.control.stroke}
+            strokeDasharray={limitStyles.control.strokeDasharray}
+            strokeWidth={1}
+            dot={false}
+            activeDot={false}
+            isAnimationActive={false}
+          />
+        ))}
+        <Line
+          type="linear"
+          dataKey="value"
+          stroke="var(--color-value)"
+          strokeWidth={1.5}
+          connectNulls
+          isAnimationActive={false}
+          dot={(props: any) => {
+            const { cx, cy, payload, index } = props;
+            if (cx === undefined || cy === undefined || payload?.value === null) return <g key={index} />;
+            return (
+              <circle
+                key={index}
+                cx={cx}
+                cy={cy}
+                r={3.5}
+                fill={payload.flagged ? "hsl(var(--destructive))" : "var(--color-value)"}
+                stroke="white"
+                strokeWidth={1}
+              />
+            );
+          }}
+        />
+      </ComposedChart>
+    </ChartContainer>
+  );
+}
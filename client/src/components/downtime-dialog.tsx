@@ -1,4 +1,5 @@
-import { useEffect } from "react";
+import { useEffect, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -28,8 +29,9 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Loader2 } from "lucide-react";
-import type { Machine } from "@shared/schema";
-import { downtimeReasonCodes, downtimeCategories } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import type { DowntimeReason, Machine } from "@shared/schema";
+import { downtimeCategories, downtimeCategoryLabels } from "@shared/schema";
 
 const downtimeFormSchema = z.object({
   machineId: z.string().min(1, "Machine is required"),
@@ -44,6 +46,7 @@ const downtimeFormSchema = z.object({
 });
 
 type DowntimeFormValues = z.infer<typeof downtimeFormSchema>;
+export type DowntimeSubmitData = DowntimeFormValues;
 
 interface DowntimeDialogProps {
   open: boolean;
@@ -54,29 +57,6 @@ interface DowntimeDialogProps {
   isPending: boolean;
 }
 
-// Get reason codes by category
-const getReasonCodesByCategory = (category: string) => {
-  return Object.entries(downtimeReasonCodes)
-    .filter(([_, value]) => value.category === category)
-    .map(([code, value]) => ({
-      code,
-      label: value.label,
-    }));
-};
-
-// Get category display name
-const getCategoryLabel = (category: string) => {
-  const labels: Record<string, string> = {
-    mechanical: "Mechanical",
-    electrical: "Electrical",
-    material: "Material",
-    operator: "Operator",
-    quality: "Quality",
-    other: "Other",
-  };
-  return labels[category] || category;
-};
-
 export function DowntimeDialog({
   open,
   onOpenChange,
@@ -99,6 +79,23 @@ export function DowntimeDialog({
 
   const selectedCategory = form.watch("reasonCategory");
 
+  // Only active codes are offered; retired codes stay in the catalog for historical logs
+  const { data: reasons = [], isLoading: reasonsLoading } = useQuery<DowntimeReason[]>({
+    queryKey: ["/api/downtime-reasons", { active: true }],
+    queryFn: () => apiRequest("GET", "/api/downtime-reasons?active=true"),
+    enabled: open,
+  });
+
+  const availableCategories = useMemo(
+    () => downtimeCategories.filter((category) => reasons.some((reason) => reason.category === category)),
+    [reasons],
+  );
+
+  const reasonsForCategory = useMemo(
+    () => reasons.filter((reason) => reason.category === selectedCategory),
+    [reasons, selectedCategory],
+  );
+
   useEffect(() => {
     if (open) {
       // Always set startTime to current local time when dialog opens
@@ -126,11 +123,10 @@ export function DowntimeDialog({
 
   const handleSubmit = (data: DowntimeFormValues) => {
     // Get the category from the reason code
-    const reasonCodeInfo = downtimeReasonCodes[data.reasonCode as keyof typeof downtimeReasonCodes];
-    const category = (reasonCodeInfo?.category || data.reasonCategory) as typeof downtimeCategories[number];
+    const reason = reasons.find((item) => item.code === data.reasonCode);
     onSubmit({
       ...data,
-      reasonCategory: category,
+      reasonCategory: reason?.category ?? data.reasonCategory,
     });
   };
 
@@ -186,13 +182,13 @@ export function DowntimeDialog({
                     <Select onValueChange={field.onChange} value={field.value}>
                       <FormControl>
                         <SelectTrigger data-testid="select-downtime-category">
-                          <SelectValue placeholder="Select category" />
+                          <SelectValue placeholder={reasonsLoading ? "Loading..." : "Select category"} />
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {downtimeCategories.map((category) => (
+                        {availableCategories.map((category) => (
                           <SelectItem key={category} value={category}>
-                            {getCategoryLabel(category)}
+                            {downtimeCategoryLabels[category]}
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -218,9 +214,9 @@ export function DowntimeDialog({
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {selectedCategory && getReasonCodesByCategory(selectedCategory).map(({ code, label }) => (
-                          <SelectItem key={code} value={code}>
-                            {label}
+                        {reasonsForCategory.map((reason) => (
+                          <SelectItem key={reason.id} value={reason.code}>
+                            {reason.code} – {reason.label}
                           </SelectItem>
                         ))}
                       </SelectContent>
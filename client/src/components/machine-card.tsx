@@ -12,7 +12,8 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 
-import type { Machine, MachineStatus } from "@shared/schema";
+import { OeeTile } from "@/components/oee-tile";
+import type { Machine, MachineStatus, OeeResult } from "@shared/schema";
 
 interface MachineCardProps {
   machine: Machine;
@@ -23,6 +24,7 @@ interface MachineCardProps {
   onOpenScrapIncidents?: (machineId: string) => void;
   isPending?: boolean;
   scrapIncidentsCount?: number;
+  oee?: OeeResult | null;
 }
 
 const statusConfig: Record<MachineStatus, { 
@@ -72,6 +74,7 @@ export function MachineCard({
   onOpenScrapIncidents,
   isPending = false,
   scrapIncidentsCount = 0,
+  oee,
 }: MachineCardProps) {
   const [editingNote, setEditingNote] = useState(false);
   const [noteValue, setNoteValue] = useState(machine.statusUpdate || "");
@@ -140,6 +143,8 @@ export function MachineCard({
           </button>
         </div>
 
+        {oee !== undefined && <OeeTile result={oee} compact />}
+
         {/* Cycle and reliability info */}
         {machine.idealCycleTime && (
           <div className="text-xs space-y-1">
@@ -32,12 +32,12 @@ import type { Machine } from "@shared/schema";
 const machineFormSchema = z.object({
   name: z.string().min(1, "Machine name is required"),
   machineId: z.string().min(1, "Machine ID is required"),
-  cell: z.string().optional().or(z.literal("")),
   status: z.enum(["running", "idle", "maintenance", "down", "setup"]),
   idealCycleTime: z.coerce.number().positive().optional().or(z.literal("")),
   setupTime: z.coerce.number().min(0).optional().or(z.literal("")),
   batchSize: z.coerce.number().int().positive().optional().or(z.literal("")),
   uptimePercent: z.coerce.number().min(0).max(100).optional().or(z.literal("")),
+  hourlyRate: z.coerce.number().min(0).optional().or(z.literal("")),
 });
 
 type MachineFormValues = z.infer<typeof machineFormSchema>;
@@ -46,12 +46,12 @@ type MachineFormValues = z.infer<typeof machineFormSchema>;
 export type MachineSubmitData = {
   name: string;
   machineId: string;
-  cell?: string;
   status: "running" | "idle" | "maintenance" | "down" | "setup";
   idealCycleTime?: number;
   setupTime?: number;
   batchSize?: number;
   uptimePercent?: number;
+  hourlyRate?: number;
 };
 
 interface MachineDialogProps {
@@ -76,12 +76,12 @@ export function MachineDialog({
     defaultValues: {
       name: "",
       machineId: "",
-      cell: "",
       status: "idle",
       idealCycleTime: "",
       setupTime: "",
       batchSize: "",
       uptimePercent: "",
+      hourlyRate: "",
     },
   });
 
@@ -91,23 +91,23 @@ export function MachineDialog({
         form.reset({
           name: machine.name,
           machineId: machine.machineId,
-          cell: machine.cell ?? "",
           status: machine.status,
           idealCycleTime: machine.idealCycleTime ?? "",
           setupTime: machine.setupTime ?? "",
           batchSize: machine.batchSize ?? "",
           uptimePercent: machine.uptimePercent ?? "",
+          hourlyRate: machine.hourlyRate ?? "",
         });
       } else {
         form.reset({
           name: "",
           machineId: "",
-          cell: "",
           status: "idle",
           idealCycleTime: "",
           setupTime: "",
           batchSize: "",
           uptimePercent: "",
+          hourlyRate: "",
         });
       }
     }
@@ -118,12 +118,12 @@ export function MachineDialog({
     const submitData: MachineSubmitData = {
       name: data.name,
       machineId: data.machineId,
-      cell: data.cell === "" ? undefined : data.cell,
       status: data.status,
       idealCycleTime: data.idealCycleTime === "" ? undefined : Number(data.idealCycleTime),
       setupTime: data.setupTime === "" ? undefined : Number(data.setupTime),
       batchSize: data.batchSize === "" ? undefined : Number(data.batchSize),
       uptimePercent: data.uptimePercent === "" ? undefined : Number(data.uptimePercent),
+      hourlyRate: data.hourlyRate === "" ? undefined : Number(data.hourlyRate),
     };
     onSubmit(submitData);
   };
@@ -181,23 +181,10 @@ export function MachineDialog({
               />
             </div>
 
-            <FormField
-              control={form.control}
-              name="cell"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Cell</FormLabel>
-                  <FormControl>
-                    <Input 
-                      placeholder="e.g., Cell A, Assembly Line 1" 
-                      {...field} 
-                      data-testid="input-machine-cell"
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+            {/* Membership follows the cell's routing, so it is set on the Cells page */}
+            <p className="text-sm text-muted-foreground" data-testid="text-machine-cell">
+              Cell: {machine?.cell ?? "none"}. Add the machine to an operation on the Cells page to assign it.
+            </p>
 
             <FormField
               control={form.control}
@@ -309,6 +296,26 @@ export function MachineDialog({
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={form.control}
+                  name="hourlyRate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-xs">Hourly Rate ($/h)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          placeholder="e.g., 85"
+                          {...field}
+                          value={field.value ?? ""}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </div>
             </div>
 
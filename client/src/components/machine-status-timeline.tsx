@@ -0,0 +1,233 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { apiRequest } from "@/lib/queryClient";
+import type { Machine, MachineStatus, MachineStatusEvent } from "@shared/schema";
+
+type TimelineRange = "shift" | "day" | "week";
+
+const rangeHours: Record<TimelineRange, number> = {
+  shift: 8,
+  day: 24,
+  week: 24 * 7,
+};
+
+const statusStyle: Record<MachineStatus, { label: string; barClass: string }> = {
+  running: { label: "Running", barClass: "bg-machine-running" },
+  idle: { label: "Idle", barClass: "bg-machine-idle" },
+  maintenance: { label: "Maintenance", barClass: "bg-machine-maintenance" },
+  down: { label: "Down", barClass: "bg-machine-down" },
+  setup: { label: "Setup", barClass: "bg-machine-setup" },
+};
+
+type TimelineSegment = {
+  status: MachineStatus;
+  start: Date;
+  end: Date;
+  note: string | null;
+};
+
+const formatDuration = (ms: number) => {
+  const totalMinutes = Math.max(0, Math.round(ms / 60000));
+  const days = Math.floor(totalMinutes / (60 * 24));
+  const hours = Math.floor((totalMinutes % (60 * 24)) / 60);
+  const minutes = totalMinutes % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+};
+
+// Build contiguous status segments for the window from the transition log.
+// The status before the first transition in the window is that event's fromStatus.
+function buildStatusSegments(
+  events: MachineStatusEvent[],
+  currentStatus: MachineStatus,
+  windowStart: Date,
+  windowEnd: Date,
+): TimelineSegment[] {
+  const sorted = [...events].sort((left, right) => left.createdAt.localeCompare(right.createdAt));
+  if (sorted.length === 0) {
+    return [{ status: currentStatus, start: windowStart, end: windowEnd, note: null }];
+  }
+
+  const segments: TimelineSegment[] = [];
+  const first = sorted[0];
+  if (first.fromStatus) {
+    segments.push({ status: first.fromStatus, start: windowStart, end: new Date(first.createdAt), note: null });
+  }
+  sorted.forEach((event, index) => {
+    const next = sorted[index + 1];
+    segments.push({
+      status: event.toStatus,
+      start: new Date(event.createdAt),
+      end: next ? new Date(next.createdAt) : windowEnd,
+      note: event.note,
+    });
+  });
+  return segments.filter((segment) => segment.end.getTime() > segment.start.getTime());
+}
+
+interface MachineStatusTimelineProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  machine: Machine | null;
+}
+
+export function MachineStatusTimeline({ open, onOpenChange, machine }: MachineStatusTimelineProps) {
+  const [range, setRange] = useState<TimelineRange>("shift");
+  // Anchor the window when the dialog opens or the range changes so the query key stays stable
+  const windowEnd = useMemo(() => new Date(), [open, range, machine?.id]);
+  const windowStart = useMemo(
+    () => new Date(windowEnd.getTime() - rangeHours[range] * 3600 * 1000),
+    [windowEnd, range],
+  );
+
+  const { data: events = [], isLoading } = useQuery<MachineStatusEvent[]>({
+    queryKey: ["/api/machines", machine?.id, "status-history", windowStart.toISOString()],
+    queryFn: () =>
+      apiRequest(
+        "GET",
+        `/api/machines/${machine!.id}/status-history?from=${encodeURIComponent(windowStart.toISOString())}&to=${encodeURIComponent(windowEnd.toISOString())}`,
+      ),
+    enabled: open && !!machine,
+  });
+
+  const segments = useMemo(
+    () => (machine ? buildStatusSegments(events, machine.status, windowStart, windowEnd) : []),
+    [events, machine, windowStart, windowEnd],
+  );
+
+  const totalMs = windowEnd.getTime() - windowStart.getTime();
+
+  const totalsByStatus = useMemo(() => {
+    const totals = new Map<MachineStatus, number>();
+    segments.forEach((segment) => {
+      const duration = segment.end.getTime() - segment.start.getTime();
+      totals.set(segment.status, (totals.get(segment.status) || 0) + duration);
+    });
+    return Array.from(totals.entries()).sort((left, right) => right[1] - left[1]);
+  }, [segments]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Status History{machine ? ` — ${machine.name}` : ""}</DialogTitle>
+          <DialogDescription>
+            Time spent in each status, built from recorded status transitions.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-3">
+          <div className="inline-flex rounded-md border p-1">
+            {([
+              ["shift", "Last 8h"],
+              ["day", "Last 24h"],
+              ["week", "Last 7d"],
+            ] as const).map(([value, label]) => (
+              <Button
+                key={value}
+                size="sm"
+                variant={range === value ? "default" : "ghost"}
+                onClick={() => setRange(value)}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+          <span className="text-xs text-muted-foreground">
+            {windowStart.toLocaleString()} → {windowEnd.toLocaleString()}
+          </span>
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : (
+          <div className="space-y-4">
+            <TooltipProvider>
+              <div className="flex h-6 w-full overflow-hidden rounded border">
+                {segments.map((segment, index) => {
+                  const width = ((segment.end.getTime() - segment.start.getTime()) / totalMs) * 100;
+                  return (
+                    <Tooltip key={`${segment.start.toISOString()}-${index}`}>
+                      <TooltipTrigger asChild>
+                        <div
+                          className={`h-full ${statusStyle[segment.status].barClass}`}
+                          style={{ width: `${width}%`, marginLeft: index === 0 ? `${((segment.start.getTime() - windowStart.getTime()) / totalMs) * 100}%` : undefined }}
+                        />
+                      </TooltipTrigger>
+                      <TooltipContent side="top" className="text-xs space-y-1">
+                        <div className="font-semibold">{statusStyle[segment.status].label}</div>
+                        <div>{segment.start.toLocaleString()} → {segment.end.toLocaleString()}</div>
+                        <div>{formatDuration(segment.end.getTime() - segment.start.getTime())}</div>
+                        {segment.note && <div className="italic">"{segment.note}"</div>}
+                      </TooltipContent>
+                    </Tooltip>
+                  );
+                })}
+              </div>
+            </TooltipProvider>
+
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+              {totalsByStatus.map(([status, duration]) => (
+                <div key={status} className="rounded border p-2">
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <span className={`h-2.5 w-2.5 rounded-sm ${statusStyle[status].barClass}`} />
+                    {statusStyle[status].label}
+                  </div>
+                  <div className="text-sm font-semibold">{formatDuration(duration)}</div>
+                  <div className="text-xs text-muted-foreground">{((duration / totalMs) * 100).toFixed(0)}%</div>
+                </div>
+              ))}
+            </div>
+
+            {events.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No status changes in this window. The machine has been {statusStyle[machine?.status ?? "idle"].label.toLowerCase()} throughout.
+              </p>
+            ) : (
+              <div className="max-h-64 overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-muted-foreground">
+                      <th className="text-left p-2">Time</th>
+                      <th className="text-left p-2">Transition</th>
+                      <th className="text-left p-2">Duration</th>
+                      <th className="text-left p-2">Note</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...events].reverse().map((event) => {
+                      const segment = segments.find((item) => item.start.toISOString() === new Date(event.createdAt).toISOString());
+                      return (
+                        <tr key={event.id} className="border-t">
+                          <td className="p-2 whitespace-nowrap">{new Date(event.createdAt).toLocaleString()}</td>
+                          <td className="p-2">
+                            {event.fromStatus ? statusStyle[event.fromStatus].label : "Created"} → {statusStyle[event.toStatus].label}
+                          </td>
+                          <td className="p-2 font-mono">
+                            {segment ? formatDuration(segment.end.getTime() - segment.start.getTime()) : "-"}
+                          </td>
+                          <td className="p-2 text-xs text-muted-foreground">{event.note || "-"}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
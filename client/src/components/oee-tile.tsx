@@ -0,0 +1,51 @@
+import type { CellOeeResult, OeeResult } from "@shared/schema";
+
+const formatPercent = (value: number | null) => (value === null ? "--" : `${(value * 100).toFixed(1)}%`);
+
+// Common world-class / acceptable thresholds for OEE
+const oeeClass = (value: number | null) => {
+  if (value === null) return "text-muted-foreground";
+  if (value >= 0.85) return "text-machine-running";
+  if (value >= 0.6) return "text-machine-idle";
+  return "text-machine-down";
+};
+
+interface OeeTileProps {
+  result: OeeResult | CellOeeResult | null | undefined;
+  compact?: boolean;
+}
+
+export function OeeTile({ result, compact = false }: OeeTileProps) {
+  const availability = result?.availability ?? null;
+  const performance = result?.performance ?? null;
+  const quality = result?.quality ?? null;
+  const oee = result?.oee ?? null;
+
+  return (
+    <div className={`rounded border ${compact ? "p-2" : "p-3"}`}>
+      <div className="flex items-baseline justify-between">
+        <span className="text-xs text-muted-foreground">OEE</span>
+        <span className={`${compact ? "text-sm" : "text-lg"} font-semibold ${oeeClass(oee)}`}>{formatPercent(oee)}</span>
+      </div>
+      <div className="mt-1 grid grid-cols-3 gap-1 text-xs">
+        <div title="Availability: run time / planned time">
+          <div className="text-muted-foreground">A</div>
+          <div className="font-mono">{formatPercent(availability)}</div>
+        </div>
+        <div title="Performance: ideal cycle time × total count / run time">
+          <div className="text-muted-foreground">P</div>
+          <div className="font-mono">{formatPercent(performance)}</div>
+        </div>
+        <div title="Quality: good count / total count">
+          <div className="text-muted-foreground">Q</div>
+          <div className="font-mono">{formatPercent(quality)}</div>
+        </div>
+      </div>
+      {result && !compact && (
+        <div className="mt-1 text-xs text-muted-foreground">
+          {Math.round(result.runMinutes)} of {Math.round(result.plannedMinutes)} min running · {result.scrapQuantity} scrapped
+        </div>
+      )}
+    </div>
+  );
+}
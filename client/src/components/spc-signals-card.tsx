@@ -0,0 +1,129 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { apiRequest } from "@/lib/queryClient";
+import { Activity, LineChart } from "lucide-react";
+import type { Characteristic, Machine, Part, SpcRuleViolation } from "@shared/schema";
+
+const LOOKBACK_DAYS = 7;
+
+interface SpcSignalsCardProps {
+  machines: Machine[];
+  characteristics: Characteristic[];
+  parts: Part[];
+}
+
+type SignalGroup = {
+  key: string;
+  characteristicId: string;
+  machineId: string;
+  points: number;
+  rules: number[];
+  latest: string;
+};
+
+// Characteristics whose recent measurements tripped a run rule, per machine
+export function SpcSignalsCard({ machines, characteristics, parts }: SpcSignalsCardProps) {
+  const [, setLocation] = useLocation();
+
+  // Fixed at midnight so the query key stays stable while the page is open
+  const from = useMemo(() => {
+    const start = new Date();
+    start.setHours(0, 0, 0, 0);
+    start.setDate(start.getDate() - LOOKBACK_DAYS);
+    return start.toISOString();
+  }, []);
+
+  const { data: violations = [], isLoading } = useQuery<SpcRuleViolation[]>({
+    queryKey: ["/api/spc-violations", from],
+    queryFn: () => apiRequest("GET", `/api/spc-violations?from=${encodeURIComponent(from)}`),
+  });
+
+  const machineById = useMemo(() => new Map(machines.map((machine) => [machine.id, machine])), [machines]);
+  const characteristicById = useMemo(() => new Map(characteristics.map((char) => [char.id, char])), [characteristics]);
+  const partById = useMemo(() => new Map(parts.map((part) => [part.id, part])), [parts]);
+
+  const groups = useMemo(() => {
+    const byKey = new Map<string, SignalGroup & { measurementIds: Set<string> }>();
+    violations.forEach((violation) => {
+      const key = `${violation.characteristicId}|${violation.machineId}`;
+      const group = byKey.get(key) ?? {
+        key,
+        characteristicId: violation.characteristicId,
+        machineId: violation.machineId,
+        points: 0,
+        rules: [],
+        latest: violation.createdAt,
+        measurementIds: new Set<string>(),
+      };
+      group.measurementIds.add(violation.measurementId);
+      group.points = group.measurementIds.size;
+      if (!group.rules.includes(violation.rule)) group.rules.push(violation.rule);
+      if (violation.createdAt > group.latest) group.latest = violation.createdAt;
+      byKey.set(key, group);
+    });
+    return Array.from(byKey.values())
+      .map((group) => ({ ...group, rules: [...group.rules].sort((left, right) => left - right) }))
+      .sort((left, right) => right.latest.localeCompare(left.latest));
+  }, [violations]);
+
+  const characteristicLabel = (characteristicId: string) => {
+    const char = characteristicById.get(characteristicId);
+    if (!char) return "Unknown characteristic";
+    const part = char.partId ? partById.get(char.partId) : undefined;
+    return `${part ? `${part.partNumber} — ` : ""}#${char.charNumber}${char.charName ? ` ${char.charName}` : ""}`;
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <Activity className="h-4 w-4 text-machine-down" />
+          Out-of-Control Signals
+          {groups.length > 0 && <Badge variant="destructive">{groups.length}</Badge>}
+        </CardTitle>
+        <span className="text-xs text-muted-foreground">Last {LOOKBACK_DAYS} days</span>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-12 w-full" />
+        ) : groups.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No run rule violations.</p>
+        ) : (
+          <div className="space-y-2">
+            {groups.map((group) => {
+              const machine = machineById.get(group.machineId);
+              return (
+                <div key={group.key} className="flex items-center justify-between gap-3 rounded border p-2">
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium truncate">{characteristicLabel(group.characteristicId)}</div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {machine ? `${machine.name} (${machine.machineId})` : "Unknown machine"}
+                      {" · "}Rule{group.rules.length === 1 ? "" : "s"} {group.rules.join(", ")}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {group.points} point{group.points === 1 ? "" : "s"} · latest {new Date(group.latest).toLocaleString()}
+                    </div>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="gap-1 shrink-0"
+                    onClick={() => setLocation(`/spc-charts?characteristicId=${group.characteristicId}`)}
+                  >
+                    <LineChart className="h-3 w-3" />
+                    Chart
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
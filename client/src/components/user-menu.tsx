@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { KeyRound, Loader2, LogOut, UserCircle } from "lucide-react";
+import type { LoginResponse } from "@shared/schema";
+import { MIN_PASSWORD_LENGTH, userRoleLabels } from "@shared/schema";
+
+export function UserMenu() {
+  const { user, logout, setSession } = useAuth();
+  const { toast } = useToast();
+  const [passwordOpen, setPasswordOpen] = useState(false);
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  if (!user) return null;
+
+  const openPasswordDialog = () => {
+    setCurrentPassword("");
+    setNewPassword("");
+    setPasswordOpen(true);
+  };
+
+  const changePassword = async () => {
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      toast({ title: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`, variant: "destructive" });
+      return;
+    }
+    setSaving(true);
+    try {
+      setSession(await apiRequest<LoginResponse>("POST", "/api/auth/password", { currentPassword, newPassword }));
+      setPasswordOpen(false);
+      toast({ title: "Password changed", description: "Your other sessions have been signed out." });
+    } catch (error) {
+      const incorrect = error instanceof Error && error.message.startsWith("400");
+      toast({ title: incorrect ? "Current password is incorrect" : "Failed to change password", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="gap-2" data-testid="button-user-menu">
+            <UserCircle className="h-4 w-4" />
+            <span className="hidden sm:inline">{user.displayName || user.username}</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>
+            <div>{user.displayName || user.username}</div>
+            <div className="text-xs font-normal text-muted-foreground">{userRoleLabels[user.role] ?? user.role}</div>
+          </DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={openPasswordDialog}>
+            <KeyRound className="h-4 w-4 mr-2" />
+            Change password
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => logout()} data-testid="button-logout">
+            <LogOut className="h-4 w-4 mr-2" />
+            Sign out
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={passwordOpen} onOpenChange={setPasswordOpen}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Change Password</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="current-password">Current Password</Label>
+              <Input
+                id="current-password"
+                type="password"
+                autoComplete="current-password"
+                value={currentPassword}
+                onChange={(e) => setCurrentPassword(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="new-password">New Password</Label>
+              <Input
+                id="new-password"
+                type="password"
+                autoComplete="new-password"
+                placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPasswordOpen(false)}>Cancel</Button>
+            <Button onClick={changePassword} disabled={saving || !currentPassword || !newPassword}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Change Password
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,89 @@
+import { createContext, useCallback, useContext, useEffect, useState, type ReactNode } from "react";
+import { apiRequest, buildUrl, queryClient, setSessionToken, setUnauthorizedHandler } from "@/lib/queryClient";
+import type { LoginResponse, PublicUser, UserRole } from "@shared/schema";
+import { roleAtLeast } from "@shared/schema";
+
+const TOKEN_KEY = "sessionToken";
+
+type AuthContextValue = {
+  user: PublicUser | null;
+  // False until a stored session has been checked
+  ready: boolean;
+  login: (username: string, password: string) => Promise<void>;
+  logout: () => Promise<void>;
+  // Keeps this tab logged in after the server issues a new token, e.g. on a password change
+  setSession: (session: LoginResponse) => void;
+  can: (minimum: UserRole) => boolean;
+};
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [user, setUser] = useState<PublicUser | null>(null);
+  const [ready, setReady] = useState(false);
+
+  const clearSession = useCallback(() => {
+    setSessionToken(null);
+    sessionStorage.removeItem(TOKEN_KEY);
+    queryClient.clear();
+    setUser(null);
+  }, []);
+
+  const setSession = useCallback((session: LoginResponse) => {
+    setSessionToken(session.token);
+    sessionStorage.setItem(TOKEN_KEY, session.token);
+    setUser(session.user);
+  }, []);
+
+  useEffect(() => {
+    setUnauthorizedHandler(clearSession);
+    const token = sessionStorage.getItem(TOKEN_KEY);
+    if (!token) {
+      setReady(true);
+      return () => setUnauthorizedHandler(null);
+    }
+    setSessionToken(token);
+    apiRequest<PublicUser>("GET", "/api/auth/me")
+      .then(setUser)
+      .catch(() => clearSession())
+      .finally(() => setReady(true));
+    return () => setUnauthorizedHandler(null);
+  }, [clearSession]);
+
+  // Login is the one request sent without a token, so it does not go through apiRequest
+  const login = useCallback(async (username: string, password: string) => {
+    const res = await fetch(buildUrl("/api/auth/login"), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ username, password }),
+      cache: "no-store",
+    });
+    if (!res.ok) {
+      const body = await res.json().catch(() => null);
+      throw new Error(body?.message || (res.status === 429 ? "Too many login attempts, please try again later." : "Login failed"));
+    }
+    setSession(await res.json());
+  }, [setSession]);
+
+  const logout = useCallback(async () => {
+    try {
+      await apiRequest("POST", "/api/auth/logout");
+    } finally {
+      clearSession();
+    }
+  }, [clearSession]);
+
+  const can = useCallback((minimum: UserRole) => !!user && roleAtLeast(user.role, minimum), [user]);
+
+  return (
+    <AuthContext.Provider value={{ user, ready, login, logout, setSession, can }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) throw new Error("useAuth must be used within an AuthProvider");
+  return context;
+}
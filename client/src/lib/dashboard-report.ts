@@ -7,16 +7,31 @@ import type {
   Machine,
   Part,
   ScrapIncident,
+  ShiftCalendar,
 } from "@shared/schema";
+import { scrapIncidentStatusLabels } from "@shared/schema";
+import { formatTolerance } from "@shared/numeric";
+import {
+  emptyShiftCalendar,
+  formatShiftSlotLabel,
+  getIncidentShift,
+  isIncidentInWorkingTime,
+  OUTSIDE_SHIFTS_LABEL,
+  shiftBucketNames,
+  shiftSlotsBetween,
+} from "@/lib/shift-calendar";
 
 type DashboardReportData = {
-  machines: Machine[];
+  machines: Machine[];   // archived ones too; they only name past incidents
   cells: CellConfiguration[];
   parts: Part[];
   characteristics: Characteristic[];
   scrapIncidents: ScrapIncident[];
-  chartGranularity?: "day" | "week" | "month";
+  chartGranularity?: "day" | "week" | "month" | "shift";
   chartStartIndex?: number;
+  shiftCalendar?: ShiftCalendar;
+  // Drop incidents outside scheduled shifts from the time-bucketed sections
+  workingTimeOnly?: boolean;
 };
 
 const formatCurrency = (value: number) =>
@@ -31,6 +46,7 @@ type TimeRangeMetrics = {
   incidentCount: number;
   totalCost: number;
   totalQuantity: number;
+  byShift: Map<string, Omit<TimeRangeMetrics, "byShift">>;
 };
 
 type TrendPoint = {
@@ -47,7 +63,7 @@ const parseIncidentDate = (incident: ScrapIncident) => {
   return Number.isNaN(parsed.getTime()) ? null : parsed;
 };
 
-const getTimeRangeMetrics = (scrapIncidents: ScrapIncident[]) => {
+const getTimeRangeMetrics = (scrapIncidents: ScrapIncident[], shiftCalendar: ShiftCalendar) => {
   const now = new Date();
 
   const startOfWeek = new Date(now);
@@ -63,10 +79,15 @@ const getTimeRangeMetrics = (scrapIncidents: ScrapIncident[]) => {
     month: TimeRangeMetrics;
     year: TimeRangeMetrics;
   } = {
-    week: { incidentCount: 0, totalCost: 0, totalQuantity: 0 },
-    month: { incidentCount: 0, totalCost: 0, totalQuantity: 0 },
-    year: { incidentCount: 0, totalCost: 0, totalQuantity: 0 },
+    week: { incidentCount: 0, totalCost: 0, totalQuantity: 0, byShift: new Map() },
+    month: { incidentCount: 0, totalCost: 0, totalQuantity: 0, byShift: new Map() },
+    year: { incidentCount: 0, totalCost: 0, totalQuantity: 0, byShift: new Map() },
   };
+  shiftBucketNames(shiftCalendar).forEach((name) => {
+    metrics.week.byShift.set(name, { incidentCount: 0, totalCost: 0, totalQuantity: 0 });
+    metrics.month.byShift.set(name, { incidentCount: 0, totalCost: 0, totalQuantity: 0 });
+    metrics.year.byShift.set(name, { incidentCount: 0, totalCost: 0, totalQuantity: 0 });
+  });
 
   scrapIncidents.forEach((incident) => {
     const incidentDate = parseIncidentDate(incident);
@@ -74,29 +95,42 @@ const getTimeRangeMetrics = (scrapIncidents: ScrapIncident[]) => {
 
     const incidentCost = Number(incident.estimatedCost || 0);
     const quantity = Number(incident.quantity || 0);
+    const shiftName = getIncidentShift(incident, shiftCalendar)?.shiftName ?? OUTSIDE_SHIFTS_LABEL;
+    const add = (range: TimeRangeMetrics) => {
+      range.incidentCount += 1;
+      range.totalCost += incidentCost;
+      range.totalQuantity += quantity;
+      const shiftTotals = range.byShift.get(shiftName) ?? { incidentCount: 0, totalCost: 0, totalQuantity: 0 };
+      shiftTotals.incidentCount += 1;
+      shiftTotals.totalCost += incidentCost;
+      shiftTotals.totalQuantity += quantity;
+      range.byShift.set(shiftName, shiftTotals);
+    };
 
-    if (incidentDate >= startOfYear) {
-      metrics.year.incidentCount += 1;
-      metrics.year.totalCost += incidentCost;
-      metrics.year.totalQuantity += quantity;
-    }
-
-    if (incidentDate >= startOfMonth) {
-      metrics.month.incidentCount += 1;
-      metrics.month.totalCost += incidentCost;
-      metrics.month.totalQuantity += quantity;
-    }
-
-    if (incidentDate >= startOfWeek) {
-      metrics.week.incidentCount += 1;
-      metrics.week.totalCost += incidentCost;
-      metrics.week.totalQuantity += quantity;
-    }
+    if (incidentDate >= startOfYear) add(metrics.year);
+    if (incidentDate >= startOfMonth) add(metrics.month);
+    if (incidentDate >= startOfWeek) add(metrics.week);
   });
 
   return metrics;
 };
 
+// Period rows for the metrics tables, with an indented row per shift once shifts are configured
+const getTimeRangeRows = (metrics: ReturnType<typeof getTimeRangeMetrics>, shiftCalendar: ShiftCalendar) => {
+  const ranges: Array<[string, TimeRangeMetrics]> = [
+    ["This Week", metrics.week],
+    ["This Month", metrics.month],
+    ["This Year", metrics.year],
+  ];
+  return ranges.flatMap(([label, range]) => [
+    [label, range.incidentCount, range.totalQuantity, range.totalCost] as [string, number, number, number],
+    ...(shiftCalendar.shifts.length > 0
+      ? Array.from(range.byShift.entries()).map(([shiftName, totals]) =>
+        [`   ${shiftName}`, totals.incidentCount, totals.totalQuantity, totals.totalCost] as [string, number, number, number])
+      : []),
+  ]);
+};
+
 const getPartTrendByGranularity = (
   scrapIncidents: ScrapIncident[],
   partById: Map<string, Part>,
@@ -248,8 +282,9 @@ const getPartTrendByGranularity = (
 const getReportTrendFullHistory = (
   scrapIncidents: ScrapIncident[],
   partById: Map<string, Part>,
-  granularity: "day" | "week" | "month" = "month",
+  granularity: "day" | "week" | "month" | "shift" = "month",
   startIndex = 0,
+  shiftCalendar: ShiftCalendar = emptyShiftCalendar,
 ) => {
   const startOfDay = (date: Date) =>
     new Date(date.getFullYear(), date.getMonth(), date.getDate());
@@ -282,32 +317,47 @@ const getReportTrendFullHistory = (
     return date.toLocaleDateString(undefined, { month: "short", year: "2-digit" });
   };
 
+  // Shift buckets need a time of day, so incidents recorded with only a date drop out of them
   const datedIncidents = scrapIncidents
-    .map((incident) => ({ incident, date: parseIncidentDate(incident) }))
-    .filter((entry): entry is { incident: ScrapIncident; date: Date } => Boolean(entry.date))
+    .map((incident) => {
+      if (granularity === "shift") {
+        const slot = getIncidentShift(incident, shiftCalendar);
+        return { incident, date: slot?.start ?? null, periodKey: slot?.key ?? "" };
+      }
+      const date = parseIncidentDate(incident);
+      return { incident, date, periodKey: date ? toIsoDate(getPeriodStart(date)) : "" };
+    })
+    .filter((entry): entry is { incident: ScrapIncident; date: Date; periodKey: string } => Boolean(entry.date))
     .sort((left, right) => left.date.getTime() - right.date.getTime());
 
-  const nowMonth = getPeriodStart(new Date());
-  const firstMonth = datedIncidents.length > 0
-    ? getPeriodStart(datedIncidents[0].date)
-    : nowMonth;
-  const lastMonth = datedIncidents.length > 0
-    ? getPeriodStart(datedIncidents[datedIncidents.length - 1].date)
-    : nowMonth;
-
   const periods: Array<{ key: string; label: string }> = [];
-  const cursor = new Date(firstMonth);
-  while (cursor <= lastMonth) {
-    periods.push({
-      key: toIsoDate(cursor),
-      label: formatPeriodLabel(cursor),
-    });
-    if (granularity === "day") {
-      cursor.setDate(cursor.getDate() + 1);
-    } else if (granularity === "week") {
-      cursor.setDate(cursor.getDate() + 7);
-    } else {
-      cursor.setMonth(cursor.getMonth() + 1, 1);
+  if (granularity === "shift") {
+    if (datedIncidents.length > 0) {
+      shiftSlotsBetween(datedIncidents[0].date, datedIncidents[datedIncidents.length - 1].date, shiftCalendar)
+        .forEach((slot) => periods.push({ key: slot.key, label: formatShiftSlotLabel(slot) }));
+    }
+  } else {
+    const nowMonth = getPeriodStart(new Date());
+    const firstMonth = datedIncidents.length > 0
+      ? getPeriodStart(datedIncidents[0].date)
+      : nowMonth;
+    const lastMonth = datedIncidents.length > 0
+      ? getPeriodStart(datedIncidents[datedIncidents.length - 1].date)
+      : nowMonth;
+
+    const cursor = new Date(firstMonth);
+    while (cursor <= lastMonth) {
+      periods.push({
+        key: toIsoDate(cursor),
+        label: formatPeriodLabel(cursor),
+      });
+      if (granularity === "day") {
+        cursor.setDate(cursor.getDate() + 1);
+      } else if (granularity === "week") {
+        cursor.setDate(cursor.getDate() + 7);
+      } else {
+        cursor.setMonth(cursor.getMonth() + 1, 1);
+      }
     }
   }
 
@@ -318,8 +368,7 @@ const getReportTrendFullHistory = (
   const periodPartTotals = new Map<string, Map<string, number>>();
   const partTotals = new Map<string, number>();
 
-  datedIncidents.forEach(({ incident, date }) => {
-    const periodKey = toIsoDate(getPeriodStart(date));
+  datedIncidents.forEach(({ incident, periodKey }) => {
     const partNumber = incident.partId ? (partById.get(incident.partId)?.partNumber || "Unknown Part") : "Unassigned";
     const incidentCost = Number(incident.estimatedCost || 0);
 
@@ -668,13 +717,15 @@ const getCellBottleneckSummary = (cell: CellConfiguration, machineById: Map<stri
 
 export function exportDashboardStatusPdf(data: DashboardReportData) {
   const {
-    machines,
+    machines: allMachines,
     cells,
     parts,
     characteristics,
     scrapIncidents,
     chartGranularity = "day",
     chartStartIndex = 0,
+    shiftCalendar = emptyShiftCalendar,
+    workingTimeOnly = false,
   } = data;
   const generatedAt = new Date();
   const doc = new jsPDF({ orientation: "landscape", unit: "pt", format: "a4" });
@@ -682,10 +733,14 @@ export function exportDashboardStatusPdf(data: DashboardReportData) {
   const pageHeight = doc.internal.pageSize.getHeight();
   const marginX = 36;
 
+  const machines = allMachines.filter((machine) => !machine.isArchived);
   const partById = new Map(parts.map((part) => [part.id, part]));
-  const machineById = new Map(machines.map((machine) => [machine.id, machine]));
-  const timeRangeMetrics = getTimeRangeMetrics(scrapIncidents);
-  const trend = getReportTrendFullHistory(scrapIncidents, partById, chartGranularity, chartStartIndex);
+  const machineById = new Map(allMachines.map((machine) => [machine.id, machine]));
+  const timeBucketIncidents = workingTimeOnly
+    ? scrapIncidents.filter((incident) => isIncidentInWorkingTime(incident, shiftCalendar))
+    : scrapIncidents;
+  const timeRangeMetrics = getTimeRangeMetrics(timeBucketIncidents, shiftCalendar);
+  const trend = getReportTrendFullHistory(timeBucketIncidents, partById, chartGranularity, chartStartIndex, shiftCalendar);
   const statusCounts = getMachineStatusCounts(machines);
   const openIncidents = scrapIncidents.filter((incident) => incident.status !== "closed");
   const totalIncidentCost = scrapIncidents.reduce((sum, incident) => sum + Number(incident.estimatedCost || 0), 0);
@@ -700,7 +755,7 @@ export function exportDashboardStatusPdf(data: DashboardReportData) {
     .slice(0, 10);
 
   const cellMachineSummary = cells.map((cell) => {
-    const cellMachines = machines.filter((machine) => machine.cell === cell.name);
+    const cellMachines = machines.filter((machine) => machine.cellId === cell.id);
     const operationSummary = getCellOperationSummary(cell);
     const bottleneck = getCellBottleneckSummary(cell, machineById);
     return {
@@ -738,7 +793,7 @@ export function exportDashboardStatusPdf(data: DashboardReportData) {
   doc.setFont("helvetica", "bold");
   doc.setFontSize(11);
   doc.setTextColor(15, 23, 42);
-  doc.text("Scrap Trend Metrics", marginX, colStartY);
+  doc.text(workingTimeOnly ? "Scrap Trend Metrics (Working Time Only)" : "Scrap Trend Metrics", marginX, colStartY);
 
   autoTable(doc, {
     startY: colStartY + 8,
@@ -748,11 +803,12 @@ export function exportDashboardStatusPdf(data: DashboardReportData) {
     margin: { left: marginX, right: pageWidth - marginX - leftColWidth },
     tableWidth: leftColWidth,
     head: [["Period", "Incidents", "Scrap Qty", "Scrap Cost"]],
-    body: [
-      ["This Week", safeText(timeRangeMetrics.week.incidentCount), safeText(timeRangeMetrics.week.totalQuantity), formatCurrency(timeRangeMetrics.week.totalCost)],
-      ["This Month", safeText(timeRangeMetrics.month.incidentCount), safeText(timeRangeMetrics.month.totalQuantity), formatCurrency(timeRangeMetrics.month.totalCost)],
-      ["This Year", safeText(timeRangeMetrics.year.incidentCount), safeText(timeRangeMetrics.year.totalQuantity), formatCurrency(timeRangeMetrics.year.totalCost)],
-    ],
+    body: getTimeRangeRows(timeRangeMetrics, shiftCalendar).map(([label, incidentCount, totalQuantity, totalCost]) => [
+      label,
+      safeText(incidentCount),
+      safeText(totalQuantity),
+      formatCurrency(totalCost),
+    ]),
   });
 
   const metricsTableBottom = (doc as any).lastAutoTable?.finalY ?? (colStartY + 8);
@@ -855,7 +911,13 @@ export function exportDashboardStatusPdf(data: DashboardReportData) {
   doc.setFont("helvetica", "bold");
   doc.setFontSize(11);
   doc.setTextColor(15, 23, 42);
-  const granularityLabel = chartGranularity === "day" ? "Daily" : chartGranularity === "week" ? "Weekly" : "Monthly";
+  const granularityLabel = chartGranularity === "day"
+    ? "Daily"
+    : chartGranularity === "week"
+      ? "Weekly"
+      : chartGranularity === "shift"
+        ? "Per-Shift"
+        : "Monthly";
   const trendStartLabel = trend.points[0]?.period || "-";
   const trendEndLabel = trend.points[trend.points.length - 1]?.period || "-";
   doc.text(`${granularityLabel} Scrap Cost by Part with Accumulated Trendlines (${trendStartLabel} → ${trendEndLabel})`, marginX, 74);
@@ -948,7 +1010,7 @@ export function exportDashboardStatusPdf(data: DashboardReportData) {
     theme: "striped",
     headStyles: { fillColor: [124, 58, 237], textColor: 255 },
     styles: { fontSize: 8, cellPadding: 4 },
-    head: [["Part Number", "Characteristic No.", "Name", "Nominal", "Min", "Max", "Tolerance", "Operation"]],
+    head: [["Part Number", "Characteristic No.", "Name", "Nominal", "Min", "Max", "Tolerance", "Unit", "Operation"]],
     body: characteristics.length > 0
       ? characteristics.map((characteristic) => [
           characteristic.partId ? (partById.get(characteristic.partId)?.partNumber || "-") : "-",
@@ -957,10 +1019,11 @@ export function exportDashboardStatusPdf(data: DashboardReportData) {
           safeText(characteristic.nominalValue),
           safeText(characteristic.charMin),
           safeText(characteristic.charMax),
-          safeText(characteristic.tolerance),
+          safeText(formatTolerance(characteristic.toleranceUpper, characteristic.toleranceLower)),
+          safeText(characteristic.unit),
           safeText(characteristic.opName),
         ])
-      : [["No characteristics", "-", "-", "-", "-", "-", "-", "-"]],
+      : [["No characteristics", "-", "-", "-", "-", "-", "-", "-", "-"]],
   });
 
   renderPagedTableSection(doc, {
@@ -977,7 +1040,7 @@ export function exportDashboardStatusPdf(data: DashboardReportData) {
           const machine = machineById.get(incident.machineId);
           const part = incident.partId ? partById.get(incident.partId) : undefined;
           return [
-            incident.status,
+            scrapIncidentStatusLabels[incident.status] ?? incident.status,
             machine?.machineId || machine?.name || incident.machineId,
             safeText(machine?.cell),
             part?.partNumber || "-",
@@ -1007,17 +1070,24 @@ export function exportDashboardStatusPdf(data: DashboardReportData) {
 
 export function exportDashboardStatusExcel(data: DashboardReportData) {
   const {
-    machines,
+    machines: allMachines,
     cells,
     parts,
     characteristics,
     scrapIncidents,
+    chartGranularity = "day",
+    shiftCalendar = emptyShiftCalendar,
+    workingTimeOnly = false,
   } = data;
 
+  const machines = allMachines.filter((machine) => !machine.isArchived);
   const partById = new Map(parts.map((part) => [part.id, part]));
-  const machineById = new Map(machines.map((machine) => [machine.id, machine]));
-  const timeRangeMetrics = getTimeRangeMetrics(scrapIncidents);
-  const trend = getReportTrendFullHistory(scrapIncidents, partById, "day");
+  const machineById = new Map(allMachines.map((machine) => [machine.id, machine]));
+  const timeBucketIncidents = workingTimeOnly
+    ? scrapIncidents.filter((incident) => isIncidentInWorkingTime(incident, shiftCalendar))
+    : scrapIncidents;
+  const timeRangeMetrics = getTimeRangeMetrics(timeBucketIncidents, shiftCalendar);
+  const trend = getReportTrendFullHistory(timeBucketIncidents, partById, chartGranularity, 0, shiftCalendar);
   const statusCounts = getMachineStatusCounts(machines);
   const openIncidents = scrapIncidents.filter((incident) => incident.status !== "closed");
   const totalIncidentCost = scrapIncidents.reduce((sum, incident) => sum + Number(incident.estimatedCost || 0), 0);
@@ -1032,7 +1102,7 @@ export function exportDashboardStatusExcel(data: DashboardReportData) {
     .slice(0, 10);
 
   const cellMachineSummary = cells.map((cell) => {
-    const cellMachines = machines.filter((machine) => machine.cell === cell.name);
+    const cellMachines = machines.filter((machine) => machine.cellId === cell.id);
     const operationSummary = getCellOperationSummary(cell);
     const bottleneck = getCellBottleneckSummary(cell, machineById);
     return {
@@ -1052,11 +1122,7 @@ export function exportDashboardStatusExcel(data: DashboardReportData) {
 
   const workbook = XLSX.utils.book_new();
 
-  appendSheetFromRows(workbook, "Trend Metrics", ["Period", "Incidents", "Scrap Qty", "Scrap Cost"], [
-    ["This Week", timeRangeMetrics.week.incidentCount, timeRangeMetrics.week.totalQuantity, timeRangeMetrics.week.totalCost],
-    ["This Month", timeRangeMetrics.month.incidentCount, timeRangeMetrics.month.totalQuantity, timeRangeMetrics.month.totalCost],
-    ["This Year", timeRangeMetrics.year.incidentCount, timeRangeMetrics.year.totalQuantity, timeRangeMetrics.year.totalCost],
-  ]);
+  appendSheetFromRows(workbook, "Trend Metrics", ["Period", "Incidents", "Scrap Qty", "Scrap Cost"], getTimeRangeRows(timeRangeMetrics, shiftCalendar));
 
   appendSheetFromRows(workbook, "Totals", ["Metric", "Value"], [
     ["Machines", machines.length],
@@ -1167,7 +1233,7 @@ export function exportDashboardStatusExcel(data: DashboardReportData) {
   appendSheetFromRows(
     workbook,
     "Characteristics",
-    ["Part Number", "Characteristic No.", "Name", "Nominal", "Min", "Max", "Tolerance", "Operation"],
+    ["Part Number", "Characteristic No.", "Name", "Nominal", "Min", "Max", "Tolerance", "Unit", "Operation"],
     characteristics.length > 0
       ? characteristics.map((characteristic) => [
           characteristic.partId ? (partById.get(characteristic.partId)?.partNumber || "-") : "-",
@@ -1176,10 +1242,11 @@ export function exportDashboardStatusExcel(data: DashboardReportData) {
           characteristic.nominalValue,
           characteristic.charMin,
           characteristic.charMax,
-          characteristic.tolerance,
+          formatTolerance(characteristic.toleranceUpper, characteristic.toleranceLower),
+          characteristic.unit,
           characteristic.opName,
         ])
-      : [["No characteristics", "-", "-", "-", "-", "-", "-", "-"]],
+      : [["No characteristics", "-", "-", "-", "-", "-", "-", "-", "-"]],
   );
 
   appendSheetFromRows(
@@ -1191,7 +1258,7 @@ export function exportDashboardStatusExcel(data: DashboardReportData) {
           const machine = machineById.get(incident.machineId);
           const part = incident.partId ? partById.get(incident.partId) : undefined;
           return [
-            incident.status,
+            scrapIncidentStatusLabels[incident.status] ?? incident.status,
             machine?.machineId || machine?.name || incident.machineId,
             machine?.cell || "-",
             part?.partNumber || "-",
@@ -0,0 +1,253 @@
+/**
+ * Export a printable HTML report of a Gauge R&R study, laid out like the SPC report.
+ */
+
+import type { GaugeRrComponents, GaugeRrResult, GaugeStudy } from '@shared/schema';
+import { withUnit } from '@shared/units';
+
+export interface GaugeRrReportOptions {
+  study: GaugeStudy;
+  result: GaugeRrResult;
+  charNumber: string;
+  charName: string;
+  partNumber: string;
+  partName: string;
+  unit?: string | null;
+}
+
+// AIAG guidance: under 10% acceptable, 10–30% may be acceptable for the application, over 30% not
+export function grrVerdict(percent: number | null): { label: string; color: string } {
+  if (percent === null) return { label: '—', color: '#666' };
+  if (percent < 10) return { label: 'Acceptable', color: '#16a34a' };
+  if (percent <= 30) return { label: 'Marginal', color: '#f59e0b' };
+  return { label: 'Unacceptable', color: '#ef4444' };
+}
+
+// Five or more distinct categories are needed for the gauge to separate parts
+export const ndcColor = (ndc: number | null) => (ndc === null ? '#666' : ndc >= 5 ? '#16a34a' : '#ef4444');
+
+function esc(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function fmtNum(v: number | null, digits = 3): string {
+  if (v === null || v === undefined || !Number.isFinite(v)) return '—';
+  return v.toFixed(digits);
+}
+
+const fmtPercent = (v: number | null) => (v === null ? '—' : `${v.toFixed(1)}%`);
+
+// Operator averages per part, one line per operator
+function buildOperatorChartSvg(study: GaugeStudy, readings: number[][][]): string {
+  const W = 760, H = 240, PAD_L = 60, PAD_R = 110, PAD_T = 20, PAD_B = 36;
+  const colors = ['#2563eb', '#16a34a', '#f59e0b', '#ef4444', '#8b5cf6', '#0891b2', '#db2777', '#65a30d', '#ea580c', '#475569'];
+  const averages = readings.map((byPart) => byPart.map((trials) => trials.reduce((sum, v) => sum + v, 0) / trials.length));
+  const all = averages.flat();
+  let min = Math.min(...all);
+  let max = Math.max(...all);
+  if (max === min) { max += 1; min -= 1; }
+  const pad = (max - min) * 0.1;
+  min -= pad; max += pad;
+  const x = (part: number) => PAD_L + (study.partCount === 1 ? 0 : (part / (study.partCount - 1)) * (W - PAD_L - PAD_R));
+  const y = (v: number) => PAD_T + (1 - (v - min) / (max - min)) * (H - PAD_T - PAD_B);
+
+  const ticks = [0, 0.25, 0.5, 0.75, 1].map((t) => min + t * (max - min));
+  const grid = ticks.map((t) => `<line x1="${PAD_L}" x2="${W - PAD_R}" y1="${y(t)}" y2="${y(t)}" stroke="#f3f4f6"/>
+    <text x="${PAD_L - 6}" y="${y(t) + 3}" font-size="10" text-anchor="end" fill="#666">${fmtNum(t)}</text>`).join('');
+  const xLabels = Array.from({ length: study.partCount }, (_, part) =>
+    `<text x="${x(part)}" y="${H - PAD_B + 14}" font-size="10" text-anchor="middle" fill="#666">${part + 1}</text>`).join('');
+  const lines = averages.map((byPart, operator) => {
+    const color = colors[operator % colors.length];
+    const points = byPart.map((v, part) => `${x(part)},${y(v)}`).join(' ');
+    const dots = byPart.map((v, part) => `<circle cx="${x(part)}" cy="${y(v)}" r="3" fill="${color}"/>`).join('');
+    const legendY = PAD_T + operator * 16;
+    return `<polyline points="${points}" fill="none" stroke="${color}" stroke-width="1.5"/>${dots}
+      <rect x="${W - PAD_R + 12}" y="${legendY}" width="10" height="10" fill="${color}"/>
+      <text x="${W - PAD_R + 26}" y="${legendY + 9}" font-size="11" fill="#333">${esc(study.operators[operator])}</text>`;
+  }).join('');
+
+  return `<svg width="${W}" height="${H}" viewBox="0 0 ${W} ${H}" xmlns="http://www.w3.org/2000/svg">
+    ${grid}${xLabels}${lines}
+    <text x="${(PAD_L + W - PAD_R) / 2}" y="${H - 4}" font-size="11" text-anchor="middle" fill="#555">Part</text>
+  </svg>`;
+}
+
+function componentsTable(components: GaugeRrComponents, fmtMeasure: (v: number | null) => string): string {
+  const rows: [string, number, number | null][] = [
+    ['Repeatability (EV)', components.repeatability, components.percentRepeatability],
+    ['Reproducibility (AV)', components.reproducibility, components.percentReproducibility],
+    ['Gauge R&R (GRR)', components.grr, components.percentGrr],
+    ['Part variation (PV)', components.partVariation, components.percentPartVariation],
+    ['Total variation (TV)', components.totalVariation, 100],
+  ];
+  return `<table>
+    <thead><tr><th>Source</th><th>Std dev</th><th>Study var (6σ)</th><th>% Study var</th></tr></thead>
+    <tbody>
+      ${rows.map(([label, sigma, percent]) => `<tr>
+        <td>${label}</td><td>${fmtMeasure(sigma)}</td><td>${fmtMeasure(6 * sigma)}</td><td>${fmtPercent(percent)}</td>
+      </tr>`).join('\n      ')}
+    </tbody>
+  </table>
+  <p class="note">%Tolerance: ${fmtPercent(components.percentTolerance)} &nbsp;|&nbsp; ndc: ${components.ndc ?? '—'}</p>`;
+}
+
+export function exportGaugeRrHtml(opts: GaugeRrReportOptions): void {
+  const { study, result, charNumber, charName, partNumber, partName, unit = null } = opts;
+  const fmtMeasure = (v: number | null, digits = 4) => (v === null || !Number.isFinite(v) ? '—' : esc(withUnit(fmtNum(v, digits), unit)));
+
+  if (!result.complete || !result.averageRange || !result.anova) {
+    alert(`The study still has ${result.missingReadings} blank reading(s).`);
+    return;
+  }
+  const readings = study.readings as number[][][];
+  const { averageRange, anova } = result;
+  const anovaVerdict = grrVerdict(anova.percentGrr);
+  const toleranceVerdict = grrVerdict(anova.percentTolerance);
+
+  const title = `Gauge R&R Report — ${esc(study.name)}`;
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8"/>
+<title>${title}</title>
+<style>
+  * { box-sizing: border-box; margin: 0; padding: 0; }
+  body { font-family: system-ui, -apple-system, sans-serif; color: #111; background: #fff; padding: 24px; max-width: 820px; margin: 0 auto; }
+  h1 { font-size: 20px; margin-bottom: 4px; }
+  .subtitle { font-size: 13px; color: #555; margin-bottom: 20px; }
+  .info-grid { display: grid; grid-template-columns: 1fr 1fr 1fr; gap: 8px 24px; margin-bottom: 20px; font-size: 13px; }
+  .info-grid dt { color: #666; }
+  .info-grid dd { font-weight: 600; margin: 0 0 6px 0; }
+  .section { margin-bottom: 24px; }
+  .section-title { font-size: 15px; font-weight: 600; margin-bottom: 8px; border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; }
+  .metrics-grid { display: grid; grid-template-columns: repeat(4, 1fr); gap: 12px; margin-bottom: 20px; }
+  .metric-card { border: 1px solid #e5e7eb; border-radius: 6px; padding: 10px 12px; text-align: center; }
+  .metric-card .label { font-size: 11px; color: #666; text-transform: uppercase; letter-spacing: 0.5px; }
+  .metric-card .value { font-size: 20px; font-weight: 700; margin-top: 2px; }
+  .metric-card .verdict { font-size: 11px; margin-top: 2px; }
+  .chart-container { margin-bottom: 16px; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; }
+  th { text-align: left; padding: 6px 8px; background: #f9fafb; border-bottom: 2px solid #e5e7eb; font-weight: 600; color: #555; }
+  td { padding: 6px 8px; border-bottom: 1px solid #f3f4f6; }
+  tr:nth-child(even) td { background: #fafbfc; }
+  .note { font-size: 12px; color: #555; margin-top: 6px; }
+  .footer { margin-top: 24px; text-align: center; font-size: 11px; color: #aaa; }
+  @media print {
+    body { padding: 12px; }
+    @page { margin: 0.5in; }
+  }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<div class="subtitle">
+  Char #${esc(charNumber)}${charName ? ' — ' + esc(charName) : ''} &nbsp;|&nbsp; Part: ${esc(partNumber)}${partName ? ' — ' + esc(partName) : ''}
+  &nbsp;|&nbsp; Generated: ${new Date().toLocaleString()}
+</div>
+
+<div class="info-grid">
+  <div><dt>Gauge</dt><dd>${esc(study.gaugeName)}</dd></div>
+  <div><dt>Operators</dt><dd>${study.operators.map(esc).join(', ')}</dd></div>
+  <div><dt>Parts × Trials</dt><dd>${study.partCount} × ${study.trialCount}</dd></div>
+  <div><dt>Unit</dt><dd>${unit ? esc(unit) : '—'}</dd></div>
+  <div><dt>Tolerance (Max − Min)</dt><dd>${fmtMeasure(result.tolerance)}</dd></div>
+  <div><dt>Interaction</dt><dd>${anova.interactionPooled ? 'Not significant, pooled' : 'Significant'}</dd></div>
+</div>
+
+<div class="metrics-grid">
+  <div class="metric-card">
+    <div class="label">%GRR (ANOVA)</div>
+    <div class="value" style="color:${anovaVerdict.color}">${fmtPercent(anova.percentGrr)}</div>
+    <div class="verdict" style="color:${anovaVerdict.color}">${anovaVerdict.label}</div>
+  </div>
+  <div class="metric-card">
+    <div class="label">%GRR (Avg &amp; R)</div>
+    <div class="value" style="color:${grrVerdict(averageRange.percentGrr).color}">${fmtPercent(averageRange.percentGrr)}</div>
+    <div class="verdict" style="color:${grrVerdict(averageRange.percentGrr).color}">${grrVerdict(averageRange.percentGrr).label}</div>
+  </div>
+  <div class="metric-card">
+    <div class="label">%Tolerance</div>
+    <div class="value" style="color:${toleranceVerdict.color}">${fmtPercent(anova.percentTolerance)}</div>
+    <div class="verdict" style="color:${toleranceVerdict.color}">${toleranceVerdict.label}</div>
+  </div>
+  <div class="metric-card">
+    <div class="label">ndc</div>
+    <div class="value" style="color:${ndcColor(anova.ndc)}">${anova.ndc ?? '—'}</div>
+    <div class="verdict" style="color:${ndcColor(anova.ndc)}">${anova.ndc !== null && anova.ndc >= 5 ? 'Adequate' : 'Too few'}</div>
+  </div>
+</div>
+
+<div class="section">
+  <div class="section-title">ANOVA Method</div>
+  <table>
+    <thead><tr><th>Source</th><th>DF</th><th>SS</th><th>MS</th><th>F</th><th>P</th></tr></thead>
+    <tbody>
+      ${anova.table.map((row) => `<tr>
+        <td>${row.source}</td><td>${row.df}</td><td>${fmtNum(row.ss, 5)}</td><td>${fmtNum(row.ms, 5)}</td>
+        <td>${fmtNum(row.f, 3)}</td><td>${fmtNum(row.p, 3)}</td>
+      </tr>`).join('\n      ')}
+    </tbody>
+  </table>
+  <p class="note">Part × Operator interactions with P &gt; 0.25 are pooled into repeatability.</p>
+  <div style="height:12px"></div>
+  ${componentsTable(anova, fmtMeasure)}
+</div>
+
+<div class="section">
+  <div class="section-title">Average and Range Method</div>
+  ${componentsTable(averageRange, fmtMeasure)}
+</div>
+
+<div class="section">
+  <div class="section-title">Operator Averages by Part</div>
+  <div class="chart-container">${buildOperatorChartSvg(study, readings)}</div>
+  <table>
+    <thead><tr><th>Operator</th><th>Average</th><th>Average range</th></tr></thead>
+    <tbody>
+      ${study.operators.map((operator, index) => `<tr>
+        <td>${esc(operator)}</td><td>${fmtMeasure(result.operatorAverages[index])}</td><td>${fmtMeasure(result.operatorRanges[index])}</td>
+      </tr>`).join('\n      ')}
+    </tbody>
+  </table>
+</div>
+
+<div class="section">
+  <div class="section-title">Data</div>
+  <table>
+    <thead>
+      <tr>
+        <th>Operator</th>
+        <th>Trial</th>
+        ${Array.from({ length: study.partCount }, (_, part) => `<th>Part ${part + 1}</th>`).join('')}
+      </tr>
+    </thead>
+    <tbody>
+      ${readings.map((byPart, operator) => Array.from({ length: study.trialCount }, (_, trial) => `<tr>
+        <td>${trial === 0 ? esc(study.operators[operator]) : ''}</td><td>${trial + 1}</td>
+        ${byPart.map((trials) => `<td>${fmtNum(trials[trial], 4)}</td>`).join('')}
+      </tr>`).join('\n      ')).join('\n      ')}
+      <tr>
+        <td><strong>Part average</strong></td><td></td>
+        ${result.partAverages.map((v) => `<td><strong>${fmtNum(v, 4)}</strong></td>`).join('')}
+      </tr>
+    </tbody>
+  </table>
+</div>
+
+${study.notes ? `<div class="section"><div class="section-title">Notes</div><p class="note">${esc(study.notes)}</p></div>` : ''}
+
+<div class="footer">CellStatus Gauge R&amp;R Report</div>
+</body>
+</html>`;
+
+  const blob = new Blob([html], { type: 'text/html;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `GRR_${study.name.replace(/[^\w-]+/g, '_') || 'study'}.html`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
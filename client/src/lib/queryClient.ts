@@ -4,7 +4,7 @@ import { QueryClient, QueryFunction } from "@tanstack/react-query";
 // Set at build time: VITE_API_BASE_URL=https://your-backend.example.com npm run build
 const API_BASE = (import.meta.env.VITE_API_BASE_URL || "").replace(/\/$/, "");
 
-function buildUrl(path: string) {
+export function buildUrl(path: string) {
   if (!API_BASE) return path; // relative same-origin fallback
   if (path.startsWith("http://") || path.startsWith("https://")) return path;
   const normalized = path.startsWith("/") ? path : `/${path}`;
@@ -12,18 +12,20 @@ function buildUrl(path: string) {
 }
 
 
-// Store API password in memory (set after login)
-let apiPassword: string | null = null;
-export function setApiPassword(pw: string) {
-  apiPassword = pw;
-  console.log("[setApiPassword] Password set:", pw);
+// Session token from /api/auth/login, kept in memory and sent as a bearer token
+let sessionToken: string | null = null;
+export function setSessionToken(token: string | null) {
+  sessionToken = token;
 }
-function getApiPassword() {
-  console.log("[getApiPassword] Current password:", apiPassword);
-  return apiPassword;
+
+// Called when the server rejects the session (expired, logged out elsewhere, user deactivated)
+let onUnauthorized: (() => void) | null = null;
+export function setUnauthorizedHandler(handler: (() => void) | null) {
+  onUnauthorized = handler;
 }
 
 async function throwIfResNotOk(res: Response) {
+  if (res.status === 401) onUnauthorized?.();
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
     throw new Error(`${res.status}: ${text}`);
@@ -41,13 +43,10 @@ export async function apiRequest<T = any>(
   let lastError: Error | null = null;
   while (attempt < maxAttempts) {
     const headers: Record<string, string> = data ? { "Content-Type": "application/json" } : {};
-    const pw = getApiPassword();
-    if (!pw) {
-      console.warn("API password missing, blocking request and forcing login.");
-      throw new Error("Not authenticated: API password missing");
+    if (!sessionToken) {
+      throw new Error("Not authenticated: no session");
     }
-    headers["x-api-password"] = pw;
-    console.log("[apiRequest] Sending x-api-password:", pw);
+    headers["Authorization"] = `Bearer ${sessionToken}`;
     const res = await fetch(buildUrl(url), {
       method,
       headers,
@@ -71,6 +70,7 @@ export async function apiRequest<T = any>(
       const isServerError = res.status >= 500;
       const shouldRetry = isRateLimit || isServerError;
 
+      if (res.status === 401) onUnauthorized?.();
       const text = (await res.text()) || res.statusText;
       lastError = new Error(`${res.status}: ${text}`);
 
@@ -107,10 +107,8 @@ export const getQueryFn: <T>(options: {
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
     const url = queryKey.join("/") as string;
-    const pw = getApiPassword();
-    if (!pw) {
-      console.warn("getQueryFn: API password missing");
-      throw new Error("Not authenticated: API password missing");
+    if (!sessionToken) {
+      throw new Error("Not authenticated: no session");
     }
 
     const res = await fetch(buildUrl(url), {
@@ -119,11 +117,12 @@ export const getQueryFn: <T>(options: {
       headers: {
         "Pragma": "no-cache",
         "Cache-Control": "no-store",
-        "x-api-password": pw,
+        "Authorization": `Bearer ${sessionToken}`,
       },
     });
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
+      onUnauthorized?.();
       return null;
     }
 
@@ -0,0 +1,135 @@
+import type { ScrapIncident, ShiftCalendar, ShiftDefinition } from "@shared/schema";
+
+// One worked occurrence of a shift. `date` is the local day the shift started on,
+// which is also the day an overnight shift is reported against.
+export type ShiftSlot = {
+  key: string;
+  shiftId: string;
+  shiftName: string;
+  date: string;
+  start: Date;
+  end: Date;
+};
+
+export const OUTSIDE_SHIFTS_LABEL = "Outside shifts";
+
+export const toDateKey = (date: Date) => {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+};
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const atClock = (day: Date, clock: string) => {
+  const [hours, minutes] = clock.split(":").map(Number);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes);
+};
+
+export const sortShifts = (shifts: ShiftDefinition[]) =>
+  [...shifts].sort((left, right) => left.sortOrder - right.sortOrder || left.startTime.localeCompare(right.startTime));
+
+export const isHoliday = (dateKey: string, calendar: ShiftCalendar) =>
+  calendar.holidays.some((holiday) => holiday.date === dateKey);
+
+const worksOn = (shift: ShiftDefinition, day: Date, calendar: ShiftCalendar) =>
+  shift.workingDays.includes(day.getDay()) && !isHoliday(toDateKey(day), calendar);
+
+const slotFor = (shift: ShiftDefinition, day: Date): ShiftSlot => {
+  const start = atClock(day, shift.startTime);
+  const sameDayEnd = atClock(day, shift.endTime);
+  const end = sameDayEnd > start ? sameDayEnd : atClock(addDays(day, 1), shift.endTime);
+  const date = toDateKey(day);
+  return { key: `${date}#${shift.id}`, shiftId: shift.id, shiftName: shift.name, date, start, end };
+};
+
+// The shift being worked at `at`, checking yesterday's shifts too for overnight ones
+export function resolveShift(at: Date, calendar: ShiftCalendar): ShiftSlot | null {
+  const today = startOfDay(at);
+  for (const day of [addDays(today, -1), today]) {
+    for (const shift of sortShifts(calendar.shifts)) {
+      if (!worksOn(shift, day, calendar)) continue;
+      const slot = slotFor(shift, day);
+      if (at >= slot.start && at < slot.end) return slot;
+    }
+  }
+  return null;
+}
+
+// Every worked shift that overlaps [from, to], in chronological order
+export function shiftSlotsBetween(from: Date, to: Date, calendar: ShiftCalendar): ShiftSlot[] {
+  const slots: ShiftSlot[] = [];
+  const shifts = sortShifts(calendar.shifts);
+  for (let day = addDays(startOfDay(from), -1); day <= to; day = addDays(day, 1)) {
+    shifts.forEach((shift) => {
+      if (!worksOn(shift, day, calendar)) return;
+      const slot = slotFor(shift, day);
+      if (slot.end > from && slot.start <= to) slots.push(slot);
+    });
+  }
+  return slots.sort((left, right) => left.start.getTime() - right.start.getTime());
+}
+
+export const formatShiftSlotLabel = (slot: ShiftSlot) =>
+  `${slot.start.toLocaleDateString(undefined, { month: "short", day: "numeric", year: "2-digit" })} ${slot.shiftName}`;
+
+// Without any shifts configured every non-holiday hour counts as working time
+export function isWorkingTime(at: Date, calendar: ShiftCalendar): boolean {
+  if (calendar.shifts.length === 0) return !isHoliday(toDateKey(at), calendar);
+  return resolveShift(at, calendar) !== null;
+}
+
+export function isWorkingDay(dateKey: string, calendar: ShiftCalendar): boolean {
+  const [y, m, d] = dateKey.split("-").map(Number);
+  const day = new Date(y, m - 1, d);
+  if (calendar.shifts.length === 0) return !isHoliday(dateKey, calendar);
+  return calendar.shifts.some((shift) => worksOn(shift, day, calendar));
+}
+
+// When an incident happened. The form records `dateCreated` as a bare date, so the time of day
+// is only known when the entry's `createdAt` falls on that same date (entered at the time).
+export function getIncidentOccurrence(incident: ScrapIncident): { at: Date; dateKey: string; timeKnown: boolean } | null {
+  const rawDate = incident.dateCreated || incident.createdAt || incident.updatedAt;
+  if (!rawDate) return null;
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(rawDate)) {
+    const createdAt = incident.createdAt ? new Date(incident.createdAt) : null;
+    if (createdAt && !Number.isNaN(createdAt.getTime()) && toDateKey(createdAt) === rawDate) {
+      return { at: createdAt, dateKey: rawDate, timeKnown: true };
+    }
+    // A bare date is a local day; `new Date(rawDate)` would read it as UTC midnight
+    const [y, m, d] = rawDate.split("-").map(Number);
+    const at = new Date(y, m - 1, d);
+    return Number.isNaN(at.getTime()) ? null : { at, dateKey: rawDate, timeKnown: false };
+  }
+
+  const at = new Date(rawDate);
+  return Number.isNaN(at.getTime()) ? null : { at, dateKey: toDateKey(at), timeKnown: true };
+}
+
+// Incidents with no known time of day are judged by whether their date was a working day
+export function isIncidentInWorkingTime(incident: ScrapIncident, calendar: ShiftCalendar): boolean {
+  const occurrence = getIncidentOccurrence(incident);
+  if (!occurrence) return false;
+  return occurrence.timeKnown
+    ? isWorkingTime(occurrence.at, calendar)
+    : isWorkingDay(occurrence.dateKey, calendar);
+}
+
+export function getIncidentShift(incident: ScrapIncident, calendar: ShiftCalendar): ShiftSlot | null {
+  const occurrence = getIncidentOccurrence(incident);
+  if (!occurrence?.timeKnown) return null;
+  return resolveShift(occurrence.at, calendar);
+}
+
+// Shift names in calendar order followed by the catch-all bucket, for per-shift breakdowns
+export const shiftBucketNames = (calendar: ShiftCalendar) => [
+  ...sortShifts(calendar.shifts).map((shift) => shift.name),
+  OUTSIDE_SHIFTS_LABEL,
+];
+
+export const emptyShiftCalendar: ShiftCalendar = { shifts: [], holidays: [] };
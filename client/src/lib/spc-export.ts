@@ -2,14 +2,18 @@
  * Export a printable HTML file with SPC charts and metrics for a single characteristic.
  */
 
+import type { AttributeChartType } from '@shared/schema';
+import { withUnit } from '@shared/units';
+
 export interface SpcExportRecord {
   machineId: string;
   machineName?: string;
-  measuredValue: string;
-  charMax?: string;
-  charMin?: string;
+  measuredValue: number | null;
+  charMax?: number | null;
+  charMin?: number | null;
   createdAt: string;
   recordNote?: string;
+  subgroupId?: string;
 }
 
 export interface SpcExportOptions {
@@ -19,16 +23,271 @@ export interface SpcExportOptions {
   partName: string;
   opName: string;
   records: SpcExportRecord[];
+  subgroupSize?: number;
+  subgroupChart?: SubgroupChartType;
+  unit?: string | null;
 }
 
 /* ─── stats helpers ─── */
 
-function computeSpcStats(values: number[], usl: number | null, lsl: number | null) {
+// Control chart constants for moving ranges of two consecutive points
+const MR_D2 = 1.128;
+const MR_D4 = 3.267;
+
+// d2, d3 and c4 by subgroup size (2–10); A2, D3, D4, A3, B3 and B4 are derived from them
+const SUBGROUP_CONSTANTS: Record<number, { d2: number; d3: number; c4: number }> = {
+  2: { d2: 1.128, d3: 0.853, c4: 0.7979 },
+  3: { d2: 1.693, d3: 0.888, c4: 0.8862 },
+  4: { d2: 2.059, d3: 0.880, c4: 0.9213 },
+  5: { d2: 2.326, d3: 0.864, c4: 0.9400 },
+  6: { d2: 2.534, d3: 0.848, c4: 0.9515 },
+  7: { d2: 2.704, d3: 0.833, c4: 0.9594 },
+  8: { d2: 2.847, d3: 0.820, c4: 0.9650 },
+  9: { d2: 2.970, d3: 0.808, c4: 0.9693 },
+  10: { d2: 3.078, d3: 0.797, c4: 0.9727 },
+};
+
+export type SubgroupChartType = 'xbar-r' | 'xbar-s';
+
+// Ranges are the usual choice for small subgroups; S uses every value and is preferred from ~10 up
+export const defaultSubgroupChart = (size: number): SubgroupChartType => (size >= 10 ? 'xbar-s' : 'xbar-r');
+
+export interface SpcSample {
+  value: number;
+  createdAt: string;
+  subgroupId?: string | null;
+}
+
+export interface Subgroup {
+  key: string;
+  createdAt: string;
+  values: number[];
+}
+
+/**
+ * Split samples into subgroups. Samples with an explicit subgroup id are grouped by it;
+ * the rest are taken in sample-time order in consecutive runs of `size`.
+ * Returns complete subgroups plus the number of samples left in incomplete ones.
+ */
+export function groupIntoSubgroups(samples: SpcSample[], size: number): { subgroups: Subgroup[]; excluded: number } {
+  const sorted = [...samples].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  const groups: Subgroup[] = [];
+  const byId = new Map<string, Subgroup>();
+  let run: Subgroup | null = null;
+
+  sorted.forEach((sample) => {
+    if (sample.subgroupId) {
+      let group = byId.get(sample.subgroupId);
+      if (!group) {
+        group = { key: sample.subgroupId, createdAt: sample.createdAt, values: [] };
+        byId.set(sample.subgroupId, group);
+        groups.push(group);
+      }
+      group.values.push(sample.value);
+      return;
+    }
+    if (!run || run.values.length >= size) {
+      run = { key: `run-${groups.length + 1}`, createdAt: sample.createdAt, values: [] };
+      groups.push(run);
+    }
+    run.values.push(sample.value);
+  });
+
+  const subgroups = groups.filter((group) => group.values.length === size);
+  const excluded = groups
+    .filter((group) => group.values.length !== size)
+    .reduce((sum, group) => sum + group.values.length, 0);
+  return { subgroups, excluded };
+}
+
+export interface SubgroupChart {
+  type: SubgroupChartType;
+  size: number;
+  means: number[];
+  spreads: number[];
+  grandMean: number;
+  xbarUcl: number;
+  xbarLcl: number;
+  spreadBar: number;
+  spreadUcl: number;
+  spreadLcl: number;
+  sigmaWithin: number;
+}
+
+/**
+ * X-bar/R or X-bar/S limits for equal-size subgroups. Within sigma is R̄/d2 or S̄/c4.
+ */
+export function computeSubgroupChart(subgroups: Subgroup[], type: SubgroupChartType): SubgroupChart | null {
+  if (subgroups.length === 0) return null;
+  const size = subgroups[0].values.length;
+  const constants = SUBGROUP_CONSTANTS[size];
+  if (!constants) return null;
+  const { d2, d3, c4 } = constants;
+
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+  const means = subgroups.map((group) => mean(group.values));
+  const spreads = subgroups.map((group) => {
+    if (type === 'xbar-r') return Math.max(...group.values) - Math.min(...group.values);
+    const m = mean(group.values);
+    return Math.sqrt(group.values.reduce((a, v) => a + (v - m) ** 2, 0) / (size - 1));
+  });
+  const grandMean = mean(means);
+  const spreadBar = mean(spreads);
+
+  if (type === 'xbar-r') {
+    const A2 = 3 / (d2 * Math.sqrt(size));
+    return {
+      type, size, means, spreads, grandMean, spreadBar,
+      xbarUcl: grandMean + A2 * spreadBar,
+      xbarLcl: grandMean - A2 * spreadBar,
+      spreadUcl: (1 + 3 * d3 / d2) * spreadBar,
+      spreadLcl: Math.max(0, 1 - 3 * d3 / d2) * spreadBar,
+      sigmaWithin: spreadBar / d2,
+    };
+  }
+  const A3 = 3 / (c4 * Math.sqrt(size));
+  const spreadFactor = 3 * Math.sqrt(1 - c4 * c4) / c4;
+  return {
+    type, size, means, spreads, grandMean, spreadBar,
+    xbarUcl: grandMean + A3 * spreadBar,
+    xbarLcl: grandMean - A3 * spreadBar,
+    spreadUcl: (1 + spreadFactor) * spreadBar,
+    spreadLcl: Math.max(0, 1 - spreadFactor) * spreadBar,
+    sigmaWithin: spreadBar / c4,
+  };
+}
+
+export interface AttributeSample {
+  sampleSize: number;
+  count: number;
+}
+
+export interface AttributeChart {
+  type: AttributeChartType;
+  // Plotted statistic per sample: p = d/n, np = d, c = d, u = d/n
+  values: number[];
+  center: number;
+  // Per sample, since p and u limits widen for smaller samples; LCL is floored at 0
+  ucl: number[];
+  lcl: number[];
+  totalInspected: number;
+  totalCount: number;
+  // np and c assume every sample has the same size
+  constantSampleSize: boolean;
+}
+
+/**
+ * p, np, c or u chart limits at ±3σ from the binomial (p, np) or Poisson (c, u) model.
+ */
+export function computeAttributeChart(samples: AttributeSample[], type: AttributeChartType): AttributeChart | null {
+  const k = samples.length;
+  if (k === 0) return null;
+  const totalInspected = samples.reduce((sum, sample) => sum + sample.sampleSize, 0);
+  const totalCount = samples.reduce((sum, sample) => sum + sample.count, 0);
+  if (totalInspected === 0) return null;
+  const constantSampleSize = samples.every((sample) => sample.sampleSize === samples[0].sampleSize);
+  const nBar = totalInspected / k;
+  const floor = (value: number) => Math.max(0, value);
+
+  switch (type) {
+    case 'p': {
+      const pBar = totalCount / totalInspected;
+      const sigma = (n: number) => Math.sqrt(pBar * (1 - pBar) / n);
+      return {
+        type, center: pBar, totalInspected, totalCount, constantSampleSize,
+        values: samples.map((sample) => sample.count / sample.sampleSize),
+        ucl: samples.map((sample) => Math.min(1, pBar + 3 * sigma(sample.sampleSize))),
+        lcl: samples.map((sample) => floor(pBar - 3 * sigma(sample.sampleSize))),
+      };
+    }
+    case 'np': {
+      const pBar = totalCount / totalInspected;
+      const center = nBar * pBar;
+      const sigma = Math.sqrt(center * (1 - pBar));
+      return {
+        type, center, totalInspected, totalCount, constantSampleSize,
+        values: samples.map((sample) => sample.count),
+        ucl: samples.map(() => center + 3 * sigma),
+        lcl: samples.map(() => floor(center - 3 * sigma)),
+      };
+    }
+    case 'c': {
+      const cBar = totalCount / k;
+      const sigma = Math.sqrt(cBar);
+      return {
+        type, center: cBar, totalInspected, totalCount, constantSampleSize,
+        values: samples.map((sample) => sample.count),
+        ucl: samples.map(() => cBar + 3 * sigma),
+        lcl: samples.map(() => floor(cBar - 3 * sigma)),
+      };
+    }
+    case 'u': {
+      const uBar = totalCount / totalInspected;
+      const sigma = (n: number) => Math.sqrt(uBar / n);
+      return {
+        type, center: uBar, totalInspected, totalCount, constantSampleSize,
+        values: samples.map((sample) => sample.count / sample.sampleSize),
+        ucl: samples.map((sample) => uBar + 3 * sigma(sample.sampleSize)),
+        lcl: samples.map((sample) => floor(uBar - 3 * sigma(sample.sampleSize))),
+      };
+    }
+  }
+}
+
+/**
+ * Spec limits from a characteristic's max/min. A min of 0 is treated as
+ * "no lower spec" (attribute style), matching how the characteristics are entered.
+ */
+export function specLimits(charMax?: number | null, charMin?: number | null) {
+  const usl = charMax ?? null;
+  const lsl = (charMin !== null && charMin !== undefined && charMin !== 0) ? charMin : null;
+  return { usl, lsl };
+}
+
+export interface IndividualsChart {
+  center: number;
+  ucl: number;
+  lcl: number;
+  movingRanges: (number | null)[];
+  mrBar: number;
+  mrUcl: number;
+  sigmaWithin: number;
+}
+
+/**
+ * Individuals / moving-range (I-MR) limits. Short-term sigma is estimated from the
+ * average moving range (MR̄ / d2) rather than the overall standard deviation.
+ */
+export function computeIndividualsChart(values: number[]): IndividualsChart | null {
+  const n = values.length;
+  if (n === 0) return null;
+  const center = values.reduce((a, b) => a + b, 0) / n;
+  const movingRanges = values.map((v, i) => (i === 0 ? null : Math.abs(v - values[i - 1])));
+  const ranges = movingRanges.filter((r): r is number => r !== null);
+  const mrBar = ranges.length > 0 ? ranges.reduce((a, b) => a + b, 0) / ranges.length : 0;
+  const sigmaWithin = mrBar / MR_D2;
+  return {
+    center,
+    ucl: center + 3 * sigmaWithin,
+    lcl: center - 3 * sigmaWithin,
+    movingRanges,
+    mrBar,
+    mrUcl: MR_D4 * mrBar,
+    sigmaWithin,
+  };
+}
+
+/**
+ * Capability indices: Cp/Cpk use the within sigma (from the subgroup chart when given,
+ * otherwise the moving range), Pp/Ppk the overall sample standard deviation.
+ */
+export function computeSpcStats(values: number[], usl: number | null, lsl: number | null, withinSigma?: number) {
   const n = values.length;
   if (n === 0) return null;
   const mean = values.reduce((a, b) => a + b, 0) / n;
   const variance = values.reduce((a, v) => a + (v - mean) ** 2, 0) / (n - 1 || 1);
   const stdDev = Math.sqrt(variance);
+  const sigmaWithin = withinSigma ?? (n > 1 ? computeIndividualsChart(values)!.sigmaWithin : stdDev);
   const min = Math.min(...values);
   const max = Math.max(...values);
   const range = max - min;
@@ -40,28 +299,21 @@ function computeSpcStats(values: number[], usl: number | null, lsl: number | nul
   let ppk: number | null = null;
   let nominal: number | null = null;
 
-  if (usl !== null && lsl !== null && stdDev > 0) {
-    nominal = (usl + lsl) / 2;
-    cp = (usl - lsl) / (6 * stdDev);
-    const cpuVal = (usl - mean) / (3 * stdDev);
-    const cplVal = (mean - lsl) / (3 * stdDev);
-    cpk = Math.min(cpuVal, cplVal);
-
-    // Pp/Ppk use overall std dev (same for single subgroup)
-    const overallStdDev = Math.sqrt(values.reduce((a, v) => a + (v - mean) ** 2, 0) / n);
-    if (overallStdDev > 0) {
-      pp = (usl - lsl) / (6 * overallStdDev);
-      const ppuVal = (usl - mean) / (3 * overallStdDev);
-      const pplVal = (mean - lsl) / (3 * overallStdDev);
-      ppk = Math.min(ppuVal, pplVal);
-    }
-  } else if (usl !== null && stdDev > 0) {
-    // One-sided (attribute style): only USL given (lsl is 0 or missing)
-    const cpuVal = (usl - mean) / (3 * stdDev);
-    cpk = cpuVal;
-  }
-
-  return { n, mean, stdDev, min, max, range, cp, cpk, pp, ppk, nominal, usl, lsl, outOfTol };
+  const capability = (sigma: number) => {
+    if (sigma <= 0) return { spread: null, index: null };
+    const upper = usl !== null ? (usl - mean) / (3 * sigma) : null;
+    const lower = lsl !== null ? (mean - lsl) / (3 * sigma) : null;
+    const spread = usl !== null && lsl !== null ? (usl - lsl) / (6 * sigma) : null;
+    const sides = [upper, lower].filter((v): v is number => v !== null);
+    return { spread, index: sides.length > 0 ? Math.min(...sides) : null };
+  };
+
+  if (usl !== null && lsl !== null) nominal = (usl + lsl) / 2;
+  // One-sided specs (attribute style, only a USL) get Cpk/Ppk but no Cp/Pp
+  ({ spread: cp, index: cpk } = capability(sigmaWithin));
+  ({ spread: pp, index: ppk } = capability(stdDev));
+
+  return { n, mean, stdDev, sigmaWithin, min, max, range, cp, cpk, pp, ppk, nominal, usl, lsl, outOfTol };
 }
 
 /* ─── SVG builders ─── */
@@ -71,17 +323,17 @@ function buildRunChartSvg(
   dates: string[],
   usl: number | null,
   lsl: number | null,
-  mean: number,
-  stdDev: number
+  chart: IndividualsChart
 ): string {
+  const { center: mean, ucl, lcl } = chart;
   const W = 720, H = 300, pad = { top: 30, right: 30, bottom: 90, left: 60 };
   const plotW = W - pad.left - pad.right;
   const plotH = H - pad.top - pad.bottom;
   const n = values.length;
   if (n === 0) return '';
 
-  // Y-axis range: include all data, spec limits, and ±3σ
-  const candidates = [...values, mean + 3 * stdDev, mean - 3 * stdDev];
+  // Y-axis range: include all data, spec limits, and control limits
+  const candidates = [...values, ucl, lcl];
   if (usl !== null) candidates.push(usl);
   if (lsl !== null) candidates.push(lsl);
   let yMin = Math.min(...candidates);
@@ -124,26 +376,25 @@ function buildRunChartSvg(
     parts.push(`<text x="${W - pad.right + 4}" y="${y + 3}" fill="#3b82f6" font-size="10">X̄ ${mean.toFixed(3)}</text>`);
   }
 
-  // ±3σ lines
-  if (stdDev > 0) {
-    const ucl = mean + 3 * stdDev;
-    const lcl = mean - 3 * stdDev;
+  // Control limit lines
+  if (ucl > lcl) {
     const yU = yScale(ucl);
     const yL = yScale(lcl);
     parts.push(`<line x1="${pad.left}" y1="${yU}" x2="${W - pad.right}" y2="${yU}" stroke="#f59e0b" stroke-dasharray="4,4" stroke-width="1"/>`);
-    parts.push(`<text x="${W - pad.right + 4}" y="${yU + 3}" fill="#f59e0b" font-size="9">+3σ</text>`);
+    parts.push(`<text x="${W - pad.right + 4}" y="${yU + 3}" fill="#f59e0b" font-size="9">UCL</text>`);
     parts.push(`<line x1="${pad.left}" y1="${yL}" x2="${W - pad.right}" y2="${yL}" stroke="#f59e0b" stroke-dasharray="4,4" stroke-width="1"/>`);
-    parts.push(`<text x="${W - pad.right + 4}" y="${yL + 3}" fill="#f59e0b" font-size="9">−3σ</text>`);
+    parts.push(`<text x="${W - pad.right + 4}" y="${yL + 3}" fill="#f59e0b" font-size="9">LCL</text>`);
   }
 
   // Data polyline
   const linePoints = values.map((v, i) => `${xScale(i)},${yScale(v)}`).join(' ');
   parts.push(`<polyline points="${linePoints}" fill="none" stroke="#2563eb" stroke-width="1.5"/>`);
 
-  // Data dots (color-coded: green in-spec, red out)
+  // Data dots (color-coded: green in-spec, amber out of control, red out of spec)
   values.forEach((v, i) => {
     const oot = (usl !== null && v > usl) || (lsl !== null && v < lsl);
-    const color = oot ? '#ef4444' : '#22c55e';
+    const ooc = ucl > lcl && (v > ucl || v < lcl);
+    const color = oot ? '#ef4444' : ooc ? '#f59e0b' : '#22c55e';
     parts.push(`<circle cx="${xScale(i)}" cy="${yScale(v)}" r="3.5" fill="${color}" stroke="white" stroke-width="1"/>`);
   });
 
@@ -157,7 +408,74 @@ function buildRunChartSvg(
   }
 
   // Title
-  parts.push(`<text x="${W / 2}" y="16" text-anchor="middle" fill="#111" font-size="13" font-weight="600">Run Chart (Individuals)</text>`);
+  parts.push(`<text x="${W / 2}" y="16" text-anchor="middle" fill="#111" font-size="13" font-weight="600">Individuals Chart</text>`);
+
+  parts.push('</svg>');
+  return parts.join('\n');
+}
+
+// Line chart of a plotted statistic against its center line and control limits
+function buildLimitChartSvg(
+  title: string,
+  points: (number | null)[],
+  center: { label: string; value: number },
+  ucl: number,
+  lcl: number | null
+): string {
+  const W = 720, H = 220, pad = { top: 30, right: 30, bottom: 30, left: 60 };
+  const plotW = W - pad.left - pad.right;
+  const plotH = H - pad.top - pad.bottom;
+  const n = points.length;
+  const plotted = points.filter((v): v is number => v !== null);
+  if (plotted.length === 0) return '';
+
+  const candidates = [...plotted, ucl, center.value];
+  if (lcl !== null) candidates.push(lcl);
+  let yMin = Math.min(...candidates);
+  let yMax = Math.max(...candidates);
+  const yMargin = (yMax - yMin) * 0.08 || 0.1;
+  yMin -= yMargin;
+  yMax += yMargin;
+  const xScale = (i: number) => pad.left + (i / Math.max(n - 1, 1)) * plotW;
+  const yScale = (v: number) => pad.top + plotH - ((v - yMin) / (yMax - yMin)) * plotH;
+
+  const parts: string[] = [];
+  parts.push(`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${W} ${H}" style="width:100%;max-width:${W}px;font-family:system-ui,sans-serif;font-size:11px">`);
+
+  const yTicks = 4;
+  for (let i = 0; i <= yTicks; i++) {
+    const v = yMin + (yMax - yMin) * (i / yTicks);
+    const y = yScale(v);
+    parts.push(`<line x1="${pad.left}" y1="${y}" x2="${W - pad.right}" y2="${y}" stroke="#e5e7eb" stroke-width="0.5"/>`);
+    parts.push(`<text x="${pad.left - 6}" y="${y + 3}" text-anchor="end" fill="#666" font-size="10">${v.toFixed(3)}</text>`);
+  }
+
+  {
+    const y = yScale(center.value);
+    parts.push(`<line x1="${pad.left}" y1="${y}" x2="${W - pad.right}" y2="${y}" stroke="#3b82f6" stroke-width="1"/>`);
+    parts.push(`<text x="${W - pad.right + 4}" y="${y + 3}" fill="#3b82f6" font-size="10">${center.label}</text>`);
+  }
+  const limits: Array<[string, number]> = [['UCL', ucl]];
+  if (lcl !== null) limits.push(['LCL', lcl]);
+  limits.forEach(([label, value]) => {
+    const y = yScale(value);
+    parts.push(`<line x1="${pad.left}" y1="${y}" x2="${W - pad.right}" y2="${y}" stroke="#f59e0b" stroke-dasharray="4,4" stroke-width="1"/>`);
+    parts.push(`<text x="${W - pad.right + 4}" y="${y + 3}" fill="#f59e0b" font-size="9">${label}</text>`);
+  });
+
+  const linePoints = points
+    .map((v, i) => (v === null ? null : `${xScale(i)},${yScale(v)}`))
+    .filter(Boolean)
+    .join(' ');
+  parts.push(`<polyline points="${linePoints}" fill="none" stroke="#2563eb" stroke-width="1.5"/>`);
+  points.forEach((v, i) => {
+    if (v === null) return;
+    const ooc = v > ucl || (lcl !== null && v < lcl);
+    const color = ooc ? '#f59e0b' : '#22c55e';
+    parts.push(`<circle cx="${xScale(i)}" cy="${yScale(v)}" r="3" fill="${color}" stroke="white" stroke-width="1"/>`);
+  });
+
+  parts.push(`<text x="${W / 2}" y="16" text-anchor="middle" fill="#111" font-size="13" font-weight="600">${title}</text>`);
 
   parts.push('</svg>');
   return parts.join('\n');
@@ -298,12 +616,16 @@ function cpkColor(cpk: number | null): string {
 }
 
 export function exportSpcHtml(opts: SpcExportOptions): void {
-  const { charNumber, charName, partNumber, partName, opName, records } = opts;
+  const { charNumber, charName, partNumber, partName, opName, records, subgroupSize = 1, unit = null } = opts;
+  // Values with the characteristic's unit; ratios such as Cp stay bare
+  const fmtMeasure = (v: number | null, digits = 3) => (v === null || !Number.isFinite(v) ? '—' : esc(withUnit(fmtNum(v, digits), unit)));
 
-  // Parse numeric values and sort by date
-  const sorted = [...records].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
-  const values = sorted.map(r => parseFloat(r.measuredValue)).filter(v => !isNaN(v));
-  const dates = sorted.filter(r => !isNaN(parseFloat(r.measuredValue))).map(r => r.createdAt);
+  // Numeric values sorted by date; legacy rows without a number are left out
+  const sorted = [...records]
+    .filter((r): r is SpcExportRecord & { measuredValue: number } => r.measuredValue !== null)
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  const values = sorted.map(r => r.measuredValue);
+  const dates = sorted.map(r => r.createdAt);
 
   if (values.length === 0) {
     alert('No numeric measured values to chart.');
@@ -311,17 +633,38 @@ export function exportSpcHtml(opts: SpcExportOptions): void {
   }
 
   const first = records[0];
-  const rawMax = parseFloat(first?.charMax || '');
-  const rawMin = parseFloat(first?.charMin || '');
-  const usl = !isNaN(rawMax) ? rawMax : null;
-  const lslRaw = !isNaN(rawMin) ? rawMin : null;
-  // Treat min=0 as "no lower spec" (attribute style)
-  const lsl = (lslRaw !== null && lslRaw !== 0) ? lslRaw : null;
-
-  const stats = computeSpcStats(values, usl, lsl);
-  if (!stats) return;
-
-  const runChartSvg = buildRunChartSvg(values, dates, usl, lsl, stats.mean, stats.stdDev);
+  const { usl, lsl } = specLimits(first?.charMax, first?.charMin);
+
+  const chart = computeIndividualsChart(values);
+  const subgroupChart = subgroupSize > 1
+    ? computeSubgroupChart(
+      groupIntoSubgroups(
+        sorted.map(r => ({ value: r.measuredValue, createdAt: r.createdAt, subgroupId: r.subgroupId })),
+        subgroupSize,
+      ).subgroups,
+      opts.subgroupChart ?? defaultSubgroupChart(subgroupSize),
+    )
+    : null;
+  const stats = computeSpcStats(values, usl, lsl, subgroupChart?.sigmaWithin);
+  if (!stats || !chart) return;
+
+  const spreadLabel = subgroupChart?.type === 'xbar-s' ? 'S' : 'R';
+  const controlChartTitle = subgroupChart ? `Control Charts (X̄-${spreadLabel}, n = ${subgroupChart.size})` : 'Control Charts (I-MR)';
+  const controlChartSvgs = subgroupChart
+    ? [
+      buildLimitChartSvg('X̄ Chart', subgroupChart.means, { label: 'X̿', value: subgroupChart.grandMean }, subgroupChart.xbarUcl, subgroupChart.xbarLcl),
+      buildLimitChartSvg(`${spreadLabel} Chart`, subgroupChart.spreads, { label: `${spreadLabel}̄`, value: subgroupChart.spreadBar }, subgroupChart.spreadUcl, subgroupChart.spreadLcl),
+    ]
+    : [
+      buildRunChartSvg(values, dates, usl, lsl, chart),
+      values.length > 1
+        ? buildLimitChartSvg('Moving Range Chart', chart.movingRanges, { label: 'MR̄', value: chart.mrBar }, chart.mrUcl, null)
+        : '',
+    ];
+  const withinLabel = subgroupChart ? (subgroupChart.type === 'xbar-s' ? 'S̄/c4' : 'R̄/d2') : 'MR̄/d2';
+  const controlLimitsText = subgroupChart
+    ? `${fmtNum(subgroupChart.xbarUcl)} / ${fmtNum(subgroupChart.xbarLcl)}`
+    : `${fmtNum(chart.ucl)} / ${fmtNum(chart.lcl)}`;
   const histogramSvg = buildHistogramSvg(values, usl, lsl, stats.mean, stats.stdDev);
 
   const title = `SPC Report — Char #${esc(charNumber)}${charName ? ' — ' + esc(charName) : ''}`;
@@ -369,14 +712,17 @@ export function exportSpcHtml(opts: SpcExportOptions): void {
 
 <div class="info-grid">
   <div><dt>Samples (n)</dt><dd>${stats.n}</dd></div>
-  <div><dt>USL</dt><dd>${usl !== null ? fmtNum(usl) : '—'}</dd></div>
-  <div><dt>LSL</dt><dd>${lsl !== null ? fmtNum(lsl) : '—'}</dd></div>
-  <div><dt>Nominal</dt><dd>${nominal !== null ? fmtNum(nominal) : '—'}</dd></div>
-  <div><dt>Mean (X̄)</dt><dd>${fmtNum(stats.mean)}</dd></div>
-  <div><dt>Std Dev (σ)</dt><dd>${fmtNum(stats.stdDev, 4)}</dd></div>
-  <div><dt>Min</dt><dd>${fmtNum(stats.min)}</dd></div>
-  <div><dt>Max</dt><dd>${fmtNum(stats.max)}</dd></div>
-  <div><dt>Range</dt><dd>${fmtNum(stats.range)}</dd></div>
+  <div><dt>Unit</dt><dd>${unit ? esc(unit) : '—'}</dd></div>
+  <div><dt>USL</dt><dd>${fmtMeasure(usl)}</dd></div>
+  <div><dt>LSL</dt><dd>${fmtMeasure(lsl)}</dd></div>
+  <div><dt>Nominal</dt><dd>${fmtMeasure(nominal)}</dd></div>
+  <div><dt>Mean (X̄)</dt><dd>${fmtMeasure(stats.mean)}</dd></div>
+  <div><dt>σ Overall</dt><dd>${fmtMeasure(stats.stdDev, 4)}</dd></div>
+  <div><dt>σ Within (${withinLabel})</dt><dd>${fmtMeasure(stats.sigmaWithin, 4)}</dd></div>
+  <div><dt>${subgroupChart ? 'X̄ UCL / LCL' : 'UCL / LCL'}</dt><dd>${controlLimitsText}</dd></div>
+  <div><dt>Min</dt><dd>${fmtMeasure(stats.min)}</dd></div>
+  <div><dt>Max</dt><dd>${fmtMeasure(stats.max)}</dd></div>
+  <div><dt>Range</dt><dd>${fmtMeasure(stats.range)}</dd></div>
 </div>
 
 <div class="metrics-grid">
@@ -399,8 +745,8 @@ export function exportSpcHtml(opts: SpcExportOptions): void {
 </div>
 
 <div class="section">
-  <div class="section-title">Run Chart</div>
-  <div class="chart-container">${runChartSvg}</div>
+  <div class="section-title">${controlChartTitle}</div>
+  ${controlChartSvgs.filter(Boolean).map(svg => `<div class="chart-container">${svg}</div>`).join('\n  ')}
 </div>
 
 <div class="section">
@@ -416,15 +762,15 @@ export function exportSpcHtml(opts: SpcExportOptions): void {
         <th>#</th>
         <th>Date</th>
         <th>Machine</th>
-        <th>Measured</th>
+        <th>Measured${unit ? ` (${esc(unit)})` : ''}</th>
         <th>Deviation</th>
         <th>Out of Tol</th>
         <th>Note</th>
       </tr>
     </thead>
     <tbody>
-      ${sorted.filter(r => !isNaN(parseFloat(r.measuredValue))).map((r, i) => {
-        const v = parseFloat(r.measuredValue);
+      ${sorted.map((r, i) => {
+        const v = r.measuredValue;
         const oot = (usl !== null && v > usl) || (lsl !== null && v < lsl);
         const outAmt = oot
           ? ((usl !== null && v > usl) ? (v - usl) : (lsl !== null && v < lsl) ? (lsl - v) : 0)
@@ -0,0 +1,198 @@
+/**
+ * Reading, column mapping and validation for the SPC import wizard. Validation mirrors what
+ * POST /api/spc-import checks so the preview shows the outcome before anything is saved.
+ */
+
+import * as XLSX from 'xlsx';
+import type { Characteristic, Machine, Part } from '@shared/schema';
+import { extractUnit, isBlank, parseDecimal, parseTolerance } from '@shared/numeric';
+import { convertReading, findUnit } from '@shared/units';
+
+export const importFields = [
+  { key: 'machine', label: 'Machine', required: true, aliases: ['machine', 'machineid', 'machinename', 'equipment'] },
+  { key: 'partNumber', label: 'Part Number', required: true, aliases: ['partnumber', 'partno', 'part', 'pn'] },
+  { key: 'partName', label: 'Part Name', required: false, aliases: ['partname', 'partdescription'] },
+  { key: 'charNumber', label: 'Char Number', required: true, aliases: ['charnumber', 'charno', 'char', 'characteristic', 'characteristicnumber', 'balloon'] },
+  { key: 'charName', label: 'Char Name', required: false, aliases: ['charname', 'characteristicname', 'feature'] },
+  { key: 'opName', label: 'Operation', required: false, aliases: ['opname', 'operation', 'op'] },
+  { key: 'nominalValue', label: 'Nominal', required: false, aliases: ['nominal', 'nominalvalue', 'target'] },
+  { key: 'charMin', label: 'Min', required: false, aliases: ['min', 'charmin', 'lsl', 'lowerlimit'] },
+  { key: 'charMax', label: 'Max', required: false, aliases: ['max', 'charmax', 'usl', 'upperlimit'] },
+  { key: 'tolerance', label: 'Tolerance', required: false, aliases: ['tolerance', 'tol'] },
+  { key: 'unit', label: 'Unit', required: false, aliases: ['unit', 'units', 'uom'] },
+  { key: 'measuredValue', label: 'Measured Value', required: true, aliases: ['measuredvalue', 'measured', 'measurement', 'value', 'reading', 'actual'] },
+  { key: 'status', label: 'Status', required: false, aliases: ['status'] },
+  { key: 'recordNote', label: 'Note', required: false, aliases: ['note', 'recordnote', 'comment', 'correctiveaction'] },
+  { key: 'createdAt', label: 'Date', required: false, aliases: ['date', 'createdat', 'datetime', 'timestamp', 'measuredat'] },
+] as const;
+
+export type ImportFieldKey = typeof importFields[number]['key'];
+
+// Column index in the sheet for each mapped field
+export type ColumnMapping = Partial<Record<ImportFieldKey, number>>;
+
+export interface ImportSheet {
+  name: string;
+  headers: string[];
+  rows: string[][];
+}
+
+export interface PreviewRow {
+  // 1-based line in the file, the header being line 1
+  line: number;
+  errors: string[];
+  // Body for POST /api/spc-import; only set when the row has no errors
+  payload?: Record<string, string>;
+  partNumber: string;
+  charNumber: string;
+}
+
+export interface ImportPreview {
+  rows: PreviewRow[];
+  validRows: PreviewRow[];
+  newParts: string[];
+  matchedParts: string[];
+  newCharacteristics: string[];
+  matchedCharacteristics: string[];
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Every sheet of a CSV or Excel file as text cells, the first row being the headers
+export async function readImportFile(file: File): Promise<ImportSheet[]> {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+  return workbook.SheetNames.map((name) => {
+    const cells = XLSX.utils.sheet_to_json<string[]>(workbook.Sheets[name], {
+      header: 1,
+      raw: false,
+      defval: '',
+      blankrows: false,
+      dateNF: 'yyyy-mm-dd hh:mm:ss',
+    });
+    const [headers = [], ...rows] = cells;
+    return { name, headers: headers.map((header) => String(header).trim()), rows };
+  });
+}
+
+// Matches headers to fields by name, e.g. "Part No." → Part Number
+export function autoMapColumns(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+  importFields.forEach((field) => {
+    const index = headers.findIndex((header, position) =>
+      !used.has(position) && (field.aliases as readonly string[]).includes(normalizeHeader(header)));
+    if (index >= 0) {
+      mapping[field.key] = index;
+      used.add(index);
+    }
+  });
+  return mapping;
+}
+
+export const missingRequiredFields = (mapping: ColumnMapping) =>
+  importFields.filter((field) => field.required && mapping[field.key] === undefined);
+
+export function buildImportPreview(
+  sheet: ImportSheet,
+  mapping: ColumnMapping,
+  lookups: { machines: Machine[]; parts: Part[]; characteristics: Characteristic[] },
+): ImportPreview {
+  const machineByKey = new Map<string, Machine>();
+  lookups.machines.forEach((machine) => {
+    [machine.id, machine.machineId, machine.name].forEach((key) => {
+      if (key) machineByKey.set(key.trim().toLowerCase(), machine);
+    });
+  });
+  const partByNumber = new Map(lookups.parts.map((part) => [part.partNumber, part]));
+  const charByKey = new Map(lookups.characteristics.map((char) => [`${char.partId}|${char.charNumber}`, char]));
+
+  const newParts = new Set<string>();
+  const matchedParts = new Set<string>();
+  const newCharacteristics = new Set<string>();
+  const matchedCharacteristics = new Set<string>();
+  // Unit of characteristics the import itself creates, taken from their first row
+  const createdUnits = new Map<string, string | null>();
+
+  const rows = sheet.rows.map((cells, rowIndex): PreviewRow => {
+    const cell = (key: ImportFieldKey) => {
+      const index = mapping[key];
+      return index === undefined ? '' : String(cells[index] ?? '').trim();
+    };
+    const errors: string[] = [];
+    const partNumber = cell('partNumber');
+    const charNumber = cell('charNumber');
+
+    importFields.forEach((field) => {
+      if (field.required && isBlank(cell(field.key))) errors.push(`${field.label} is required`);
+    });
+
+    const machineText = cell('machine');
+    const machine = machineText ? machineByKey.get(machineText.toLowerCase()) : undefined;
+    if (machineText && !machine) errors.push(`Machine "${machineText}" not found`);
+
+    (['nominalValue', 'charMin', 'charMax'] as const).forEach((key) => {
+      const raw = cell(key);
+      if (raw && parseDecimal(raw) === null) errors.push(`${importFields.find((field) => field.key === key)!.label} "${raw}" is not a number`);
+    });
+    const toleranceText = cell('tolerance');
+    if (toleranceText && !parseTolerance(toleranceText)) errors.push(`Tolerance "${toleranceText}" is not a tolerance`);
+    const unitText = cell('unit');
+    const unit = unitText ? findUnit(unitText) : undefined;
+    if (unitText && !unit) errors.push(`Unit "${unitText}" is not supported`);
+    const dateText = cell('createdAt');
+    if (dateText && Number.isNaN(Date.parse(dateText))) errors.push(`Date "${dateText}" is not a date`);
+
+    const valueText = cell('measuredValue');
+    const value = parseDecimal(valueText);
+    if (valueText && value === null) errors.push(`Measured value "${valueText}" is not a number`);
+
+    const part = partByNumber.get(partNumber);
+    const charKey = `${partNumber}|${charNumber}`;
+    const existingChar = part ? charByKey.get(`${part.id}|${charNumber}`) : undefined;
+    if (value !== null && charNumber) {
+      const charUnit = existingChar ? existingChar.unit : (createdUnits.get(charKey) ?? unit?.symbol ?? null);
+      const converted = convertReading(value, extractUnit(valueText) ?? unit?.symbol, charUnit);
+      if ('error' in converted) errors.push(converted.error);
+    }
+
+    if (errors.length > 0) return { line: rowIndex + 2, errors, partNumber, charNumber };
+
+    (part ? matchedParts : newParts).add(partNumber);
+    const charLabel = `${partNumber} #${charNumber}`;
+    if (existingChar) {
+      matchedCharacteristics.add(charLabel);
+    } else {
+      newCharacteristics.add(charLabel);
+      if (!createdUnits.has(charKey)) createdUnits.set(charKey, unit?.symbol ?? null);
+    }
+
+    const payload: Record<string, string> = { machineId: machine!.id };
+    importFields.forEach((field) => {
+      if (field.key === 'machine') return;
+      const raw = cell(field.key);
+      if (raw) payload[field.key] = field.key === 'createdAt' ? new Date(raw).toISOString() : raw;
+    });
+    return { line: rowIndex + 2, errors, payload, partNumber, charNumber };
+  });
+
+  return {
+    rows,
+    validRows: rows.filter((row) => row.payload),
+    newParts: Array.from(newParts),
+    matchedParts: Array.from(matchedParts),
+    newCharacteristics: Array.from(newCharacteristics),
+    matchedCharacteristics: Array.from(matchedCharacteristics),
+  };
+}
+
+// CSV of the rows that failed, with the reasons first and the original cells after
+export function downloadImportErrorReport(sheet: ImportSheet, rows: PreviewRow[], fileName: string): void {
+  const failed = rows.filter((row) => row.errors.length > 0);
+  const sheetRows = [
+    ['Line', 'Errors', ...sheet.headers],
+    ...failed.map((row) => [String(row.line), row.errors.join('; '), ...(sheet.rows[row.line - 2] ?? [])]),
+  ];
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(sheetRows), 'Errors');
+  XLSX.writeFile(workbook, fileName.replace(/\.[^.]+$/, '') + '_import_errors.csv', { bookType: 'csv' });
+}
@@ -18,7 +18,9 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ChangeHistory, PageViewTabs, type PageView } from "@/components/change-history";
 import { AlertTriangle, ChevronDown, ChevronRight, Clock, GripVertical, Plus, Save, Trash2, X } from "lucide-react";
 
 type CellOperation = {
@@ -31,6 +33,7 @@ type Machine = {
   id: string;
   name: string;
   machineId: string;
+  cellId: string | null;
   cell: string | null;
   status: string;
   idealCycleTime: number | null;
@@ -59,6 +62,16 @@ type CellConfiguration = {
   notes: string | null;
 };
 
+// A machine already in another cell is rejected with 409 and a message naming the cell
+const serverMessage = (error: unknown) => {
+  if (!(error instanceof Error) || !/^(400|409)/.test(error.message)) return undefined;
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(":") + 1)).message as string | undefined;
+  } catch {
+    return undefined;
+  }
+};
+
 function parseOperations(value: unknown): CellOperation[] {
   if (!Array.isArray(value)) return [];
   return value.map((item: any, index: number) => ({
@@ -72,11 +85,14 @@ function parseOperations(value: unknown): CellOperation[] {
 
 export default function CellsPage() {
   const { toast } = useToast();
+  const { can } = useAuth();
+  const canEdit = can("admin");
   const [location, setLocation] = useLocation();
   const [selectedId, setSelectedId] = useState<string | null>(null);
   const [isEditingCell, setIsEditingCell] = useState(false);
   const [cellListOpen, setCellListOpen] = useState(true);
   const [configOpen, setConfigOpen] = useState(true);
+  const [view, setView] = useState<PageView>("records");
   const [name, setName] = useState("New Cell");
   const [description, setDescription] = useState("");
   const [status, setStatus] = useState("1");
@@ -102,7 +118,8 @@ export default function CellsPage() {
   });
 
   const selectedCell = cells.find((cell) => cell.id === selectedId) || null;
-  const isViewMode = selectedCell !== null && !isEditingCell;
+  // Only admins can change cells; everyone else sees the read-only view
+  const isViewMode = !canEdit || (selectedCell !== null && !isEditingCell);
 
   const serializeOperations = (value: CellOperation[]) =>
     JSON.stringify(
@@ -309,34 +326,8 @@ export default function CellsPage() {
     return [...cellIncidents].sort((left, right) => latestIncidentDate(right).localeCompare(latestIncidentDate(left)));
   }, [cellIncidents]);
 
-  const syncMachineCellAssignments = async (targetCellName: string, previousCellName?: string | null) => {
-    const updates: Promise<unknown>[] = [];
-
-    allMachines.forEach((machine) => {
-      const shouldBeInCell = assignedMachineIds.has(machine.id);
-      const isInTargetCell = machine.cell === targetCellName;
-      const isInPreviousCell = Boolean(previousCellName && machine.cell === previousCellName);
-
-      if (shouldBeInCell) {
-        if (!isInTargetCell) {
-          updates.push(apiRequest("PATCH", `/api/machines/${machine.id}`, { cell: targetCellName }));
-        }
-        return;
-      }
-
-      if (isInTargetCell || isInPreviousCell) {
-        updates.push(apiRequest("PATCH", `/api/machines/${machine.id}`, { cell: null }));
-      }
-    });
-
-    if (updates.length > 0) {
-      await Promise.all(updates);
-    }
-  };
-
   const saveMutation = useMutation({
     mutationFn: async () => {
-      const previousCellName = selectedCell?.name;
       const payload = {
         name,
         description,
@@ -354,7 +345,6 @@ export default function CellsPage() {
         saved = await apiRequest("POST", "/api/cells", payload);
       }
 
-      await syncMachineCellAssignments(saved.name, previousCellName);
       return saved;
     },
     onSuccess: (saved: CellConfiguration) => {
@@ -364,7 +354,7 @@ export default function CellsPage() {
       setIsEditingCell(false);
       toast({ title: "Cell saved" });
     },
-    onError: () => toast({ title: "Failed to save cell", variant: "destructive" }),
+    onError: (error) => toast({ title: "Failed to save cell", description: serverMessage(error), variant: "destructive" }),
   });
 
   const resetToNewCellDraft = () => {
@@ -405,6 +395,7 @@ export default function CellsPage() {
     mutationFn: (id: string) => apiRequest("DELETE", `/api/cells/${id}`),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/cells"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/machines"] });
       setSelectedId(null);
       setIsEditingCell(false);
       setName("New Cell");
@@ -412,7 +403,7 @@ export default function CellsPage() {
       setStatus("1");
       setOperations([]);
       setMachinePickerByOperation({});
-      toast({ title: "Cell deleted" });
+      toast({ title: "Cell moved to the recycle bin" });
     },
     onError: () => toast({ title: "Failed to delete cell", variant: "destructive" }),
   });
@@ -525,6 +516,12 @@ export default function CellsPage() {
 
   return (
     <div className="p-6 h-full overflow-auto space-y-4">
+      <div className="flex justify-end">
+        <PageViewTabs value={view} onValueChange={setView} recordsLabel="Cells" />
+      </div>
+      {view === "history" ? (
+        <ChangeHistory entityType="cell" />
+      ) : (
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
         <Card>
           <CardHeader
@@ -538,14 +535,16 @@ export default function CellsPage() {
           </CardHeader>
           {cellListOpen && (
           <CardContent className="space-y-2">
-            <Button
-              variant="outline"
-              className="w-full"
-              onClick={startNewCellWithSavePrompt}
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              New Cell
-            </Button>
+            {canEdit && (
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={startNewCellWithSavePrompt}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                New Cell
+              </Button>
+            )}
             {sortedCells.map((cell) => (
               <button
                 key={cell.id}
@@ -670,14 +669,16 @@ export default function CellsPage() {
                     )}
                   </div>
 
-                  <div className="flex gap-2">
-                    <Button onClick={() => setIsEditingCell(true)}>
-                      <Save className="h-4 w-4 mr-2" />Edit Cell
-                    </Button>
-                    {selectedCell && (
-                      <Button variant="destructive" onClick={() => setDeleteConfirmOpen(true)}>Delete Cell</Button>
-                    )}
-                  </div>
+                  {canEdit && (
+                    <div className="flex gap-2">
+                      <Button onClick={() => setIsEditingCell(true)}>
+                        <Save className="h-4 w-4 mr-2" />Edit Cell
+                      </Button>
+                      {selectedCell && (
+                        <Button variant="destructive" onClick={() => setDeleteConfirmOpen(true)}>Delete Cell</Button>
+                      )}
+                    </div>
+                  )}
                 </>
               ) : (
                 <>
@@ -800,7 +801,11 @@ export default function CellsPage() {
                           >
                             <option value="">Select machine</option>
                             {availableMachines.map((machine) => (
-                              <option key={machine.id} value={machine.id}>
+                              <option
+                                key={machine.id}
+                                value={machine.id}
+                                disabled={Boolean(machine.cellId && machine.cellId !== selectedId)}
+                              >
                                 {machine.name} ({machine.machineId}){machine.cell ? ` — ${machine.cell}` : ""}
                               </option>
                             ))}
@@ -929,7 +934,7 @@ export default function CellsPage() {
               <AlertDialogHeader>
                 <AlertDialogTitle>Delete cell?</AlertDialogTitle>
                 <AlertDialogDescription>
-                  This will permanently delete this cell configuration. This action cannot be undone.
+                  This cell moves to the recycle bin, where it can be restored.
                 </AlertDialogDescription>
               </AlertDialogHeader>
               <AlertDialogFooter>
@@ -949,6 +954,7 @@ export default function CellsPage() {
 
         </div>
       </div>
+      )}
     </div>
   );
 }
@@ -1,4 +1,5 @@
 import { useMemo, useState } from "react";
+import { useLocation } from "wouter";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -6,7 +7,7 @@ import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -19,8 +20,15 @@ import {
 } from "@/components/ui/alert-dialog";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { ChevronDown, ChevronUp, Pencil, Plus, Trash2 } from "lucide-react";
-import type { Characteristic, Part } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { ChangeHistory, PageViewTabs, type PageView } from "@/components/change-history";
+import { ChevronDown, ChevronUp, LineChart, Pencil, Plus, Trash2 } from "lucide-react";
+import type { AttributeChartType, Characteristic, Part, SpcRuleSet } from "@shared/schema";
+import { MAX_SUBGROUP_SIZE, attributeChartTypeLabels, attributeChartTypes, spcRuleSetLabels, spcRuleSets } from "@shared/schema";
+import { formatTolerance, roundSpec, type Tolerance } from "@shared/numeric";
+import { findUnit, unitCatalog, unitDimensionLabels, unitDimensions, withUnit } from "@shared/units";
+
+type ToleranceMode = "bilateral" | "unilateral" | "asymmetric";
 
 type CharacteristicForm = {
   partId: string;
@@ -28,10 +36,16 @@ type CharacteristicForm = {
   charName: string;
   isAttributeCheck: boolean;
   nominalValue: string;
-  toleranceMode: "bilateral" | "unilateral";
+  unit: string;
+  toleranceMode: ToleranceMode;
+  // Magnitude for bilateral and unilateral, the signed upper deviation for asymmetric
   toleranceValue: string;
+  lowerDeviation: string;
   unilateralDirection: "upper" | "lower";
   operation: string;
+  subgroupSize: string;
+  ruleSet: SpcRuleSet;
+  attributeChartType: AttributeChartType;
 };
 
 const emptyForm: CharacteristicForm = {
@@ -40,28 +54,55 @@ const emptyForm: CharacteristicForm = {
   charName: "",
   isAttributeCheck: false,
   nominalValue: "",
+  unit: "",
   toleranceMode: "bilateral",
   toleranceValue: "",
+  lowerDeviation: "",
   unilateralDirection: "upper",
   operation: "",
+  subgroupSize: "1",
+  ruleSet: "western_electric",
+  attributeChartType: "p",
 };
 
-const formatNumber = (value: number) => {
-  if (!Number.isFinite(value)) return "";
+// Radix Select items cannot have an empty value
+const NO_UNIT = "none";
+
+const formatNumber = (value: number | null | undefined) => {
+  if (value === null || value === undefined || !Number.isFinite(value)) return "";
   return Number(value.toFixed(6)).toString();
 };
 
+const toFiniteNumber = (raw: string) => (raw.trim() === "" ? null : Number.isFinite(Number(raw)) ? Number(raw) : null);
+
+// Signed deviations from nominal entered in the form, or null while incomplete or invalid
+function formDeviations(form: CharacteristicForm): Tolerance | null {
+  if (form.toleranceMode === "asymmetric") {
+    const upper = toFiniteNumber(form.toleranceValue);
+    const lower = toFiniteNumber(form.lowerDeviation);
+    return upper === null || lower === null || lower > upper ? null : { upper, lower };
+  }
+  const tolerance = toFiniteNumber(form.toleranceValue);
+  if (tolerance === null || tolerance < 0) return null;
+  if (form.toleranceMode === "bilateral") return { upper: tolerance, lower: -tolerance };
+  return form.unilateralDirection === "upper" ? { upper: tolerance, lower: 0 } : { upper: 0, lower: -tolerance };
+}
+
 const isAttributeCharacteristic = (char: Characteristic) =>
   Boolean(char.isAttributeCheck)
-  || (!char.nominalValue && !char.charMin && !char.charMax && !char.tolerance);
+  || (char.nominalValue == null && char.charMin == null && char.charMax == null && char.toleranceUpper == null);
 
 export default function CharacteristicsPage() {
   const { toast } = useToast();
+  const { can } = useAuth();
+  const canEdit = can("quality_engineer");
+  const [, setLocation] = useLocation();
   const [form, setForm] = useState<CharacteristicForm>(emptyForm);
   const [newCharacteristicOpen, setNewCharacteristicOpen] = useState(false);
   const [editingCharacteristicId, setEditingCharacteristicId] = useState<string | null>(null);
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
   const [deletingChar, setDeletingChar] = useState<Characteristic | null>(null);
+  const [view, setView] = useState<PageView>("records");
 
   const { data: parts = [] } = useQuery<Part[]>({
     queryKey: ["/api/parts"],
@@ -74,48 +115,37 @@ export default function CharacteristicsPage() {
   });
 
   const computedLimits = useMemo(() => {
-    const nominal = Number(form.nominalValue);
-    const tolerance = Number(form.toleranceValue);
-    if (!Number.isFinite(nominal) || !Number.isFinite(tolerance) || tolerance < 0) {
-      return { min: "", max: "", toleranceText: "" };
-    }
-
-    if (form.toleranceMode === "bilateral") {
-      return {
-        min: formatNumber(nominal - tolerance),
-        max: formatNumber(nominal + tolerance),
-        toleranceText: `±${formatNumber(tolerance)}`,
-      };
-    }
-
-    if (form.unilateralDirection === "upper") {
-      return {
-        min: formatNumber(nominal),
-        max: formatNumber(nominal + tolerance),
-        toleranceText: `+${formatNumber(tolerance)}/-0`,
-      };
-    }
-
+    const nominal = toFiniteNumber(form.nominalValue);
+    const deviations = formDeviations(form);
+    if (nominal === null || !deviations) return null;
     return {
-      min: formatNumber(nominal - tolerance),
-      max: formatNumber(nominal),
-      toleranceText: `+0/-${formatNumber(tolerance)}`,
+      min: roundSpec(nominal + deviations.lower),
+      max: roundSpec(nominal + deviations.upper),
+      upper: deviations.upper,
+      lower: deviations.lower,
     };
-  }, [form.nominalValue, form.toleranceMode, form.toleranceValue, form.unilateralDirection]);
+  }, [form]);
+
+  const characteristicPayload = (payload: CharacteristicForm) => ({
+    partId: payload.partId,
+    charNumber: payload.charNumber.trim(),
+    charName: payload.charName.trim() || undefined,
+    isAttributeCheck: payload.isAttributeCheck,
+    nominalValue: payload.isAttributeCheck ? null : toFiniteNumber(payload.nominalValue),
+    charMin: payload.isAttributeCheck ? null : (computedLimits?.min ?? null),
+    charMax: payload.isAttributeCheck ? null : (computedLimits?.max ?? null),
+    toleranceUpper: payload.isAttributeCheck ? null : (computedLimits?.upper ?? null),
+    toleranceLower: payload.isAttributeCheck ? null : (computedLimits?.lower ?? null),
+    unit: payload.isAttributeCheck ? null : (payload.unit || null),
+    opName: payload.operation.trim() || undefined,
+    subgroupSize: Number(payload.subgroupSize),
+    ruleSet: payload.ruleSet,
+    attributeChartType: payload.attributeChartType,
+  });
 
   const createMutation = useMutation({
     mutationFn: (payload: CharacteristicForm) =>
-      apiRequest("POST", "/api/characteristics", {
-        partId: payload.partId,
-        charNumber: payload.charNumber.trim(),
-        charName: payload.charName.trim() || undefined,
-        isAttributeCheck: payload.isAttributeCheck,
-        nominalValue: payload.isAttributeCheck ? null : payload.nominalValue.trim(),
-        charMin: payload.isAttributeCheck ? null : (computedLimits.min || undefined),
-        charMax: payload.isAttributeCheck ? null : (computedLimits.max || undefined),
-        tolerance: payload.isAttributeCheck ? null : (computedLimits.toleranceText || undefined),
-        opName: payload.operation.trim() || undefined,
-      }),
+      apiRequest("POST", "/api/characteristics", characteristicPayload(payload)),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/characteristics"] });
       setForm(emptyForm);
@@ -126,17 +156,7 @@ export default function CharacteristicsPage() {
 
   const updateMutation = useMutation({
     mutationFn: ({ id, payload }: { id: string; payload: CharacteristicForm }) =>
-      apiRequest("PATCH", `/api/characteristics/${id}`, {
-        partId: payload.partId,
-        charNumber: payload.charNumber.trim(),
-        charName: payload.charName.trim() || undefined,
-        isAttributeCheck: payload.isAttributeCheck,
-        nominalValue: payload.isAttributeCheck ? null : payload.nominalValue.trim(),
-        charMin: payload.isAttributeCheck ? null : (computedLimits.min || undefined),
-        charMax: payload.isAttributeCheck ? null : (computedLimits.max || undefined),
-        tolerance: payload.isAttributeCheck ? null : (computedLimits.toleranceText || undefined),
-        opName: payload.operation.trim() || undefined,
-      }),
+      apiRequest("PATCH", `/api/characteristics/${id}`, characteristicPayload(payload)),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/characteristics"] });
       setForm(emptyForm);
@@ -150,7 +170,7 @@ export default function CharacteristicsPage() {
     mutationFn: (id: string) => apiRequest("DELETE", `/api/characteristics/${id}`),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/characteristics"] });
-      toast({ title: "Characteristic deleted" });
+      toast({ title: "Characteristic moved to the recycle bin" });
     },
     onError: () => toast({ title: "Failed to delete characteristic", variant: "destructive" }),
   });
@@ -158,43 +178,30 @@ export default function CharacteristicsPage() {
   const partById = new Map(parts.map((part) => [part.id, part]));
 
   const startEdit = (char: Characteristic) => {
-    let toleranceMode: "bilateral" | "unilateral" = "bilateral";
+    let toleranceMode: ToleranceMode = "bilateral";
     let unilateralDirection: "upper" | "lower" = "upper";
     let toleranceValue = "";
+    let lowerDeviation = "";
 
-    const nominal = Number(char.nominalValue);
-    const min = Number(char.charMin);
-    const max = Number(char.charMax);
-    const hasNumeric = Number.isFinite(nominal) && Number.isFinite(min) && Number.isFinite(max);
+    // Rows saved before the deviations were stored only have min/max around the nominal
+    const nominal = char.nominalValue;
+    const upper = char.toleranceUpper ?? (nominal != null && char.charMax != null ? char.charMax - nominal : null);
+    const lower = char.toleranceLower ?? (nominal != null && char.charMin != null ? char.charMin - nominal : null);
 
-    if (hasNumeric) {
-      const upper = max - nominal;
-      const lower = nominal - min;
-      if (Math.abs(upper - lower) < 1e-9) {
-        toleranceMode = "bilateral";
+    if (upper !== null && lower !== null) {
+      if (Math.abs(upper + lower) < 1e-9) {
         toleranceValue = formatNumber(upper);
-      } else if (Math.abs(min - nominal) < 1e-9) {
+      } else if (Math.abs(lower) < 1e-9 && upper > 0) {
         toleranceMode = "unilateral";
-        unilateralDirection = "upper";
         toleranceValue = formatNumber(upper);
-      } else if (Math.abs(max - nominal) < 1e-9) {
+      } else if (Math.abs(upper) < 1e-9 && lower < 0) {
         toleranceMode = "unilateral";
         unilateralDirection = "lower";
-        toleranceValue = formatNumber(lower);
-      }
-    } else {
-      const rawTol = (char.tolerance || "").trim();
-      if (rawTol.startsWith("±")) {
-        toleranceMode = "bilateral";
-        toleranceValue = rawTol.slice(1).trim();
-      } else if (rawTol.startsWith("+") && rawTol.includes("/-0")) {
-        toleranceMode = "unilateral";
-        unilateralDirection = "upper";
-        toleranceValue = rawTol.split("/")[0].replace("+", "").trim();
-      } else if (rawTol.startsWith("+0/-")) {
-        toleranceMode = "unilateral";
-        unilateralDirection = "lower";
-        toleranceValue = rawTol.replace("+0/-", "").trim();
+        toleranceValue = formatNumber(-lower);
+      } else {
+        toleranceMode = "asymmetric";
+        toleranceValue = formatNumber(upper);
+        lowerDeviation = formatNumber(lower);
       }
     }
 
@@ -207,21 +214,35 @@ export default function CharacteristicsPage() {
       charNumber: char.charNumber,
       charName: char.charName || "",
       isAttributeCheck: attributeCheck,
-      nominalValue: char.nominalValue || "",
+      nominalValue: formatNumber(char.nominalValue),
+      // Units saved before the catalog existed are only kept if they match a catalog entry
+      unit: findUnit(char.unit)?.symbol ?? "",
       toleranceMode,
       toleranceValue,
+      lowerDeviation,
       unilateralDirection,
       operation: char.opName || "",
+      subgroupSize: String(char.subgroupSize ?? 1),
+      ruleSet: char.ruleSet ?? "western_electric",
+      attributeChartType: char.attributeChartType ?? "p",
     });
   };
 
   return (
     <div className="p-6 h-full overflow-y-auto space-y-4">
-      <div>
-        <h2 className="text-lg font-semibold">Characteristics</h2>
-        <p className="text-sm text-muted-foreground">Manage measurable characteristics linked to part numbers.</p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold">Characteristics</h2>
+          <p className="text-sm text-muted-foreground">Manage measurable characteristics linked to part numbers.</p>
+        </div>
+        <PageViewTabs value={view} onValueChange={setView} recordsLabel="Characteristics" />
       </div>
 
+      {view === "history" ? (
+        <ChangeHistory entityType="characteristic" />
+      ) : (
+      <>
+      {canEdit && (
       <Card>
         <CardHeader
           className="cursor-pointer select-none"
@@ -279,7 +300,7 @@ export default function CharacteristicsPage() {
             <Label htmlFor="attribute-check">Attribute Check (non-dimensional)</Label>
           </div>
 
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          <div className="grid grid-cols-1 md:grid-cols-4 xl:grid-cols-7 gap-3">
             <div>
               <Label className="mb-1 block">Nominal Value *</Label>
               <Input
@@ -291,11 +312,34 @@ export default function CharacteristicsPage() {
                 disabled={form.isAttributeCheck}
               />
             </div>
+            <div>
+              <Label className="mb-1 block">Unit</Label>
+              <Select
+                value={form.unit || NO_UNIT}
+                onValueChange={(value) => setForm((prev) => ({ ...prev, unit: value === NO_UNIT ? "" : value }))}
+                disabled={form.isAttributeCheck}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_UNIT}>No unit</SelectItem>
+                  {unitDimensions.map((dimension) => (
+                    <SelectGroup key={dimension}>
+                      <SelectLabel>{unitDimensionLabels[dimension]}</SelectLabel>
+                      {unitCatalog.filter((unit) => unit.dimension === dimension).map((unit) => (
+                        <SelectItem key={unit.symbol} value={unit.symbol}>{unit.symbol} — {unit.label}</SelectItem>
+                      ))}
+                    </SelectGroup>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <div>
               <Label className="mb-1 block">Tolerance Type *</Label>
               <Select
                 value={form.toleranceMode}
-                onValueChange={(value: "bilateral" | "unilateral") => setForm((prev) => ({ ...prev, toleranceMode: value }))}
+                onValueChange={(value: ToleranceMode) => setForm((prev) => ({ ...prev, toleranceMode: value }))}
               >
                 <SelectTrigger>
                   <SelectValue />
@@ -303,16 +347,17 @@ export default function CharacteristicsPage() {
                 <SelectContent>
                   <SelectItem value="bilateral">Bilateral (±)</SelectItem>
                   <SelectItem value="unilateral">Unilateral</SelectItem>
+                  <SelectItem value="asymmetric">Unequal (+a / -b)</SelectItem>
                 </SelectContent>
               </Select>
             </div>
             <div>
-              <Label className="mb-1 block">Tolerance Value *</Label>
+              <Label className="mb-1 block">{form.toleranceMode === "asymmetric" ? "Upper Deviation *" : "Tolerance Value *"}</Label>
               <Input
                 type="number"
-                min={0}
+                min={form.toleranceMode === "asymmetric" ? undefined : 0}
                 step="0.0001"
-                placeholder="e.g. 0.050"
+                placeholder={form.toleranceMode === "asymmetric" ? "e.g. 0.100" : "e.g. 0.050"}
                 value={form.toleranceValue}
                 onChange={(event) => setForm((prev) => ({ ...prev, toleranceValue: event.target.value }))}
                 disabled={form.isAttributeCheck}
@@ -326,6 +371,53 @@ export default function CharacteristicsPage() {
                 onChange={(event) => setForm((prev) => ({ ...prev, operation: event.target.value }))}
               />
             </div>
+            <div>
+              <Label className="mb-1 block">Subgroup Size</Label>
+              <Input
+                type="number"
+                min={1}
+                max={MAX_SUBGROUP_SIZE}
+                step={1}
+                value={form.subgroupSize}
+                onChange={(event) => setForm((prev) => ({ ...prev, subgroupSize: event.target.value }))}
+                disabled={form.isAttributeCheck}
+              />
+            </div>
+            {form.isAttributeCheck ? (
+              <div>
+                <Label className="mb-1 block">Attribute Chart</Label>
+                <Select
+                  value={form.attributeChartType}
+                  onValueChange={(value: AttributeChartType) => setForm((prev) => ({ ...prev, attributeChartType: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {attributeChartTypes.map((type) => (
+                      <SelectItem key={type} value={type}>{attributeChartTypeLabels[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <div>
+                <Label className="mb-1 block">Run Rules</Label>
+                <Select
+                  value={form.ruleSet}
+                  onValueChange={(value: SpcRuleSet) => setForm((prev) => ({ ...prev, ruleSet: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {spcRuleSets.map((ruleSet) => (
+                      <SelectItem key={ruleSet} value={ruleSet}>{spcRuleSetLabels[ruleSet]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
           </div>
 
           {form.toleranceMode === "unilateral" && !form.isAttributeCheck && (
@@ -348,18 +440,33 @@ export default function CharacteristicsPage() {
             </div>
           )}
 
+          {form.toleranceMode === "asymmetric" && !form.isAttributeCheck && (
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+              <div>
+                <Label className="mb-1 block">Lower Deviation *</Label>
+                <Input
+                  type="number"
+                  step="0.0001"
+                  placeholder="e.g. -0.050"
+                  value={form.lowerDeviation}
+                  onChange={(event) => setForm((prev) => ({ ...prev, lowerDeviation: event.target.value }))}
+                />
+              </div>
+            </div>
+          )}
+
           <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
             <div>
               <Label className="mb-1 block">Calculated Min</Label>
-              <Input value={computedLimits.min} readOnly />
+              <Input value={withUnit(formatNumber(computedLimits?.min), form.unit)} readOnly />
             </div>
             <div>
               <Label className="mb-1 block">Calculated Max</Label>
-              <Input value={computedLimits.max} readOnly />
+              <Input value={withUnit(formatNumber(computedLimits?.max), form.unit)} readOnly />
             </div>
             <div>
               <Label className="mb-1 block">Tolerance (Stored)</Label>
-              <Input value={computedLimits.toleranceText} readOnly />
+              <Input value={computedLimits ? withUnit(formatTolerance(computedLimits.upper, computedLimits.lower), form.unit) : ""} readOnly />
             </div>
           </div>
 
@@ -378,11 +485,21 @@ export default function CharacteristicsPage() {
                   toast({ title: "Valid Nominal Value is required", variant: "destructive" });
                   return;
                 }
-                if (!form.toleranceValue.trim() || !Number.isFinite(Number(form.toleranceValue)) || Number(form.toleranceValue) < 0) {
-                  toast({ title: "Valid Tolerance Value is required", variant: "destructive" });
+                if (!formDeviations(form)) {
+                  toast({
+                    title: form.toleranceMode === "asymmetric"
+                      ? "Valid upper and lower deviations are required, with the lower not above the upper"
+                      : "Valid Tolerance Value is required",
+                    variant: "destructive",
+                  });
                   return;
                 }
               }
+              const subgroupSize = Number(form.subgroupSize);
+              if (!Number.isInteger(subgroupSize) || subgroupSize < 1 || subgroupSize > MAX_SUBGROUP_SIZE) {
+                toast({ title: `Subgroup Size must be a whole number from 1 to ${MAX_SUBGROUP_SIZE}`, variant: "destructive" });
+                return;
+              }
               if (editingCharacteristicId) {
                 updateMutation.mutate({ id: editingCharacteristicId, payload: form });
               } else {
@@ -407,6 +524,7 @@ export default function CharacteristicsPage() {
         </CardContent>
         )}
       </Card>
+      )}
 
       <Card>
         <CardHeader>
@@ -438,6 +556,8 @@ export default function CharacteristicsPage() {
                     <th className="text-left p-2">Max</th>
                     <th className="text-left p-2">Tolerance</th>
                     <th className="text-left p-2">Operation</th>
+                    <th className="text-left p-2">Subgroup</th>
+                    <th className="text-left p-2">Run Rules</th>
                     <th className="text-right p-2"></th>
                   </tr>
                 </thead>
@@ -447,32 +567,46 @@ export default function CharacteristicsPage() {
                       <td className="p-2">{char.partId ? (partById.get(char.partId)?.partNumber || <span className="text-muted-foreground">-</span>) : <span className="text-muted-foreground">-</span>}</td>
                       <td className="p-2">{char.charNumber}</td>
                       <td className="p-2">{char.charName || <span className="text-muted-foreground">-</span>}</td>
-                      <td className="p-2">{isAttributeCharacteristic(char) ? "Attribute Check" : "Variable"}</td>
-                      <td className="p-2">{char.nominalValue || <span className="text-muted-foreground">-</span>}</td>
-                      <td className="p-2">{char.charMin || <span className="text-muted-foreground">-</span>}</td>
-                      <td className="p-2">{char.charMax || <span className="text-muted-foreground">-</span>}</td>
-                      <td className="p-2">{char.tolerance || <span className="text-muted-foreground">-</span>}</td>
+                      <td className="p-2">{isAttributeCharacteristic(char) ? `Attribute Check (${char.attributeChartType ?? "p"})` : "Variable"}</td>
+                      <td className="p-2">{withUnit(formatNumber(char.nominalValue), char.unit) || <span className="text-muted-foreground">-</span>}</td>
+                      <td className="p-2">{withUnit(formatNumber(char.charMin), char.unit) || <span className="text-muted-foreground">-</span>}</td>
+                      <td className="p-2">{withUnit(formatNumber(char.charMax), char.unit) || <span className="text-muted-foreground">-</span>}</td>
+                      <td className="p-2">{withUnit(formatTolerance(char.toleranceUpper, char.toleranceLower), char.unit) || <span className="text-muted-foreground">-</span>}</td>
                       <td className="p-2">{char.opName || <span className="text-muted-foreground">-</span>}</td>
+                      <td className="p-2">{char.subgroupSize ?? 1}</td>
+                      <td className="p-2">{isAttributeCharacteristic(char) ? <span className="text-muted-foreground">-</span> : spcRuleSetLabels[char.ruleSet]}</td>
                       <td className="p-2 text-right">
                         <div className="inline-flex gap-1">
                           <Button
                             size="sm"
                             variant="ghost"
-                            onClick={() => startEdit(char)}
-                          >
-                            <Pencil className="h-4 w-4" />
-                          </Button>
-                          <Button
-                            size="sm"
-                            variant="ghost"
-                            onClick={() => {
-                              setDeletingChar(char);
-                              setDeleteConfirmOpen(true);
-                            }}
-                            disabled={deleteMutation.isPending}
+                            title="SPC charts"
+                            onClick={() => setLocation(`/spc-charts?characteristicId=${char.id}`)}
                           >
-                            <Trash2 className="h-4 w-4" />
+                            <LineChart className="h-4 w-4" />
                           </Button>
+                          {canEdit && (
+                            <>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => startEdit(char)}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => {
+                                  setDeletingChar(char);
+                                  setDeleteConfirmOpen(true);
+                                }}
+                                disabled={deleteMutation.isPending}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -483,12 +617,14 @@ export default function CharacteristicsPage() {
           )}
         </CardContent>
       </Card>
+      </>
+      )}
       <AlertDialog open={deleteConfirmOpen} onOpenChange={setDeleteConfirmOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Characteristic</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete characteristic "{deletingChar?.charNumber}"? This action cannot be undone.
+              Characteristic "{deletingChar?.charNumber}" moves to the recycle bin. Its measurements are kept and it can be restored from there.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Slider } from "@/components/ui/slider";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
@@ -23,6 +24,11 @@ import {
 } from "@/components/ui/chart";
 import { MachineCard } from "@/components/machine-card";
 import { MachineDialog, type MachineSubmitData } from "@/components/machine-dialog";
+import { DowntimeDialog, type DowntimeSubmitData } from "@/components/downtime-dialog";
+import { ActiveDowntimeCard } from "@/components/active-downtime-card";
+import { CellOeeCard } from "@/components/cell-oee-card";
+import { SpcSignalsCard } from "@/components/spc-signals-card";
+import { CalibrationDueCard } from "@/components/calibration-due-card";
 import {
   Bar,
   CartesianGrid,
@@ -49,6 +55,15 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { exportDashboardStatusExcel, exportDashboardStatusPdf } from "@/lib/dashboard-report";
+import {
+  emptyShiftCalendar,
+  formatShiftSlotLabel,
+  getIncidentShift,
+  isIncidentInWorkingTime,
+  OUTSIDE_SHIFTS_LABEL,
+  shiftBucketNames,
+  shiftSlotsBetween,
+} from "@/lib/shift-calendar";
 import { 
   Search,
   Factory,
@@ -58,14 +73,26 @@ import {
   ChevronRight,
   FileDown,
 } from "lucide-react";
-import type { CellConfiguration, Characteristic, Machine, MachineStatus, Part, ScrapIncident } from "@shared/schema";
+import type {
+  CellConfiguration,
+  Characteristic,
+  Machine,
+  MachineStatus,
+  Part,
+  ProductionCount,
+  ScrapIncident,
+  ShiftCalendar,
+} from "@shared/schema";
+import { scrapCharacteristicLabel } from "@shared/schema";
 
 type CostliestIncident = {
   id: string;
   machineId: string;
   partId: string | null;
   machineName: string;
+  cellId: string | null;
   cellName: string;
+  characteristicId: string | null;
   characteristic: string;
   partNumber: string;
   partName: string | null;
@@ -75,6 +102,7 @@ type CostliestIncident = {
 };
 
 type CharScrapSummary = {
+  characteristicId: string | null;   // null for legacy incidents whose text matched no characteristic
   characteristic: string;
   partNumber: string;
   totalCost: number;
@@ -83,10 +111,13 @@ type CharScrapSummary = {
 };
 
 type CellScrapSummary = {
+  cellId: string | null;
   cellName: string;
   incidentCount: number;
   totalCost: number;
   totalQuantity: number;
+  producedQuantity: number;
+  scrapRate: number | null;
 };
 
 type MachineScrapSummary = {
@@ -95,6 +126,8 @@ type MachineScrapSummary = {
   totalCost: number;
   incidentCount: number;
   totalQuantity: number;
+  producedQuantity: number;
+  scrapRate: number | null;
 };
 
 type PartScrapSummary = {
@@ -104,15 +137,18 @@ type PartScrapSummary = {
   totalCost: number;
   incidentCount: number;
   totalQuantity: number;
+  producedQuantity: number;
+  scrapRate: number | null;
 };
 
 type TimeRangeMetrics = {
   incidentCount: number;
   totalCost: number;
   totalQuantity: number;
+  byShift: Map<string, Omit<TimeRangeMetrics, "byShift">>;
 };
 
-type TrendGranularity = "day" | "week" | "month";
+type TrendGranularity = "day" | "week" | "month" | "shift";
 
 type TrendChartSelection = {
   periodKey: string;
@@ -130,19 +166,25 @@ export default function Dashboard() {
   const [deletingMachineId, setDeletingMachineId] = useState<string | null>(null);
   const [expandedCells, setExpandedCells] = useState<Set<string>>(new Set());
   const [isExportingReport, setIsExportingReport] = useState(false);
+  const [downtimeDialogOpen, setDowntimeDialogOpen] = useState(false);
   const [trendGranularity, setTrendGranularity] = useState<TrendGranularity>("day");
   const [trendStartIndex, setTrendStartIndex] = useState(0);
   const [trendChartSelection, setTrendChartSelection] = useState<TrendChartSelection | null>(null);
+  const [workingTimeOnly, setWorkingTimeOnly] = useState(false);
+  const [metricsByShift, setMetricsByShift] = useState(false);
 
-  // Fetch machines
-  const { data: machines = [], isLoading: machinesLoading } = useQuery<Machine[]>({
-    queryKey: ["/api/machines"],
+  // Fetch machines. Archived ones only name the history recorded against them.
+  const { data: allMachines = [], isLoading: machinesLoading } = useQuery<Machine[]>({
+    queryKey: ["/api/machines", { includeArchived: true }],
+    queryFn: async () => apiRequest("GET", "/api/machines?includeArchived=true"),
   });
+  const machines = useMemo(() => allMachines.filter((machine) => !machine.isArchived), [allMachines]);
 
   const { data: cells = [], isLoading: cellsLoading } = useQuery<CellConfiguration[]>({
     queryKey: ["/api/cells"],
     queryFn: async () => apiRequest("GET", "/api/cells"),
   });
+  const cellById = useMemo(() => new Map(cells.map((cell) => [cell.id, cell])), [cells]);
 
   const goToSpcData = useCallback((params?: Record<string, string | number | undefined>) => {
     let target = "/spc-data";
@@ -227,6 +269,19 @@ export default function Dashboard() {
     },
   });
 
+  const logDowntimeMutation = useMutation({
+    mutationFn: (data: DowntimeSubmitData) =>
+      apiRequest("POST", "/api/downtime", { ...data, startTime: new Date(data.startTime).toISOString() }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/downtime"] });
+      setDowntimeDialogOpen(false);
+      toast({ title: "Downtime logged" });
+    },
+    onError: () => {
+      toast({ title: "Failed to log downtime", variant: "destructive" });
+    },
+  });
+
   const deleteMachineMutation = useMutation({
     mutationFn: (id: string) => apiRequest("DELETE", `/api/machines/${id}`),
     onSuccess: () => {
@@ -251,7 +306,7 @@ export default function Dashboard() {
     );
   });
 
-  // Group machines by cell
+  // Group machines by their cell membership; a cell's name comes from the cell itself
   const machinesByCell = useMemo(() => {
     const grouped: Record<string, Machine[]> = {};
     const cellNumberByName = new Map<string, number | null>();
@@ -265,7 +320,7 @@ export default function Dashboard() {
     });
 
     filteredMachines.forEach(machine => {
-      const cellName = machine.cell || "Unassigned";
+      const cellName = (machine.cellId && cellById.get(machine.cellId)?.name) || "Unassigned";
       if (!grouped[cellName]) {
         grouped[cellName] = [];
       }
@@ -309,7 +364,7 @@ export default function Dashboard() {
       });
     });
     return { grouped, sortedKeys };
-  }, [filteredMachines, cells]);
+  }, [filteredMachines, cells, cellById]);
 
   // Fetch scrap incidents and group by machine
   const { data: scrapIncidents = [], isLoading: incidentsLoading } = useQuery<ScrapIncident[]>({
@@ -317,20 +372,37 @@ export default function Dashboard() {
     queryFn: async () => apiRequest('GET', '/api/scrap-incidents'),
   });
 
+  // Including archived parts and characteristics, which still label past scrap and signals
   const { data: parts = [], isLoading: partsLoading } = useQuery<Part[]>({
-    queryKey: ['/api/parts'],
-    queryFn: async () => apiRequest('GET', '/api/parts'),
+    queryKey: ['/api/parts', { includeArchived: true }],
+    queryFn: async () => apiRequest('GET', '/api/parts?includeArchived=true'),
   });
 
   const { data: characteristics = [], isLoading: characteristicsLoading } = useQuery<Characteristic[]>({
-    queryKey: ["/api/characteristics"],
-    queryFn: async () => apiRequest("GET", "/api/characteristics"),
+    queryKey: ["/api/characteristics", { includeArchived: true }],
+    queryFn: async () => apiRequest("GET", "/api/characteristics?includeArchived=true"),
+  });
+
+  const { data: productionCounts = [], isLoading: productionCountsLoading } = useQuery<ProductionCount[]>({
+    queryKey: ["/api/production-counts"],
+    queryFn: async () => apiRequest("GET", "/api/production-counts"),
+  });
+
+  const { data: shiftCalendar = emptyShiftCalendar } = useQuery<ShiftCalendar>({
+    queryKey: ["/api/shift-calendar"],
+    queryFn: async () => apiRequest("GET", "/api/shift-calendar"),
   });
 
   const dashboardIncidents = useMemo(() => {
     return scrapIncidents || [];
   }, [scrapIncidents]);
 
+  // Incidents feeding the time-bucketed metrics and trend chart
+  const timeBucketIncidents = useMemo(() => {
+    if (!workingTimeOnly) return dashboardIncidents;
+    return dashboardIncidents.filter((incident) => isIncidentInWorkingTime(incident, shiftCalendar));
+  }, [dashboardIncidents, shiftCalendar, workingTimeOnly]);
+
   const incidentsByMachine = useMemo(() => {
     const map: Record<string, ScrapIncident[]> = {};
     (dashboardIncidents || []).forEach((incident) => {
@@ -346,23 +418,49 @@ export default function Dashboard() {
     return map;
   }, [parts]);
 
+  const characteristicById = useMemo(() => {
+    const map = new Map<string, Characteristic>();
+    characteristics.forEach((char) => map.set(char.id, char));
+    return map;
+  }, [characteristics]);
+
   const machineById = useMemo(() => {
     const map = new Map<string, Machine>();
-    (machines || []).forEach((machine) => map.set(machine.id, machine));
+    allMachines.forEach((machine) => map.set(machine.id, machine));
     return map;
-  }, [machines]);
+  }, [allMachines]);
+
+  // Total parts produced, keyed by machine id, cell id and part id – the scrap rate denominators
+  const producedTotals = useMemo(() => {
+    const byMachine = new Map<string, number>();
+    const byCell = new Map<string, number>();
+    const byPart = new Map<string, number>();
+    const add = (map: Map<string, number>, key: string, quantity: number) => map.set(key, (map.get(key) || 0) + quantity);
+    productionCounts.forEach((count) => {
+      add(byMachine, count.machineId, count.totalQuantity);
+      add(byCell, machineById.get(count.machineId)?.cellId || "unassigned", count.totalQuantity);
+      add(byPart, count.partId || "unassigned", count.totalQuantity);
+    });
+    return { byMachine, byCell, byPart };
+  }, [productionCounts, machineById]);
+
+  const scrapRate = (scrapQuantity: number, producedQuantity: number) =>
+    producedQuantity > 0 ? scrapQuantity / producedQuantity : null;
 
   const incidentsWithCost = useMemo<CostliestIncident[]>(() => {
     return (dashboardIncidents || [])
       .map((incident) => {
-        const machine = machines.find((item) => item.id === incident.machineId);
+        const machine = machineById.get(incident.machineId);
         const part = incident.partId ? partById.get(incident.partId) : null;
+        const cellId = machine?.cellId ?? null;
         return {
           id: incident.id,
           machineId: incident.machineId,
           partId: incident.partId,
           machineName: machine?.name || incident.machineId || "Unknown Machine",
-          cellName: machine?.cell || "Unassigned",
+          cellId,
+          cellName: (cellId && cellById.get(cellId)?.name) || "Unassigned",
+          characteristicId: incident.characteristicId,
           characteristic: incident.characteristic || "(unknown)",
           partNumber: part?.partNumber || "Unknown",
           partName: part?.partName || null,
@@ -372,7 +470,7 @@ export default function Dashboard() {
         };
       })
       .filter((incident) => incident.incidentCost >= 0);
-  }, [machines, dashboardIncidents, partById]);
+  }, [machineById, cellById, dashboardIncidents, partById]);
 
   const costliestIncidents = useMemo<CostliestIncident[]>(() => {
     return [...incidentsWithCost]
@@ -381,25 +479,32 @@ export default function Dashboard() {
       .slice(0, 5);
   }, [incidentsWithCost]);
 
+  // Keyed by cell id from membership, so two cells never merge on a shared name
   const cellScrapSummary = useMemo<CellScrapSummary[]>(() => {
     const map = new Map<string, CellScrapSummary>();
     incidentsWithCost.forEach((incident) => {
-      const existing = map.get(incident.cellName);
+      const key = incident.cellId || "unassigned";
+      const existing = map.get(key);
       if (existing) {
         existing.incidentCount += 1;
         existing.totalCost += incident.incidentCost;
         existing.totalQuantity += incident.quantity;
       } else {
-        map.set(incident.cellName, {
+        map.set(key, {
+          cellId: incident.cellId,
           cellName: incident.cellName,
           incidentCount: 1,
           totalCost: incident.incidentCost,
           totalQuantity: incident.quantity,
+          producedQuantity: producedTotals.byCell.get(key) || 0,
+          scrapRate: null,
         });
       }
     });
-    return Array.from(map.values()).sort((left, right) => right.totalCost - left.totalCost);
-  }, [incidentsWithCost]);
+    return Array.from(map.values())
+      .map((summary) => ({ ...summary, scrapRate: scrapRate(summary.totalQuantity, summary.producedQuantity) }))
+      .sort((left, right) => right.totalCost - left.totalCost);
+  }, [incidentsWithCost, producedTotals]);
 
   const machineScrapSummary = useMemo<MachineScrapSummary[]>(() => {
     const map = new Map<string, MachineScrapSummary>();
@@ -416,20 +521,26 @@ export default function Dashboard() {
           totalCost: incident.incidentCost,
           incidentCount: 1,
           totalQuantity: incident.quantity,
+          producedQuantity: producedTotals.byMachine.get(incident.machineId) || 0,
+          scrapRate: null,
         });
       }
     });
-    return Array.from(map.values()).sort((left, right) => right.totalCost - left.totalCost);
-  }, [incidentsWithCost]);
+    return Array.from(map.values())
+      .map((summary) => ({ ...summary, scrapRate: scrapRate(summary.totalQuantity, summary.producedQuantity) }))
+      .sort((left, right) => right.totalCost - left.totalCost);
+  }, [incidentsWithCost, producedTotals]);
 
   const highestScrapMachine = machineScrapSummary[0];
   const highestScrapCell = cellScrapSummary[0];
 
+  // Linked incidents group by characteristic id; unlinked legacy text falls back to part + text
   const charScrapSummary = useMemo<CharScrapSummary[]>(() => {
     const map = new Map<string, CharScrapSummary>();
     incidentsWithCost.forEach((incident) => {
       const partNumber = incident.partId ? (partById.get(incident.partId)?.partNumber || "Unknown Part") : "Unassigned";
-      const key = `${partNumber}::${incident.characteristic}`;
+      const linked = incident.characteristicId ? characteristicById.get(incident.characteristicId) : undefined;
+      const key = linked ? `id::${linked.id}` : `text::${partNumber}::${incident.characteristic}`;
       const existing = map.get(key);
       if (existing) {
         existing.totalCost += incident.incidentCost;
@@ -437,7 +548,8 @@ export default function Dashboard() {
         existing.totalQuantity += incident.quantity;
       } else {
         map.set(key, {
-          characteristic: incident.characteristic,
+          characteristicId: linked?.id ?? null,
+          characteristic: linked ? scrapCharacteristicLabel(linked) : incident.characteristic,
           partNumber,
           totalCost: incident.incidentCost,
           incidentCount: 1,
@@ -446,7 +558,7 @@ export default function Dashboard() {
       }
     });
     return Array.from(map.values()).sort((a, b) => b.totalCost - a.totalCost);
-  }, [incidentsWithCost, partById]);
+  }, [incidentsWithCost, partById, characteristicById]);
 
   const partScrapSummary = useMemo<PartScrapSummary[]>(() => {
     const map = new Map<string, PartScrapSummary>();
@@ -468,11 +580,15 @@ export default function Dashboard() {
           totalCost: incident.incidentCost,
           incidentCount: 1,
           totalQuantity: incident.quantity,
+          producedQuantity: producedTotals.byPart.get(key) || 0,
+          scrapRate: null,
         });
       }
     });
-    return Array.from(map.values()).sort((a, b) => b.totalCost - a.totalCost);
-  }, [incidentsWithCost, partById]);
+    return Array.from(map.values())
+      .map((summary) => ({ ...summary, scrapRate: scrapRate(summary.totalQuantity, summary.producedQuantity) }))
+      .sort((a, b) => b.totalCost - a.totalCost);
+  }, [incidentsWithCost, partById, producedTotals]);
 
   const timeRangeMetrics = useMemo(() => {
     const now = new Date();
@@ -490,10 +606,15 @@ export default function Dashboard() {
       month: TimeRangeMetrics;
       year: TimeRangeMetrics;
     } = {
-      week: { incidentCount: 0, totalCost: 0, totalQuantity: 0 },
-      month: { incidentCount: 0, totalCost: 0, totalQuantity: 0 },
-      year: { incidentCount: 0, totalCost: 0, totalQuantity: 0 },
+      week: { incidentCount: 0, totalCost: 0, totalQuantity: 0, byShift: new Map() },
+      month: { incidentCount: 0, totalCost: 0, totalQuantity: 0, byShift: new Map() },
+      year: { incidentCount: 0, totalCost: 0, totalQuantity: 0, byShift: new Map() },
     };
+    shiftBucketNames(shiftCalendar).forEach((name) => {
+      metrics.week.byShift.set(name, { incidentCount: 0, totalCost: 0, totalQuantity: 0 });
+      metrics.month.byShift.set(name, { incidentCount: 0, totalCost: 0, totalQuantity: 0 });
+      metrics.year.byShift.set(name, { incidentCount: 0, totalCost: 0, totalQuantity: 0 });
+    });
 
     const resolveIncidentDate = (incident: ScrapIncident) => {
       const rawDate = incident.dateCreated || incident.createdAt || incident.updatedAt;
@@ -502,34 +623,31 @@ export default function Dashboard() {
       return Number.isNaN(parsed.getTime()) ? null : parsed;
     };
 
-    dashboardIncidents.forEach((incident) => {
+    timeBucketIncidents.forEach((incident) => {
       const incidentDate = resolveIncidentDate(incident);
       if (!incidentDate) return;
 
       const incidentCost = Number(incident.estimatedCost || 0);
       const quantity = Number(incident.quantity || 0);
+      const shiftName = getIncidentShift(incident, shiftCalendar)?.shiftName ?? OUTSIDE_SHIFTS_LABEL;
+      const add = (range: TimeRangeMetrics) => {
+        range.incidentCount += 1;
+        range.totalCost += incidentCost;
+        range.totalQuantity += quantity;
+        const shiftTotals = range.byShift.get(shiftName) ?? { incidentCount: 0, totalCost: 0, totalQuantity: 0 };
+        shiftTotals.incidentCount += 1;
+        shiftTotals.totalCost += incidentCost;
+        shiftTotals.totalQuantity += quantity;
+        range.byShift.set(shiftName, shiftTotals);
+      };
 
-      if (incidentDate >= startOfYear) {
-        metrics.year.incidentCount += 1;
-        metrics.year.totalCost += incidentCost;
-        metrics.year.totalQuantity += quantity;
-      }
-
-      if (incidentDate >= startOfMonth) {
-        metrics.month.incidentCount += 1;
-        metrics.month.totalCost += incidentCost;
-        metrics.month.totalQuantity += quantity;
-      }
-
-      if (incidentDate >= startOfWeek) {
-        metrics.week.incidentCount += 1;
-        metrics.week.totalCost += incidentCost;
-        metrics.week.totalQuantity += quantity;
-      }
+      if (incidentDate >= startOfYear) add(metrics.year);
+      if (incidentDate >= startOfMonth) add(metrics.month);
+      if (incidentDate >= startOfWeek) add(metrics.week);
     });
 
     return metrics;
-  }, [dashboardIncidents]);
+  }, [shiftCalendar, timeBucketIncidents]);
 
   const scrapCostTrendChart = useMemo(() => {
     const startOfDay = (date: Date) =>
@@ -572,35 +690,47 @@ export default function Dashboard() {
     const periodPartTotals = new Map<string, Map<string, number>>();
     const partTotals = new Map<string, number>();
 
-    const incidentsWithDate = dashboardIncidents
-      .map((incident) => ({
-        incident,
-        date: resolveIncidentDate(incident),
-      }))
-      .filter((entry): entry is { incident: ScrapIncident; date: Date } => Boolean(entry.date))
+    // Shift buckets need a time of day, so incidents recorded with only a date drop out of them
+    const incidentsWithDate = timeBucketIncidents
+      .map((incident) => {
+        if (trendGranularity === "shift") {
+          const slot = getIncidentShift(incident, shiftCalendar);
+          return { incident, date: slot?.start ?? null, periodKey: slot?.key ?? "" };
+        }
+        const date = resolveIncidentDate(incident);
+        return { incident, date, periodKey: date ? toIsoDate(getPeriodStart(date)) : "" };
+      })
+      .filter((entry): entry is { incident: ScrapIncident; date: Date; periodKey: string } => Boolean(entry.date))
       .sort((left, right) => left.date.getTime() - right.date.getTime());
 
-    const now = getPeriodStart(new Date());
-    const firstDay = incidentsWithDate.length > 0
-      ? getPeriodStart(incidentsWithDate[0].date)
-      : now;
-    const lastDay = incidentsWithDate.length > 0
-      ? getPeriodStart(incidentsWithDate[incidentsWithDate.length - 1].date)
-      : now;
-
     const allPeriods: Array<{ key: string; label: string }> = [];
-    const cursor = new Date(firstDay);
-    while (cursor <= lastDay) {
-      allPeriods.push({
-        key: toIsoDate(cursor),
-        label: formatPeriodLabel(cursor),
-      });
-      if (trendGranularity === "day") {
-        cursor.setDate(cursor.getDate() + 1);
-      } else if (trendGranularity === "week") {
-        cursor.setDate(cursor.getDate() + 7);
-      } else {
-        cursor.setMonth(cursor.getMonth() + 1, 1);
+    if (trendGranularity === "shift") {
+      if (incidentsWithDate.length > 0) {
+        shiftSlotsBetween(incidentsWithDate[0].date, incidentsWithDate[incidentsWithDate.length - 1].date, shiftCalendar)
+          .forEach((slot) => allPeriods.push({ key: slot.key, label: formatShiftSlotLabel(slot) }));
+      }
+    } else {
+      const now = getPeriodStart(new Date());
+      const firstDay = incidentsWithDate.length > 0
+        ? getPeriodStart(incidentsWithDate[0].date)
+        : now;
+      const lastDay = incidentsWithDate.length > 0
+        ? getPeriodStart(incidentsWithDate[incidentsWithDate.length - 1].date)
+        : now;
+
+      const cursor = new Date(firstDay);
+      while (cursor <= lastDay) {
+        allPeriods.push({
+          key: toIsoDate(cursor),
+          label: formatPeriodLabel(cursor),
+        });
+        if (trendGranularity === "day") {
+          cursor.setDate(cursor.getDate() + 1);
+        } else if (trendGranularity === "week") {
+          cursor.setDate(cursor.getDate() + 7);
+        } else {
+          cursor.setMonth(cursor.getMonth() + 1, 1);
+        }
       }
     }
 
@@ -608,8 +738,7 @@ export default function Dashboard() {
     const clampedStartIndex = Math.min(Math.max(0, trendStartIndex), maxStartIndex);
     const visiblePeriods = allPeriods.slice(clampedStartIndex);
 
-    incidentsWithDate.forEach(({ incident, date: incidentDate }) => {
-      const periodKey = toIsoDate(getPeriodStart(incidentDate));
+    incidentsWithDate.forEach(({ incident, periodKey }) => {
       const partNumber = incident.partId ? (partById.get(incident.partId)?.partNumber || "Unknown Part") : "Unassigned";
       const incidentCost = Number(incident.estimatedCost || 0);
 
@@ -686,7 +815,13 @@ export default function Dashboard() {
       "hsl(var(--chart-4))",
       "hsl(var(--chart-5))",
     ];
-    const periodLabel = trendGranularity === "day" ? "Daily" : trendGranularity === "week" ? "Weekly" : "Monthly";
+    const periodLabel = trendGranularity === "day"
+      ? "Daily"
+      : trendGranularity === "week"
+        ? "Weekly"
+        : trendGranularity === "shift"
+          ? "Per Shift"
+          : "Monthly";
 
     const chartConfig: ChartConfig = {};
     topPartNumbers.forEach((partNumber, index) => {
@@ -734,7 +869,7 @@ export default function Dashboard() {
       periodCount: visiblePeriods.length,
       periodKeyByLabel: new Map(visiblePeriods.map((period) => [period.label, period.key])),
     };
-  }, [dashboardIncidents, partById, parts, trendGranularity, trendStartIndex]);
+  }, [timeBucketIncidents, partById, parts, shiftCalendar, trendGranularity, trendStartIndex]);
 
   const selectedTrendIncidents = useMemo(() => {
     if (!trendChartSelection) return [];
@@ -761,13 +896,18 @@ export default function Dashboard() {
       return `${y}-${m}-${d}`;
     };
 
-    return dashboardIncidents
+    const resolvePeriodKey = (incident: ScrapIncident) => {
+      if (trendGranularity === "shift") return getIncidentShift(incident, shiftCalendar)?.key ?? null;
+      const rawDate = incident.dateCreated || incident.createdAt || incident.updatedAt;
+      if (!rawDate) return null;
+      const parsedDate = new Date(rawDate);
+      if (Number.isNaN(parsedDate.getTime())) return null;
+      return toIsoDate(getPeriodStart(parsedDate));
+    };
+
+    return timeBucketIncidents
       .filter((incident) => {
-        const rawDate = incident.dateCreated || incident.createdAt || incident.updatedAt;
-        if (!rawDate) return false;
-        const parsedDate = new Date(rawDate);
-        if (Number.isNaN(parsedDate.getTime())) return false;
-        const periodKey = toIsoDate(getPeriodStart(parsedDate));
+        const periodKey = resolvePeriodKey(incident);
         if (periodKey !== trendChartSelection.periodKey) return false;
         if (!trendChartSelection.partNumber) return true;
         const incidentPartNumber = incident.partId ? (partById.get(incident.partId)?.partNumber || "Unknown Part") : "Unassigned";
@@ -793,7 +933,7 @@ export default function Dashboard() {
         if (rightDate !== leftDate) return rightDate - leftDate;
         return right.estimatedCost - left.estimatedCost;
       });
-  }, [dashboardIncidents, machineById, partById, trendChartSelection, trendGranularity]);
+  }, [timeBucketIncidents, machineById, partById, shiftCalendar, trendChartSelection, trendGranularity]);
 
   const totalScrapCost = useMemo(() => {
     return incidentsWithCost.reduce((sum, incident) => sum + incident.incidentCost, 0);
@@ -828,13 +968,15 @@ export default function Dashboard() {
     try {
       setIsExportingReport(true);
       exportDashboardStatusPdf({
-        machines,
+        machines: allMachines,
         cells,
         parts,
         characteristics,
         scrapIncidents,
         chartGranularity: trendGranularity,
         chartStartIndex: trendStartIndex,
+        shiftCalendar,
+        workingTimeOnly,
       });
       toast({ title: "PDF report generated" });
     } catch (error) {
@@ -852,12 +994,14 @@ export default function Dashboard() {
     try {
       setIsExportingReport(true);
       exportDashboardStatusExcel({
-        machines,
+        machines: allMachines,
         cells,
         parts,
         characteristics,
         scrapIncidents,
         chartGranularity: "day",
+        shiftCalendar,
+        workingTimeOnly,
       });
       toast({ title: "Excel report generated" });
     } catch (error) {
@@ -874,7 +1018,7 @@ export default function Dashboard() {
   // Calculate summary stats
   const runningMachines = machines.filter(m => m.status === "running").length;
   const machinesWithCycleTime = machines.filter(m => m.idealCycleTime && m.idealCycleTime > 0).length;
-  const reportLoading = machinesLoading || cellsLoading || incidentsLoading || partsLoading || characteristicsLoading;
+  const reportLoading = machinesLoading || cellsLoading || incidentsLoading || partsLoading || characteristicsLoading || productionCountsLoading;
 
   return (
     <div className="flex flex-col h-full overflow-auto">
@@ -1040,41 +1184,75 @@ export default function Dashboard() {
         </div>
 
         <div>
-          <h2 className="text-lg font-semibold mb-4">Weekly / Monthly / Yearly Scrap Metrics</h2>
+          <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+            <h2 className="text-lg font-semibold">Weekly / Monthly / Yearly Scrap Metrics</h2>
+            <div className="flex items-center gap-3">
+              <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Checkbox checked={workingTimeOnly} onCheckedChange={(checked) => setWorkingTimeOnly(checked === true)} />
+                Working time only
+              </label>
+              <div className="inline-flex rounded-md border p-1">
+                {([
+                  [false, "Total"],
+                  [true, "By Shift"],
+                ] as const).map(([value, label]) => (
+                  <Button
+                    key={label}
+                    size="sm"
+                    variant={metricsByShift === value ? "default" : "ghost"}
+                    onClick={() => setMetricsByShift(value)}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </div>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-            <Card {...clickableCardProps(() => goToSpcData({ range: "week" }))}>
-              <CardHeader className="pb-2">
-                <CardTitle className="text-sm font-medium text-muted-foreground">This Week</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="text-2xl font-bold text-rose-600">${timeRangeMetrics.week.totalCost.toLocaleString()}</div>
-                <p className="text-xs text-muted-foreground">{timeRangeMetrics.week.incidentCount} incidents</p>
-                <p className="text-xs text-muted-foreground">{timeRangeMetrics.week.totalQuantity} pcs scrapped</p>
-              </CardContent>
-            </Card>
-
-            <Card {...clickableCardProps(() => goToSpcData({ range: "month" }))}>
-              <CardHeader className="pb-2">
-                <CardTitle className="text-sm font-medium text-muted-foreground">This Month</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="text-2xl font-bold text-rose-600">${timeRangeMetrics.month.totalCost.toLocaleString()}</div>
-                <p className="text-xs text-muted-foreground">{timeRangeMetrics.month.incidentCount} incidents</p>
-                <p className="text-xs text-muted-foreground">{timeRangeMetrics.month.totalQuantity} pcs scrapped</p>
-              </CardContent>
-            </Card>
-
-            <Card {...clickableCardProps(() => goToSpcData({ range: "year" }))}>
-              <CardHeader className="pb-2">
-                <CardTitle className="text-sm font-medium text-muted-foreground">This Year</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="text-2xl font-bold text-rose-600">${timeRangeMetrics.year.totalCost.toLocaleString()}</div>
-                <p className="text-xs text-muted-foreground">{timeRangeMetrics.year.incidentCount} incidents</p>
-                <p className="text-xs text-muted-foreground">{timeRangeMetrics.year.totalQuantity} pcs scrapped</p>
-              </CardContent>
-            </Card>
+            {([
+              ["week", "This Week"],
+              ["month", "This Month"],
+              ["year", "This Year"],
+            ] as const).map(([range, title]) => {
+              const metrics = timeRangeMetrics[range];
+              return (
+                <Card key={range} {...clickableCardProps(() => goToSpcData({ range }))}>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium text-muted-foreground">{title}</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold text-rose-600">${metrics.totalCost.toLocaleString()}</div>
+                    <p className="text-xs text-muted-foreground">{metrics.incidentCount} incidents</p>
+                    <p className="text-xs text-muted-foreground">{metrics.totalQuantity} pcs scrapped</p>
+                    {metricsByShift && (
+                      <div className="mt-2 space-y-1 border-t pt-2">
+                        {Array.from(metrics.byShift.entries()).map(([shiftName, totals]) => (
+                          <div key={shiftName} className="flex items-center justify-between text-xs">
+                            <span className="text-muted-foreground truncate">{shiftName}</span>
+                            <span className="font-mono">
+                              ${totals.totalCost.toLocaleString()} · {totals.incidentCount}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
           </div>
+          {(workingTimeOnly || metricsByShift) && (
+            <p className="mt-2 text-xs text-muted-foreground">
+              Shifts and holidays come from the Shift Calendar. Incidents recorded with only a date count as "{OUTSIDE_SHIFTS_LABEL}" and are kept as working time when that date had scheduled shifts.
+            </p>
+          )}
+        </div>
+
+        <div className="grid gap-4 grid-cols-1 xl:grid-cols-2">
+          <CellOeeCard cells={cells} />
+          <ActiveDowntimeCard machines={machines} onLogDowntime={() => setDowntimeDialogOpen(true)} />
+          <SpcSignalsCard machines={allMachines} characteristics={characteristics} parts={parts} />
+          <CalibrationDueCard />
         </div>
 
         <div>
@@ -1085,6 +1263,7 @@ export default function Dashboard() {
                 ["day", "Daily"],
                 ["week", "Weekly"],
                 ["month", "Monthly"],
+                ["shift", "By Shift"],
               ] as const).map(([value, label]) => (
                 <Button
                   key={value}
@@ -1124,11 +1303,7 @@ export default function Dashboard() {
           <Card>
             <CardHeader>
               <CardTitle className="text-sm font-medium">
-                {trendGranularity === "day"
-                  ? "Daily"
-                  : trendGranularity === "week"
-                    ? "Weekly"
-                    : "Monthly"}
+                {scrapCostTrendChart.periodLabel}
                 {" "}(Adjustable Lookback) with Accumulated Trendlines
               </CardTitle>
             </CardHeader>
@@ -1237,7 +1412,8 @@ export default function Dashboard() {
                 ))}
               </div>
               <p className="mt-2 text-xs text-muted-foreground">
-                Bars show {trendGranularity} scrap cost by part number (side by side). Lines show accumulated scrap cost on the right axis within the selected timeframe only.
+                Bars show {scrapCostTrendChart.periodLabel.toLowerCase()} scrap cost by part number (side by side). Lines show accumulated scrap cost on the right axis within the selected timeframe only.
+                {trendGranularity === "shift" && " Incidents recorded with only a date have no time of day and are left out of shift buckets."}
               </p>
               <div className="mt-4 border rounded-md p-3 space-y-2">
                 <div className="flex items-center justify-between gap-2">
@@ -1317,7 +1493,12 @@ export default function Dashboard() {
                           <div className="text-sm truncate">{machine.machineName}</div>
                           <div className="text-xs text-muted-foreground">{machine.totalQuantity} pc{machine.totalQuantity !== 1 ? "s" : ""} scrapped</div>
                         </div>
-                        <div className="font-semibold text-rose-600">${machine.totalCost.toLocaleString()}</div>
+                        <div className="text-right shrink-0">
+                          <div className="font-semibold text-rose-600">${machine.totalCost.toLocaleString()}</div>
+                          <div className="text-xs text-muted-foreground" title="Scrap quantity ÷ total quantity produced">
+                            {machine.scrapRate !== null ? `${(machine.scrapRate * 100).toFixed(1)}% scrap rate` : "no counts"}
+                          </div>
+                        </div>
                       </button>
                     ))}
                   </div>
@@ -1335,7 +1516,7 @@ export default function Dashboard() {
                   <div className="space-y-2">
                     {cellScrapSummary.slice(0, 5).map((cell, idx) => (
                       <button
-                        key={cell.cellName}
+                        key={cell.cellId || "unassigned"}
                         type="button"
                         onClick={() => goToSpcData({ cell: cell.cellName })}
                         className="flex w-full items-center justify-between text-left rounded p-1 hover:bg-muted"
@@ -1345,7 +1526,12 @@ export default function Dashboard() {
                           <div className="text-sm truncate">{cell.cellName}</div>
                           <div className="text-xs text-muted-foreground">{cell.totalQuantity} pc{cell.totalQuantity !== 1 ? "s" : ""} scrapped</div>
                         </div>
-                        <div className="font-semibold text-rose-600">${cell.totalCost.toLocaleString()}</div>
+                        <div className="text-right shrink-0">
+                          <div className="font-semibold text-rose-600">${cell.totalCost.toLocaleString()}</div>
+                          <div className="text-xs text-muted-foreground" title="Scrap quantity ÷ total quantity produced">
+                            {cell.scrapRate !== null ? `${(cell.scrapRate * 100).toFixed(1)}% scrap rate` : "no counts"}
+                          </div>
+                        </div>
                       </button>
                     ))}
                   </div>
@@ -1363,14 +1549,17 @@ export default function Dashboard() {
                   <div className="space-y-2">
                     {charScrapSummary.slice(0, 5).map((char, idx) => (
                       <button
-                        key={`${char.partNumber}-${char.characteristic}`}
+                        key={char.characteristicId ?? `${char.partNumber}-${char.characteristic}`}
                         type="button"
-                        onClick={() => goToSpcData({ characteristic: char.characteristic })}
+                        onClick={() => goToSpcData(char.characteristicId ? { characteristicId: char.characteristicId } : { characteristic: char.characteristic })}
                         className="flex w-full items-center justify-between text-left rounded p-1 hover:bg-muted"
                       >
                         <div className="min-w-0">
                           <div className="text-xs text-muted-foreground">#{idx + 1}</div>
-                          <div className="text-sm truncate">Char # {char.characteristic}</div>
+                          <div className="text-sm truncate">
+                            Char # {char.characteristic}
+                            {!char.characteristicId && <span className="ml-1 text-xs text-muted-foreground">(unlinked)</span>}
+                          </div>
                           <div className="text-xs text-muted-foreground truncate">Part: {char.partNumber}</div>
                           <div className="text-xs text-muted-foreground">{char.totalQuantity} pc{char.totalQuantity !== 1 ? "s" : ""} scrapped</div>
                         </div>
@@ -1402,7 +1591,12 @@ export default function Dashboard() {
                           <div className="text-sm truncate">{part.partName ? `${part.partNumber} - ${part.partName}` : part.partNumber}</div>
                           <div className="text-xs text-muted-foreground">{part.totalQuantity} pc{part.totalQuantity !== 1 ? "s" : ""} scrapped</div>
                         </div>
-                        <div className="font-semibold text-rose-600">${part.totalCost.toLocaleString()}</div>
+                        <div className="text-right shrink-0">
+                          <div className="font-semibold text-rose-600">${part.totalCost.toLocaleString()}</div>
+                          <div className="text-xs text-muted-foreground" title="Scrap quantity ÷ total quantity produced">
+                            {part.scrapRate !== null ? `${(part.scrapRate * 100).toFixed(1)}% scrap rate` : "no counts"}
+                          </div>
+                        </div>
                       </button>
                     ))}
                   </div>
@@ -1449,6 +1643,15 @@ export default function Dashboard() {
         isPending={createMachineMutation.isPending || updateMachineMutation.isPending}
       />
 
+      {/* Downtime Dialog */}
+      <DowntimeDialog
+        open={downtimeDialogOpen}
+        onOpenChange={setDowntimeDialogOpen}
+        machines={machines}
+        onSubmit={(data) => logDowntimeMutation.mutate(data)}
+        isPending={logDowntimeMutation.isPending}
+      />
+
       {/* Delete Confirmation */}
       <AlertDialog open={deleteConfirmOpen} onOpenChange={setDeleteConfirmOpen}>
         <AlertDialogContent>
@@ -0,0 +1,335 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Archive, ArchiveRestore, ChevronDown, ChevronUp, Pencil, Plus } from "lucide-react";
+import type { DowntimeCategory, DowntimeReason } from "@shared/schema";
+import { downtimeCategories, downtimeCategoryLabels } from "@shared/schema";
+
+type ReasonForm = {
+  code: string;
+  category: DowntimeCategory | "";
+  label: string;
+};
+
+const emptyForm: ReasonForm = {
+  code: "",
+  category: "",
+  label: "",
+};
+
+export default function DowntimeReasonsPage() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canEdit = can("admin");
+  const [form, setForm] = useState<ReasonForm>(emptyForm);
+  const [newReasonOpen, setNewReasonOpen] = useState(false);
+  const [editingReasonId, setEditingReasonId] = useState<string | null>(null);
+  const [showInactive, setShowInactive] = useState(false);
+  const [deactivatingReason, setDeactivatingReason] = useState<DowntimeReason | null>(null);
+
+  const { data: reasons = [], isLoading } = useQuery<DowntimeReason[]>({
+    queryKey: ["/api/downtime-reasons"],
+    queryFn: () => apiRequest("GET", "/api/downtime-reasons"),
+  });
+
+  const visibleReasons = showInactive ? reasons : reasons.filter((reason) => reason.isActive);
+  const inactiveCount = reasons.filter((reason) => !reason.isActive).length;
+
+  const toPayload = (payload: ReasonForm) => ({
+    code: payload.code.trim().toUpperCase(),
+    category: payload.category,
+    label: payload.label.trim(),
+  });
+
+  // The API answers 409 with a readable message when a code is already taken
+  const errorMessage = (error: unknown, fallback: string) =>
+    error instanceof Error && error.message.startsWith("409") ? `${fallback}: code already exists` : fallback;
+
+  const createMutation = useMutation({
+    mutationFn: (payload: ReasonForm) => apiRequest("POST", "/api/downtime-reasons", toPayload(payload)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/downtime-reasons"] });
+      setForm(emptyForm);
+      toast({ title: "Reason code added" });
+    },
+    onError: (error) => toast({ title: errorMessage(error, "Failed to add reason code"), variant: "destructive" }),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, payload }: { id: string; payload: ReasonForm }) =>
+      apiRequest("PATCH", `/api/downtime-reasons/${id}`, toPayload(payload)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/downtime-reasons"] });
+      setForm(emptyForm);
+      setEditingReasonId(null);
+      toast({ title: "Reason code updated" });
+    },
+    onError: (error) => toast({ title: errorMessage(error, "Failed to update reason code"), variant: "destructive" }),
+  });
+
+  const setActiveMutation = useMutation({
+    mutationFn: ({ id, isActive }: { id: string; isActive: boolean }) =>
+      apiRequest("PATCH", `/api/downtime-reasons/${id}`, { isActive }),
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/downtime-reasons"] });
+      toast({ title: variables.isActive ? "Reason code reactivated" : "Reason code deactivated" });
+    },
+    onError: () => toast({ title: "Failed to change reason code status", variant: "destructive" }),
+  });
+
+  const startEdit = (reason: DowntimeReason) => {
+    setEditingReasonId(reason.id);
+    setNewReasonOpen(true);
+    setForm({
+      code: reason.code,
+      category: reason.category,
+      label: reason.label,
+    });
+  };
+
+  const onSubmit = () => {
+    if (!form.code.trim()) {
+      toast({ title: "Code is required", variant: "destructive" });
+      return;
+    }
+    if (!form.category) {
+      toast({ title: "Category is required", variant: "destructive" });
+      return;
+    }
+    if (!form.label.trim()) {
+      toast({ title: "Label is required", variant: "destructive" });
+      return;
+    }
+    if (editingReasonId) {
+      updateMutation.mutate({ id: editingReasonId, payload: form });
+    } else {
+      createMutation.mutate(form);
+    }
+  };
+
+  return (
+    <div className="p-6 h-full overflow-y-auto space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold">Downtime Reasons</h2>
+        <p className="text-sm text-muted-foreground">
+          Manage the reason codes offered when logging machine downtime. Retired codes are deactivated so past logs keep their labels.
+        </p>
+      </div>
+
+      {canEdit && (
+      <Card>
+        <CardHeader
+          className="cursor-pointer select-none"
+          onClick={() => {
+            if (!editingReasonId) setNewReasonOpen((open) => !open);
+          }}
+        >
+          <div className="flex items-center justify-between">
+            <CardTitle>{editingReasonId ? "Edit Reason Code" : "New Reason Code"}</CardTitle>
+            {!editingReasonId && (newReasonOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />)}
+          </div>
+        </CardHeader>
+        {newReasonOpen && (
+        <CardContent className="space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <Label className="mb-1 block">Code *</Label>
+              <Input
+                placeholder="e.g. MECH_02"
+                value={form.code}
+                onChange={(event) => setForm((prev) => ({ ...prev, code: event.target.value }))}
+              />
+            </div>
+            <div>
+              <Label className="mb-1 block">Category *</Label>
+              <Select
+                value={form.category}
+                onValueChange={(value) => setForm((prev) => ({ ...prev, category: value as DowntimeCategory }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {downtimeCategories.map((category) => (
+                    <SelectItem key={category} value={category}>
+                      {downtimeCategoryLabels[category]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="mb-1 block">Label *</Label>
+              <Input
+                placeholder="e.g. Spindle overheat"
+                value={form.label}
+                onChange={(event) => setForm((prev) => ({ ...prev, label: event.target.value }))}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button
+              onClick={onSubmit}
+              disabled={createMutation.isPending || updateMutation.isPending}
+            >
+              {editingReasonId ? "Save Changes" : <><Plus className="h-4 w-4 mr-1" /> Add Reason Code</>}
+            </Button>
+            {editingReasonId && (
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setEditingReasonId(null);
+                  setForm(emptyForm);
+                }}
+              >
+                Cancel
+              </Button>
+            )}
+          </div>
+        </CardContent>
+        )}
+      </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Reason Code Master</CardTitle>
+            <label className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Checkbox checked={showInactive} onCheckedChange={(checked) => setShowInactive(checked === true)} />
+              Show inactive ({inactiveCount})
+            </label>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : visibleReasons.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-8 text-center">
+              <Plus className="h-10 w-10 text-muted-foreground/50 mb-3" />
+              <p className="text-sm text-muted-foreground">No reason codes yet. Click "New Reason Code" to get started.</p>
+            </div>
+          ) : (
+            <div className="overflow-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-muted-foreground">
+                    <th className="text-left p-2">Code</th>
+                    <th className="text-left p-2">Category</th>
+                    <th className="text-left p-2">Label</th>
+                    <th className="text-left p-2">Status</th>
+                    <th className="text-right p-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleReasons.map((reason) => (
+                    <tr key={reason.id} className={`border-t ${reason.isActive ? "" : "text-muted-foreground"}`}>
+                      <td className="p-2 font-mono">{reason.code}</td>
+                      <td className="p-2">{downtimeCategoryLabels[reason.category] ?? reason.category}</td>
+                      <td className="p-2">{reason.label}</td>
+                      <td className="p-2">
+                        {reason.isActive ? (
+                          <Badge variant="secondary">Active</Badge>
+                        ) : (
+                          <Badge variant="outline">
+                            Inactive{reason.deactivatedAt ? ` since ${new Date(reason.deactivatedAt).toLocaleDateString()}` : ""}
+                          </Badge>
+                        )}
+                      </td>
+                      <td className="p-2 text-right">
+                        {canEdit && (
+                        <div className="inline-flex gap-1">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => startEdit(reason)}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          {reason.isActive ? (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              title="Deactivate"
+                              onClick={() => setDeactivatingReason(reason)}
+                              disabled={setActiveMutation.isPending}
+                            >
+                              <Archive className="h-4 w-4" />
+                            </Button>
+                          ) : (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              title="Reactivate"
+                              onClick={() => setActiveMutation.mutate({ id: reason.id, isActive: true })}
+                              disabled={setActiveMutation.isPending}
+                            >
+                              <ArchiveRestore className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+      <AlertDialog open={deactivatingReason !== null} onOpenChange={(open) => !open && setDeactivatingReason(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Deactivate Reason Code</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deactivatingReason?.code}" will no longer be offered when logging downtime. Existing downtime logs keep this code and label.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (deactivatingReason) setActiveMutation.mutate({ id: deactivatingReason.id, isActive: false });
+                setDeactivatingReason(null);
+              }}
+            >
+              Deactivate
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,545 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { exportGaugeRrHtml, grrVerdict, ndcColor } from "@/lib/gauge-rr-report";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { ChevronDown, ChevronUp, FileDown, Plus, Save, Trash2 } from "lucide-react";
+import type { Characteristic, GaugeRrComponents, GaugeRrResult, GaugeStudy, Part } from "@shared/schema";
+import { GAUGE_STUDY_LIMITS } from "@shared/schema";
+import { parseDecimal } from "@shared/numeric";
+import { withUnit } from "@shared/units";
+
+type StudyForm = {
+  name: string;
+  characteristicId: string;
+  gaugeName: string;
+  operators: string;
+  partCount: string;
+  trialCount: string;
+  notes: string;
+};
+
+const emptyForm: StudyForm = {
+  name: "",
+  characteristicId: "",
+  gaugeName: "",
+  operators: "",
+  partCount: "10",
+  trialCount: "3",
+  notes: "",
+};
+
+// Typed readings, [operator][part][trial]
+type Draft = string[][][];
+
+const toDraft = (study: GaugeStudy): Draft =>
+  study.readings.map((byPart) => byPart.map((trials) => trials.map((value) => (value === null ? "" : String(value)))));
+
+const splitOperators = (text: string) => text.split(/[,;\n]/).map((name) => name.trim()).filter(Boolean);
+
+const fmtPercent = (value: number | null) => (value === null ? "—" : `${value.toFixed(1)}%`);
+
+function ComponentsTable({ title, components, unit }: { title: string; components: GaugeRrComponents; unit: string | null }) {
+  const rows: [string, number, number | null][] = [
+    ["Repeatability (EV)", components.repeatability, components.percentRepeatability],
+    ["Reproducibility (AV)", components.reproducibility, components.percentReproducibility],
+    ["Gauge R&R", components.grr, components.percentGrr],
+    ["Part variation", components.partVariation, components.percentPartVariation],
+    ["Total variation", components.totalVariation, 100],
+  ];
+  const verdict = grrVerdict(components.percentGrr);
+  return (
+    <div>
+      <p className="text-sm font-medium mb-2">{title}</p>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-muted-foreground">
+            <th className="text-left p-2">Source</th>
+            <th className="text-right p-2">Std dev</th>
+            <th className="text-right p-2">% Study var</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(([label, sigma, percent]) => (
+            <tr key={label} className="border-t">
+              <td className="p-2">{label}</td>
+              <td className="p-2 text-right font-mono">{withUnit(sigma.toFixed(4), unit)}</td>
+              <td className="p-2 text-right font-mono">{fmtPercent(percent)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="flex flex-wrap gap-3 mt-2 text-sm">
+        <span style={{ color: verdict.color }}>%GRR {fmtPercent(components.percentGrr)} · {verdict.label}</span>
+        <span style={{ color: grrVerdict(components.percentTolerance).color }}>%Tolerance {fmtPercent(components.percentTolerance)}</span>
+        <span style={{ color: ndcColor(components.ndc) }}>ndc {components.ndc ?? "—"}</span>
+      </div>
+    </div>
+  );
+}
+
+export default function GaugeStudiesPage() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canEdit = can("quality_engineer");
+  const [form, setForm] = useState<StudyForm>(emptyForm);
+  const [newStudyOpen, setNewStudyOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft>([]);
+  const [deletingStudy, setDeletingStudy] = useState<GaugeStudy | null>(null);
+
+  const { data: studies = [], isLoading } = useQuery<GaugeStudy[]>({
+    queryKey: ["/api/gauge-studies"],
+    queryFn: () => apiRequest("GET", "/api/gauge-studies"),
+  });
+
+  const { data: characteristics = [] } = useQuery<Characteristic[]>({
+    queryKey: ["/api/characteristics"],
+    queryFn: () => apiRequest("GET", "/api/characteristics"),
+  });
+
+  const { data: parts = [] } = useQuery<Part[]>({
+    queryKey: ["/api/parts"],
+    queryFn: () => apiRequest("GET", "/api/parts"),
+  });
+
+  const selected = studies.find((study) => study.id === selectedId) ?? null;
+
+  const { data: result } = useQuery<GaugeRrResult>({
+    queryKey: ["/api/gauge-studies", selectedId, "results"],
+    queryFn: () => apiRequest("GET", `/api/gauge-studies/${selectedId}/results`),
+    enabled: !!selectedId,
+  });
+
+  // Reload the grid when another study is opened or the open one is saved
+  useEffect(() => {
+    setDraft(selected ? toDraft(selected) : []);
+  }, [selected?.id, selected?.updatedAt]);
+
+  const charById = useMemo(() => new Map(characteristics.map((char) => [char.id, char])), [characteristics]);
+  const partById = useMemo(() => new Map(parts.map((part) => [part.id, part])), [parts]);
+  const variableChars = characteristics.filter((char) => !char.isAttributeCheck);
+
+  const charLabel = (char: Characteristic | undefined) => {
+    if (!char) return "(deleted characteristic)";
+    const part = char.partId ? partById.get(char.partId) : undefined;
+    return `${part ? `${part.partNumber} ` : ""}#${char.charNumber}${char.charName ? ` ${char.charName}` : ""}`;
+  };
+
+  const selectedChar = selected ? charById.get(selected.characteristicId) : undefined;
+  const unit = selectedChar?.unit ?? null;
+
+  const createMutation = useMutation({
+    mutationFn: (payload: Record<string, unknown>) => apiRequest<GaugeStudy>("POST", "/api/gauge-studies", payload),
+    onSuccess: (study) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/gauge-studies"] });
+      setForm(emptyForm);
+      setNewStudyOpen(false);
+      setSelectedId(study.id);
+      toast({ title: "Gauge study created" });
+    },
+    onError: () => toast({ title: "Failed to create gauge study", variant: "destructive" }),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: ({ id, readings }: { id: string; readings: (number | null)[][][] }) =>
+      apiRequest<GaugeStudy>("PATCH", `/api/gauge-studies/${id}`, { readings }),
+    onSuccess: (_study, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/gauge-studies"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/gauge-studies", variables.id, "results"] });
+      toast({ title: "Readings saved" });
+    },
+    onError: () => toast({ title: "Failed to save readings", variant: "destructive" }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/gauge-studies/${id}`),
+    onSuccess: (_data, id) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/gauge-studies"] });
+      if (selectedId === id) setSelectedId(null);
+      toast({ title: "Gauge study deleted" });
+    },
+    onError: () => toast({ title: "Failed to delete gauge study", variant: "destructive" }),
+  });
+
+  const onCreate = () => {
+    const operators = splitOperators(form.operators);
+    const partCount = Number(form.partCount);
+    const trialCount = Number(form.trialCount);
+    const { operators: operatorLimits, parts: partLimits, trials: trialLimits } = GAUGE_STUDY_LIMITS;
+    const problem = !form.name.trim() ? "Name is required"
+      : !form.characteristicId ? "Characteristic is required"
+      : !form.gaugeName.trim() ? "Gauge is required"
+      : operators.length < operatorLimits.min || operators.length > operatorLimits.max
+        ? `Enter ${operatorLimits.min}–${operatorLimits.max} operators`
+      : new Set(operators).size !== operators.length ? "Operator names must be unique"
+      : !Number.isInteger(partCount) || partCount < partLimits.min || partCount > partLimits.max
+        ? `Parts must be ${partLimits.min}–${partLimits.max}`
+      : !Number.isInteger(trialCount) || trialCount < trialLimits.min || trialCount > trialLimits.max
+        ? `Trials must be ${trialLimits.min}–${trialLimits.max}`
+      : null;
+    if (problem) {
+      toast({ title: problem, variant: "destructive" });
+      return;
+    }
+    createMutation.mutate({
+      name: form.name.trim(),
+      characteristicId: form.characteristicId,
+      gaugeName: form.gaugeName.trim(),
+      operators,
+      partCount,
+      trialCount,
+      notes: form.notes.trim() || null,
+    });
+  };
+
+  const setReading = (operator: number, part: number, trial: number, value: string) =>
+    setDraft((prev) => prev.map((byPart, o) => (o !== operator ? byPart : byPart.map((trials, p) =>
+      (p !== part ? trials : trials.map((current, t) => (t === trial ? value : current)))))));
+
+  const onSave = () => {
+    if (!selected) return;
+    let invalid = 0;
+    const readings = draft.map((byPart) => byPart.map((trials) => trials.map((raw) => {
+      if (raw.trim() === "") return null;
+      const value = parseDecimal(raw);
+      if (value === null) invalid += 1;
+      return value;
+    })));
+    if (invalid > 0) {
+      toast({ title: `${invalid} reading${invalid === 1 ? " is" : "s are"} not a number`, variant: "destructive" });
+      return;
+    }
+    saveMutation.mutate({ id: selected.id, readings });
+  };
+
+  const blankCount = draft.flat(2).filter((raw) => raw.trim() === "").length;
+
+  return (
+    <div className="p-6 h-full overflow-y-auto space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold">Gauge R&R</h2>
+        <p className="text-sm text-muted-foreground">
+          Qualify a gauge against a characteristic: every operator measures every part the same number of times, and the variation is split into repeatability, reproducibility and part variation.
+        </p>
+      </div>
+
+      {canEdit && (
+      <Card>
+        <CardHeader className="cursor-pointer select-none" onClick={() => setNewStudyOpen((open) => !open)}>
+          <div className="flex items-center justify-between">
+            <CardTitle>New Gauge Study</CardTitle>
+            {newStudyOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          </div>
+        </CardHeader>
+        {newStudyOpen && (
+          <CardContent className="space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div>
+                <Label className="mb-1 block">Name *</Label>
+                <Input
+                  placeholder="e.g. Bore micrometer Q3"
+                  value={form.name}
+                  onChange={(event) => setForm((prev) => ({ ...prev, name: event.target.value }))}
+                />
+              </div>
+              <div>
+                <Label className="mb-1 block">Characteristic *</Label>
+                <Select value={form.characteristicId} onValueChange={(value) => setForm((prev) => ({ ...prev, characteristicId: value }))}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select characteristic" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {variableChars.map((char) => (
+                      <SelectItem key={char.id} value={char.id}>{charLabel(char)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="mb-1 block">Gauge *</Label>
+                <Input
+                  placeholder="e.g. MIC-0042"
+                  value={form.gaugeName}
+                  onChange={(event) => setForm((prev) => ({ ...prev, gaugeName: event.target.value }))}
+                />
+              </div>
+              <div>
+                <Label className="mb-1 block">Operators *</Label>
+                <Input
+                  placeholder="Comma-separated, e.g. Ana, Ben, Chris"
+                  value={form.operators}
+                  onChange={(event) => setForm((prev) => ({ ...prev, operators: event.target.value }))}
+                />
+              </div>
+              <div>
+                <Label className="mb-1 block">Parts *</Label>
+                <Input
+                  type="number"
+                  min={GAUGE_STUDY_LIMITS.parts.min}
+                  max={GAUGE_STUDY_LIMITS.parts.max}
+                  value={form.partCount}
+                  onChange={(event) => setForm((prev) => ({ ...prev, partCount: event.target.value }))}
+                />
+              </div>
+              <div>
+                <Label className="mb-1 block">Trials *</Label>
+                <Input
+                  type="number"
+                  min={GAUGE_STUDY_LIMITS.trials.min}
+                  max={GAUGE_STUDY_LIMITS.trials.max}
+                  value={form.trialCount}
+                  onChange={(event) => setForm((prev) => ({ ...prev, trialCount: event.target.value }))}
+                />
+              </div>
+            </div>
+            <div>
+              <Label className="mb-1 block">Notes</Label>
+              <Textarea
+                value={form.notes}
+                onChange={(event) => setForm((prev) => ({ ...prev, notes: event.target.value }))}
+              />
+            </div>
+            <Button onClick={onCreate} disabled={createMutation.isPending}>
+              <Plus className="h-4 w-4 mr-1" /> Create Study
+            </Button>
+          </CardContent>
+        )}
+      </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Studies</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : studies.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4 text-center">No gauge studies yet. Click "New Gauge Study" to get started.</p>
+          ) : (
+            <div className="overflow-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-muted-foreground">
+                    <th className="text-left p-2">Name</th>
+                    <th className="text-left p-2">Characteristic</th>
+                    <th className="text-left p-2">Gauge</th>
+                    <th className="text-left p-2">Size</th>
+                    <th className="text-left p-2">Data</th>
+                    <th className="text-right p-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {studies.map((study) => {
+                    const blanks = study.readings.flat(2).filter((value) => value === null).length;
+                    return (
+                      <tr
+                        key={study.id}
+                        className={`border-t cursor-pointer ${study.id === selectedId ? "bg-muted" : ""}`}
+                        onClick={() => setSelectedId(study.id)}
+                      >
+                        <td className="p-2 font-medium">{study.name}</td>
+                        <td className="p-2">{charLabel(charById.get(study.characteristicId))}</td>
+                        <td className="p-2">{study.gaugeName}</td>
+                        <td className="p-2">{study.operators.length} ops × {study.partCount} parts × {study.trialCount} trials</td>
+                        <td className="p-2">
+                          {blanks === 0 ? <Badge variant="secondary">Complete</Badge> : <Badge variant="outline">{blanks} blank</Badge>}
+                        </td>
+                        <td className="p-2 text-right">
+                          {canEdit && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              title="Delete"
+                              onClick={(event) => {
+                                event.stopPropagation();
+                                setDeletingStudy(study);
+                              }}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-2">
+              <CardTitle>Readings: {selected.name}{unit ? ` (${unit})` : ""}</CardTitle>
+              {canEdit && (
+                <Button onClick={onSave} disabled={saveMutation.isPending}>
+                  <Save className="h-4 w-4 mr-1" /> Save Readings
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {blankCount === 0 ? "All readings entered." : `${blankCount} reading${blankCount === 1 ? "" : "s"} still blank. Results appear once every reading is entered.`}
+            </p>
+            {draft.map((byPart, operator) => (
+              <div key={operator} className="overflow-x-auto">
+                <p className="text-sm font-medium mb-1">{selected.operators[operator]}</p>
+                <table className="text-sm">
+                  <thead>
+                    <tr className="text-xs text-muted-foreground">
+                      <th className="text-left p-1 w-16">Trial</th>
+                      {byPart.map((_, part) => (
+                        <th key={part} className="text-left p-1">Part {part + 1}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {Array.from({ length: selected.trialCount }, (_, trial) => (
+                      <tr key={trial}>
+                        <td className="p-1 text-muted-foreground">{trial + 1}</td>
+                        {byPart.map((trials, part) => {
+                          const raw = trials[trial] ?? "";
+                          const invalid = raw.trim() !== "" && parseDecimal(raw) === null;
+                          return (
+                            <td key={part} className="p-1">
+                              <Input
+                                className={`h-8 w-24 font-mono ${invalid ? "border-machine-idle bg-machine-idle/10" : ""}`}
+                                inputMode="decimal"
+                                value={raw}
+                                readOnly={!canEdit}
+                                onChange={(event) => setReading(operator, part, trial, event.target.value)}
+                              />
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {selected && result?.complete && result.averageRange && result.anova && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-2">
+              <CardTitle>Results</CardTitle>
+              <Button
+                variant="outline"
+                onClick={() => {
+                  const part = selectedChar?.partId ? partById.get(selectedChar.partId) : undefined;
+                  exportGaugeRrHtml({
+                    study: selected,
+                    result,
+                    charNumber: selectedChar?.charNumber ?? "",
+                    charName: selectedChar?.charName ?? "",
+                    partNumber: part?.partNumber ?? "",
+                    partName: part?.partName ?? "",
+                    unit,
+                  });
+                }}
+              >
+                <FileDown className="h-4 w-4 mr-1" /> Export Report
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <p className="text-sm text-muted-foreground">
+              Tolerance (Max − Min): {result.tolerance !== null ? withUnit(String(result.tolerance), unit) : "not set, so %Tolerance is not available"}
+            </p>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <ComponentsTable title="ANOVA" components={result.anova} unit={unit} />
+              <ComponentsTable title="Average and Range" components={result.averageRange} unit={unit} />
+            </div>
+            <div className="overflow-auto">
+              <p className="text-sm font-medium mb-2">ANOVA table</p>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-muted-foreground">
+                    <th className="text-left p-2">Source</th>
+                    <th className="text-right p-2">DF</th>
+                    <th className="text-right p-2">SS</th>
+                    <th className="text-right p-2">MS</th>
+                    <th className="text-right p-2">F</th>
+                    <th className="text-right p-2">P</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.anova.table.map((row) => (
+                    <tr key={row.source} className="border-t">
+                      <td className="p-2">{row.source}</td>
+                      <td className="p-2 text-right font-mono">{row.df}</td>
+                      <td className="p-2 text-right font-mono">{row.ss.toFixed(5)}</td>
+                      <td className="p-2 text-right font-mono">{row.ms === null ? "—" : row.ms.toFixed(5)}</td>
+                      <td className="p-2 text-right font-mono">{row.f === null ? "—" : row.f.toFixed(3)}</td>
+                      <td className="p-2 text-right font-mono">{row.p === null ? "—" : row.p.toFixed(3)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-muted-foreground mt-2">
+                {result.anova.interactionPooled
+                  ? "The part × operator interaction is not significant (P > 0.25) and is pooled into repeatability."
+                  : "The part × operator interaction is significant and is counted in reproducibility."}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <AlertDialog open={deletingStudy !== null} onOpenChange={(open) => !open && setDeletingStudy(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Gauge Study</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deletingStudy?.name}" and all of its readings will be deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (deletingStudy) deleteMutation.mutate(deletingStudy.id);
+                setDeletingStudy(null);
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
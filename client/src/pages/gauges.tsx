@@ -0,0 +1,439 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { CalibrationBadge } from "@/components/calibration-due-card";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Archive, ArchiveRestore, BadgeCheck, ChevronDown, ChevronUp, Pencil, Plus } from "lucide-react";
+import type { Gauge, GaugeType } from "@shared/schema";
+import { gaugeTypeLabels, gaugeTypes, localDateKey } from "@shared/schema";
+import { unitCatalog, unitDimensionLabels, unitDimensions, withUnit } from "@shared/units";
+
+type GaugeForm = {
+  gaugeNumber: string;
+  type: GaugeType | "";
+  description: string;
+  resolution: string;
+  unit: string;
+  calibrationIntervalDays: string;
+  lastCalibratedAt: string;
+};
+
+const emptyForm: GaugeForm = {
+  gaugeNumber: "",
+  type: "",
+  description: "",
+  resolution: "",
+  unit: "",
+  calibrationIntervalDays: "365",
+  lastCalibratedAt: "",
+};
+
+const NO_UNIT = "none";
+
+export default function GaugesPage() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canEdit = can("quality_engineer");
+  const [form, setForm] = useState<GaugeForm>(emptyForm);
+  const [newGaugeOpen, setNewGaugeOpen] = useState(false);
+  const [editingGaugeId, setEditingGaugeId] = useState<string | null>(null);
+  const [showInactive, setShowInactive] = useState(false);
+  const [deactivatingGauge, setDeactivatingGauge] = useState<Gauge | null>(null);
+
+  const { data: gauges = [], isLoading } = useQuery<Gauge[]>({
+    queryKey: ["/api/gauges"],
+    queryFn: () => apiRequest("GET", "/api/gauges"),
+  });
+
+  const visibleGauges = showInactive ? gauges : gauges.filter((gauge) => gauge.isActive);
+  const inactiveCount = gauges.filter((gauge) => !gauge.isActive).length;
+
+  const toPayload = (payload: GaugeForm) => ({
+    gaugeNumber: payload.gaugeNumber.trim().toUpperCase(),
+    type: payload.type,
+    description: payload.description.trim() || null,
+    resolution: payload.resolution ? Number(payload.resolution) : null,
+    unit: payload.unit || null,
+    calibrationIntervalDays: Number(payload.calibrationIntervalDays),
+    lastCalibratedAt: payload.lastCalibratedAt || null,
+  });
+
+  // The API answers 409 with a readable message when a gauge number is already taken
+  const errorMessage = (error: unknown, fallback: string) =>
+    error instanceof Error && error.message.startsWith("409") ? `${fallback}: gauge number already exists` : fallback;
+
+  const createMutation = useMutation({
+    mutationFn: (payload: GaugeForm) => apiRequest("POST", "/api/gauges", toPayload(payload)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/gauges"] });
+      setForm(emptyForm);
+      toast({ title: "Gauge added" });
+    },
+    onError: (error) => toast({ title: errorMessage(error, "Failed to add gauge"), variant: "destructive" }),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, payload }: { id: string; payload: GaugeForm }) =>
+      apiRequest("PATCH", `/api/gauges/${id}`, toPayload(payload)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/gauges"] });
+      setForm(emptyForm);
+      setEditingGaugeId(null);
+      toast({ title: "Gauge updated" });
+    },
+    onError: (error) => toast({ title: errorMessage(error, "Failed to update gauge"), variant: "destructive" }),
+  });
+
+  // The server moves the next due date on by the calibration interval
+  const calibrateMutation = useMutation({
+    mutationFn: (id: string): Promise<Gauge> =>
+      apiRequest("PATCH", `/api/gauges/${id}`, { lastCalibratedAt: localDateKey() }),
+    onSuccess: (gauge) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/gauges"] });
+      toast({
+        title: `Calibration recorded for ${gauge.gaugeNumber}`,
+        description: gauge.nextCalibrationDue ? `Next due ${gauge.nextCalibrationDue}` : undefined,
+      });
+    },
+    onError: () => toast({ title: "Failed to record calibration", variant: "destructive" }),
+  });
+
+  const setActiveMutation = useMutation({
+    mutationFn: ({ id, isActive }: { id: string; isActive: boolean }) =>
+      apiRequest("PATCH", `/api/gauges/${id}`, { isActive }),
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/gauges"] });
+      toast({ title: variables.isActive ? "Gauge reactivated" : "Gauge retired" });
+    },
+    onError: () => toast({ title: "Failed to change gauge status", variant: "destructive" }),
+  });
+
+  const startEdit = (gauge: Gauge) => {
+    setEditingGaugeId(gauge.id);
+    setNewGaugeOpen(true);
+    setForm({
+      gaugeNumber: gauge.gaugeNumber,
+      type: gauge.type,
+      description: gauge.description ?? "",
+      resolution: gauge.resolution != null ? String(gauge.resolution) : "",
+      unit: gauge.unit ?? "",
+      calibrationIntervalDays: String(gauge.calibrationIntervalDays),
+      lastCalibratedAt: gauge.lastCalibratedAt ?? "",
+    });
+  };
+
+  const onSubmit = () => {
+    if (!form.gaugeNumber.trim()) {
+      toast({ title: "Gauge number is required", variant: "destructive" });
+      return;
+    }
+    if (!form.type) {
+      toast({ title: "Type is required", variant: "destructive" });
+      return;
+    }
+    const interval = Number(form.calibrationIntervalDays);
+    if (!Number.isInteger(interval) || interval < 1) {
+      toast({ title: "Calibration interval must be a whole number of days", variant: "destructive" });
+      return;
+    }
+    if (form.resolution && !(Number(form.resolution) > 0)) {
+      toast({ title: "Resolution must be greater than zero", variant: "destructive" });
+      return;
+    }
+    if (editingGaugeId) {
+      updateMutation.mutate({ id: editingGaugeId, payload: form });
+    } else {
+      createMutation.mutate(form);
+    }
+  };
+
+  return (
+    <div className="p-6 h-full overflow-y-auto space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold">Gauges</h2>
+        <p className="text-sm text-muted-foreground">
+          Keep the gauge and instrument master with calibration intervals. Retired gauges are deactivated so past measurements keep their gauge.
+        </p>
+      </div>
+
+      {canEdit && (
+      <Card>
+        <CardHeader
+          className="cursor-pointer select-none"
+          onClick={() => {
+            if (!editingGaugeId) setNewGaugeOpen((open) => !open);
+          }}
+        >
+          <div className="flex items-center justify-between">
+            <CardTitle>{editingGaugeId ? "Edit Gauge" : "New Gauge"}</CardTitle>
+            {!editingGaugeId && (newGaugeOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />)}
+          </div>
+        </CardHeader>
+        {newGaugeOpen && (
+        <CardContent className="space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div>
+              <Label className="mb-1 block">Gauge Number *</Label>
+              <Input
+                placeholder="e.g. MIC-0042"
+                value={form.gaugeNumber}
+                onChange={(event) => setForm((prev) => ({ ...prev, gaugeNumber: event.target.value }))}
+              />
+            </div>
+            <div>
+              <Label className="mb-1 block">Type *</Label>
+              <Select
+                value={form.type}
+                onValueChange={(value) => setForm((prev) => ({ ...prev, type: value as GaugeType }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {gaugeTypes.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {gaugeTypeLabels[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="md:col-span-2">
+              <Label className="mb-1 block">Description</Label>
+              <Input
+                placeholder="e.g. 0-25 mm outside micrometer"
+                value={form.description}
+                onChange={(event) => setForm((prev) => ({ ...prev, description: event.target.value }))}
+              />
+            </div>
+            <div>
+              <Label className="mb-1 block">Resolution</Label>
+              <Input
+                type="number"
+                step="0.0001"
+                placeholder="e.g. 0.001"
+                value={form.resolution}
+                onChange={(event) => setForm((prev) => ({ ...prev, resolution: event.target.value }))}
+              />
+            </div>
+            <div>
+              <Label className="mb-1 block">Unit</Label>
+              <Select
+                value={form.unit || NO_UNIT}
+                onValueChange={(value) => setForm((prev) => ({ ...prev, unit: value === NO_UNIT ? "" : value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_UNIT}>No unit</SelectItem>
+                  {unitDimensions.map((dimension) => (
+                    <SelectGroup key={dimension}>
+                      <SelectLabel>{unitDimensionLabels[dimension]}</SelectLabel>
+                      {unitCatalog.filter((unit) => unit.dimension === dimension).map((unit) => (
+                        <SelectItem key={unit.symbol} value={unit.symbol}>{unit.symbol} — {unit.label}</SelectItem>
+                      ))}
+                    </SelectGroup>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="mb-1 block">Calibration Interval (days) *</Label>
+              <Input
+                type="number"
+                min="1"
+                step="1"
+                value={form.calibrationIntervalDays}
+                onChange={(event) => setForm((prev) => ({ ...prev, calibrationIntervalDays: event.target.value }))}
+              />
+            </div>
+            <div>
+              <Label className="mb-1 block">Last Calibrated</Label>
+              <Input
+                type="date"
+                value={form.lastCalibratedAt}
+                onChange={(event) => setForm((prev) => ({ ...prev, lastCalibratedAt: event.target.value }))}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button
+              onClick={onSubmit}
+              disabled={createMutation.isPending || updateMutation.isPending}
+            >
+              {editingGaugeId ? "Save Changes" : <><Plus className="h-4 w-4 mr-1" /> Add Gauge</>}
+            </Button>
+            {editingGaugeId && (
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setEditingGaugeId(null);
+                  setForm(emptyForm);
+                }}
+              >
+                Cancel
+              </Button>
+            )}
+          </div>
+        </CardContent>
+        )}
+      </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Gauge Master</CardTitle>
+            <label className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Checkbox checked={showInactive} onCheckedChange={(checked) => setShowInactive(checked === true)} />
+              Show retired ({inactiveCount})
+            </label>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : visibleGauges.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-8 text-center">
+              <Plus className="h-10 w-10 text-muted-foreground/50 mb-3" />
+              <p className="text-sm text-muted-foreground">No gauges yet. Click "New Gauge" to get started.</p>
+            </div>
+          ) : (
+            <div className="overflow-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-muted-foreground">
+                    <th className="text-left p-2">Gauge</th>
+                    <th className="text-left p-2">Type</th>
+                    <th className="text-left p-2">Description</th>
+                    <th className="text-right p-2">Resolution</th>
+                    <th className="text-right p-2">Interval</th>
+                    <th className="text-left p-2">Last Calibrated</th>
+                    <th className="text-left p-2">Next Due</th>
+                    <th className="text-left p-2">Status</th>
+                    <th className="text-right p-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleGauges.map((gauge) => (
+                    <tr key={gauge.id} className={`border-t ${gauge.isActive ? "" : "text-muted-foreground"}`}>
+                      <td className="p-2 font-mono">{gauge.gaugeNumber}</td>
+                      <td className="p-2">{gaugeTypeLabels[gauge.type] ?? gauge.type}</td>
+                      <td className="p-2">{gauge.description ?? "—"}</td>
+                      <td className="p-2 text-right font-mono">
+                        {gauge.resolution != null ? withUnit(String(gauge.resolution), gauge.unit) : "—"}
+                      </td>
+                      <td className="p-2 text-right">{gauge.calibrationIntervalDays} d</td>
+                      <td className="p-2">{gauge.lastCalibratedAt ?? "—"}</td>
+                      <td className="p-2">{gauge.nextCalibrationDue ?? "—"}</td>
+                      <td className="p-2">
+                        {gauge.isActive ? (
+                          <CalibrationBadge gauge={gauge} />
+                        ) : (
+                          <Badge variant="outline">
+                            Retired{gauge.deactivatedAt ? ` since ${new Date(gauge.deactivatedAt).toLocaleDateString()}` : ""}
+                          </Badge>
+                        )}
+                      </td>
+                      <td className="p-2 text-right">
+                        {canEdit && (
+                        <div className="inline-flex gap-1">
+                          {gauge.isActive && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              title="Record calibration today"
+                              onClick={() => calibrateMutation.mutate(gauge.id)}
+                              disabled={calibrateMutation.isPending}
+                            >
+                              <BadgeCheck className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => startEdit(gauge)}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          {gauge.isActive ? (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              title="Retire"
+                              onClick={() => setDeactivatingGauge(gauge)}
+                              disabled={setActiveMutation.isPending}
+                            >
+                              <Archive className="h-4 w-4" />
+                            </Button>
+                          ) : (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              title="Reactivate"
+                              onClick={() => setActiveMutation.mutate({ id: gauge.id, isActive: true })}
+                              disabled={setActiveMutation.isPending}
+                            >
+                              <ArchiveRestore className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+      <AlertDialog open={deactivatingGauge !== null} onOpenChange={(open) => !open && setDeactivatingGauge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Retire Gauge</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deactivatingGauge?.gaugeNumber}" will no longer be offered when recording measurements. Existing measurements keep this gauge.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (deactivatingGauge) setActiveMutation.mutate({ id: deactivatingGauge.id, isActive: false });
+                setDeactivatingGauge(null);
+              }}
+            >
+              Retire
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Factory, Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+export default function LoginScreen() {
+  const { login } = useAuth();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  async function handleSubmit(event: React.FormEvent) {
+    event.preventDefault();
+    setLoading(true);
+    setError("");
+    try {
+      await login(username.trim(), password);
+    } catch (err) {
+      // fetch rejects with a TypeError when the server cannot be reached
+      setError(err instanceof TypeError || !(err instanceof Error) ? "Network or server error" : err.message);
+      setPassword("");
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="flex items-center justify-center h-screen bg-muted/30">
+      <Card className="w-full max-w-sm mx-4">
+        <CardHeader className="items-center text-center">
+          <div className="flex h-10 w-10 items-center justify-center rounded-md bg-primary text-primary-foreground mb-2">
+            <Factory className="h-5 w-5" />
+          </div>
+          <CardTitle>Sign in to CellStatus</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form className="space-y-4" onSubmit={handleSubmit}>
+            <div className="space-y-1">
+              <Label htmlFor="login-username">Username</Label>
+              <Input
+                id="login-username"
+                autoComplete="username"
+                autoFocus
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                disabled={loading}
+                data-testid="input-login-username"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="login-password">Password</Label>
+              <Input
+                id="login-password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={loading}
+                data-testid="input-login-password"
+              />
+            </div>
+            {error && <div className="text-sm text-destructive">{error}</div>}
+            <Button type="submit" className="w-full" disabled={loading || !username.trim() || !password} data-testid="button-login">
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Sign in
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -31,7 +31,11 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { MachineDialog, type MachineSubmitData } from "@/components/machine-dialog";
+import { MachineStatusTimeline } from "@/components/machine-status-timeline";
+import { DowntimeDialog, type DowntimeSubmitData } from "@/components/downtime-dialog";
+import { ChangeHistory, PageViewTabs, type PageView } from "@/components/change-history";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { 
   Plus, 
@@ -42,6 +46,8 @@ import {
   Wrench,
   AlertTriangle,
   Settings2,
+  History,
+  OctagonAlert,
 } from "lucide-react";
 import type { Machine, MachineStatus } from "@shared/schema";
 
@@ -55,12 +61,17 @@ const statusConfig: Record<MachineStatus, { label: string; icon: typeof Play; cl
 
 export default function MachinesPage() {
   const { toast } = useToast();
+  const { can } = useAuth();
   const [, setLocation] = useLocation();
   const search = useSearch();
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingMachine, setEditingMachine] = useState<Machine | null>(null);
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
   const [deletingMachine, setDeletingMachine] = useState<Machine | null>(null);
+  const [historyMachine, setHistoryMachine] = useState<Machine | null>(null);
+  const [view, setView] = useState<PageView>("records");
+  const [downtimeDialogOpen, setDowntimeDialogOpen] = useState(false);
+  const [downtimeMachineId, setDowntimeMachineId] = useState<string | undefined>(undefined);
 
   const { data: machines = [], isLoading } = useQuery<Machine[]>({
     queryKey: ["/api/machines"],
@@ -170,13 +181,31 @@ export default function MachinesPage() {
       queryClient.invalidateQueries({ queryKey: ["/api/machines"] });
       setDeleteConfirmOpen(false);
       setDeletingMachine(null);
-      toast({ title: "Machine deleted successfully" });
+      toast({ title: "Machine moved to the recycle bin" });
     },
     onError: () => {
       toast({ title: "Failed to delete machine", variant: "destructive" });
     },
   });
 
+  const logDowntimeMutation = useMutation({
+    mutationFn: (data: DowntimeSubmitData) =>
+      apiRequest("POST", "/api/downtime", { ...data, startTime: new Date(data.startTime).toISOString() }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/downtime"] });
+      setDowntimeDialogOpen(false);
+      toast({ title: "Downtime logged" });
+    },
+    onError: () => {
+      toast({ title: "Failed to log downtime", variant: "destructive" });
+    },
+  });
+
+  const handleLogDowntime = (machine?: Machine) => {
+    setDowntimeMachineId(machine?.id);
+    setDowntimeDialogOpen(true);
+  };
+
   const handleAdd = () => {
     setEditingMachine(null);
     setDialogOpen(true);
@@ -214,14 +243,28 @@ export default function MachinesPage() {
             <h1 className="text-2xl font-semibold" data-testid="text-machines-title">Machines</h1>
             <p className="text-sm text-muted-foreground">Manage your manufacturing cell equipment</p>
           </div>
-          <Button onClick={handleAdd} className="gap-2 shrink-0" data-testid="button-add-machine">
-            <Plus className="h-4 w-4" />
-            Add Machine
-          </Button>
+          <div className="flex gap-2 shrink-0">
+            <PageViewTabs value={view} onValueChange={setView} recordsLabel="Machines" />
+            {can("operator") && (
+              <Button variant="outline" onClick={() => handleLogDowntime()} className="gap-2" data-testid="button-log-downtime">
+                <OctagonAlert className="h-4 w-4" />
+                Log Downtime
+              </Button>
+            )}
+            {can("admin") && (
+              <Button onClick={handleAdd} className="gap-2" data-testid="button-add-machine">
+                <Plus className="h-4 w-4" />
+                Add Machine
+              </Button>
+            )}
+          </div>
         </div>
       </div>
 
       <div className="flex-1 overflow-auto p-6">
+        {view === "history" ? (
+          <ChangeHistory entityType="machine" />
+        ) : (
         <Card>
           <CardHeader className="flex items-center justify-between">
             <div className="flex items-center gap-3">
@@ -258,10 +301,12 @@ export default function MachinesPage() {
                 <Settings2 className="h-12 w-12 text-muted-foreground mb-4" />
                 <h3 className="font-medium mb-1">No Machines</h3>
                 <p className="text-sm text-muted-foreground mb-4">Get started by adding your first machine</p>
-                <Button onClick={handleAdd} variant="outline" className="gap-2">
-                  <Plus className="h-4 w-4" />
-                  Add Machine
-                </Button>
+                {can("admin") && (
+                  <Button onClick={handleAdd} variant="outline" className="gap-2">
+                    <Plus className="h-4 w-4" />
+                    Add Machine
+                  </Button>
+                )}
               </div>
             ) : filteredMachines.length === 0 ? (
               <div className="flex flex-col items-center justify-center py-8 text-center">
@@ -281,6 +326,7 @@ export default function MachinesPage() {
                     <TableHead className="text-right">Setup Time</TableHead>
                     <TableHead className="text-right">Pcs/Setup</TableHead>
                     <TableHead className="text-right">Reliability</TableHead>
+                    <TableHead className="text-right">Rate</TableHead>
                     <TableHead className="text-right">
                       <TooltipProvider>
                         <Tooltip>
@@ -293,7 +339,7 @@ export default function MachinesPage() {
                         </Tooltip>
                       </TooltipProvider>
                     </TableHead>
-                    <TableHead className="w-[100px]">Actions</TableHead>
+                    <TableHead className="w-[180px]">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -348,6 +394,9 @@ export default function MachinesPage() {
                         <TableCell className="text-right font-mono">
                           {machine.uptimePercent ? `${machine.uptimePercent}%` : "--"}
                         </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {machine.hourlyRate != null ? `$${machine.hourlyRate.toFixed(2)}/h` : "--"}
+                        </TableCell>
                         <TableCell className="text-right font-mono">
                           {throughput !== null ? `${throughput.toFixed(0)}/hr` : "--"}
                         </TableCell>
@@ -356,19 +405,43 @@ export default function MachinesPage() {
                             <Button
                               variant="ghost"
                               size="icon"
-                              onClick={() => handleEdit(machine)}
-                              data-testid={`button-edit-${machine.id}`}
+                              onClick={() => setHistoryMachine(machine)}
+                              title="Status history"
+                              data-testid={`button-history-${machine.id}`}
                             >
-                              <Pencil className="h-4 w-4" />
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              onClick={() => handleDelete(machine)}
-                              data-testid={`button-delete-${machine.id}`}
-                            >
-                              <Trash2 className="h-4 w-4 text-destructive" />
+                              <History className="h-4 w-4" />
                             </Button>
+                            {can("operator") && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleLogDowntime(machine)}
+                                title="Log downtime"
+                                data-testid={`button-downtime-${machine.id}`}
+                              >
+                                <OctagonAlert className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {can("admin") && (
+                              <>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => handleEdit(machine)}
+                                  data-testid={`button-edit-${machine.id}`}
+                                >
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => handleDelete(machine)}
+                                  data-testid={`button-delete-${machine.id}`}
+                                >
+                                  <Trash2 className="h-4 w-4 text-destructive" />
+                                </Button>
+                              </>
+                            )}
                           </div>
                         </TableCell>
                       </TableRow>
@@ -379,6 +452,7 @@ export default function MachinesPage() {
             )}
           </CardContent>
         </Card>
+        )}
       </div>
 
       <MachineDialog
@@ -389,12 +463,29 @@ export default function MachinesPage() {
         isPending={createMutation.isPending || updateMutation.isPending}
       />
 
+      <MachineStatusTimeline
+        open={historyMachine !== null}
+        onOpenChange={(open) => {
+          if (!open) setHistoryMachine(null);
+        }}
+        machine={historyMachine}
+      />
+
+      <DowntimeDialog
+        open={downtimeDialogOpen}
+        onOpenChange={setDowntimeDialogOpen}
+        machines={machines}
+        preselectedMachineId={downtimeMachineId}
+        onSubmit={(data) => logDowntimeMutation.mutate(data)}
+        isPending={logDowntimeMutation.isPending}
+      />
+
       <AlertDialog open={deleteConfirmOpen} onOpenChange={setDeleteConfirmOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Machine</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete {deletingMachine?.name}? This action cannot be undone.
+              {deletingMachine?.name} moves to the recycle bin. Its history is kept and it can be restored from there.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -0,0 +1,449 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { specLimits } from "@/lib/spc-export";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, CheckCircle2, Eraser, Send } from "lucide-react";
+import type { Characteristic, Gauge, Machine, Part, SpcMeasurement, SpcRuleViolation } from "@shared/schema";
+import { calibrationStatus } from "@shared/schema";
+import { formatTolerance, parseDecimal } from "@shared/numeric";
+import { compatibleUnits, convertReading, withUnit } from "@shared/units";
+
+type Entry = {
+  // One field per reading in the subgroup; attribute checks use sampleSize and count instead
+  values: string[];
+  unit: string;
+  sampleSize: string;
+  count: string;
+};
+
+type ReadingStatus = "empty" | "invalid" | "in" | "out";
+
+type SavedMeasurement = SpcMeasurement & { violations: SpcRuleViolation[]; gaugeWarning: string | null };
+
+const NO_GAUGE = "none";
+
+const statusClasses: Record<ReadingStatus, string> = {
+  empty: "",
+  invalid: "border-machine-idle bg-machine-idle/10",
+  in: "border-machine-running bg-machine-running/10",
+  out: "border-machine-down bg-machine-down/10 text-machine-down",
+};
+
+const emptyEntry = (char: Characteristic): Entry => ({
+  values: Array.from({ length: char.isAttributeCheck ? 0 : char.subgroupSize }, () => ""),
+  unit: char.unit ?? "",
+  sampleSize: "",
+  count: "",
+});
+
+const charLabel = (char: Characteristic) => `#${char.charNumber}${char.charName ? ` ${char.charName}` : ""}`;
+
+// Operation order first ("Op 10" before "Op 20"), characteristics without one last
+const byOperation = (left: Characteristic, right: Characteristic) => {
+  if (!left.opName !== !right.opName) return left.opName ? -1 : 1;
+  return (left.opName ?? "").localeCompare(right.opName ?? "", undefined, { numeric: true })
+    || left.charNumber.localeCompare(right.charNumber, undefined, { numeric: true });
+};
+
+// A typed reading in the characteristic's unit, judged against its spec limits
+function classifyReading(raw: string, unit: string, char: Characteristic): { status: ReadingStatus; value?: number; message?: string } {
+  if (raw.trim() === "") return { status: "empty" };
+  const value = parseDecimal(raw);
+  if (value === null) return { status: "invalid", message: "Not a number" };
+  const converted = convertReading(value, unit, char.unit);
+  if ("error" in converted) return { status: "invalid", message: converted.error };
+  const { usl, lsl } = specLimits(char.charMax, char.charMin);
+  const out = (usl !== null && converted.value > usl) || (lsl !== null && converted.value < lsl);
+  return { status: out ? "out" : "in", value: converted.value };
+}
+
+// Specification line shown under the characteristic, e.g. "10 ±0.05 mm (9.95 – 10.05)"
+function specText(char: Characteristic) {
+  if (char.isAttributeCheck) return `Attribute check · ${char.attributeChartType} chart`;
+  const nominal = char.nominalValue != null
+    ? withUnit(`${char.nominalValue} ${formatTolerance(char.toleranceUpper, char.toleranceLower)}`.trim(), char.unit)
+    : "";
+  const limits = char.charMin != null || char.charMax != null ? `${char.charMin ?? "—"} – ${char.charMax ?? "—"}` : "";
+  return [nominal, limits && `(${limits})`].filter(Boolean).join(" ") || "No specification";
+}
+
+// Row indexes the bulk endpoint rejected, from the "400: {...}" message apiRequest throws
+function rejectedRows(error: unknown): { index: number; message: string }[] {
+  if (!(error instanceof Error) || !error.message.startsWith("400")) return [];
+  try {
+    const body = JSON.parse(error.message.slice(error.message.indexOf(":") + 1));
+    return Array.isArray(body.rows) ? body.rows : [];
+  } catch {
+    return [];
+  }
+}
+
+export default function MeasurementEntryPage() {
+  const { toast } = useToast();
+  const [machineId, setMachineId] = useState("");
+  const [partId, setPartId] = useState("");
+  const [gaugeId, setGaugeId] = useState("");
+  const [note, setNote] = useState("");
+  const [entries, setEntries] = useState<Record<string, Entry>>({});
+  const [lastResult, setLastResult] = useState<{ saved: number; outOfTolerance: number; signals: number } | null>(null);
+
+  const { data: machines = [] } = useQuery<Machine[]>({
+    queryKey: ["/api/machines"],
+    queryFn: () => apiRequest("GET", "/api/machines"),
+  });
+
+  const { data: parts = [] } = useQuery<Part[]>({
+    queryKey: ["/api/parts"],
+    queryFn: () => apiRequest("GET", "/api/parts"),
+  });
+
+  const { data: gauges = [] } = useQuery<Gauge[]>({
+    queryKey: ["/api/gauges"],
+    queryFn: () => apiRequest("GET", "/api/gauges"),
+  });
+
+  const activeGauges = gauges.filter((gauge) => gauge.isActive);
+  const selectedGauge = activeGauges.find((gauge) => gauge.id === gaugeId);
+  const gaugeOverdue = selectedGauge !== undefined && calibrationStatus(selectedGauge) === "overdue";
+
+  const { data: characteristics = [], isLoading } = useQuery<Characteristic[]>({
+    queryKey: ["/api/characteristics"],
+    queryFn: () => apiRequest("GET", "/api/characteristics"),
+  });
+
+  const partCharacteristics = useMemo(
+    () => characteristics.filter((char) => char.partId === partId).sort(byOperation),
+    [characteristics, partId],
+  );
+
+  const operations = useMemo(() => {
+    const groups: { opName: string; chars: Characteristic[] }[] = [];
+    partCharacteristics.forEach((char) => {
+      const opName = char.opName || "No operation";
+      const last = groups[groups.length - 1];
+      if (last && last.opName === opName) last.chars.push(char);
+      else groups.push({ opName, chars: [char] });
+    });
+    return groups;
+  }, [partCharacteristics]);
+
+  const entryFor = (char: Characteristic) => entries[char.id] ?? emptyEntry(char);
+
+  const updateEntry = (char: Characteristic, changes: Partial<Entry>) =>
+    setEntries((prev) => ({ ...prev, [char.id]: { ...(prev[char.id] ?? emptyEntry(char)), ...changes } }));
+
+  const summary = useMemo(() => {
+    let entered = 0;
+    let outOfTolerance = 0;
+    let invalid = 0;
+    partCharacteristics.forEach((char) => {
+      const entry = entries[char.id];
+      if (!entry) return;
+      if (char.isAttributeCheck) {
+        if (entry.sampleSize.trim() !== "" || entry.count.trim() !== "") entered += 1;
+        return;
+      }
+      entry.values.forEach((raw) => {
+        const { status } = classifyReading(raw, entry.unit, char);
+        if (status !== "empty") entered += 1;
+        if (status === "out") outOfTolerance += 1;
+        if (status === "invalid") invalid += 1;
+      });
+    });
+    return { entered, outOfTolerance, invalid };
+  }, [entries, partCharacteristics]);
+
+  // One row per reading; readings of a subgrouped characteristic share a subgroup id
+  const buildRows = () => {
+    const rows: { char: Characteristic; payload: Record<string, unknown> }[] = [];
+    const problems: string[] = [];
+    partCharacteristics.forEach((char) => {
+      const entry = entries[char.id];
+      if (!entry) return;
+      const base = { characteristicId: char.id, machineId, gaugeId: gaugeId || null, recordNote: note.trim() || null };
+      if (char.isAttributeCheck) {
+        if (entry.sampleSize.trim() === "" && entry.count.trim() === "") return;
+        const sampleSize = Number(entry.sampleSize);
+        const count = Number(entry.count);
+        if (!Number.isInteger(sampleSize) || sampleSize < 1 || entry.count.trim() === "" || !Number.isInteger(count) || count < 0) {
+          problems.push(`${charLabel(char)}: enter a whole sample size and count`);
+          return;
+        }
+        rows.push({ char, payload: { ...base, sampleSize, defectCount: count } });
+        return;
+      }
+      const readings = entry.values.map((raw) => ({ raw, ...classifyReading(raw, entry.unit, char) }))
+        .filter((reading) => reading.status !== "empty");
+      const invalid = readings.find((reading) => reading.status === "invalid");
+      if (invalid) {
+        problems.push(`${charLabel(char)}: ${invalid.message}`);
+        return;
+      }
+      const subgroupId = char.subgroupSize > 1 && readings.length > 1 ? crypto.randomUUID() : null;
+      readings.forEach((reading) => {
+        rows.push({
+          char,
+          payload: { ...base, measuredValue: parseDecimal(reading.raw), unit: entry.unit || null, subgroupId },
+        });
+      });
+    });
+    return { rows, problems };
+  };
+
+  const submitMutation = useMutation({
+    mutationFn: (rows: { char: Characteristic; payload: Record<string, unknown> }[]) =>
+      apiRequest<SavedMeasurement[]>("POST", "/api/measurements/bulk", rows.map((row) => row.payload)),
+    onSuccess: (saved, rows) => {
+      const touched = new Set(rows.map((row) => row.char.id));
+      touched.forEach((id) => queryClient.invalidateQueries({ queryKey: ["/api/characteristics", id, "measurements"] }));
+      queryClient.invalidateQueries({ queryKey: ["/api/spc-violations"] });
+      const result = {
+        saved: saved.length,
+        outOfTolerance: summary.outOfTolerance,
+        signals: saved.filter((measurement) => measurement.violations.length > 0).length,
+      };
+      setLastResult(result);
+      setEntries({});
+      setNote("");
+      // Every row used the same gauge, so one warning covers the inspection
+      const gaugeWarning = saved.find((measurement) => measurement.gaugeWarning)?.gaugeWarning;
+      toast({
+        title: `Inspection saved: ${result.saved} reading${result.saved === 1 ? "" : "s"}`,
+        description: gaugeWarning ?? undefined,
+        variant: gaugeWarning ? "destructive" : undefined,
+      });
+    },
+    onError: (error, rows) => {
+      const rejected = rejectedRows(error);
+      toast({
+        title: "Failed to save inspection",
+        description: rejected.length > 0
+          ? rejected.slice(0, 3).map((row) => `${rows[row.index] ? charLabel(rows[row.index].char) : `Row ${row.index + 1}`}: ${row.message}`).join("; ")
+          : undefined,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const submit = () => {
+    if (!machineId) {
+      toast({ title: "Machine is required", variant: "destructive" });
+      return;
+    }
+    const { rows, problems } = buildRows();
+    if (problems.length > 0) {
+      toast({ title: "Fix the highlighted entries", description: problems.slice(0, 3).join("; "), variant: "destructive" });
+      return;
+    }
+    if (rows.length === 0) {
+      toast({ title: "Enter at least one reading", variant: "destructive" });
+      return;
+    }
+    submitMutation.mutate(rows);
+  };
+
+  const selectPart = (value: string) => {
+    setPartId(value);
+    setEntries({});
+    setLastResult(null);
+  };
+
+  return (
+    <div className="p-6 pb-0 h-full overflow-y-auto space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold">Measurement Entry</h2>
+        <p className="text-sm text-muted-foreground">
+          Pick the machine and part, key in each characteristic, and save the whole inspection at once.
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <Label className="mb-1 block">Machine *</Label>
+            <Select value={machineId} onValueChange={setMachineId}>
+              <SelectTrigger className="h-12 text-base">
+                <SelectValue placeholder="Select machine" />
+              </SelectTrigger>
+              <SelectContent>
+                {machines.map((machine) => (
+                  <SelectItem key={machine.id} value={machine.id} className="py-3 text-base">
+                    {machine.machineId ? `${machine.name} (${machine.machineId})` : machine.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="mb-1 block">Part *</Label>
+            <Select value={partId} onValueChange={selectPart}>
+              <SelectTrigger className="h-12 text-base">
+                <SelectValue placeholder="Select part" />
+              </SelectTrigger>
+              <SelectContent>
+                {parts.map((part) => (
+                  <SelectItem key={part.id} value={part.id} className="py-3 text-base">
+                    {part.partName ? `${part.partNumber} - ${part.partName}` : part.partNumber}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="mb-1 block">Gauge</Label>
+            <Select value={gaugeId || NO_GAUGE} onValueChange={(value) => setGaugeId(value === NO_GAUGE ? "" : value)}>
+              <SelectTrigger className="h-12 text-base">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_GAUGE} className="py-3 text-base">No gauge</SelectItem>
+                {activeGauges.map((gauge) => (
+                  <SelectItem key={gauge.id} value={gauge.id} className="py-3 text-base">
+                    {gauge.description ? `${gauge.gaugeNumber} - ${gauge.description}` : gauge.gaugeNumber}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="mb-1 block">Note</Label>
+            <Input
+              className="h-12 text-base"
+              placeholder="Applies to every reading"
+              value={note}
+              onChange={(event) => setNote(event.target.value)}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {gaugeOverdue && (
+        <div className="flex items-center gap-2 rounded border border-machine-down/30 bg-machine-down/10 p-3 text-sm text-machine-down">
+          <AlertTriangle className="h-4 w-4" />
+          Gauge {selectedGauge.gaugeNumber} was due for calibration on {selectedGauge.nextCalibrationDue}. Readings can still be saved.
+        </div>
+      )}
+
+      {lastResult && (
+        <div className="flex items-center gap-2 rounded border p-3 text-sm">
+          <CheckCircle2 className="h-4 w-4 text-machine-running" />
+          Last inspection: {lastResult.saved} reading{lastResult.saved === 1 ? "" : "s"} saved
+          {lastResult.outOfTolerance > 0 && <span className="text-machine-down">· {lastResult.outOfTolerance} out of tolerance</span>}
+          {lastResult.signals > 0 && <span className="text-machine-down">· {lastResult.signals} tripped a run rule</span>}
+        </div>
+      )}
+
+      {!partId ? (
+        <p className="text-sm text-muted-foreground">Select a part to list its characteristics.</p>
+      ) : isLoading ? (
+        <Skeleton className="h-48 w-full" />
+      ) : partCharacteristics.length === 0 ? (
+        <p className="text-sm text-muted-foreground">This part has no characteristics yet.</p>
+      ) : (
+        operations.map((operation) => (
+          <Card key={operation.opName}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">{operation.opName}</CardTitle>
+            </CardHeader>
+            <CardContent className="divide-y">
+              {operation.chars.map((char) => {
+                const entry = entryFor(char);
+                const units = compatibleUnits(char.unit);
+                return (
+                  <div key={char.id} className="py-3 flex flex-wrap items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="font-medium">{charLabel(char)}</div>
+                      <div className="text-sm text-muted-foreground">{specText(char)}</div>
+                    </div>
+                    {char.isAttributeCheck ? (
+                      <div className="flex flex-wrap items-end gap-3">
+                        <div>
+                          <Label className="mb-1 block text-xs">Sample Size</Label>
+                          <Input
+                            className="h-14 w-28 text-xl font-mono text-center"
+                            inputMode="numeric"
+                            value={entry.sampleSize}
+                            onChange={(event) => updateEntry(char, { sampleSize: event.target.value })}
+                          />
+                        </div>
+                        <div>
+                          <Label className="mb-1 block text-xs">
+                            {char.attributeChartType === "p" || char.attributeChartType === "np" ? "Defectives" : "Defects"}
+                          </Label>
+                          <Input
+                            className="h-14 w-28 text-xl font-mono text-center"
+                            inputMode="numeric"
+                            value={entry.count}
+                            onChange={(event) => updateEntry(char, { count: event.target.value })}
+                          />
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="flex flex-wrap items-center gap-2">
+                        {entry.values.map((raw, index) => {
+                          const reading = classifyReading(raw, entry.unit, char);
+                          return (
+                            <Input
+                              key={index}
+                              className={`h-14 w-32 text-xl font-mono text-center border-2 ${statusClasses[reading.status]}`}
+                              inputMode="decimal"
+                              placeholder={entry.values.length > 1 ? String(index + 1) : undefined}
+                              title={reading.message}
+                              value={raw}
+                              onChange={(event) => updateEntry(char, {
+                                values: entry.values.map((value, position) => (position === index ? event.target.value : value)),
+                              })}
+                            />
+                          );
+                        })}
+                        {units.length > 1 ? (
+                          <Select value={entry.unit} onValueChange={(value) => updateEntry(char, { unit: value })}>
+                            <SelectTrigger className="h-14 w-24">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {units.map((unit) => (
+                                <SelectItem key={unit.symbol} value={unit.symbol} className="py-3">{unit.symbol}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : char.unit ? (
+                          <span className="text-sm text-muted-foreground w-12">{char.unit}</span>
+                        ) : null}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      {partCharacteristics.length > 0 && (
+        <div className="sticky bottom-0 -mx-6 border-t bg-background p-4 flex flex-wrap items-center justify-between gap-3">
+          <div className="text-sm">
+            {summary.entered} reading{summary.entered === 1 ? "" : "s"} entered
+            {summary.outOfTolerance > 0 && <span className="text-machine-down"> · {summary.outOfTolerance} out of tolerance</span>}
+            {summary.invalid > 0 && <span className="text-machine-idle"> · {summary.invalid} to fix</span>}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="lg" className="h-14" onClick={() => setEntries({})} disabled={submitMutation.isPending}>
+              <Eraser className="h-5 w-5 mr-2" /> Clear
+            </Button>
+            <Button size="lg" className="h-14 px-8 text-base" onClick={submit} disabled={submitMutation.isPending || summary.entered === 0}>
+              <Send className="h-5 w-5 mr-2" /> Save Inspection
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -18,6 +18,8 @@ import {
 } from "@/components/ui/alert-dialog";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { ChangeHistory, PageViewTabs, type PageView } from "@/components/change-history";
 import { ChevronDown, ChevronUp, Pencil, Plus, Trash2 } from "lucide-react";
 import type { Part } from "@shared/schema";
 
@@ -37,13 +39,26 @@ const emptyForm: PartForm = {
   notes: "",
 };
 
+// A part that still has characteristics cannot be deleted; the API says how many (409)
+const serverMessage = (error: unknown) => {
+  if (!(error instanceof Error) || !/^409/.test(error.message)) return undefined;
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(":") + 1)).message as string | undefined;
+  } catch {
+    return undefined;
+  }
+};
+
 export default function PartsPage() {
   const { toast } = useToast();
+  const { can } = useAuth();
+  const canEdit = can("quality_engineer");
   const [form, setForm] = useState<PartForm>(emptyForm);
   const [newPartOpen, setNewPartOpen] = useState(false);
   const [editingPartId, setEditingPartId] = useState<string | null>(null);
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
   const [deletingPart, setDeletingPart] = useState<Part | null>(null);
+  const [view, setView] = useState<PageView>("records");
 
   const { data: parts = [], isLoading } = useQuery<Part[]>({
     queryKey: ["/api/parts"],
@@ -90,9 +105,9 @@ export default function PartsPage() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/parts"] });
       queryClient.invalidateQueries({ queryKey: ["/api/characteristics"] });
-      toast({ title: "Part deleted" });
+      toast({ title: "Part moved to the recycle bin" });
     },
-    onError: () => toast({ title: "Failed to delete part", variant: "destructive" }),
+    onError: (error) => toast({ title: "Failed to delete part", description: serverMessage(error), variant: "destructive" }),
   });
 
   const startEdit = (part: Part) => {
@@ -125,11 +140,19 @@ export default function PartsPage() {
 
   return (
     <div className="p-6 h-full overflow-y-auto space-y-4">
-      <div>
-        <h2 className="text-lg font-semibold">Parts</h2>
-        <p className="text-sm text-muted-foreground">Manage part master data for characteristics and scrap reporting.</p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold">Parts</h2>
+          <p className="text-sm text-muted-foreground">Manage part master data for characteristics and scrap reporting.</p>
+        </div>
+        <PageViewTabs value={view} onValueChange={setView} recordsLabel="Parts" />
       </div>
 
+      {view === "history" ? (
+        <ChangeHistory entityType="part" />
+      ) : (
+      <>
+      {canEdit && (
       <Card>
         <CardHeader
           className="cursor-pointer select-none"
@@ -214,6 +237,7 @@ export default function PartsPage() {
         </CardContent>
         )}
       </Card>
+      )}
 
       <Card>
         <CardHeader>
@@ -257,6 +281,7 @@ export default function PartsPage() {
                       </td>
                       <td className="p-2">{part.notes || <span className="text-muted-foreground">-</span>}</td>
                       <td className="p-2 text-right">
+                        {canEdit && (
                         <div className="inline-flex gap-1">
                           <Button
                             size="sm"
@@ -277,6 +302,7 @@ export default function PartsPage() {
                             <Trash2 className="h-4 w-4" />
                           </Button>
                         </div>
+                        )}
                       </td>
                     </tr>
                   ))}
@@ -286,12 +312,14 @@ export default function PartsPage() {
           )}
         </CardContent>
       </Card>
+      </>
+      )}
       <AlertDialog open={deleteConfirmOpen} onOpenChange={setDeleteConfirmOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Part</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete part "{deletingPart?.partNumber}"? This action cannot be undone.
+              Part "{deletingPart?.partNumber}" moves to the recycle bin. Its history is kept and it can be restored from there.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -0,0 +1,237 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { ArchiveRestore, Loader2, Trash2 } from "lucide-react";
+import type { ArchivableEntityType, PurgeCheck, RecycleBinItem } from "@shared/schema";
+import { archivableEntityTypes, archiveRoles, changeLogEntityLabels } from "@shared/schema";
+
+const ALL = "all";
+
+// The list each type is shown in, refreshed after a restore or purge
+const listQueryKeys: Record<ArchivableEntityType, string> = {
+  machine: "/api/machines",
+  cell: "/api/cells",
+  part: "/api/parts",
+  characteristic: "/api/characteristics",
+};
+
+// The API answers 409 with a readable message
+const serverMessage = (error: unknown) => {
+  if (!(error instanceof Error) || !/^409/.test(error.message)) return undefined;
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(":") + 1)).message as string | undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const rowsText = (rows: PurgeCheck["dependents"]) => rows.map((row) => `${row.count} ${row.label}`).join(", ");
+
+export default function RecycleBinPage() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [typeFilter, setTypeFilter] = useState<ArchivableEntityType | typeof ALL>(ALL);
+  const [purgeCheck, setPurgeCheck] = useState<PurgeCheck | null>(null);
+  const [checkingId, setCheckingId] = useState<string | null>(null);
+
+  const { data: items = [], isLoading } = useQuery<RecycleBinItem[]>({
+    queryKey: ["/api/recycle-bin"],
+    queryFn: () => apiRequest("GET", "/api/recycle-bin"),
+    staleTime: 0,
+  });
+
+  const visibleItems = typeFilter === ALL ? items : items.filter((item) => item.entityType === typeFilter);
+
+  const refresh = (entityType: ArchivableEntityType) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/recycle-bin"] });
+    queryClient.invalidateQueries({ queryKey: [listQueryKeys[entityType]] });
+    queryClient.invalidateQueries({ queryKey: ["/api/audit-log"] });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: (item: RecycleBinItem) => apiRequest("POST", `/api/recycle-bin/${item.entityType}/${item.id}/restore`),
+    onSuccess: (_data, item) => {
+      refresh(item.entityType);
+      toast({ title: `${changeLogEntityLabels[item.entityType]} restored`, description: item.label });
+    },
+    onError: () => toast({ title: "Failed to restore record", variant: "destructive" }),
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: (check: PurgeCheck) => apiRequest("DELETE", `/api/recycle-bin/${check.entityType}/${check.id}`),
+    onSuccess: (_data, check) => {
+      refresh(check.entityType);
+      setPurgeCheck(null);
+      toast({ title: `${changeLogEntityLabels[check.entityType]} purged`, description: check.label });
+    },
+    onError: (error) => toast({ title: "Failed to purge record", description: serverMessage(error), variant: "destructive" }),
+  });
+
+  // Purging starts with the dependent rows, so the dialog can say what is in the way
+  const startPurge = async (item: RecycleBinItem) => {
+    setCheckingId(item.id);
+    try {
+      setPurgeCheck(await apiRequest<PurgeCheck>("GET", `/api/recycle-bin/${item.entityType}/${item.id}/dependents`));
+    } catch {
+      toast({ title: "Failed to check dependent records", variant: "destructive" });
+    } finally {
+      setCheckingId(null);
+    }
+  };
+
+  return (
+    <div className="p-6 h-full overflow-y-auto space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold">Recycle Bin</h2>
+        <p className="text-sm text-muted-foreground">
+          Deleted machines, cells, parts and characteristics. Their history still shows them; restore one to use it again.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+            <CardTitle>Archived Records</CardTitle>
+            <div className="w-full sm:w-56">
+              <Label className="mb-1 block">Type</Label>
+              <Select value={typeFilter} onValueChange={(value) => setTypeFilter(value as ArchivableEntityType | typeof ALL)}>
+                <SelectTrigger data-testid="select-recycle-bin-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All types</SelectItem>
+                  {archivableEntityTypes.map((entityType) => (
+                    <SelectItem key={entityType} value={entityType}>{changeLogEntityLabels[entityType]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : visibleItems.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-8 text-center">
+              <Trash2 className="h-10 w-10 text-muted-foreground/50 mb-3" />
+              <p className="text-sm text-muted-foreground">The recycle bin is empty.</p>
+            </div>
+          ) : (
+            <div className="overflow-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-muted-foreground">
+                    <th className="text-left p-2">Type</th>
+                    <th className="text-left p-2">Record</th>
+                    <th className="text-left p-2">Deleted</th>
+                    <th className="text-right p-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleItems.map((item) => (
+                    <tr key={`${item.entityType}-${item.id}`} className="border-t">
+                      <td className="p-2">
+                        <Badge variant="outline">{changeLogEntityLabels[item.entityType]}</Badge>
+                      </td>
+                      <td className="p-2">{item.label}</td>
+                      <td className="p-2 whitespace-nowrap">{item.archivedAt ? new Date(item.archivedAt).toLocaleString() : "-"}</td>
+                      <td className="p-2 text-right">
+                        <div className="inline-flex gap-1">
+                          {can(archiveRoles[item.entityType]) && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => restoreMutation.mutate(item)}
+                              disabled={restoreMutation.isPending}
+                              title="Restore"
+                              data-testid={`button-restore-${item.id}`}
+                            >
+                              <ArchiveRestore className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {can("admin") && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => startPurge(item)}
+                              disabled={checkingId !== null || purgeMutation.isPending}
+                              title="Purge"
+                              data-testid={`button-purge-${item.id}`}
+                            >
+                              {checkingId === item.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4 text-destructive" />}
+                            </Button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={purgeCheck !== null} onOpenChange={(open) => !open && setPurgeCheck(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {purgeCheck?.purgeable ? "Purge" : "Cannot purge"} {purgeCheck ? changeLogEntityLabels[purgeCheck.entityType].toLowerCase() : ""}
+            </AlertDialogTitle>
+            <AlertDialogDescription asChild>
+              <div className="space-y-2">
+                {purgeCheck && purgeCheck.dependents.length > 0 ? (
+                  <p>
+                    "{purgeCheck.label}" is still used by {rowsText(purgeCheck.dependents)}. Reassign or purge those first.
+                  </p>
+                ) : (
+                  <p>"{purgeCheck?.label}" will be deleted for good. This cannot be undone.</p>
+                )}
+                {purgeCheck && purgeCheck.ownedRows.length > 0 && (
+                  <p>Purging it also deletes its {rowsText(purgeCheck.ownedRows)}.</p>
+                )}
+              </div>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{purgeCheck?.purgeable ? "Cancel" : "Close"}</AlertDialogCancel>
+            {purgeCheck?.purgeable && (
+              <AlertDialogAction
+                onClick={(event) => {
+                  event.preventDefault();
+                  purgeMutation.mutate(purgeCheck);
+                }}
+                disabled={purgeMutation.isPending}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Purge
+              </AlertDialogAction>
+            )}
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
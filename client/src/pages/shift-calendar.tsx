@@ -0,0 +1,474 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { sortShifts } from "@/lib/shift-calendar";
+import { ChevronDown, ChevronUp, Pencil, Plus, Trash2 } from "lucide-react";
+import type { PlantHoliday, ShiftCalendar, ShiftDefinition } from "@shared/schema";
+
+type ShiftForm = {
+  name: string;
+  startTime: string;
+  endTime: string;
+  workingDays: number[];
+  sortOrder: string;
+};
+
+type HolidayForm = {
+  date: string;
+  name: string;
+};
+
+const emptyShiftForm: ShiftForm = {
+  name: "",
+  startTime: "",
+  endTime: "",
+  workingDays: [1, 2, 3, 4, 5],
+  sortOrder: "",
+};
+
+const emptyHolidayForm: HolidayForm = {
+  date: "",
+  name: "",
+};
+
+// Indexed by Date.getDay(); listed Monday first to match the plant week
+const weekdayLabels = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const weekdayOrder = [1, 2, 3, 4, 5, 6, 0];
+
+const formatWorkingDays = (days: number[]) =>
+  weekdayOrder.filter((day) => days.includes(day)).map((day) => weekdayLabels[day]).join(", ") || "-";
+
+export default function ShiftCalendarPage() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canEdit = can("admin");
+  const [shiftForm, setShiftForm] = useState<ShiftForm>(emptyShiftForm);
+  const [holidayForm, setHolidayForm] = useState<HolidayForm>(emptyHolidayForm);
+  const [newShiftOpen, setNewShiftOpen] = useState(false);
+  const [editingShiftId, setEditingShiftId] = useState<string | null>(null);
+  const [deletingShift, setDeletingShift] = useState<ShiftDefinition | null>(null);
+  const [deletingHoliday, setDeletingHoliday] = useState<PlantHoliday | null>(null);
+
+  const { data: calendar, isLoading } = useQuery<ShiftCalendar>({
+    queryKey: ["/api/shift-calendar"],
+    queryFn: () => apiRequest("GET", "/api/shift-calendar"),
+  });
+
+  const shifts = sortShifts(calendar?.shifts ?? []);
+  const holidays = [...(calendar?.holidays ?? [])].sort((left, right) => left.date.localeCompare(right.date));
+
+  const toShiftPayload = (payload: ShiftForm) => ({
+    name: payload.name.trim(),
+    startTime: payload.startTime,
+    endTime: payload.endTime,
+    workingDays: payload.workingDays,
+    sortOrder: payload.sortOrder ? Number(payload.sortOrder) : 0,
+  });
+
+  const createShiftMutation = useMutation({
+    mutationFn: (payload: ShiftForm) => apiRequest("POST", "/api/shifts", toShiftPayload(payload)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shift-calendar"] });
+      setShiftForm(emptyShiftForm);
+      toast({ title: "Shift added" });
+    },
+    onError: () => toast({ title: "Failed to add shift", variant: "destructive" }),
+  });
+
+  const updateShiftMutation = useMutation({
+    mutationFn: ({ id, payload }: { id: string; payload: ShiftForm }) =>
+      apiRequest("PATCH", `/api/shifts/${id}`, toShiftPayload(payload)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shift-calendar"] });
+      setShiftForm(emptyShiftForm);
+      setEditingShiftId(null);
+      toast({ title: "Shift updated" });
+    },
+    onError: () => toast({ title: "Failed to update shift", variant: "destructive" }),
+  });
+
+  const deleteShiftMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/shifts/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shift-calendar"] });
+      toast({ title: "Shift deleted" });
+    },
+    onError: () => toast({ title: "Failed to delete shift", variant: "destructive" }),
+  });
+
+  const createHolidayMutation = useMutation({
+    mutationFn: (payload: HolidayForm) =>
+      apiRequest("POST", "/api/holidays", { date: payload.date, name: payload.name.trim() }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shift-calendar"] });
+      setHolidayForm(emptyHolidayForm);
+      toast({ title: "Holiday added" });
+    },
+    // The API answers 409 when the date is already a holiday
+    onError: (error) => toast({
+      title: error instanceof Error && error.message.startsWith("409")
+        ? "Failed to add holiday: date already listed"
+        : "Failed to add holiday",
+      variant: "destructive",
+    }),
+  });
+
+  const deleteHolidayMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/holidays/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shift-calendar"] });
+      toast({ title: "Holiday removed" });
+    },
+    onError: () => toast({ title: "Failed to remove holiday", variant: "destructive" }),
+  });
+
+  const toggleWorkingDay = (day: number, checked: boolean) => {
+    setShiftForm((prev) => ({
+      ...prev,
+      workingDays: checked
+        ? Array.from(new Set([...prev.workingDays, day])).sort()
+        : prev.workingDays.filter((value) => value !== day),
+    }));
+  };
+
+  const startEdit = (shift: ShiftDefinition) => {
+    setEditingShiftId(shift.id);
+    setNewShiftOpen(true);
+    setShiftForm({
+      name: shift.name,
+      startTime: shift.startTime,
+      endTime: shift.endTime,
+      workingDays: shift.workingDays,
+      sortOrder: String(shift.sortOrder),
+    });
+  };
+
+  const onSubmitShift = () => {
+    if (!shiftForm.name.trim()) {
+      toast({ title: "Shift name is required", variant: "destructive" });
+      return;
+    }
+    if (!shiftForm.startTime || !shiftForm.endTime) {
+      toast({ title: "Start and end times are required", variant: "destructive" });
+      return;
+    }
+    if (shiftForm.workingDays.length === 0) {
+      toast({ title: "Select at least one working day", variant: "destructive" });
+      return;
+    }
+    if (editingShiftId) {
+      updateShiftMutation.mutate({ id: editingShiftId, payload: shiftForm });
+    } else {
+      createShiftMutation.mutate(shiftForm);
+    }
+  };
+
+  const onSubmitHoliday = () => {
+    if (!holidayForm.date) {
+      toast({ title: "Holiday date is required", variant: "destructive" });
+      return;
+    }
+    if (!holidayForm.name.trim()) {
+      toast({ title: "Holiday name is required", variant: "destructive" });
+      return;
+    }
+    createHolidayMutation.mutate(holidayForm);
+  };
+
+  return (
+    <div className="p-6 h-full overflow-y-auto space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold">Shift Calendar</h2>
+        <p className="text-sm text-muted-foreground">
+          Shifts and plant holidays used to group dashboard metrics by shift and to leave out non-working time.
+          A shift whose end time is not after its start time runs past midnight and counts toward the day it started.
+        </p>
+      </div>
+
+      {canEdit && (
+      <Card>
+        <CardHeader
+          className="cursor-pointer select-none"
+          onClick={() => {
+            if (!editingShiftId) setNewShiftOpen((open) => !open);
+          }}
+        >
+          <div className="flex items-center justify-between">
+            <CardTitle>{editingShiftId ? "Edit Shift" : "New Shift"}</CardTitle>
+            {!editingShiftId && (newShiftOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />)}
+          </div>
+        </CardHeader>
+        {newShiftOpen && (
+        <CardContent className="space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div>
+              <Label className="mb-1 block">Name *</Label>
+              <Input
+                placeholder="e.g. Day"
+                value={shiftForm.name}
+                onChange={(event) => setShiftForm((prev) => ({ ...prev, name: event.target.value }))}
+              />
+            </div>
+            <div>
+              <Label className="mb-1 block">Start *</Label>
+              <Input
+                type="time"
+                value={shiftForm.startTime}
+                onChange={(event) => setShiftForm((prev) => ({ ...prev, startTime: event.target.value }))}
+              />
+            </div>
+            <div>
+              <Label className="mb-1 block">End *</Label>
+              <Input
+                type="time"
+                value={shiftForm.endTime}
+                onChange={(event) => setShiftForm((prev) => ({ ...prev, endTime: event.target.value }))}
+              />
+            </div>
+            <div>
+              <Label className="mb-1 block">Sort Order</Label>
+              <Input
+                type="number"
+                placeholder="0"
+                value={shiftForm.sortOrder}
+                onChange={(event) => setShiftForm((prev) => ({ ...prev, sortOrder: event.target.value }))}
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label className="mb-1 block">Working Days *</Label>
+            <div className="flex flex-wrap gap-3">
+              {weekdayOrder.map((day) => (
+                <label key={day} className="flex items-center gap-1 text-sm">
+                  <Checkbox
+                    checked={shiftForm.workingDays.includes(day)}
+                    onCheckedChange={(checked) => toggleWorkingDay(day, checked === true)}
+                  />
+                  {weekdayLabels[day]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button
+              onClick={onSubmitShift}
+              disabled={createShiftMutation.isPending || updateShiftMutation.isPending}
+            >
+              {editingShiftId ? "Save Changes" : <><Plus className="h-4 w-4 mr-1" /> Add Shift</>}
+            </Button>
+            {editingShiftId && (
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setEditingShiftId(null);
+                  setShiftForm(emptyShiftForm);
+                }}
+              >
+                Cancel
+              </Button>
+            )}
+          </div>
+        </CardContent>
+        )}
+      </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Shifts</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : shifts.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-8 text-center">
+              <Plus className="h-10 w-10 text-muted-foreground/50 mb-3" />
+              <p className="text-sm text-muted-foreground">
+                No shifts defined. Until one is added, every non-holiday hour counts as working time.
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-muted-foreground">
+                    <th className="text-left p-2">Name</th>
+                    <th className="text-left p-2">Hours</th>
+                    <th className="text-left p-2">Working Days</th>
+                    <th className="text-left p-2">Order</th>
+                    <th className="text-right p-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {shifts.map((shift) => (
+                    <tr key={shift.id} className="border-t">
+                      <td className="p-2 font-medium">{shift.name}</td>
+                      <td className="p-2 font-mono">
+                        {shift.startTime}–{shift.endTime}
+                        {shift.endTime <= shift.startTime && <span className="ml-1 text-xs text-muted-foreground">(overnight)</span>}
+                      </td>
+                      <td className="p-2">{formatWorkingDays(shift.workingDays)}</td>
+                      <td className="p-2">{shift.sortOrder}</td>
+                      <td className="p-2 text-right">
+                        {canEdit && (
+                        <div className="inline-flex gap-1">
+                          <Button size="sm" variant="ghost" onClick={() => startEdit(shift)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setDeletingShift(shift)}
+                            disabled={deleteShiftMutation.isPending}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Plant Holidays</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {canEdit && (
+          <div className="grid grid-cols-1 md:grid-cols-[200px_1fr_auto] gap-3 items-end">
+            <div>
+              <Label className="mb-1 block">Date *</Label>
+              <Input
+                type="date"
+                value={holidayForm.date}
+                onChange={(event) => setHolidayForm((prev) => ({ ...prev, date: event.target.value }))}
+              />
+            </div>
+            <div>
+              <Label className="mb-1 block">Name *</Label>
+              <Input
+                placeholder="e.g. Thanksgiving"
+                value={holidayForm.name}
+                onChange={(event) => setHolidayForm((prev) => ({ ...prev, name: event.target.value }))}
+              />
+            </div>
+            <Button onClick={onSubmitHoliday} disabled={createHolidayMutation.isPending}>
+              <Plus className="h-4 w-4 mr-1" /> Add Holiday
+            </Button>
+          </div>
+          )}
+
+          {holidays.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No holidays listed.</p>
+          ) : (
+            <div className="overflow-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-muted-foreground">
+                    <th className="text-left p-2">Date</th>
+                    <th className="text-left p-2">Name</th>
+                    <th className="text-right p-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {holidays.map((holiday) => (
+                    <tr key={holiday.id} className="border-t">
+                      <td className="p-2 font-mono">{holiday.date}</td>
+                      <td className="p-2">{holiday.name}</td>
+                      <td className="p-2 text-right">
+                        {canEdit && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setDeletingHoliday(holiday)}
+                            disabled={deleteHolidayMutation.isPending}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={deletingShift !== null} onOpenChange={(open) => !open && setDeletingShift(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Shift</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deletingShift?.name}" will no longer be used for shift metrics. Incidents during its hours will count as outside shifts.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (deletingShift) deleteShiftMutation.mutate(deletingShift.id);
+                setDeletingShift(null);
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={deletingHoliday !== null} onOpenChange={(open) => !open && setDeletingHoliday(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove Holiday</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deletingHoliday?.date} ({deletingHoliday?.name}) will be treated as a normal day by its weekday schedule.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (deletingHoliday) deleteHolidayMutation.mutate(deletingHoliday.id);
+                setDeletingHoliday(null);
+              }}
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
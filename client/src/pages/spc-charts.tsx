@@ -0,0 +1,473 @@
+import { useMemo, useState } from "react";
+import { useLocation, useSearch } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ControlChart, type ControlChartPoint } from "@/components/control-chart";
+import { AttributeChartPanel } from "@/components/attribute-chart-panel";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  computeIndividualsChart,
+  computeSpcStats,
+  computeSubgroupChart,
+  defaultSubgroupChart,
+  exportSpcHtml,
+  groupIntoSubgroups,
+  specLimits,
+  type SubgroupChartType,
+} from "@/lib/spc-export";
+import { FileDown } from "lucide-react";
+import type { Characteristic, Machine, Part, SpcMeasurement, SpcRuleViolation } from "@shared/schema";
+import { spcRuleSetLabels } from "@shared/schema";
+import { withUnit } from "@shared/units";
+
+const ALL_MACHINES = "all";
+
+const formatNumber = (value: number | null | undefined, digits = 3) =>
+  value === null || value === undefined || !Number.isFinite(value) ? "—" : value.toFixed(digits);
+
+// Usual capability targets: 1.33 capable, 1.0 marginal
+const capabilityClass = (value: number | null) => {
+  if (value === null) return "text-muted-foreground";
+  if (value >= 1.33) return "text-machine-running";
+  if (value >= 1.0) return "text-machine-idle";
+  return "text-machine-down";
+};
+
+export default function SpcChartsPage() {
+  const search = useSearch();
+  const [, setLocation] = useLocation();
+  const characteristicId = new URLSearchParams(search).get("characteristicId") || "";
+  const [machineFilter, setMachineFilter] = useState(ALL_MACHINES);
+  const [subgroupChartType, setSubgroupChartType] = useState<SubgroupChartType | null>(null);
+
+  const { data: characteristics = [], isLoading: characteristicsLoading } = useQuery<Characteristic[]>({
+    queryKey: ["/api/characteristics"],
+    queryFn: () => apiRequest("GET", "/api/characteristics"),
+  });
+
+  const { data: parts = [] } = useQuery<Part[]>({
+    queryKey: ["/api/parts"],
+    queryFn: () => apiRequest("GET", "/api/parts"),
+  });
+
+  // Archived machines still label the measurements they took
+  const { data: machines = [] } = useQuery<Machine[]>({
+    queryKey: ["/api/machines", { includeArchived: true }],
+    queryFn: () => apiRequest("GET", "/api/machines?includeArchived=true"),
+  });
+
+  const { data: measurements = [], isLoading: measurementsLoading } = useQuery<SpcMeasurement[]>({
+    queryKey: ["/api/characteristics", characteristicId, "measurements"],
+    queryFn: () => apiRequest("GET", `/api/characteristics/${characteristicId}/measurements`),
+    enabled: Boolean(characteristicId),
+  });
+
+  const { data: violations = [] } = useQuery<SpcRuleViolation[]>({
+    queryKey: ["/api/characteristics", characteristicId, "violations"],
+    queryFn: () => apiRequest("GET", `/api/characteristics/${characteristicId}/violations`),
+    enabled: Boolean(characteristicId),
+  });
+
+  const partById = useMemo(() => new Map(parts.map((part) => [part.id, part])), [parts]);
+  const machineById = useMemo(() => new Map(machines.map((machine) => [machine.id, machine])), [machines]);
+  const characteristic = characteristics.find((char) => char.id === characteristicId);
+  const part = characteristic?.partId ? partById.get(characteristic.partId) : undefined;
+  const subgroupSize = characteristic?.subgroupSize ?? 1;
+  const chartType = subgroupChartType ?? defaultSubgroupChart(subgroupSize);
+
+  const machineLabel = (machineId: string) => {
+    const machine = machineById.get(machineId);
+    return machine ? (machine.machineId ? `${machine.name} (${machine.machineId})` : machine.name) : machineId;
+  };
+
+  const measuredMachineIds = useMemo(
+    () => Array.from(new Set(measurements.map((measurement) => measurement.machineId))),
+    [measurements],
+  );
+
+  const filteredMeasurements = useMemo(
+    () => measurements
+      .filter((measurement) => machineFilter === ALL_MACHINES || measurement.machineId === machineFilter)
+      .sort((left, right) => new Date(left.createdAt).getTime() - new Date(right.createdAt).getTime()),
+    [measurements, machineFilter],
+  );
+
+  const violationsByMeasurement = useMemo(() => {
+    const map = new Map<string, SpcRuleViolation[]>();
+    violations.forEach((violation) => {
+      map.set(violation.measurementId, [...(map.get(violation.measurementId) ?? []), violation]);
+    });
+    return map;
+  }, [violations]);
+
+  // Newest first, limited to the machines currently charted
+  const violationRows = useMemo(
+    () => filteredMeasurements
+      .filter((measurement) => violationsByMeasurement.has(measurement.id))
+      .reverse()
+      .map((measurement) => ({ measurement, violations: violationsByMeasurement.get(measurement.id)! })),
+    [filteredMeasurements, violationsByMeasurement],
+  );
+
+  const analysis = useMemo(() => {
+    const numeric = filteredMeasurements
+      .filter((measurement): measurement is SpcMeasurement & { measuredValue: number } => measurement.measuredValue !== null)
+      .map((measurement) => ({ measurement, value: measurement.measuredValue }));
+    const values = numeric.map((entry) => entry.value);
+    const { usl, lsl } = specLimits(characteristic?.charMax, characteristic?.charMin);
+    const grouping = subgroupSize > 1
+      ? groupIntoSubgroups(
+        numeric.map(({ measurement, value }) => ({ value, createdAt: measurement.createdAt, subgroupId: measurement.subgroupId })),
+        subgroupSize,
+      )
+      : null;
+    const subgroupChart = grouping ? computeSubgroupChart(grouping.subgroups, chartType) : null;
+    const stats = computeSpcStats(values, usl, lsl, subgroupChart?.sigmaWithin);
+    const chart = computeIndividualsChart(values);
+
+    const labelFor = (index: number) =>
+      `${index + 1} · ${new Date(numeric[index].measurement.createdAt).toLocaleDateString(undefined, { month: "short", day: "numeric" })}`;
+
+    const individuals: ControlChartPoint[] = chart
+      ? values.map((value, index) => ({
+        label: labelFor(index),
+        value,
+        flagged: violationsByMeasurement.has(numeric[index].measurement.id)
+          || (chart.ucl > chart.lcl && (value > chart.ucl || value < chart.lcl))
+          || (usl !== null && value > usl)
+          || (lsl !== null && value < lsl),
+      }))
+      : [];
+    const movingRanges: ControlChartPoint[] = chart
+      ? chart.movingRanges.map((range, index) => ({
+        label: labelFor(index),
+        value: range,
+        flagged: range !== null && range > chart.mrUcl,
+      }))
+      : [];
+
+    const subgroupLabel = (index: number) =>
+      `${index + 1} · ${new Date(grouping!.subgroups[index].createdAt).toLocaleDateString(undefined, { month: "short", day: "numeric" })}`;
+    const subgroupMeans: ControlChartPoint[] = subgroupChart
+      ? subgroupChart.means.map((value, index) => ({
+        label: subgroupLabel(index),
+        value,
+        flagged: value > subgroupChart.xbarUcl || value < subgroupChart.xbarLcl,
+      }))
+      : [];
+    const subgroupSpreads: ControlChartPoint[] = subgroupChart
+      ? subgroupChart.spreads.map((value, index) => ({
+        label: subgroupLabel(index),
+        value,
+        flagged: value > subgroupChart.spreadUcl || value < subgroupChart.spreadLcl,
+      }))
+      : [];
+
+    return {
+      usl,
+      lsl,
+      stats,
+      chart,
+      subgroupChart,
+      individuals,
+      movingRanges,
+      subgroupMeans,
+      subgroupSpreads,
+      excludedFromSubgroups: grouping?.excluded ?? 0,
+      skipped: filteredMeasurements.length - numeric.length,
+    };
+  }, [characteristic, chartType, filteredMeasurements, subgroupSize, violationsByMeasurement]);
+
+  const selectCharacteristic = (id: string) => {
+    setMachineFilter(ALL_MACHINES);
+    setSubgroupChartType(null);
+    setLocation(`/spc-charts?characteristicId=${id}`);
+  };
+
+  const handleExportHtml = () => {
+    if (!characteristic) return;
+    exportSpcHtml({
+      charNumber: characteristic.charNumber,
+      charName: characteristic.charName || "",
+      partNumber: part?.partNumber || "",
+      partName: part?.partName || "",
+      opName: characteristic.opName || "",
+      records: filteredMeasurements.map((measurement) => ({
+        machineId: measurement.machineId,
+        machineName: machineLabel(measurement.machineId),
+        measuredValue: measurement.measuredValue,
+        charMax: characteristic.charMax,
+        charMin: characteristic.charMin,
+        createdAt: measurement.createdAt,
+        recordNote: measurement.recordNote || undefined,
+        subgroupId: measurement.subgroupId || undefined,
+      })),
+      subgroupSize,
+      subgroupChart: chartType,
+      unit: characteristic.unit,
+    });
+  };
+
+  const { stats, chart, subgroupChart } = analysis;
+  const spreadLabel = chartType === "xbar-s" ? "S" : "R";
+  const withinLabel = subgroupChart ? (chartType === "xbar-s" ? "S̄/c4" : "R̄/d2") : "MR̄/d2";
+  const unit = characteristic?.unit ?? null;
+  const statTiles: Array<{ label: string; value: string; className?: string }> = stats && chart
+    ? [
+      { label: "n", value: String(stats.n) },
+      { label: "Mean (X̄)", value: withUnit(formatNumber(stats.mean), unit) },
+      { label: `σ Within (${withinLabel})`, value: withUnit(formatNumber(stats.sigmaWithin, 4), unit) },
+      { label: "σ Overall", value: withUnit(formatNumber(stats.stdDev, 4), unit) },
+      { label: "Cp", value: formatNumber(stats.cp, 2), className: capabilityClass(stats.cp) },
+      { label: "Cpk", value: formatNumber(stats.cpk, 2), className: capabilityClass(stats.cpk) },
+      { label: "Pp", value: formatNumber(stats.pp, 2), className: capabilityClass(stats.pp) },
+      { label: "Ppk", value: formatNumber(stats.ppk, 2), className: capabilityClass(stats.ppk) },
+    ]
+    : [];
+
+  return (
+    <div className="p-6 h-full overflow-y-auto space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold">SPC Charts</h2>
+          <p className="text-sm text-muted-foreground">
+            Control charts and process capability for a characteristic's measurements: individuals/moving range for a
+            subgroup size of 1, X-bar/R or X-bar/S for larger subgroups, and p, np, c or u charts for attribute checks.
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={handleExportHtml}
+          disabled={!characteristic || characteristic.isAttributeCheck || analysis.individuals.length === 0}
+        >
+          <FileDown className="h-4 w-4 mr-1" /> Export HTML
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div>
+            <Label className="mb-1 block">Characteristic</Label>
+            <Select value={characteristicId} onValueChange={selectCharacteristic} disabled={characteristicsLoading}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select characteristic" />
+              </SelectTrigger>
+              <SelectContent>
+                {characteristics.map((char) => {
+                  const charPart = char.partId ? partById.get(char.partId) : undefined;
+                  return (
+                    <SelectItem key={char.id} value={char.id}>
+                      {charPart ? `${charPart.partNumber} — ` : ""}#{char.charNumber}{char.charName ? ` ${char.charName}` : ""}
+                    </SelectItem>
+                  );
+                })}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="mb-1 block">Machine</Label>
+            <Select value={machineFilter} onValueChange={setMachineFilter} disabled={!characteristicId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_MACHINES}>All machines</SelectItem>
+                {measuredMachineIds.map((machineId) => (
+                  <SelectItem key={machineId} value={machineId}>{machineLabel(machineId)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {!characteristicId ? (
+        <p className="text-sm text-muted-foreground">Select a characteristic to chart its measurements.</p>
+      ) : measurementsLoading ? (
+        <Skeleton className="h-64 w-full" />
+      ) : characteristic?.isAttributeCheck ? (
+        <AttributeChartPanel
+          key={characteristic.id}
+          characteristic={characteristic}
+          measurements={filteredMeasurements}
+          machines={machines.filter((machine) => !machine.isArchived)}
+          defaultMachineId={machineFilter === ALL_MACHINES ? undefined : machineFilter}
+        />
+      ) : !stats || !chart ? (
+        <p className="text-sm text-muted-foreground">No numeric measurements recorded for this selection.</p>
+      ) : (
+        <>
+          <div className="grid gap-3 grid-cols-2 md:grid-cols-4 xl:grid-cols-8">
+            {statTiles.map((tile) => (
+              <div key={tile.label} className="rounded border p-3">
+                <div className="text-xs text-muted-foreground">{tile.label}</div>
+                <div className={`text-lg font-semibold font-mono ${tile.className ?? ""}`}>{tile.value}</div>
+              </div>
+            ))}
+          </div>
+
+          {subgroupSize > 1 ? (
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <p className="text-sm text-muted-foreground">
+                  {analysis.subgroupMeans.length} subgroups of {subgroupSize}
+                  {analysis.excludedFromSubgroups > 0 && ` · ${analysis.excludedFromSubgroups} measurement${analysis.excludedFromSubgroups === 1 ? "" : "s"} in incomplete subgroups left out of the limits`}
+                </p>
+                <div className="inline-flex rounded-md border p-1">
+                  {([
+                    ["xbar-r", "X̄-R"],
+                    ["xbar-s", "X̄-S"],
+                  ] as const).map(([value, label]) => (
+                    <Button
+                      key={value}
+                      size="sm"
+                      variant={chartType === value ? "default" : "ghost"}
+                      onClick={() => setSubgroupChartType(value)}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              {!subgroupChart ? (
+                <p className="text-sm text-muted-foreground">Not enough complete subgroups to compute control limits.</p>
+              ) : (
+                <>
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-sm font-medium">Subgroup Means (X̄)</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <ControlChart
+                        points={analysis.subgroupMeans}
+                        seriesLabel="Subgroup mean"
+                        limits={[
+                          { label: "UCL", value: subgroupChart.xbarUcl, kind: "control" },
+                          { label: "X̿", value: subgroupChart.grandMean, kind: "center" },
+                          { label: "LCL", value: subgroupChart.xbarLcl, kind: "control" },
+                        ]}
+                      />
+                    </CardContent>
+                  </Card>
+
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-sm font-medium">
+                        {chartType === "xbar-s" ? "Subgroup Standard Deviations (S)" : "Subgroup Ranges (R)"}
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <ControlChart
+                        points={analysis.subgroupSpreads}
+                        seriesLabel={chartType === "xbar-s" ? "Std dev" : "Range"}
+                        height={200}
+                        limits={[
+                          { label: "UCL", value: subgroupChart.spreadUcl, kind: "control" },
+                          { label: `${spreadLabel}̄`, value: subgroupChart.spreadBar, kind: "center" },
+                          { label: "LCL", value: subgroupChart.spreadLcl > 0 ? subgroupChart.spreadLcl : null, kind: "control" },
+                        ]}
+                      />
+                    </CardContent>
+                  </Card>
+                </>
+              )}
+            </>
+          ) : (
+            <>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium">Individuals (I)</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ControlChart
+                    points={analysis.individuals}
+                    seriesLabel={unit ? `Measured (${unit})` : "Measured"}
+                    limits={[
+                      { label: "UCL", value: chart.ucl, kind: "control" },
+                      { label: "X̄", value: chart.center, kind: "center" },
+                      { label: "LCL", value: chart.lcl, kind: "control" },
+                      { label: "USL", value: analysis.usl, kind: "spec" },
+                      { label: "LSL", value: analysis.lsl, kind: "spec" },
+                    ]}
+                  />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium">Moving Range (MR)</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ControlChart
+                    points={analysis.movingRanges}
+                    seriesLabel="Moving range"
+                    height={200}
+                    limits={[
+                      { label: "UCL", value: chart.mrUcl, kind: "control" },
+                      { label: "MR̄", value: chart.mrBar, kind: "center" },
+                    ]}
+                  />
+                </CardContent>
+              </Card>
+            </>
+          )}
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">
+                Rule Violations{characteristic ? ` · ${spcRuleSetLabels[characteristic.ruleSet]}` : ""}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {violationRows.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No run rule violations for this selection.</p>
+              ) : (
+                <div className="overflow-auto max-h-72">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-xs text-muted-foreground">
+                        <th className="text-left p-2">Recorded</th>
+                        <th className="text-left p-2">Machine</th>
+                        <th className="text-right p-2">Value</th>
+                        <th className="text-left p-2">Rules</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {violationRows.map(({ measurement, violations: tripped }) => (
+                        <tr key={measurement.id} className="border-t align-top">
+                          <td className="p-2 whitespace-nowrap">{new Date(measurement.createdAt).toLocaleString()}</td>
+                          <td className="p-2">{machineLabel(measurement.machineId)}</td>
+                          <td className="p-2 text-right font-mono">{withUnit(measurement.measuredValue, unit) || "—"}</td>
+                          <td className="p-2">
+                            {tripped.map((violation) => (
+                              <div key={violation.id}>
+                                <span className="font-medium text-machine-down">Rule {violation.rule}</span>
+                                <span className="text-muted-foreground"> — {violation.description}</span>
+                              </div>
+                            ))}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <p className="text-xs text-muted-foreground">
+            {subgroupSize > 1
+              ? `Limits use the ${chartType === "xbar-s" ? "A3, B3, B4 and c4" : "A2, D3, D4 and d2"} constants for n = ${subgroupSize}. Measurements sharing a subgroup id form one subgroup; the rest are grouped in runs of ${subgroupSize} by sample time.`
+              : "Control limits are X̄ ± 3·MR̄/d2 (d2 = 1.128) and MR UCL = 3.267·MR̄."}
+            {" "}Cp/Cpk use the within sigma and Pp/Ppk the overall sigma. Red points are outside the control or specification limits, or tripped a run rule when they were recorded (rules are judged per machine on individual values).
+            {analysis.skipped > 0 && ` ${analysis.skipped} non-numeric measurement${analysis.skipped === 1 ? " was" : "s were"} left out.`}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
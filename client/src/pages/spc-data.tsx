@@ -6,6 +6,7 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -18,19 +19,42 @@ import {
 } from "@/components/ui/alert-dialog";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { ChevronDown, ChevronUp, Calculator } from "lucide-react";
-import type { Machine, ScrapIncident, Characteristic, Part } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { ChevronDown, ChevronUp, Calculator, AlarmClock } from "lucide-react";
+import type { Machine, ScrapIncident, Characteristic, Part, RootCauseCategory, ScrapCostBreakdown, ScrapIncidentStatus } from "@shared/schema";
+import {
+  localDateKey,
+  missingStageFields,
+  rootCauseCategories,
+  rootCauseCategoryLabels,
+  scrapActionOverdue,
+  scrapCharacteristicLabel,
+  scrapIncidentStatusLabels,
+  scrapIncidentStatuses,
+  scrapWorkflowFieldLabels,
+} from "@shared/schema";
 
 type IncidentForm = {
   machineId: string;
   partId: string | null;
+  characteristicId: string;
   characteristic: string;
   quantity: string;
   estimatedCost: string;
+  costCalculated: boolean;
   note: string;
-  status: "open" | "closed";
+  status: ScrapIncidentStatus;
   dateCreated: string;
   dateClosed: string;
+  containmentAction: string;
+  rootCauseCategory: RootCauseCategory | "";
+  rootCause: string;
+  correctiveAction: string;
+  actionOwner: string;
+  actionDueDate: string;
+  verifiedBy: string;
+  verifiedAt: string;
+  verificationNote: string;
 };
 
 type DateRangeFilter = "week" | "month" | "year";
@@ -40,23 +64,75 @@ const todayIso = () => new Date().toISOString().slice(0, 10);
 const emptyForm: IncidentForm = {
   machineId: "",
   partId: null,
+  characteristicId: "",
   characteristic: "",
   quantity: "1",
   estimatedCost: "",
+  costCalculated: false,
   note: "",
   status: "open",
   dateCreated: todayIso(),
   dateClosed: "",
+  containmentAction: "",
+  rootCauseCategory: "",
+  rootCause: "",
+  correctiveAction: "",
+  actionOwner: "",
+  actionDueDate: "",
+  verifiedBy: "",
+  verifiedAt: "",
+  verificationNote: "",
+};
+
+const NO_ROOT_CAUSE = "none";
+
+const toPayload = (payload: IncidentForm) => ({
+  machineId: payload.machineId,
+  partId: payload.partId,
+  characteristicId: payload.characteristicId || null,
+  characteristic: payload.characteristic.trim(),
+  quantity: Number(payload.quantity),
+  estimatedCost: payload.estimatedCost.trim() ? Number(payload.estimatedCost) : undefined,
+  costCalculated: payload.costCalculated,
+  note: payload.note.trim() || null,
+  status: payload.status,
+  dateCreated: payload.dateCreated || null,
+  dateClosed: payload.dateClosed || null,
+  containmentAction: payload.containmentAction.trim() || null,
+  rootCauseCategory: payload.rootCauseCategory || null,
+  rootCause: payload.rootCause.trim() || null,
+  correctiveAction: payload.correctiveAction.trim() || null,
+  actionOwner: payload.actionOwner.trim() || null,
+  actionDueDate: payload.actionDueDate || null,
+  verifiedBy: payload.verifiedBy.trim() || null,
+  verifiedAt: payload.verifiedAt || null,
+  verificationNote: payload.verificationNote.trim() || null,
+});
+
+// The server answers 400 with a readable message when a stage's fields are missing
+const serverMessage = (error: unknown) => {
+  if (!(error instanceof Error) || !error.message.startsWith("400")) return undefined;
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(":") + 1)).message as string | undefined;
+  } catch {
+    return undefined;
+  }
 };
 
 export default function SpcData() {
   const { toast } = useToast();
+  const { can } = useAuth();
+  // Operators report incidents; the workflow and costs after that are for quality engineers
+  const canReport = can("operator");
+  const canEdit = can("quality_engineer");
   const [search, setSearch] = useState("");
   const [filterMachineId, setFilterMachineId] = useState<string | null>(null);
   const [filterCellName, setFilterCellName] = useState<string | null>(null);
   const [filterCharacteristic, setFilterCharacteristic] = useState<string | null>(null);
+  const [filterCharacteristicId, setFilterCharacteristicId] = useState<string | null>(null);
   const [filterPartNumber, setFilterPartNumber] = useState<string | null>(null);
   const [filterRange, setFilterRange] = useState<DateRangeFilter | null>(null);
+  const [filterOverdue, setFilterOverdue] = useState(false);
   const [selectedIncidentId, setSelectedIncidentId] = useState<string | null>(null);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [form, setForm] = useState<IncidentForm>(emptyForm);
@@ -66,9 +142,10 @@ export default function SpcData() {
   const [deletingIncidentId, setDeletingIncidentId] = useState<string | null>(null);
   const [pendingOpenIncidentId, setPendingOpenIncidentId] = useState<string | null>(null);
 
+  // Archived machines, parts and characteristics still label past incidents but are not offered for new ones
   const { data: machines = [] } = useQuery<Machine[]>({
-    queryKey: ["/api/machines"],
-    queryFn: async () => apiRequest("GET", "/api/machines"),
+    queryKey: ["/api/machines", { includeArchived: true }],
+    queryFn: async () => apiRequest("GET", "/api/machines?includeArchived=true"),
   });
 
   const { data: incidents = [], isLoading: incidentsLoading } = useQuery<ScrapIncident[]>({
@@ -77,13 +154,13 @@ export default function SpcData() {
   });
 
   const { data: characteristics = [] } = useQuery<Characteristic[]>({
-    queryKey: ["/api/characteristics"],
-    queryFn: async () => apiRequest("GET", "/api/characteristics"),
+    queryKey: ["/api/characteristics", { includeArchived: true }],
+    queryFn: async () => apiRequest("GET", "/api/characteristics?includeArchived=true"),
   });
 
   const { data: parts = [] } = useQuery<Part[]>({
-    queryKey: ["/api/parts"],
-    queryFn: async () => apiRequest("GET", "/api/parts"),
+    queryKey: ["/api/parts", { includeArchived: true }],
+    queryFn: async () => apiRequest("GET", "/api/parts?includeArchived=true"),
   });
 
   useEffect(() => {
@@ -93,10 +170,12 @@ export default function SpcData() {
       const cell = u.searchParams.get("cell");
       const char = u.searchParams.get("char");
       const characteristic = u.searchParams.get("characteristic");
+      const characteristicId = u.searchParams.get("characteristicId");
       const partNumber = u.searchParams.get("partNumber");
       const searchText = u.searchParams.get("search");
       const incidentId = u.searchParams.get("incidentId");
       const range = u.searchParams.get("range");
+      const overdue = u.searchParams.get("overdue");
       if (machineId) {
         setForm((prev) => ({ ...prev, machineId }));
         setFilterMachineId(machineId);
@@ -104,7 +183,9 @@ export default function SpcData() {
       if (cell) {
         setFilterCellName(cell);
       }
-      if (characteristic) {
+      if (characteristicId) {
+        setFilterCharacteristicId(characteristicId);
+      } else if (characteristic) {
         setFilterCharacteristic(characteristic);
       } else if (char) {
         setFilterCharacteristic(char);
@@ -124,6 +205,9 @@ export default function SpcData() {
       if (range === "week" || range === "month" || range === "year") {
         setFilterRange(range);
       }
+      if (overdue === "1") {
+        setFilterOverdue(true);
+      }
     } catch {
       // ignore URL parsing errors
     }
@@ -155,10 +239,19 @@ export default function SpcData() {
     return map;
   }, [parts]);
 
+  const today = localDateKey();
+  const overdueCount = incidents.filter((incident) => scrapActionOverdue(incident, today)).length;
+
+  const characteristicById = useMemo(() => {
+    const map = new Map<string, Characteristic>();
+    characteristics.forEach((char) => map.set(char.id, char));
+    return map;
+  }, [characteristics]);
+
   const filteredCharacteristics = useMemo(() => {
     if (!form.partId) return [];
-    return characteristics.filter((char) => char.partId === form.partId);
-  }, [characteristics, form.partId]);
+    return characteristics.filter((char) => char.partId === form.partId && (!char.isArchived || char.id === form.characteristicId));
+  }, [characteristics, form.partId, form.characteristicId]);
 
   const rows = useMemo(() => {
     const getRangeStartDate = (range: DateRangeFilter) => {
@@ -183,6 +276,7 @@ export default function SpcData() {
           const machineCell = machineById.get(incident.machineId)?.cell || "Unassigned";
           if (machineCell !== filterCellName) return false;
         }
+        if (filterCharacteristicId && incident.characteristicId !== filterCharacteristicId) return false;
         if (filterCharacteristic) {
           if ((incident.characteristic || "") !== filterCharacteristic) return false;
         }
@@ -190,6 +284,7 @@ export default function SpcData() {
           const incidentPartNumber = incident.partId ? (partById.get(incident.partId)?.partNumber || "") : "";
           if (incidentPartNumber !== filterPartNumber) return false;
         }
+        if (filterOverdue && !scrapActionOverdue(incident, today)) return false;
         if (filterRange) {
           const createdRaw = incident.dateCreated || incident.createdAt;
           if (!createdRaw) return false;
@@ -201,7 +296,7 @@ export default function SpcData() {
         const machineLabel = machineById.get(incident.machineId)?.machineId || machineById.get(incident.machineId)?.name || "";
         const needle = search.toLowerCase();
         const partNumber = incident.partId ? partById.get(incident.partId)?.partNumber || "" : "";
-        return [partNumber, incident.characteristic, machineLabel, incident.status]
+        return [partNumber, incident.characteristic, machineLabel, scrapIncidentStatusLabels[incident.status] ?? incident.status, incident.actionOwner ?? ""]
           .join(" ")
           .toLowerCase()
           .includes(needle);
@@ -210,66 +305,54 @@ export default function SpcData() {
         const createdDate = (incident: typeof left) => incident.dateCreated || incident.createdAt || "";
         return createdDate(right).localeCompare(createdDate(left));
       });
-  }, [incidents, machineById, partById, search, filterMachineId, filterCellName, filterCharacteristic, filterPartNumber, filterRange]);
+  }, [incidents, machineById, partById, search, filterMachineId, filterCellName, filterCharacteristic, filterCharacteristicId, filterPartNumber, filterRange, filterOverdue, today]);
 
-  const characteristicLabel = (char: Characteristic) =>
-    char.charName ? `${char.charNumber} – ${char.charName}` : char.charNumber;
+  const characteristicFilterLabel = filterCharacteristicId
+    ? (characteristicById.get(filterCharacteristicId) ? scrapCharacteristicLabel(characteristicById.get(filterCharacteristicId)!) : filterCharacteristicId)
+    : filterCharacteristic;
 
-  const characteristicByLabel = useMemo(() => {
-    const map = new Map<string, Characteristic>();
-    characteristics.forEach((char) => {
-      map.set(characteristicLabel(char), char);
-    });
-    return map;
-  }, [characteristics]);
+  const costQuantity = Number(form.quantity);
+  const costQueryEnabled = !!form.partId && !!form.machineId && Number.isInteger(costQuantity) && costQuantity > 0;
+  const { data: costBreakdown } = useQuery<ScrapCostBreakdown>({
+    queryKey: ["/api/scrap-cost", form.partId, form.machineId, costQuantity],
+    queryFn: async () =>
+      apiRequest("GET", `/api/scrap-cost?${new URLSearchParams({ partId: form.partId!, machineId: form.machineId, quantity: String(costQuantity) })}`),
+    enabled: formOpen && costQueryEnabled,
+  });
+  const costEnforced = costBreakdown?.enforced ?? false;
 
-  const selectedPart = form.partId ? partById.get(form.partId) : undefined;
+  // A calculated cost follows the part, machine and quantity; a typed one stays as typed
+  useEffect(() => {
+    if (!formOpen || !costBreakdown || costBreakdown.totalCost === null) return;
+    if (!form.costCalculated && !costBreakdown.enforced) return;
+    const totalCost = String(costBreakdown.totalCost);
+    setForm((prev) => (prev.estimatedCost === totalCost && prev.costCalculated ? prev : { ...prev, estimatedCost: totalCost, costCalculated: true }));
+  }, [formOpen, costBreakdown, form.costCalculated]);
 
   const createMutation = useMutation({
-    mutationFn: (payload: IncidentForm) =>
-      apiRequest("POST", "/api/scrap-incidents", {
-        machineId: payload.machineId,
-        partId: payload.partId,
-        characteristic: payload.characteristic.trim(),
-        quantity: Number(payload.quantity),
-        estimatedCost: Number(payload.estimatedCost),
-        note: payload.note.trim() || null,
-        status: payload.status,
-        dateCreated: payload.dateCreated || null,
-        dateClosed: payload.dateClosed || null,
-      }),
+    mutationFn: (payload: IncidentForm) => apiRequest("POST", "/api/scrap-incidents", toPayload(payload)),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/scrap-incidents"] });
       setForm(emptyForm);
       setSelectedIncidentId(null);
       toast({ title: "Scrap incident created" });
     },
-    onError: () => {
-      toast({ title: "Failed to create scrap incident", variant: "destructive" });
+    onError: (error) => {
+      toast({ title: "Failed to create scrap incident", description: serverMessage(error), variant: "destructive" });
     },
   });
 
   const updateMutation = useMutation({
     mutationFn: ({ id, payload }: { id: string; payload: IncidentForm }) =>
-      apiRequest("PATCH", `/api/scrap-incidents/${id}`, {
-        machineId: payload.machineId,
-        partId: payload.partId,
-        characteristic: payload.characteristic.trim(),
-        quantity: Number(payload.quantity),
-        estimatedCost: Number(payload.estimatedCost),
-        note: payload.note.trim() || null,
-        status: payload.status,
-        dateCreated: payload.dateCreated || null,
-        dateClosed: payload.dateClosed || null,
-      }),
+      apiRequest("PATCH", `/api/scrap-incidents/${id}`, toPayload(payload)),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/scrap-incidents"] });
       setSelectedIncidentId(editingId);
       setEditingId(null);
       toast({ title: "Scrap incident updated" });
     },
-    onError: () => {
-      toast({ title: "Failed to update scrap incident", variant: "destructive" });
+    onError: (error) => {
+      toast({ title: "Failed to update scrap incident", description: serverMessage(error), variant: "destructive" });
     },
   });
 
@@ -285,7 +368,7 @@ export default function SpcData() {
   });
 
   const onSubmit = async () => {
-    if (!form.machineId || !form.partId || !form.characteristic.trim() || !form.quantity.trim() || !form.estimatedCost.trim()) {
+    if (!form.machineId || !form.partId || !form.characteristic.trim() || !form.quantity.trim() || (!form.estimatedCost.trim() && !costEnforced)) {
       toast({
         title: "Missing required fields",
         description: "Machine, part number, characteristic, quantity, and estimated cost are required.",
@@ -312,6 +395,19 @@ export default function SpcData() {
       return;
     }
 
+    const previousStatus = editingId ? incidents.find((incident) => incident.id === editingId)?.status : undefined;
+    if (form.status !== previousStatus) {
+      const missing = missingStageFields(form, form.status);
+      if (missing.length > 0) {
+        toast({
+          title: `Cannot move to ${scrapIncidentStatusLabels[form.status]}`,
+          description: `Fill in the ${missing.map((field) => scrapWorkflowFieldLabels[field]).join(", ")} first.`,
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
     if (editingId) {
       await updateMutation.mutateAsync({ id: editingId, payload: form });
       return;
@@ -324,13 +420,24 @@ export default function SpcData() {
     setForm({
       machineId: incident.machineId,
       partId: incident.partId,
+      characteristicId: incident.characteristicId || "",
       characteristic: incident.characteristic,
       quantity: String(incident.quantity),
       estimatedCost: String(incident.estimatedCost),
+      costCalculated: incident.costCalculated,
       note: incident.note || "",
       status: incident.status,
       dateCreated: incident.dateCreated || "",
       dateClosed: incident.dateClosed || "",
+      containmentAction: incident.containmentAction || "",
+      rootCauseCategory: incident.rootCauseCategory || "",
+      rootCause: incident.rootCause || "",
+      correctiveAction: incident.correctiveAction || "",
+      actionOwner: incident.actionOwner || "",
+      actionDueDate: incident.actionDueDate || "",
+      verifiedBy: incident.verifiedBy || "",
+      verifiedAt: incident.verifiedAt || "",
+      verificationNote: incident.verificationNote || "",
     });
   };
 
@@ -366,8 +473,10 @@ export default function SpcData() {
     setFilterMachineId(null);
     setFilterCellName(null);
     setFilterCharacteristic(null);
+    setFilterCharacteristicId(null);
     setFilterPartNumber(null);
     setFilterRange(null);
+    setFilterOverdue(false);
     try {
       window.history.replaceState({}, "", "/spc-data");
     } catch {
@@ -380,7 +489,7 @@ export default function SpcData() {
       <div>
         <h2 className="text-lg font-semibold">Scrap Incidents</h2>
         <p className="text-sm text-muted-foreground">Track incidents by machine, characteristic, quantity, and estimated cost.</p>
-        {(filterMachineId || filterCellName || filterCharacteristic || filterPartNumber || filterRange) && (
+        {(filterMachineId || filterCellName || characteristicFilterLabel || filterPartNumber || filterRange || filterOverdue) && (
           <div className="text-sm text-muted-foreground mt-1">
             {filterMachineId && (
               <span>
@@ -389,16 +498,18 @@ export default function SpcData() {
             )}
             {filterMachineId && filterCellName && <span className="mx-2">|</span>}
             {filterCellName && <span>Filtering by cell: {filterCellName}</span>}
-            {(filterMachineId || filterCellName) && filterCharacteristic && <span className="mx-2">|</span>}
-            {filterCharacteristic && <span>Filtering by characteristic: {filterCharacteristic}</span>}
-            {(filterMachineId || filterCellName || filterCharacteristic) && filterPartNumber && <span className="mx-2">|</span>}
+            {(filterMachineId || filterCellName) && characteristicFilterLabel && <span className="mx-2">|</span>}
+            {characteristicFilterLabel && <span>Filtering by characteristic: {characteristicFilterLabel}</span>}
+            {(filterMachineId || filterCellName || characteristicFilterLabel) && filterPartNumber && <span className="mx-2">|</span>}
             {filterPartNumber && <span>Filtering by part number: {filterPartNumber}</span>}
-            {(filterMachineId || filterCellName || filterCharacteristic || filterPartNumber) && filterRange && <span className="mx-2">|</span>}
+            {(filterMachineId || filterCellName || characteristicFilterLabel || filterPartNumber) && filterRange && <span className="mx-2">|</span>}
             {filterRange && (
               <span>
                 Filtering by range: This {filterRange === "week" ? "Week" : filterRange === "month" ? "Month" : "Year"}
               </span>
             )}
+            {(filterMachineId || filterCellName || characteristicFilterLabel || filterPartNumber || filterRange) && filterOverdue && <span className="mx-2">|</span>}
+            {filterOverdue && <span>Showing overdue actions only</span>}
             <Button
               variant="ghost"
               size="sm"
@@ -410,6 +521,7 @@ export default function SpcData() {
         )}
       </div>
 
+      {(canReport || selectedIncidentId) && (
       <Card>
         <CardHeader
           className="cursor-pointer select-none"
@@ -449,7 +561,7 @@ export default function SpcData() {
                 </div>
                 <div>
                   <div className="text-xs text-muted-foreground">Status</div>
-                  <div className="text-sm font-medium capitalize">{form.status}</div>
+                  <div className="text-sm font-medium">{scrapIncidentStatusLabels[form.status] ?? form.status}</div>
                 </div>
                 <div>
                   <div className="text-xs text-muted-foreground">Date Created</div>
@@ -464,17 +576,58 @@ export default function SpcData() {
                 <div className="text-xs text-muted-foreground mb-1">Note</div>
                 <div className="text-sm whitespace-pre-wrap">{form.note || "-"}</div>
               </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3 border-t pt-3">
+                <div className="md:col-span-3">
+                  <div className="text-xs text-muted-foreground">Containment Action</div>
+                  <div className="text-sm whitespace-pre-wrap">{form.containmentAction || "-"}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground">Root Cause Category</div>
+                  <div className="text-sm font-medium">{form.rootCauseCategory ? rootCauseCategoryLabels[form.rootCauseCategory] : "-"}</div>
+                </div>
+                <div className="md:col-span-2">
+                  <div className="text-xs text-muted-foreground">Root Cause</div>
+                  <div className="text-sm whitespace-pre-wrap">{form.rootCause || "-"}</div>
+                </div>
+                <div className="md:col-span-3">
+                  <div className="text-xs text-muted-foreground">Corrective Action</div>
+                  <div className="text-sm whitespace-pre-wrap">{form.correctiveAction || "-"}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground">Action Owner</div>
+                  <div className="text-sm font-medium">{form.actionOwner || "-"}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground">Action Due</div>
+                  <div className="text-sm font-medium flex items-center gap-2">
+                    {form.actionDueDate || "-"}
+                    {scrapActionOverdue(form, today) && <Badge variant="destructive">Overdue</Badge>}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground">Verified</div>
+                  <div className="text-sm font-medium">
+                    {form.verifiedBy || form.verifiedAt ? `${form.verifiedBy || "-"} on ${form.verifiedAt || "-"}` : "-"}
+                  </div>
+                </div>
+                <div className="md:col-span-3">
+                  <div className="text-xs text-muted-foreground">Verification Note</div>
+                  <div className="text-sm whitespace-pre-wrap">{form.verificationNote || "-"}</div>
+                </div>
+              </div>
               <div className="flex items-center gap-2">
-                <Button
-                  variant="outline"
-                  onClick={() => {
-                    const incident = rows.find((row) => row.id === selectedIncidentId);
-                    if (!incident) return;
-                    startEdit(incident);
-                  }}
-                >
-                  Edit
-                </Button>
+                {canEdit && (
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      const incident = rows.find((row) => row.id === selectedIncidentId);
+                      if (!incident) return;
+                      startEdit(incident);
+                    }}
+                  >
+                    Edit
+                  </Button>
+                )}
                 <Button
                   variant="outline"
                   onClick={() => {
@@ -496,7 +649,7 @@ export default function SpcData() {
                     <SelectValue placeholder="Machine *" />
                   </SelectTrigger>
                   <SelectContent>
-                    {machines.map((machine) => (
+                    {machines.filter((machine) => !machine.isArchived || machine.id === form.machineId).map((machine) => (
                       <SelectItem key={machine.id} value={machine.id}>
                         {machine.name} ({machine.machineId})
                       </SelectItem>
@@ -508,14 +661,12 @@ export default function SpcData() {
                   onValueChange={(value) => {
                     setForm((prev) => {
                       const nextPartId = value;
-                      const nextCharacteristic = prev.characteristic
-                        && characteristicByLabel.get(prev.characteristic)?.partId === nextPartId
-                        ? prev.characteristic
-                        : "";
+                      const keepCharacteristic = characteristicById.get(prev.characteristicId)?.partId === nextPartId;
                       return {
                         ...prev,
                         partId: nextPartId,
-                        characteristic: nextCharacteristic,
+                        characteristicId: keepCharacteristic ? prev.characteristicId : "",
+                        characteristic: keepCharacteristic ? prev.characteristic : "",
                       };
                     });
                   }}
@@ -524,7 +675,7 @@ export default function SpcData() {
                     <SelectValue placeholder="Part Number *" />
                   </SelectTrigger>
                   <SelectContent>
-                    {parts.map((part) => (
+                    {parts.filter((part) => !part.isArchived || part.id === form.partId).map((part) => (
                       <SelectItem key={part.id} value={part.id}>
                         {part.partName ? `${part.partNumber} - ${part.partName}` : part.partNumber}
                       </SelectItem>
@@ -532,22 +683,24 @@ export default function SpcData() {
                   </SelectContent>
                 </Select>
                 <Select
-                  value={form.characteristic}
+                  value={form.characteristicId}
                   onValueChange={(value) => {
+                    const char = characteristicById.get(value);
                     setForm((prev) => ({
                       ...prev,
-                      characteristic: value,
+                      characteristicId: value,
+                      characteristic: char ? scrapCharacteristicLabel(char) : prev.characteristic,
                     }));
                   }}
                   disabled={!form.partId}
                 >
                   <SelectTrigger>
-                    <SelectValue placeholder="Characteristic *" />
+                    <SelectValue placeholder={form.characteristic ? `${form.characteristic} (unlinked)` : "Characteristic *"} />
                   </SelectTrigger>
                   <SelectContent>
                     {filteredCharacteristics.map((char) => (
-                      <SelectItem key={char.id} value={characteristicLabel(char)}>
-                        {characteristicLabel(char)}
+                      <SelectItem key={char.id} value={char.id}>
+                        {scrapCharacteristicLabel(char)}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -566,38 +719,47 @@ export default function SpcData() {
                     step="0.01"
                     placeholder="Estimated Cost *"
                     value={form.estimatedCost}
-                    onChange={(e) => setForm((prev) => ({ ...prev, estimatedCost: e.target.value }))}
+                    readOnly={costEnforced}
+                    title={costEnforced ? "Scrap cost is calculated from the part and routing" : undefined}
+                    onChange={(e) => setForm((prev) => ({ ...prev, estimatedCost: e.target.value, costCalculated: false }))}
                   />
-                  {(() => {
-                    const canCalc = selectedPart?.rawMaterialCost != null;
-                    return canCalc ? (
-                      <Button
-                        type="button"
-                        size="icon"
-                        variant="outline"
-                        title={`Calculate: $${selectedPart!.rawMaterialCost} × qty`}
-                        onClick={() => {
-                          const qty = Number(form.quantity) || 1;
-                          setForm((prev) => ({
-                            ...prev,
-                            estimatedCost: String((selectedPart!.rawMaterialCost! * qty).toFixed(2)),
-                          }));
-                        }}
-                      >
-                        <Calculator className="h-4 w-4" />
-                      </Button>
-                    ) : null;
-                  })()}
+                  {costBreakdown?.unitCost != null && !costEnforced && (
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant={form.costCalculated ? "secondary" : "outline"}
+                      title={`Calculate: ($${costBreakdown.materialCost!.toFixed(2)} material + $${costBreakdown.valueAddedCost.toFixed(2)} value added) × qty`}
+                      onClick={() => setForm((prev) => ({ ...prev, estimatedCost: String(costBreakdown.totalCost), costCalculated: true }))}
+                    >
+                      <Calculator className="h-4 w-4" />
+                    </Button>
+                  )}
                 </div>
-                <Select value={form.status} onValueChange={(value: "open" | "closed") => setForm((prev) => ({ ...prev, status: value }))}>
+                <Select value={form.status} onValueChange={(value: ScrapIncidentStatus) => setForm((prev) => ({ ...prev, status: value }))}>
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="open">Open</SelectItem>
-                    <SelectItem value="closed">Closed</SelectItem>
+                    {scrapIncidentStatuses.map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {scrapIncidentStatusLabels[status]}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
+                {costBreakdown && (form.costCalculated || costEnforced) && (
+                  <div className="md:col-span-6 text-xs text-muted-foreground space-y-0.5">
+                    {costBreakdown.unitCost !== null && (
+                      <div>
+                        Calculated: ${costBreakdown.materialCost!.toFixed(2)} material + ${costBreakdown.valueAddedCost.toFixed(2)} value added
+                        {" "}({costBreakdown.operations.map((operation) => operation.name).join(" → ")}) per part
+                      </div>
+                    )}
+                    {costBreakdown.warnings.map((warning) => (
+                      <div key={warning} className="text-machine-idle">{warning}</div>
+                    ))}
+                  </div>
+                )}
               </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                 <div>
@@ -623,6 +785,91 @@ export default function SpcData() {
                 onChange={(e) => setForm((prev) => ({ ...prev, note: e.target.value }))}
                 rows={3}
               />
+              <div className="border-t pt-3 space-y-3">
+                <div className="text-sm font-medium">8D Workflow</div>
+                <Textarea
+                  placeholder="Containment action (e.g. 100% sort of WIP and finished stock)"
+                  value={form.containmentAction}
+                  onChange={(e) => setForm((prev) => ({ ...prev, containmentAction: e.target.value }))}
+                  rows={2}
+                />
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <div>
+                    <label className="text-sm font-medium mb-1 block">Root Cause Category</label>
+                    <Select
+                      value={form.rootCauseCategory || NO_ROOT_CAUSE}
+                      onValueChange={(value) => setForm((prev) => ({
+                        ...prev,
+                        rootCauseCategory: value === NO_ROOT_CAUSE ? "" : value as RootCauseCategory,
+                      }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_ROOT_CAUSE}>Not determined</SelectItem>
+                        {rootCauseCategories.map((category) => (
+                          <SelectItem key={category} value={category}>
+                            {rootCauseCategoryLabels[category]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="md:col-span-2">
+                    <label className="text-sm font-medium mb-1 block">Root Cause</label>
+                    <Input
+                      placeholder="Why the defect occurred and escaped"
+                      value={form.rootCause}
+                      onChange={(e) => setForm((prev) => ({ ...prev, rootCause: e.target.value }))}
+                    />
+                  </div>
+                </div>
+                <Textarea
+                  placeholder="Corrective action"
+                  value={form.correctiveAction}
+                  onChange={(e) => setForm((prev) => ({ ...prev, correctiveAction: e.target.value }))}
+                  rows={2}
+                />
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                  <div>
+                    <label className="text-sm font-medium mb-1 block">Action Owner</label>
+                    <Input
+                      value={form.actionOwner}
+                      onChange={(e) => setForm((prev) => ({ ...prev, actionOwner: e.target.value }))}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium mb-1 block">Action Due</label>
+                    <Input
+                      type="date"
+                      value={form.actionDueDate}
+                      onChange={(e) => setForm((prev) => ({ ...prev, actionDueDate: e.target.value }))}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium mb-1 block">Verified By</label>
+                    <Input
+                      value={form.verifiedBy}
+                      onChange={(e) => setForm((prev) => ({ ...prev, verifiedBy: e.target.value }))}
+                    />
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium mb-1 block">Verified On</label>
+                    <Input
+                      type="date"
+                      value={form.verifiedAt}
+                      onChange={(e) => setForm((prev) => ({ ...prev, verifiedAt: e.target.value }))}
+                    />
+                  </div>
+                </div>
+                <Textarea
+                  placeholder="Verification note (evidence the corrective action works)"
+                  value={form.verificationNote}
+                  onChange={(e) => setForm((prev) => ({ ...prev, verificationNote: e.target.value }))}
+                  rows={2}
+                />
+              </div>
               <div className="flex items-center gap-2">
                 <Button onClick={onSubmit} disabled={createMutation.isPending || updateMutation.isPending}>
                   {editingId ? "Save Changes" : "Add Incident"}
@@ -646,6 +893,7 @@ export default function SpcData() {
         </CardContent>
         )}
       </Card>
+      )}
 
       <Card>
         <CardHeader>
@@ -655,6 +903,17 @@ export default function SpcData() {
               {search.trim() && (
                 <span className="text-xs text-muted-foreground">Showing {rows.length} of {incidents.length}</span>
               )}
+              {overdueCount > 0 && (
+                <Button
+                  size="sm"
+                  variant={filterOverdue ? "destructive" : "outline"}
+                  className="gap-1"
+                  onClick={() => setFilterOverdue((value) => !value)}
+                >
+                  <AlarmClock className="h-4 w-4" />
+                  {overdueCount} overdue action{overdueCount === 1 ? "" : "s"}
+                </Button>
+              )}
             </div>
             <Input
               className="max-w-sm"
@@ -685,6 +944,7 @@ export default function SpcData() {
                     <th className="text-left p-2">Estimated Cost</th>
                     <th className="text-left p-2">Note</th>
                     <th className="text-left p-2">Status</th>
+                    <th className="text-left p-2">Action Due</th>
                     <th className="text-left p-2">Date Created</th>
                     <th className="text-left p-2">Date Closed</th>
                     <th className="text-right p-2">Actions</th>
@@ -699,9 +959,15 @@ export default function SpcData() {
                     <tr key={row.id} className="border-t cursor-pointer hover:bg-muted/40" onClick={() => openIncident(row)}>
                       <td className="p-2">{machineById.get(row.machineId)?.machineId || row.machineId}</td>
                       <td className="p-2">{row.partId ? (partById.get(row.partId)?.partNumber || <span className="text-xs text-muted-foreground">-</span>) : <span className="text-xs text-muted-foreground">-</span>}</td>
-                      <td className="p-2">{row.characteristic}</td>
+                      <td className="p-2">
+                        {row.characteristic}
+                        {!row.characteristicId && <div className="text-xs text-muted-foreground">unlinked</div>}
+                      </td>
                       <td className="p-2">{row.quantity}</td>
-                      <td className="p-2">${row.estimatedCost.toLocaleString()}</td>
+                      <td className="p-2">
+                        ${row.estimatedCost.toLocaleString()}
+                        {row.costCalculated && <div className="text-xs text-muted-foreground">calculated</div>}
+                      </td>
                       <td className="p-2 max-w-[280px]">
                         {note ? (
                           <button
@@ -721,10 +987,22 @@ export default function SpcData() {
                           <span className="text-xs text-muted-foreground">-</span>
                         )}
                       </td>
-                      <td className="p-2 capitalize">{row.status}</td>
+                      <td className="p-2">{scrapIncidentStatusLabels[row.status] ?? row.status}</td>
+                      <td className="p-2">
+                        {row.actionDueDate ? (
+                          <div className="flex items-center gap-2">
+                            <span className={scrapActionOverdue(row, today) ? "text-machine-down font-medium" : ""}>{row.actionDueDate}</span>
+                            {scrapActionOverdue(row, today) && <Badge variant="destructive">Overdue</Badge>}
+                          </div>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">-</span>
+                        )}
+                        {row.actionOwner && <div className="text-xs text-muted-foreground">{row.actionOwner}</div>}
+                      </td>
                       <td className="p-2">{row.dateCreated || <span className="text-xs text-muted-foreground">-</span>}</td>
                       <td className="p-2">{row.dateClosed || <span className="text-xs text-muted-foreground">-</span>}</td>
                       <td className="p-2 text-right">
+                        {canEdit && (
                         <div className="inline-flex gap-2">
                           <Button
                             size="sm"
@@ -749,6 +1027,7 @@ export default function SpcData() {
                             Delete
                           </Button>
                         </div>
+                        )}
                       </td>
                     </tr>
                     );
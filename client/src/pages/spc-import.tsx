@@ -0,0 +1,357 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  autoMapColumns,
+  buildImportPreview,
+  downloadImportErrorReport,
+  importFields,
+  missingRequiredFields,
+  readImportFile,
+  type ColumnMapping,
+  type ImportFieldKey,
+  type ImportSheet,
+} from "@/lib/spc-import";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, ArrowRight, CheckCircle2, Download, Upload } from "lucide-react";
+import type { Characteristic, Machine, Part, SpcImportResult } from "@shared/schema";
+
+type Step = "upload" | "map" | "preview" | "done";
+
+// Radix Select cannot hold an empty value, so an unmapped field uses this one
+const NOT_MAPPED = "none";
+
+// Rows shown in the preview table; the error report has all of them
+const PREVIEW_LIMIT = 100;
+
+// Row indexes the import endpoint rejected, from the "400: {...}" message apiRequest throws
+function rejectedRows(error: unknown): { index: number; message: string }[] {
+  if (!(error instanceof Error) || !error.message.startsWith("400")) return [];
+  try {
+    const body = JSON.parse(error.message.slice(error.message.indexOf(":") + 1));
+    return Array.isArray(body.rows) ? body.rows : [];
+  } catch {
+    return [];
+  }
+}
+
+function NameList({ title, names }: { title: string; names: string[] }) {
+  return (
+    <div>
+      <p className="text-sm font-medium mb-1">{title} ({names.length})</p>
+      {names.length === 0 ? (
+        <p className="text-sm text-muted-foreground">None</p>
+      ) : (
+        <div className="flex flex-wrap gap-1 max-h-32 overflow-y-auto">
+          {names.map((name) => <Badge key={name} variant="secondary">{name}</Badge>)}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function SpcImportPage() {
+  const { toast } = useToast();
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [sheets, setSheets] = useState<ImportSheet[]>([]);
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [result, setResult] = useState<SpcImportResult | null>(null);
+
+  const { data: machines = [] } = useQuery<Machine[]>({
+    queryKey: ["/api/machines"],
+    queryFn: () => apiRequest("GET", "/api/machines"),
+  });
+
+  const { data: parts = [] } = useQuery<Part[]>({
+    queryKey: ["/api/parts"],
+    queryFn: () => apiRequest("GET", "/api/parts"),
+  });
+
+  const { data: characteristics = [] } = useQuery<Characteristic[]>({
+    queryKey: ["/api/characteristics"],
+    queryFn: () => apiRequest("GET", "/api/characteristics"),
+  });
+
+  const sheet = sheets[sheetIndex];
+  const missing = missingRequiredFields(mapping);
+
+  const preview = useMemo(
+    () => (step === "preview" && sheet ? buildImportPreview(sheet, mapping, { machines, parts, characteristics }) : null),
+    [step, sheet, mapping, machines, parts, characteristics],
+  );
+  const errorCount = preview ? preview.rows.length - preview.validRows.length : 0;
+
+  const selectSheet = (index: number, loaded = sheets) => {
+    setSheetIndex(index);
+    setMapping(autoMapColumns(loaded[index]?.headers ?? []));
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const loaded = await readImportFile(file);
+      if (loaded.every((entry) => entry.rows.length === 0)) {
+        toast({ title: "The file has no data rows", variant: "destructive" });
+        return;
+      }
+      setFileName(file.name);
+      setSheets(loaded);
+      selectSheet(Math.max(0, loaded.findIndex((entry) => entry.rows.length > 0)), loaded);
+    } catch {
+      toast({ title: "Could not read the file", description: "Upload a CSV or Excel workbook.", variant: "destructive" });
+    }
+  };
+
+  const setColumn = (key: ImportFieldKey, value: string) =>
+    setMapping((prev) => {
+      const next = { ...prev };
+      if (value === NOT_MAPPED) delete next[key];
+      else next[key] = Number(value);
+      return next;
+    });
+
+  const importMutation = useMutation({
+    mutationFn: (payloads: Record<string, string>[]) =>
+      apiRequest<SpcImportResult>("POST", "/api/spc-import", payloads),
+    onSuccess: (imported) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/parts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/characteristics"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/spc-violations"] });
+      setResult(imported);
+      setStep("done");
+      toast({ title: `Imported ${imported.imported} measurement${imported.imported === 1 ? "" : "s"}` });
+    },
+    onError: (error) => {
+      const rejected = rejectedRows(error);
+      const lines = preview?.validRows ?? [];
+      toast({
+        title: "Import failed, nothing was saved",
+        description: rejected.length > 0
+          ? rejected.slice(0, 3).map((row) => `Line ${lines[row.index]?.line ?? row.index + 1}: ${row.message}`).join("; ")
+          : undefined,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reset = () => {
+    setStep("upload");
+    setFileName("");
+    setSheets([]);
+    setSheetIndex(0);
+    setMapping({});
+    setResult(null);
+  };
+
+  return (
+    <div className="p-6 h-full overflow-y-auto space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold">Import Measurements</h2>
+        <p className="text-sm text-muted-foreground">
+          Load historical inspection data from a CSV or Excel file. Parts and characteristics are matched by number or created.
+        </p>
+      </div>
+
+      {step === "upload" && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">1. Upload file</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Input
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              onChange={(event) => handleFile(event.target.files?.[0])}
+              data-testid="input-import-file"
+            />
+            {sheets.length > 1 && (
+              <div className="max-w-xs">
+                <Label className="mb-1 block">Sheet</Label>
+                <Select value={String(sheetIndex)} onValueChange={(value) => selectSheet(Number(value))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sheets.map((entry, index) => (
+                      <SelectItem key={entry.name} value={String(index)}>
+                        {entry.name} ({entry.rows.length} rows)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {sheet && (
+              <p className="text-sm text-muted-foreground">
+                {fileName}: {sheet.rows.length} data rows, {sheet.headers.length} columns
+              </p>
+            )}
+            <Button onClick={() => setStep("map")} disabled={!sheet || sheet.rows.length === 0} data-testid="button-import-next">
+              Next <ArrowRight className="h-4 w-4 ml-2" />
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === "map" && sheet && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">2. Map columns</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {importFields.map((field) => {
+                const column = mapping[field.key];
+                const sample = column === undefined ? "" : sheet.rows.find((row) => String(row[column] ?? "").trim())?.[column];
+                return (
+                  <div key={field.key}>
+                    <Label className="mb-1 block">{field.label}{field.required ? " *" : ""}</Label>
+                    <Select
+                      value={column === undefined ? NOT_MAPPED : String(column)}
+                      onValueChange={(value) => setColumn(field.key, value)}
+                    >
+                      <SelectTrigger data-testid={`select-map-${field.key}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                        {sheet.headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            {header || `Column ${index + 1}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {sample && <p className="text-xs text-muted-foreground mt-1 truncate">e.g. {sample}</p>}
+                  </div>
+                );
+              })}
+            </div>
+            {missing.length > 0 && (
+              <p className="text-sm text-machine-down">Map the required fields: {missing.map((field) => field.label).join(", ")}</p>
+            )}
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setStep("upload")}>
+                <ArrowLeft className="h-4 w-4 mr-2" /> Back
+              </Button>
+              <Button onClick={() => setStep("preview")} disabled={missing.length > 0} data-testid="button-import-preview">
+                Preview <ArrowRight className="h-4 w-4 ml-2" />
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === "preview" && preview && sheet && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">3. Preview</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div className="rounded border p-3">
+                <p className="text-xs text-muted-foreground">Rows</p>
+                <p className="text-xl font-semibold">{preview.rows.length}</p>
+              </div>
+              <div className="rounded border border-machine-running p-3">
+                <p className="text-xs text-muted-foreground">Ready to import</p>
+                <p className="text-xl font-semibold text-machine-running">{preview.validRows.length}</p>
+              </div>
+              <div className={`rounded border p-3 ${errorCount > 0 ? "border-machine-down" : ""}`}>
+                <p className="text-xs text-muted-foreground">With errors</p>
+                <p className={`text-xl font-semibold ${errorCount > 0 ? "text-machine-down" : ""}`}>{errorCount}</p>
+              </div>
+              <div className="rounded border p-3">
+                <p className="text-xs text-muted-foreground">New parts / characteristics</p>
+                <p className="text-xl font-semibold">{preview.newParts.length} / {preview.newCharacteristics.length}</p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <NameList title="New parts" names={preview.newParts} />
+              <NameList title="Existing parts" names={preview.matchedParts} />
+              <NameList title="New characteristics" names={preview.newCharacteristics} />
+              <NameList title="Existing characteristics" names={preview.matchedCharacteristics} />
+            </div>
+
+            <div className="rounded border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Line</TableHead>
+                    <TableHead>Part</TableHead>
+                    <TableHead>Char</TableHead>
+                    <TableHead>Value</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.rows.slice(0, PREVIEW_LIMIT).map((row) => (
+                    <TableRow key={row.line}>
+                      <TableCell>{row.line}</TableCell>
+                      <TableCell>{row.partNumber}</TableCell>
+                      <TableCell>{row.charNumber}</TableCell>
+                      <TableCell>{row.payload?.measuredValue ?? ""}</TableCell>
+                      <TableCell className={row.errors.length > 0 ? "text-machine-down" : "text-machine-running"}>
+                        {row.errors.length > 0 ? row.errors.join("; ") : "OK"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {preview.rows.length > PREVIEW_LIMIT && (
+              <p className="text-xs text-muted-foreground">
+                Showing the first {PREVIEW_LIMIT} of {preview.rows.length} rows.
+              </p>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={() => setStep("map")}>
+                <ArrowLeft className="h-4 w-4 mr-2" /> Back
+              </Button>
+              {errorCount > 0 && (
+                <Button variant="outline" onClick={() => downloadImportErrorReport(sheet, preview.rows, fileName)} data-testid="button-import-errors">
+                  <Download className="h-4 w-4 mr-2" /> Download error report
+                </Button>
+              )}
+              <Button
+                onClick={() => importMutation.mutate(preview.validRows.map((row) => row.payload!))}
+                disabled={preview.validRows.length === 0 || importMutation.isPending}
+                data-testid="button-import-commit"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                {importMutation.isPending ? "Importing..." : `Import ${preview.validRows.length} valid row${preview.validRows.length === 1 ? "" : "s"}`}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === "done" && result && (
+        <Card>
+          <CardContent className="pt-6 space-y-4">
+            <div className="flex items-center gap-2">
+              <CheckCircle2 className="h-5 w-5 text-machine-running" />
+              <p className="font-medium">
+                Imported {result.imported} measurement{result.imported === 1 ? "" : "s"}, created {result.partsCreated} part
+                {result.partsCreated === 1 ? "" : "s"} and {result.characteristicsCreated} characteristic
+                {result.characteristicsCreated === 1 ? "" : "s"}.
+              </p>
+            </div>
+            <Button onClick={reset} data-testid="button-import-another">Import another file</Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,352 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Archive, ArchiveRestore, ChevronDown, ChevronUp, Pencil, Plus } from "lucide-react";
+import type { PublicUser, UserRole } from "@shared/schema";
+import { MIN_PASSWORD_LENGTH, userRoleDescriptions, userRoleLabels, userRoles } from "@shared/schema";
+
+type UserForm = {
+  username: string;
+  displayName: string;
+  role: UserRole | "";
+  password: string;
+};
+
+const emptyForm: UserForm = {
+  username: "",
+  displayName: "",
+  role: "",
+  password: "",
+};
+
+// The API answers 400 and 409 with a readable message
+const serverMessage = (error: unknown) => {
+  if (!(error instanceof Error) || !/^(400|409)/.test(error.message)) return undefined;
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(":") + 1)).message as string | undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export default function UsersPage() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const [form, setForm] = useState<UserForm>(emptyForm);
+  const [newUserOpen, setNewUserOpen] = useState(false);
+  const [editingUserId, setEditingUserId] = useState<string | null>(null);
+  const [showInactive, setShowInactive] = useState(false);
+  const [deactivatingUser, setDeactivatingUser] = useState<PublicUser | null>(null);
+
+  const { data: users = [], isLoading } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"],
+    queryFn: () => apiRequest("GET", "/api/users"),
+  });
+
+  const visibleUsers = showInactive ? users : users.filter((user) => user.isActive);
+  const inactiveCount = users.filter((user) => !user.isActive).length;
+
+  // A blank password on edit keeps the current one
+  const toPayload = (payload: UserForm) => ({
+    username: payload.username.trim(),
+    displayName: payload.displayName.trim() || null,
+    role: payload.role,
+    ...(payload.password ? { password: payload.password } : {}),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (payload: UserForm) => apiRequest("POST", "/api/users", toPayload(payload)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setForm(emptyForm);
+      toast({ title: "User added" });
+    },
+    onError: (error) => toast({ title: "Failed to add user", description: serverMessage(error), variant: "destructive" }),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, payload }: { id: string; payload: UserForm }) =>
+      apiRequest("PATCH", `/api/users/${id}`, toPayload(payload)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setForm(emptyForm);
+      setEditingUserId(null);
+      toast({ title: "User updated" });
+    },
+    onError: (error) => toast({ title: "Failed to update user", description: serverMessage(error), variant: "destructive" }),
+  });
+
+  const setActiveMutation = useMutation({
+    mutationFn: ({ id, isActive }: { id: string; isActive: boolean }) =>
+      apiRequest("PATCH", `/api/users/${id}`, { isActive }),
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({ title: variables.isActive ? "User reactivated" : "User deactivated" });
+    },
+    onError: (error) => toast({ title: "Failed to change user status", description: serverMessage(error), variant: "destructive" }),
+  });
+
+  const startEdit = (user: PublicUser) => {
+    setEditingUserId(user.id);
+    setNewUserOpen(true);
+    setForm({
+      username: user.username,
+      displayName: user.displayName ?? "",
+      role: user.role,
+      password: "",
+    });
+  };
+
+  const onSubmit = () => {
+    if (!form.username.trim()) {
+      toast({ title: "Username is required", variant: "destructive" });
+      return;
+    }
+    if (!form.role) {
+      toast({ title: "Role is required", variant: "destructive" });
+      return;
+    }
+    if ((!editingUserId || form.password) && form.password.length < MIN_PASSWORD_LENGTH) {
+      toast({ title: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`, variant: "destructive" });
+      return;
+    }
+    if (editingUserId) {
+      updateMutation.mutate({ id: editingUserId, payload: form });
+    } else {
+      createMutation.mutate(form);
+    }
+  };
+
+  return (
+    <div className="p-6 h-full overflow-y-auto space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold">Users</h2>
+        <p className="text-sm text-muted-foreground">
+          Manage who can sign in and what they can change. Users who leave are deactivated so their sessions end and their records keep their name.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader
+          className="cursor-pointer select-none"
+          onClick={() => {
+            if (!editingUserId) setNewUserOpen((open) => !open);
+          }}
+        >
+          <div className="flex items-center justify-between">
+            <CardTitle>{editingUserId ? "Edit User" : "New User"}</CardTitle>
+            {!editingUserId && (newUserOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />)}
+          </div>
+        </CardHeader>
+        {newUserOpen && (
+        <CardContent className="space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div>
+              <Label className="mb-1 block">Username *</Label>
+              <Input
+                placeholder="e.g. jsmith"
+                autoComplete="off"
+                value={form.username}
+                onChange={(event) => setForm((prev) => ({ ...prev, username: event.target.value }))}
+              />
+            </div>
+            <div>
+              <Label className="mb-1 block">Display Name</Label>
+              <Input
+                placeholder="e.g. Jordan Smith"
+                value={form.displayName}
+                onChange={(event) => setForm((prev) => ({ ...prev, displayName: event.target.value }))}
+              />
+            </div>
+            <div>
+              <Label className="mb-1 block">Role *</Label>
+              <Select
+                value={form.role}
+                onValueChange={(value) => setForm((prev) => ({ ...prev, role: value as UserRole }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select role" />
+                </SelectTrigger>
+                <SelectContent>
+                  {userRoles.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {userRoleLabels[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="mb-1 block">{editingUserId ? "New Password" : "Password *"}</Label>
+              <Input
+                type="password"
+                autoComplete="new-password"
+                placeholder={editingUserId ? "Leave blank to keep" : `At least ${MIN_PASSWORD_LENGTH} characters`}
+                value={form.password}
+                onChange={(event) => setForm((prev) => ({ ...prev, password: event.target.value }))}
+              />
+            </div>
+          </div>
+          {form.role && <p className="text-xs text-muted-foreground">{userRoleDescriptions[form.role]}.</p>}
+          {editingUserId && form.password && (
+            <p className="text-xs text-muted-foreground">Setting a new password signs the user out everywhere.</p>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Button
+              onClick={onSubmit}
+              disabled={createMutation.isPending || updateMutation.isPending}
+            >
+              {editingUserId ? "Save Changes" : <><Plus className="h-4 w-4 mr-1" /> Add User</>}
+            </Button>
+            {editingUserId && (
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setEditingUserId(null);
+                  setForm(emptyForm);
+                }}
+              >
+                Cancel
+              </Button>
+            )}
+          </div>
+        </CardContent>
+        )}
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>User Accounts</CardTitle>
+            <label className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Checkbox checked={showInactive} onCheckedChange={(checked) => setShowInactive(checked === true)} />
+              Show deactivated ({inactiveCount})
+            </label>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : visibleUsers.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-8 text-center">
+              <Plus className="h-10 w-10 text-muted-foreground/50 mb-3" />
+              <p className="text-sm text-muted-foreground">No users to show.</p>
+            </div>
+          ) : (
+            <div className="overflow-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-muted-foreground">
+                    <th className="text-left p-2">Username</th>
+                    <th className="text-left p-2">Name</th>
+                    <th className="text-left p-2">Role</th>
+                    <th className="text-left p-2">Last Login</th>
+                    <th className="text-left p-2">Status</th>
+                    <th className="text-right p-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleUsers.map((user) => (
+                    <tr key={user.id} className={`border-t ${user.isActive ? "" : "text-muted-foreground"}`}>
+                      <td className="p-2 font-mono">
+                        {user.username}
+                        {user.id === currentUser?.id && <span className="ml-2 text-xs text-muted-foreground">(you)</span>}
+                      </td>
+                      <td className="p-2">{user.displayName ?? "—"}</td>
+                      <td className="p-2">
+                        <Badge variant={user.role === "admin" ? "default" : "secondary"}>{userRoleLabels[user.role] ?? user.role}</Badge>
+                      </td>
+                      <td className="p-2">{user.lastLoginAt ? new Date(user.lastLoginAt).toLocaleString() : "Never"}</td>
+                      <td className="p-2">
+                        {user.isActive ? <Badge variant="outline">Active</Badge> : <Badge variant="outline">Deactivated</Badge>}
+                      </td>
+                      <td className="p-2 text-right">
+                        <div className="inline-flex gap-1">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => startEdit(user)}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          {user.isActive ? (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              title="Deactivate"
+                              onClick={() => setDeactivatingUser(user)}
+                              disabled={setActiveMutation.isPending || user.id === currentUser?.id}
+                            >
+                              <Archive className="h-4 w-4" />
+                            </Button>
+                          ) : (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              title="Reactivate"
+                              onClick={() => setActiveMutation.mutate({ id: user.id, isActive: true })}
+                              disabled={setActiveMutation.isPending}
+                            >
+                              <ArchiveRestore className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={deactivatingUser !== null} onOpenChange={(open) => !open && setDeactivatingUser(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Deactivate {deactivatingUser?.username}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              They are signed out everywhere and can no longer sign in. You can reactivate the account later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (deactivatingUser) setActiveMutation.mutate({ id: deactivatingUser.id, isActive: false });
+                setDeactivatingUser(null);
+              }}
+            >
+              Deactivate
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
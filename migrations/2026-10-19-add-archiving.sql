@@ -0,0 +1,17 @@
+-- Soft delete: deleting a machine, cell, part or characteristic archives it so scrap incidents,
+-- measurements and other history still resolve. Archived rows are purged from the recycle bin.
+ALTER TABLE machines
+ADD COLUMN IF NOT EXISTS is_archived boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS archived_at text;
+
+ALTER TABLE cell_configurations
+ADD COLUMN IF NOT EXISTS is_archived boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS archived_at text;
+
+ALTER TABLE parts
+ADD COLUMN IF NOT EXISTS is_archived boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS archived_at text;
+
+ALTER TABLE characteristics
+ADD COLUMN IF NOT EXISTS is_archived boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS archived_at text;
@@ -0,0 +1,10 @@
+-- Attribute chart type per characteristic, and sample size plus defective/defect
+-- count on measurements of attribute checks.
+ALTER TABLE characteristics
+ADD COLUMN IF NOT EXISTS attribute_chart_type text NOT NULL DEFAULT 'p';
+
+ALTER TABLE spc_measurements
+ADD COLUMN IF NOT EXISTS sample_size integer;
+
+ALTER TABLE spc_measurements
+ADD COLUMN IF NOT EXISTS defect_count integer;
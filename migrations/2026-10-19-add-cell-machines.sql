@@ -0,0 +1,82 @@
+-- Cell membership replaces the free-text machines.cell. A cell's members are the machines its
+-- routing (operations_json) uses; the server rebuilds them when a cell is saved. Archived cells
+-- have no members, so the unique index keeps a machine in at most one active cell.
+CREATE TABLE IF NOT EXISTS cell_machines (
+  id varchar PRIMARY KEY,
+  cell_id varchar NOT NULL
+    CONSTRAINT cell_machines_cell_id_cell_configurations_id_fk
+    REFERENCES cell_configurations (id) ON DELETE CASCADE,
+  machine_id varchar NOT NULL
+    CONSTRAINT cell_machines_machine_id_machines_id_fk
+    REFERENCES machines (id) ON DELETE RESTRICT,
+  created_at text NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS cell_machines_machine_idx
+  ON cell_machines (machine_id);
+CREATE INDEX IF NOT EXISTS cell_machines_cell_idx
+  ON cell_machines (cell_id);
+
+-- Reconcile once, while machines.cell still exists. The routing wins over the text: a machine
+-- whose text names a cell it is not routed in ends up unassigned. A machine routed in several
+-- active cells stays in the one its text names, otherwise the oldest, and is taken out of the
+-- other routings. Routings also lose machines that no longer exist.
+-- The text is kept as machines.cell_legacy; list the machines whose cell changed with
+--   SELECT m.machine_id, m.cell_legacy, c.name FROM machines m
+--   LEFT JOIN cell_machines cm ON cm.machine_id = m.id
+--   LEFT JOIN cell_configurations c ON c.id = cm.cell_id
+--   WHERE m.cell_legacy IS DISTINCT FROM c.name;
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'machines' AND column_name = 'cell'
+  ) THEN
+    WITH routed AS (
+      SELECT DISTINCT c.id AS cell_id, c.name AS cell_name, c.created_at, ids.machine_id
+      FROM cell_configurations c
+      CROSS JOIN LATERAL jsonb_array_elements(
+        CASE WHEN jsonb_typeof(c.operations_json) = 'array' THEN c.operations_json ELSE '[]'::jsonb END
+      ) AS ops(op)
+      CROSS JOIN LATERAL jsonb_array_elements_text(
+        CASE WHEN jsonb_typeof(ops.op -> 'machineIds') = 'array' THEN ops.op -> 'machineIds' ELSE '[]'::jsonb END
+      ) AS ids(machine_id)
+      WHERE c.is_archived = false
+    ),
+    ranked AS (
+      SELECT r.cell_id, r.machine_id,
+        row_number() OVER (
+          PARTITION BY r.machine_id
+          ORDER BY coalesce(r.cell_name = m.cell, false) DESC, r.created_at, r.cell_id
+        ) AS rank
+      FROM routed r
+      JOIN machines m ON m.id = r.machine_id
+    )
+    INSERT INTO cell_machines (id, cell_id, machine_id, created_at)
+    SELECT gen_random_uuid()::text, cell_id, machine_id,
+      to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')
+    FROM ranked
+    WHERE rank = 1
+    ON CONFLICT DO NOTHING;
+
+    -- Each active routing keeps only its own members
+    UPDATE cell_configurations c
+    SET operations_json = (
+      SELECT coalesce(jsonb_agg(
+        CASE WHEN jsonb_typeof(ops.op -> 'machineIds') = 'array' THEN jsonb_set(ops.op, '{machineIds}', coalesce((
+          SELECT jsonb_agg(ids.machine_id ORDER BY ids.ord)
+          FROM jsonb_array_elements_text(ops.op -> 'machineIds') WITH ORDINALITY AS ids(machine_id, ord)
+          WHERE EXISTS (
+            SELECT 1 FROM cell_machines cm WHERE cm.cell_id = c.id AND cm.machine_id = ids.machine_id
+          )
+        ), '[]'::jsonb))
+        ELSE ops.op END
+        ORDER BY ops.ord
+      ), '[]'::jsonb)
+      FROM jsonb_array_elements(c.operations_json) WITH ORDINALITY AS ops(op, ord)
+    )
+    WHERE c.is_archived = false AND jsonb_typeof(c.operations_json) = 'array';
+
+    ALTER TABLE machines RENAME COLUMN cell TO cell_legacy;
+  END IF;
+END $$;
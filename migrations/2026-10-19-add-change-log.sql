@@ -0,0 +1,21 @@
+-- Audit trail: one row per create, update or delete, with field-level before/after values and the user who made it.
+CREATE TABLE IF NOT EXISTS change_log (
+  id varchar PRIMARY KEY,
+  entity_type text NOT NULL,
+  entity_id varchar NOT NULL,
+  entity_label text,
+  action text NOT NULL,
+  changes jsonb NOT NULL,
+  actor_id varchar,
+  actor_name text,
+  created_at text NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS change_log_entity_idx
+  ON change_log (entity_type, entity_id, created_at);
+
+CREATE INDEX IF NOT EXISTS change_log_actor_idx
+  ON change_log (actor_id, created_at);
+
+CREATE INDEX IF NOT EXISTS change_log_created_idx
+  ON change_log (created_at);
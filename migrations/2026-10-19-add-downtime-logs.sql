@@ -0,0 +1,16 @@
+CREATE TABLE IF NOT EXISTS downtime_logs (
+  id varchar PRIMARY KEY,
+  machine_id varchar NOT NULL,
+  reason_category text NOT NULL,
+  reason_code text NOT NULL,
+  description text,
+  reported_by text,
+  start_time text NOT NULL,
+  end_time text,
+  duration_minutes real,
+  created_at text NOT NULL,
+  updated_at text NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS downtime_logs_machine_start_idx
+  ON downtime_logs (machine_id, start_time);
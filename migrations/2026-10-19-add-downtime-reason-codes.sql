@@ -0,0 +1,33 @@
+CREATE TABLE IF NOT EXISTS downtime_reason_codes (
+  id varchar PRIMARY KEY,
+  code text NOT NULL,
+  category text NOT NULL,
+  label text NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  deactivated_at text,
+  created_at text NOT NULL,
+  updated_at text NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS downtime_reason_codes_code_idx
+  ON downtime_reason_codes (code);
+
+-- Seed the codes that were previously hard-coded in shared/schema.ts
+INSERT INTO downtime_reason_codes (id, code, category, label, is_active, created_at, updated_at)
+SELECT
+  gen_random_uuid()::text,
+  seed.code,
+  seed.category,
+  seed.label,
+  true,
+  to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+  to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')
+FROM (VALUES
+  ('MECH_01', 'mechanical', 'Bearing failure'),
+  ('ELEC_01', 'electrical', 'Power loss'),
+  ('MAT_01', 'material', 'Missing raw material'),
+  ('OP_01', 'operator', 'Operator absent'),
+  ('QUA_01', 'quality', 'Quality hold'),
+  ('OTH_01', 'other', 'Other')
+) AS seed (code, category, label)
+ON CONFLICT (code) DO NOTHING;
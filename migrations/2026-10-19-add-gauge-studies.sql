@@ -0,0 +1,17 @@
+-- Gauge R&R studies; readings are a jsonb [operator][part][trial] grid.
+CREATE TABLE IF NOT EXISTS gauge_studies (
+  id varchar PRIMARY KEY,
+  name text NOT NULL,
+  characteristic_id varchar NOT NULL,
+  gauge_name text NOT NULL,
+  operators jsonb NOT NULL,
+  part_count integer NOT NULL,
+  trial_count integer NOT NULL,
+  readings jsonb NOT NULL,
+  notes text,
+  created_at text NOT NULL,
+  updated_at text NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS gauge_studies_characteristic_idx
+  ON gauge_studies (characteristic_id);
@@ -0,0 +1,25 @@
+-- Gauge and instrument master, and the gauge that took each measurement.
+CREATE TABLE IF NOT EXISTS gauges (
+  id varchar PRIMARY KEY,
+  gauge_number text NOT NULL,
+  description text,
+  type text NOT NULL,
+  resolution double precision,
+  unit text,
+  calibration_interval_days integer NOT NULL,
+  last_calibrated_at text,
+  next_calibration_due text,
+  is_active boolean NOT NULL DEFAULT true,
+  deactivated_at text,
+  created_at text NOT NULL,
+  updated_at text NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS gauges_gauge_number_idx
+  ON gauges (gauge_number);
+
+ALTER TABLE spc_measurements
+ADD COLUMN IF NOT EXISTS gauge_id varchar;
+
+CREATE INDEX IF NOT EXISTS spc_measurements_gauge_idx
+  ON spc_measurements (gauge_id);
@@ -0,0 +1,11 @@
+CREATE TABLE IF NOT EXISTS machine_status_events (
+  id varchar PRIMARY KEY,
+  machine_id varchar NOT NULL,
+  from_status text,
+  to_status text NOT NULL,
+  note text,
+  created_at text NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS machine_status_events_machine_created_idx
+  ON machine_status_events (machine_id, created_at);
@@ -0,0 +1,16 @@
+CREATE TABLE IF NOT EXISTS production_counts (
+  id varchar PRIMARY KEY,
+  machine_id varchar NOT NULL,
+  part_id varchar,
+  shift text,
+  good_quantity integer NOT NULL,
+  total_quantity integer NOT NULL,
+  period_start text NOT NULL,
+  period_end text NOT NULL,
+  note text,
+  created_at text NOT NULL,
+  updated_at text NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS production_counts_machine_period_idx
+  ON production_counts (machine_id, period_start);
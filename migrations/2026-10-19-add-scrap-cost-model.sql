@@ -0,0 +1,7 @@
+-- Scrap cost model: machine hourly rates for the value added by each operation, and a flag for
+-- incidents whose cost was calculated rather than typed. Existing costs stay as typed.
+ALTER TABLE machines
+ADD COLUMN IF NOT EXISTS hourly_rate real;
+
+ALTER TABLE scrap_incidents
+ADD COLUMN IF NOT EXISTS cost_calculated boolean NOT NULL DEFAULT false;
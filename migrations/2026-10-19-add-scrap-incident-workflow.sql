@@ -0,0 +1,15 @@
+-- 8D-style workflow on scrap incidents: containment, root cause, corrective action and verification.
+-- Existing "open" and "closed" statuses remain valid stages.
+ALTER TABLE scrap_incidents
+ADD COLUMN IF NOT EXISTS containment_action text,
+ADD COLUMN IF NOT EXISTS root_cause_category text,
+ADD COLUMN IF NOT EXISTS root_cause text,
+ADD COLUMN IF NOT EXISTS corrective_action text,
+ADD COLUMN IF NOT EXISTS action_owner text,
+ADD COLUMN IF NOT EXISTS action_due_date text,
+ADD COLUMN IF NOT EXISTS verified_by text,
+ADD COLUMN IF NOT EXISTS verified_at text,
+ADD COLUMN IF NOT EXISTS verification_note text;
+
+CREATE INDEX IF NOT EXISTS scrap_incidents_action_due_idx
+  ON scrap_incidents (action_due_date);
@@ -0,0 +1,38 @@
+CREATE TABLE IF NOT EXISTS shift_definitions (
+  id varchar PRIMARY KEY,
+  name text NOT NULL,
+  start_time text NOT NULL,
+  end_time text NOT NULL,
+  working_days jsonb NOT NULL,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at text NOT NULL,
+  updated_at text NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS plant_holidays (
+  id varchar PRIMARY KEY,
+  date text NOT NULL,
+  name text NOT NULL,
+  created_at text NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS plant_holidays_date_idx
+  ON plant_holidays (date);
+
+-- Seed the three-shift pattern (Mon–Fri) used by script/seed.ts, only on an empty calendar
+INSERT INTO shift_definitions (id, name, start_time, end_time, working_days, sort_order, created_at, updated_at)
+SELECT
+  gen_random_uuid()::text,
+  seed.name,
+  seed.start_time,
+  seed.end_time,
+  '[1,2,3,4,5]'::jsonb,
+  seed.sort_order,
+  to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+  to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')
+FROM (VALUES
+  ('Day', '06:00', '14:00', 1),
+  ('Afternoon', '14:00', '22:00', 2),
+  ('Midnight', '22:00', '06:00', 3)
+) AS seed (name, start_time, end_time, sort_order)
+WHERE NOT EXISTS (SELECT 1 FROM shift_definitions);
@@ -0,0 +1,20 @@
+-- Run rule set per characteristic and the violations flagged on each new measurement.
+ALTER TABLE characteristics
+ADD COLUMN IF NOT EXISTS rule_set text NOT NULL DEFAULT 'western_electric';
+
+CREATE TABLE IF NOT EXISTS spc_rule_violations (
+  id varchar PRIMARY KEY,
+  measurement_id varchar NOT NULL,
+  characteristic_id varchar NOT NULL,
+  machine_id varchar NOT NULL,
+  rule_set text NOT NULL,
+  rule integer NOT NULL,
+  description text NOT NULL,
+  created_at text NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS spc_rule_violations_characteristic_idx
+  ON spc_rule_violations (characteristic_id, created_at);
+
+CREATE INDEX IF NOT EXISTS spc_rule_violations_measurement_idx
+  ON spc_rule_violations (measurement_id);
@@ -0,0 +1,61 @@
+-- Real foreign keys for SPC and scrap data. Run `npx tsx script/check-orphans.ts` first:
+-- a constraint cannot be added while rows point at records that no longer exist, and
+-- `--repair` fixes them. Needs the archiving migration, which repair uses for placeholders.
+--
+-- Cascade policy: machines, parts and characteristics are archived rather than deleted, so
+-- history rows RESTRICT a hard delete (the recycle bin purge checks for them first). Rule
+-- violations are derived from their measurement and CASCADE with it.
+-- Names match drizzle-kit's, so `npm run db:push` sees the constraints as already there.
+
+ALTER TABLE characteristics DROP CONSTRAINT IF EXISTS characteristics_part_id_parts_id_fk;
+ALTER TABLE characteristics
+ADD CONSTRAINT characteristics_part_id_parts_id_fk
+  FOREIGN KEY (part_id) REFERENCES parts (id) ON DELETE RESTRICT;
+
+ALTER TABLE spc_measurements DROP CONSTRAINT IF EXISTS spc_measurements_characteristic_id_characteristics_id_fk;
+ALTER TABLE spc_measurements
+ADD CONSTRAINT spc_measurements_characteristic_id_characteristics_id_fk
+  FOREIGN KEY (characteristic_id) REFERENCES characteristics (id) ON DELETE RESTRICT;
+
+ALTER TABLE spc_measurements DROP CONSTRAINT IF EXISTS spc_measurements_machine_id_machines_id_fk;
+ALTER TABLE spc_measurements
+ADD CONSTRAINT spc_measurements_machine_id_machines_id_fk
+  FOREIGN KEY (machine_id) REFERENCES machines (id) ON DELETE RESTRICT;
+
+ALTER TABLE spc_rule_violations DROP CONSTRAINT IF EXISTS spc_rule_violations_measurement_id_spc_measurements_id_fk;
+ALTER TABLE spc_rule_violations
+ADD CONSTRAINT spc_rule_violations_measurement_id_spc_measurements_id_fk
+  FOREIGN KEY (measurement_id) REFERENCES spc_measurements (id) ON DELETE CASCADE;
+
+ALTER TABLE spc_rule_violations DROP CONSTRAINT IF EXISTS spc_rule_violations_characteristic_id_characteristics_id_fk;
+ALTER TABLE spc_rule_violations
+ADD CONSTRAINT spc_rule_violations_characteristic_id_characteristics_id_fk
+  FOREIGN KEY (characteristic_id) REFERENCES characteristics (id) ON DELETE RESTRICT;
+
+ALTER TABLE spc_rule_violations DROP CONSTRAINT IF EXISTS spc_rule_violations_machine_id_machines_id_fk;
+ALTER TABLE spc_rule_violations
+ADD CONSTRAINT spc_rule_violations_machine_id_machines_id_fk
+  FOREIGN KEY (machine_id) REFERENCES machines (id) ON DELETE RESTRICT;
+
+ALTER TABLE scrap_incidents DROP CONSTRAINT IF EXISTS scrap_incidents_machine_id_machines_id_fk;
+ALTER TABLE scrap_incidents
+ADD CONSTRAINT scrap_incidents_machine_id_machines_id_fk
+  FOREIGN KEY (machine_id) REFERENCES machines (id) ON DELETE RESTRICT;
+
+ALTER TABLE scrap_incidents DROP CONSTRAINT IF EXISTS scrap_incidents_part_id_parts_id_fk;
+ALTER TABLE scrap_incidents
+ADD CONSTRAINT scrap_incidents_part_id_parts_id_fk
+  FOREIGN KEY (part_id) REFERENCES parts (id) ON DELETE RESTRICT;
+
+-- The link migration adds this column too, but runs after this file on name order
+ALTER TABLE scrap_incidents
+ADD COLUMN IF NOT EXISTS characteristic_id varchar;
+
+ALTER TABLE scrap_incidents DROP CONSTRAINT IF EXISTS scrap_incidents_characteristic_id_characteristics_id_fk;
+ALTER TABLE scrap_incidents
+ADD CONSTRAINT scrap_incidents_characteristic_id_characteristics_id_fk
+  FOREIGN KEY (characteristic_id) REFERENCES characteristics (id) ON DELETE RESTRICT;
+
+-- Restrict checks on a part delete look incidents up by part
+CREATE INDEX IF NOT EXISTS scrap_incidents_part_idx
+  ON scrap_incidents (part_id);
@@ -0,0 +1,10 @@
+-- Subgroup size per characteristic (1 = individuals) and an optional explicit
+-- subgroup id on measurements taken together as one sample.
+ALTER TABLE characteristics
+ADD COLUMN IF NOT EXISTS subgroup_size integer NOT NULL DEFAULT 1;
+
+ALTER TABLE spc_measurements
+ADD COLUMN IF NOT EXISTS subgroup_id text;
+
+CREATE INDEX IF NOT EXISTS spc_measurements_subgroup_idx
+  ON spc_measurements (characteristic_id, subgroup_id);
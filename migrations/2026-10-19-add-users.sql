@@ -0,0 +1,26 @@
+-- Per-user accounts and login sessions, replacing the shared API password.
+-- The first admin is created at startup from INITIAL_ADMIN_USERNAME / INITIAL_ADMIN_PASSWORD.
+CREATE TABLE IF NOT EXISTS users (
+  id varchar PRIMARY KEY,
+  username text NOT NULL,
+  display_name text,
+  password_hash text NOT NULL,
+  role text NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  last_login_at text,
+  created_at text NOT NULL,
+  updated_at text NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS users_username_idx
+  ON users (username);
+
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id varchar PRIMARY KEY,
+  user_id varchar NOT NULL,
+  created_at text NOT NULL,
+  expires_at text NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS user_sessions_user_idx
+  ON user_sessions (user_id);
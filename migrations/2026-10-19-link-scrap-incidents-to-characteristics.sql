@@ -0,0 +1,32 @@
+-- Link scrap incidents to the characteristics master instead of free text.
+ALTER TABLE scrap_incidents
+ADD COLUMN IF NOT EXISTS characteristic_id varchar;
+
+CREATE INDEX IF NOT EXISTS scrap_incidents_characteristic_idx
+  ON scrap_incidents (characteristic_id);
+
+-- Match existing text to a characteristic of the incident's part. Case, spaces and punctuation
+-- are ignored, so "O.D." matches "OD". The text can be the number, the name, or "number – name".
+-- Incidents that match none or more than one characteristic stay unlinked and keep their text.
+WITH candidates AS (
+  SELECT si.id AS incident_id, c.id AS characteristic_id
+  FROM scrap_incidents si
+  JOIN characteristics c ON c.part_id = si.part_id
+  WHERE si.characteristic_id IS NULL
+    AND regexp_replace(lower(si.characteristic), '[^a-z0-9]', '', 'g') <> ''
+    AND regexp_replace(lower(si.characteristic), '[^a-z0-9]', '', 'g') IN (
+      regexp_replace(lower(c.char_number), '[^a-z0-9]', '', 'g'),
+      regexp_replace(lower(coalesce(c.char_name, '')), '[^a-z0-9]', '', 'g'),
+      regexp_replace(lower(c.char_number || coalesce(c.char_name, '')), '[^a-z0-9]', '', 'g')
+    )
+),
+unique_matches AS (
+  SELECT incident_id, min(characteristic_id) AS characteristic_id
+  FROM candidates
+  GROUP BY incident_id
+  HAVING count(DISTINCT characteristic_id) = 1
+)
+UPDATE scrap_incidents si
+SET characteristic_id = um.characteristic_id
+FROM unique_matches um
+WHERE si.id = um.incident_id;
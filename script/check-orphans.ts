@@ -0,0 +1,157 @@
+/**
+ * Report rows in SPC and scrap data that point at machines, parts, characteristics or
+ * measurements that no longer exist. Run before migrations/2026-10-19-add-spc-scrap-foreign-keys.sql,
+ * which cannot add its constraints while such rows exist.
+ * Usage: npx tsx script/check-orphans.ts [--repair]
+ *
+ * --repair puts archived placeholder machines, parts and characteristics in place of the
+ * missing ones, so no measurement or incident is lost and the placeholders show up in the
+ * recycle bin. Rule violations of a missing measurement are deleted: they are derived from it.
+ */
+import type { PoolClient } from "@neondatabase/serverless";
+import { pool } from "../server/db";
+
+type Relation = { table: string; column: string; parent: "machines" | "parts" | "characteristics" | "spc_measurements" };
+
+// Every reference the foreign key migration adds, children before parents
+const relations: Relation[] = [
+  { table: "characteristics", column: "part_id", parent: "parts" },
+  { table: "spc_measurements", column: "characteristic_id", parent: "characteristics" },
+  { table: "spc_measurements", column: "machine_id", parent: "machines" },
+  { table: "spc_rule_violations", column: "measurement_id", parent: "spc_measurements" },
+  { table: "spc_rule_violations", column: "characteristic_id", parent: "characteristics" },
+  { table: "spc_rule_violations", column: "machine_id", parent: "machines" },
+  { table: "scrap_incidents", column: "machine_id", parent: "machines" },
+  { table: "scrap_incidents", column: "part_id", parent: "parts" },
+  { table: "scrap_incidents", column: "characteristic_id", parent: "characteristics" },
+];
+
+const SAMPLE_SIZE = 10;
+
+// Ids a relation points at that its parent table does not have, with how many rows use each
+const missingIdsQuery = ({ table, column, parent }: Relation) => `
+  SELECT t.${column} AS missing_id, COUNT(*)::int AS row_count
+  FROM ${table} t
+  LEFT JOIN ${parent} p ON p.id = t.${column}
+  WHERE t.${column} IS NOT NULL AND p.id IS NULL
+  GROUP BY t.${column}
+  ORDER BY row_count DESC
+`;
+
+// Older databases may not have every column yet; the migration adds it empty
+async function presentRelations(client: PoolClient): Promise<Relation[]> {
+  const columns = await client.query(`
+    SELECT table_name || '.' || column_name AS name FROM information_schema.columns
+    WHERE table_schema = 'public'
+  `);
+  const existing = new Set(columns.rows.map((row: any) => row.name));
+  return relations.filter((relation) => {
+    const present = existing.has(`${relation.table}.${relation.column}`);
+    if (!present) console.log(`- ${relation.table}.${relation.column} does not exist yet`);
+    return present;
+  });
+}
+
+// Prints each relation's orphans and returns the number of orphaned rows
+async function report(client: PoolClient, checked: Relation[]): Promise<number> {
+  let total = 0;
+  for (const relation of checked) {
+    const result = await client.query(missingIdsQuery(relation));
+    const rows = result.rows.reduce((sum: number, row: any) => sum + row.row_count, 0);
+    total += rows;
+    const name = `${relation.table}.${relation.column} → ${relation.parent}.id`;
+    if (rows === 0) {
+      console.log(`✓ ${name}`);
+      continue;
+    }
+    console.log(`✗ ${name}: ${rows} rows point at ${result.rows.length} missing ids`);
+    for (const row of result.rows.slice(0, SAMPLE_SIZE)) {
+      console.log(`    ${row.missing_id} (${row.row_count} rows)`);
+    }
+    if (result.rows.length > SAMPLE_SIZE) console.log(`    ...and ${result.rows.length - SAMPLE_SIZE} more`);
+  }
+  return total;
+}
+
+// Union of the ids every relation to `parent` is missing
+const missingParentIds = (checked: Relation[], parent: Relation["parent"]) => checked
+  .filter((relation) => relation.parent === parent)
+  .map((relation) => `SELECT missing_id FROM (${missingIdsQuery(relation)}) m`)
+  .join(" UNION ");
+
+async function repair(client: PoolClient, checked: Relation[]) {
+  const now = new Date().toISOString();
+  await client.query(`BEGIN`);
+
+  // 1. Violations of a missing measurement cannot be recalculated or shown; delete them
+  const violations = await client.query(`
+    DELETE FROM spc_rule_violations v
+    WHERE NOT EXISTS (SELECT 1 FROM spc_measurements m WHERE m.id = v.measurement_id)
+  `);
+  console.log(`Rule violations of missing measurements deleted: ${violations.rowCount}`);
+
+  // 2. Archived placeholders keep the missing ids, so every row resolves again
+  const placeholderParts = await client.query(`
+    INSERT INTO parts (id, part_number, is_archived, archived_at, created_at)
+    SELECT missing_id, 'Missing part ' || left(missing_id, 8), true, $1, $1
+    FROM (${missingParentIds(checked, "parts")}) ids
+  `, [now]);
+  console.log(`Placeholder parts created: ${placeholderParts.rowCount}`);
+
+  const placeholderChars = await client.query(`
+    INSERT INTO characteristics (id, part_id, char_number, is_archived, archived_at, created_at)
+    SELECT missing_id, NULL, 'Missing ' || left(missing_id, 8), true, $1, $1
+    FROM (${missingParentIds(checked, "characteristics")}) ids
+  `, [now]);
+  console.log(`Placeholder characteristics created: ${placeholderChars.rowCount}`);
+
+  const placeholderMachines = await client.query(`
+    INSERT INTO machines (id, name, machine_id, status, is_archived, archived_at, created_at, updated_at)
+    SELECT missing_id, 'Missing machine', 'MISSING-' || left(missing_id, 8), 'idle', true, $1, $1, $1
+    FROM (${missingParentIds(checked, "machines")}) ids
+  `, [now]);
+  console.log(`Placeholder machines created: ${placeholderMachines.rowCount}`);
+
+  await client.query(`COMMIT`);
+}
+
+async function checkOrphans() {
+  const shouldRepair = process.argv.includes("--repair");
+  const client = await pool.connect();
+  try {
+    console.log("Checking SPC and scrap references...\n");
+    const checked = await presentRelations(client);
+    const orphans = await report(client, checked);
+
+    if (orphans === 0) {
+      console.log("\nNo orphaned rows. The foreign key migration can run.");
+      return;
+    }
+    if (!shouldRepair) {
+      console.log(`\n${orphans} orphaned rows. Run again with --repair to fix them.`);
+      process.exitCode = 1;
+      return;
+    }
+
+    console.log("\nRepairing...");
+    await repair(client, checked);
+
+    console.log("\nAfter repair:");
+    const remaining = await report(client, checked);
+    if (remaining > 0) {
+      console.log(`\n⚠ ${remaining} orphaned rows remain.`);
+      process.exitCode = 1;
+    } else {
+      console.log("\n✓ Repaired. Placeholders are in the recycle bin; reassign their rows, then purge them.");
+    }
+  } catch (err) {
+    await client.query(`ROLLBACK`);
+    console.error("Orphan check failed, rolled back:", err);
+    process.exitCode = 1;
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+checkOrphans();
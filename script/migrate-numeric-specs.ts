@@ -0,0 +1,211 @@
+/**
+ * Convert the text spec and measurement columns to numbers.
+ * Usage: npx tsx script/migrate-numeric-specs.ts [--dry-run] [--report unconverted.csv]
+ *
+ * The old text columns are kept as *_legacy so rows that could not be converted can be
+ * reviewed and fixed by hand; drop them once the report is clean.
+ */
+import { writeFileSync } from "fs";
+import { pool } from "../server/db";
+import {
+  completeSpec,
+  extractUnit,
+  isBlank,
+  parseDecimal,
+  parseSpecification,
+  parseTolerance,
+  type Tolerance,
+} from "../shared/numeric";
+import { findUnit } from "../shared/units";
+
+const BATCH_SIZE = 500;
+
+type Unconverted = { table: string; id: string; label: string; column: string; value: string };
+
+const args = process.argv.slice(2);
+const dryRun = args.includes("--dry-run");
+const reportIndex = args.indexOf("--report");
+const reportPath = reportIndex >= 0 ? args[reportIndex + 1] : undefined;
+
+// Parses one characteristic's legacy text fields; columns that did not convert are listed in `failed`
+function convertCharacteristic(row: Record<string, string | null>) {
+  const failed: string[] = [];
+  let nominal = parseDecimal(row.nominal_value_legacy);
+  let tolerance: Tolerance | null = parseTolerance(row.tolerance_legacy);
+
+  // A nominal written together with its tolerance, e.g. "10 ±0.1"
+  if (nominal === null && !isBlank(row.nominal_value_legacy)) {
+    const spec = parseSpecification(row.nominal_value_legacy);
+    if (spec) {
+      nominal = spec.nominal;
+      tolerance = tolerance ?? spec.tolerance;
+    } else {
+      failed.push("nominal_value");
+    }
+  }
+  if (tolerance === null && !isBlank(row.tolerance_legacy)) failed.push("tolerance");
+
+  const max = parseDecimal(row.char_max_legacy);
+  const min = parseDecimal(row.char_min_legacy);
+  if (max === null && !isBlank(row.char_max_legacy)) failed.push("char_max");
+  if (min === null && !isBlank(row.char_min_legacy)) failed.push("char_min");
+
+  // Stored as the catalog symbol when the unit is in the catalog ("MM" → "mm")
+  const written = [row.nominal_value_legacy, row.char_max_legacy, row.char_min_legacy]
+    .map((raw) => extractUnit(raw))
+    .find((found) => found !== null) ?? null;
+  const unit = written ? (findUnit(written)?.symbol ?? written) : null;
+
+  return { ...completeSpec({ nominal, max, min, tolerance }), unit, failed };
+}
+
+async function migrate() {
+  const client = await pool.connect();
+  const unconverted: Unconverted[] = [];
+  try {
+    console.log(`Starting numeric spec migration${dryRun ? " (dry run)" : ""}...\n`);
+
+    const typeCheck = await client.query(`
+      SELECT table_name, column_name, data_type FROM information_schema.columns
+      WHERE table_schema = 'public'
+        AND ((table_name = 'characteristics' AND column_name IN ('nominal_value', 'char_max', 'char_min', 'tolerance'))
+          OR (table_name = 'spc_measurements' AND column_name = 'measured_value'))
+    `);
+    const typeOf = new Map(typeCheck.rows.map((r: any) => [`${r.table_name}.${r.column_name}`, r.data_type as string]));
+    const convertCharacteristics = typeOf.get("characteristics.char_max") === "text";
+    const convertMeasurements = typeOf.get("spc_measurements.measured_value") === "text";
+
+    if (!convertCharacteristics && !convertMeasurements) {
+      console.log("Spec and measurement columns are already numeric. Nothing to migrate.");
+      return;
+    }
+
+    await client.query(`BEGIN`);
+
+    // 1. Characteristics: nominal, limits and tolerance text → numbers, plus a unit
+    if (convertCharacteristics) {
+      for (const column of ["nominal_value", "char_max", "char_min", "tolerance"]) {
+        if (typeOf.has(`characteristics.${column}`)) {
+          await client.query(`ALTER TABLE characteristics RENAME COLUMN ${column} TO ${column}_legacy`);
+        } else {
+          await client.query(`ALTER TABLE characteristics ADD COLUMN ${column}_legacy text`);
+        }
+      }
+      await client.query(`
+        ALTER TABLE characteristics
+          ADD COLUMN IF NOT EXISTS nominal_value double precision,
+          ADD COLUMN IF NOT EXISTS char_max double precision,
+          ADD COLUMN IF NOT EXISTS char_min double precision,
+          ADD COLUMN IF NOT EXISTS tolerance_upper double precision,
+          ADD COLUMN IF NOT EXISTS tolerance_lower double precision,
+          ADD COLUMN IF NOT EXISTS unit text
+      `);
+
+      const chars = await client.query(`
+        SELECT id, char_number, nominal_value_legacy, char_max_legacy, char_min_legacy, tolerance_legacy
+        FROM characteristics
+      `);
+      for (const row of chars.rows) {
+        const converted = convertCharacteristic(row);
+        await client.query(
+          `UPDATE characteristics
+           SET nominal_value = $2, char_max = $3, char_min = $4, tolerance_upper = $5, tolerance_lower = $6, unit = $7
+           WHERE id = $1`,
+          [
+            row.id,
+            converted.nominal,
+            converted.max,
+            converted.min,
+            converted.tolerance?.upper ?? null,
+            converted.tolerance?.lower ?? null,
+            converted.unit,
+          ],
+        );
+        converted.failed.forEach((column) => unconverted.push({
+          table: "characteristics",
+          id: row.id,
+          label: row.char_number,
+          column,
+          value: row[`${column}_legacy`],
+        }));
+      }
+      console.log(`Characteristics converted: ${chars.rowCount}`);
+    }
+
+    // 2. Measurements: measured_value text → number, left null where it does not parse
+    if (convertMeasurements) {
+      await client.query(`ALTER TABLE spc_measurements RENAME COLUMN measured_value TO measured_value_legacy`);
+      await client.query(`ALTER TABLE spc_measurements ALTER COLUMN measured_value_legacy DROP NOT NULL`);
+      await client.query(`ALTER TABLE spc_measurements ADD COLUMN IF NOT EXISTS measured_value double precision`);
+
+      const measurements = await client.query(`
+        SELECT m.id, m.measured_value_legacy, c.char_number
+        FROM spc_measurements m
+        LEFT JOIN characteristics c ON c.id = m.characteristic_id
+      `);
+      const ids: string[] = [];
+      const values: number[] = [];
+      for (const row of measurements.rows) {
+        const value = parseDecimal(row.measured_value_legacy);
+        if (value === null) {
+          unconverted.push({
+            table: "spc_measurements",
+            id: row.id,
+            label: row.char_number ?? "(unknown)",
+            column: "measured_value",
+            value: row.measured_value_legacy ?? "",
+          });
+        } else {
+          ids.push(row.id);
+          values.push(value);
+        }
+      }
+      for (let start = 0; start < ids.length; start += BATCH_SIZE) {
+        await client.query(
+          `UPDATE spc_measurements m SET measured_value = v.value
+           FROM unnest($1::varchar[], $2::double precision[]) AS v(id, value)
+           WHERE m.id = v.id`,
+          [ids.slice(start, start + BATCH_SIZE), values.slice(start, start + BATCH_SIZE)],
+        );
+      }
+      console.log(`Measurements converted: ${ids.length} of ${measurements.rowCount}`);
+    }
+
+    // 3. Report what could not be converted
+    if (unconverted.length === 0) {
+      console.log("\n✓ Every value converted.");
+    } else {
+      console.log(`\n⚠ ${unconverted.length} value(s) could not be converted and were left empty:`);
+      unconverted.slice(0, 20).forEach((entry) => {
+        console.log(`  ${entry.table} ${entry.id} (${entry.label}) ${entry.column}: "${entry.value}"`);
+      });
+      if (unconverted.length > 20) console.log(`  ...and ${unconverted.length - 20} more`);
+      if (reportPath) {
+        const quote = (value: string) => `"${String(value ?? "").replace(/"/g, '""')}"`;
+        const lines = [
+          "table,id,label,column,value",
+          ...unconverted.map((entry) => [entry.table, entry.id, entry.label, entry.column, entry.value].map(quote).join(",")),
+        ];
+        writeFileSync(reportPath, `${lines.join("\n")}\n`);
+        console.log(`Full list written to ${reportPath}`);
+      }
+    }
+
+    if (dryRun) {
+      await client.query(`ROLLBACK`);
+      console.log("\nDry run: rolled back, nothing was changed.");
+      return;
+    }
+
+    await client.query(`COMMIT`);
+    console.log("\nMigration complete! The original text is kept in the *_legacy columns for review.");
+  } catch (err) {
+    await client.query(`ROLLBACK`);
+    console.error("Migration failed, rolled back:", err);
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+migrate();
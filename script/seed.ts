@@ -1,6 +1,6 @@
 import "dotenv/config";
 import { db } from "../server/db";
-import { machines, cellConfigurations, scrapIncidents } from "../shared/schema";
+import { machines, cellConfigurations, scrapIncidents, spcMeasurements, spcRuleViolations } from "../shared/schema";
 import { randomUUID } from "crypto";
 
 const machineStatuses = ["running", "idle", "maintenance", "down", "setup"] as const;
@@ -96,11 +96,14 @@ async function seed() {
   console.log("🌱 Seeding database with dummy data...\n");
 
   try {
-    // Clear existing machines and cells and insert a small set
+    // Clear existing machines and cells and insert a small set.
+    // Rows that reference machines go first: foreign keys keep them from being orphaned.
     console.log("🗑️  Clearing machines/cells and seeding baseline data...");
-    await db.delete(machines);
-    await db.delete(cellConfigurations);
     await db.delete(scrapIncidents);
+    await db.delete(spcRuleViolations);
+    await db.delete(spcMeasurements);
+    await db.delete(cellConfigurations);
+    await db.delete(machines);
 
     console.log("🏭 Creating machines...");
     const createdMachineIds: string[] = [];
@@ -113,7 +116,6 @@ async function seed() {
         name: machine.name,
         machineId: machine.machineId,
         status,
-        cell: null,
         idealCycleTime: machine.cycleTime,
         batchSize: null,
         uptimePercent: null,
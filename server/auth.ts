@@ -0,0 +1,136 @@
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import type { NextFunction, Request, Response } from "express";
+import { storage } from "./storage";
+import { runAsActor } from "./change-log";
+import { roleAtLeast, userRoleLabels, type LoginResponse, type PublicUser, type User, type UserRole } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by authenticate for every /api request except login
+      currentUser?: PublicUser;
+      sessionId?: string;
+    }
+  }
+}
+
+// Tokens signed with a generated secret stop working when the server restarts
+const SESSION_SECRET = process.env.SESSION_SECRET || randomBytes(32).toString("hex");
+if (!process.env.SESSION_SECRET) {
+  console.warn("SESSION_SECRET is not set; sessions will not survive a server restart.");
+}
+const SESSION_TTL_HOURS = Number(process.env.SESSION_TTL_HOURS) || 12;
+
+// Paths under /api that do not need a session
+const PUBLIC_PATHS = new Set(["/auth/login"]);
+
+const scryptKey = (password: string, salt: Buffer) =>
+  new Promise<Buffer>((resolve, reject) =>
+    scrypt(password, salt, 64, (err, key) => (err ? reject(err) : resolve(key))));
+
+// Stored as scrypt$<salt>$<key>, both hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scryptKey(password, salt);
+  return `scrypt$${salt.toString("hex")}$${key.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, expected] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !expected) return false;
+  const key = await scryptKey(password, Buffer.from(salt, "hex"));
+  const expectedKey = Buffer.from(expected, "hex");
+  return key.length === expectedKey.length && timingSafeEqual(key, expectedKey);
+}
+
+// Checked against unknown usernames so they take as long to reject as wrong passwords
+const unknownUserHash = hashPassword(randomBytes(16).toString("hex"));
+
+export function publicUser(user: User): PublicUser {
+  const { passwordHash: _passwordHash, ...rest } = user;
+  return rest;
+}
+
+const sign = (sessionId: string) => createHmac("sha256", SESSION_SECRET).update(sessionId).digest("base64url");
+
+// A token is the session id and its signature; the session row holds the user and expiry
+function sessionIdFromToken(token: string): string | null {
+  const [sessionId, signature] = token.split(".");
+  if (!sessionId || !signature) return null;
+  const expected = Buffer.from(sign(sessionId));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && timingSafeEqual(expected, given) ? sessionId : null;
+}
+
+// Returns undefined for an unknown username, a wrong password or a deactivated user alike
+export async function login(username: string, password: string): Promise<LoginResponse | undefined> {
+  const user = await storage.getUserByUsername(username);
+  const valid = await verifyPassword(password, user?.passwordHash ?? await unknownUserHash);
+  if (!user || !valid || !user.isActive) return undefined;
+
+  const expiresAt = new Date(Date.now() + SESSION_TTL_HOURS * 3600 * 1000).toISOString();
+  const session = await storage.createUserSession(user.id, expiresAt);
+  const updated = await storage.updateUser(user.id, { lastLoginAt: session.createdAt });
+  return { token: `${session.id}.${sign(session.id)}`, expiresAt, user: publicUser(updated ?? user) };
+}
+
+export async function authenticate(req: Request, res: Response, next: NextFunction) {
+  // Preflight requests are already handled in index.ts; allow OPTIONS through
+  if (req.method === "OPTIONS" || PUBLIC_PATHS.has(req.path)) return next();
+
+  const header = req.headers.authorization;
+  const sessionId = header?.startsWith("Bearer ") ? sessionIdFromToken(header.slice(7)) : null;
+  if (!sessionId) {
+    return res.status(401).json({ message: "Unauthorized: Missing or invalid session token." });
+  }
+  try {
+    const session = await storage.getUserSession(sessionId);
+    if (!session || session.expiresAt <= new Date().toISOString()) {
+      if (session) await storage.deleteUserSession(session.id);
+      return res.status(401).json({ message: "Unauthorized: Session expired, please log in again." });
+    }
+    const user = await storage.getUser(session.userId);
+    if (!user || !user.isActive) {
+      return res.status(401).json({ message: "Unauthorized: User is deactivated." });
+    }
+    req.currentUser = publicUser(user);
+    req.sessionId = session.id;
+    next();
+  } catch (err) {
+    console.error("Error checking session", err);
+    res.status(500).json({ message: "Failed to check session" });
+  }
+}
+
+// Makes the signed-in user the actor of the changes this request makes. Registered after the body
+// parsers, whose stream callbacks would otherwise run outside the actor's context.
+export function bindActor(req: Request, _res: Response, next: NextFunction) {
+  if (!req.currentUser) return next();
+  runAsActor({ id: req.currentUser.id, name: req.currentUser.username }, next);
+}
+
+// Route guard; roles above the minimum are allowed too
+export const requireRole = (minimum: UserRole) => (req: Request, res: Response, next: NextFunction) => {
+  if (!req.currentUser) {
+    return res.status(401).json({ message: "Unauthorized: Missing or invalid session token." });
+  }
+  if (!roleAtLeast(req.currentUser.role, minimum)) {
+    const needed = minimum === "admin" ? "Admin" : `${userRoleLabels[minimum]} or higher`;
+    return res.status(403).json({ message: `Forbidden: This needs the ${needed} role.` });
+  }
+  next();
+};
+
+// Creates the first admin from INITIAL_ADMIN_USERNAME / INITIAL_ADMIN_PASSWORD while there are no users
+export async function ensureInitialAdmin() {
+  const existing = await storage.getUsers();
+  if (existing.length > 0) return;
+  const password = process.env.INITIAL_ADMIN_PASSWORD;
+  if (!password) {
+    console.warn("No users exist. Set INITIAL_ADMIN_PASSWORD to create the first admin account.");
+    return;
+  }
+  const username = process.env.INITIAL_ADMIN_USERNAME || "admin";
+  await storage.createUser({ username, displayName: "Administrator", role: "admin", passwordHash: await hashPassword(password) });
+  console.log(`Created initial admin user "${username}"`);
+}
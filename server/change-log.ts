@@ -0,0 +1,57 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { ChangeLogEntityType, FieldChanges } from "@shared/schema";
+
+export type Actor = { id: string; name: string };
+
+// The signed-in user of the request being handled, so storage can record who made a change
+// without every method taking the user as a parameter. Work started from a request, like a
+// scheduled scrap cost recalculation, is attributed to that request's user.
+const actorContext = new AsyncLocalStorage<Actor>();
+
+export const runAsActor = (actor: Actor, fn: () => void) => actorContext.run(actor, fn);
+
+export const currentActor = (): Actor | null => actorContext.getStore() ?? null;
+
+// Bookkeeping fields that change on every write
+const IGNORED_FIELDS = new Set(["createdAt", "updatedAt", "lastLoginAt"]);
+// Recorded as changed without their values
+const REDACTED_FIELDS = new Set(["passwordHash"]);
+const REDACTED = "(hidden)";
+
+// Field-level differences between two versions of a record; either side may be missing for
+// a create or delete. Values are compared as JSON so jsonb columns compare by content.
+export function fieldChanges(before: object | null | undefined, after: object | null | undefined): FieldChanges {
+  const left = (before ?? {}) as Record<string, unknown>;
+  const right = (after ?? {}) as Record<string, unknown>;
+  const changes: FieldChanges = {};
+  for (const field of Array.from(new Set([...Object.keys(left), ...Object.keys(right)]))) {
+    if (IGNORED_FIELDS.has(field) || field === "id") continue;
+    const from = left[field] ?? null;
+    const to = right[field] ?? null;
+    if (JSON.stringify(from) === JSON.stringify(to)) continue;
+    changes[field] = REDACTED_FIELDS.has(field)
+      ? { before: before ? REDACTED : null, after: after ? REDACTED : null }
+      : { before: before ? from : null, after: after ? to : null };
+  }
+  return changes;
+}
+
+// A readable name for the record, kept with the entry so it still reads after a delete or rename
+export function changeLogLabel(entityType: ChangeLogEntityType, record: Record<string, any>): string | null {
+  switch (entityType) {
+    case "machine":
+      return record.machineId ? `${record.name} (${record.machineId})` : record.name ?? null;
+    case "characteristic":
+      return [record.charNumber, record.charName].filter(Boolean).join(" ") || null;
+    case "holiday":
+      return [record.date, record.name].filter(Boolean).join(" ") || null;
+    case "downtime_log":
+      return [record.reasonCode, record.startTime].filter(Boolean).join(" at ") || null;
+    case "production_count":
+      return record.periodStart ?? null;
+    case "scrap_incident":
+      return record.characteristic || null;
+    default:
+      return record.name ?? record.partNumber ?? record.gaugeNumber ?? record.code ?? record.username ?? null;
+  }
+}
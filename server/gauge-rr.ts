@@ -0,0 +1,230 @@
+import { storage } from "./storage";
+import type { Characteristic, GaugeRrAnovaRow, GaugeRrComponents, GaugeRrResult, GaugeStudy } from "@shared/schema";
+
+// Study variation is taken as 6 standard deviations, as in the AIAG MSA manual
+const STUDY_SPREAD = 6;
+
+// An operator × part interaction less significant than this is pooled into repeatability
+const INTERACTION_ALPHA = 0.25;
+
+// d2 for a range of `n` trials (K1 = 1 / d2)
+const D2: Record<number, number> = { 2: 1.128, 3: 1.693, 4: 2.059, 5: 2.326, 6: 2.534, 7: 2.704, 8: 2.847, 9: 2.970, 10: 3.078 };
+
+// d2* for a single range of `m` averages, used for the operator (K2) and part (K3) constants
+const D2_STAR_SINGLE: Record<number, number> = {
+  2: 1.41421, 3: 1.91155, 4: 2.23887, 5: 2.48124, 6: 2.67253, 7: 2.82981, 8: 2.96288,
+  9: 3.07794, 10: 3.17905, 11: 3.26909, 12: 3.35016, 13: 3.42378, 14: 3.49116, 15: 3.55333,
+};
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+const range = (values: number[]) => Math.max(...values) - Math.min(...values);
+
+// Natural log of the gamma function (Lanczos approximation)
+function logGamma(x: number): number {
+  const coefficients = [76.18009172947146, -86.50532032941677, 24.01409824083091, -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  coefficients.forEach((coefficient) => { series += coefficient / ++y; });
+  return -tmp + Math.log(2.5066282746310005 * series / x);
+}
+
+// Continued fraction for the incomplete beta function
+function betaFraction(a: number, b: number, x: number): number {
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - (a + b) * x / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let aa = m * (b - m) * x / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+    aa = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 3e-12) break;
+  }
+  return h;
+}
+
+// Regularized incomplete beta function I_x(a, b)
+function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? front * betaFraction(a, b, x) / a
+    : 1 - front * betaFraction(b, a, 1 - x) / b;
+}
+
+// P(F > f) for an F distribution with (df1, df2) degrees of freedom
+function fTailProbability(f: number, df1: number, df2: number): number {
+  if (!Number.isFinite(f)) return 0;
+  if (f <= 0) return 1;
+  return incompleteBeta(df2 / (df2 + df1 * f), df2 / 2, df1 / 2);
+}
+
+function components(
+  repeatability: number,
+  reproducibility: number,
+  partVariation: number,
+  tolerance: number | null,
+): GaugeRrComponents {
+  const grr = Math.sqrt(repeatability ** 2 + reproducibility ** 2);
+  const totalVariation = Math.sqrt(grr ** 2 + partVariation ** 2);
+  const percentOf = (value: number) => (totalVariation > 0 ? (100 * value) / totalVariation : null);
+  return {
+    repeatability,
+    reproducibility,
+    grr,
+    partVariation,
+    totalVariation,
+    percentRepeatability: percentOf(repeatability),
+    percentReproducibility: percentOf(reproducibility),
+    percentGrr: percentOf(grr),
+    percentPartVariation: percentOf(partVariation),
+    percentTolerance: tolerance ? (100 * STUDY_SPREAD * grr) / tolerance : null,
+    // ndc = 1.41 × PV / GRR, truncated; a perfect gauge has no finite value
+    ndc: grr > 0 ? Math.max(1, Math.floor((1.41 * partVariation) / grr)) : null,
+  };
+}
+
+// `values[operator][part][trial]`, all present
+function averageAndRange(values: number[][][], tolerance: number | null) {
+  const operators = values.length;
+  const parts = values[0].length;
+  const trials = values[0][0].length;
+
+  const operatorRanges = values.map((byPart) => mean(byPart.map(range)));
+  const repeatability = mean(operatorRanges) / D2[trials];
+
+  const operatorAverages = values.map((byPart) => mean(byPart.flat()));
+  const appraiserSpread = range(operatorAverages) / D2_STAR_SINGLE[operators];
+  const reproducibility = Math.sqrt(Math.max(0, appraiserSpread ** 2 - repeatability ** 2 / (parts * trials)));
+
+  const partAverages = Array.from({ length: parts }, (_, part) => mean(values.flatMap((byPart) => byPart[part])));
+  const partVariation = range(partAverages) / D2_STAR_SINGLE[parts];
+
+  return components(repeatability, reproducibility, partVariation, tolerance);
+}
+
+// Two-way crossed ANOVA with operator × part interaction
+function anova(values: number[][][], tolerance: number | null) {
+  const operators = values.length;
+  const parts = values[0].length;
+  const trials = values[0][0].length;
+  const all = values.flat(2);
+  const grand = mean(all);
+
+  const operatorMeans = values.map((byPart) => mean(byPart.flat()));
+  const partMeans = Array.from({ length: parts }, (_, part) => mean(values.flatMap((byPart) => byPart[part])));
+  const cellMeans = values.map((byPart) => byPart.map(mean));
+
+  const ssTotal = all.reduce((sum, value) => sum + (value - grand) ** 2, 0);
+  const ssOperator = parts * trials * operatorMeans.reduce((sum, value) => sum + (value - grand) ** 2, 0);
+  const ssPart = operators * trials * partMeans.reduce((sum, value) => sum + (value - grand) ** 2, 0);
+  const ssRepeat = values.reduce((sum, byPart, operator) =>
+    sum + byPart.reduce((partSum, readings, part) =>
+      partSum + readings.reduce((cellSum, value) => cellSum + (value - cellMeans[operator][part]) ** 2, 0), 0), 0);
+  const ssInteraction = Math.max(0, ssTotal - ssOperator - ssPart - ssRepeat);
+
+  const dfOperator = operators - 1;
+  const dfPart = parts - 1;
+  const dfInteraction = dfOperator * dfPart;
+  const dfRepeat = operators * parts * (trials - 1);
+
+  const msOperator = ssOperator / dfOperator;
+  const msPart = ssPart / dfPart;
+  const msInteraction = ssInteraction / dfInteraction;
+  const msRepeat = ssRepeat / dfRepeat;
+
+  const fInteraction = msRepeat > 0 ? msInteraction / msRepeat : null;
+  const pInteraction = fInteraction === null ? null : fTailProbability(fInteraction, dfInteraction, dfRepeat);
+  const interactionPooled = pInteraction === null || pInteraction > INTERACTION_ALPHA;
+
+  // Operator and part effects are tested against the interaction, or against the pooled error without it
+  const msError = interactionPooled ? (ssInteraction + ssRepeat) / (dfInteraction + dfRepeat) : msInteraction;
+  const dfError = interactionPooled ? dfInteraction + dfRepeat : dfInteraction;
+  const fTest = (ms: number, df: number) => {
+    if (msError <= 0) return { f: null, p: null };
+    const f = ms / msError;
+    return { f, p: fTailProbability(f, df, dfError) };
+  };
+
+  const table: GaugeRrAnovaRow[] = [
+    { source: "Part", df: dfPart, ss: ssPart, ms: msPart, ...fTest(msPart, dfPart) },
+    { source: "Operator", df: dfOperator, ss: ssOperator, ms: msOperator, ...fTest(msOperator, dfOperator) },
+    { source: "Part × Operator", df: dfInteraction, ss: ssInteraction, ms: msInteraction, f: fInteraction, p: pInteraction },
+    { source: "Repeatability", df: dfRepeat, ss: ssRepeat, ms: msRepeat, f: null, p: null },
+    { source: "Total", df: operators * parts * trials - 1, ss: ssTotal, ms: null, f: null, p: null },
+  ];
+
+  const repeatVariance = interactionPooled ? msError : msRepeat;
+  const interactionVariance = interactionPooled ? 0 : Math.max(0, (msInteraction - msRepeat) / trials);
+  const operatorVariance = Math.max(0, (msOperator - msError) / (parts * trials));
+  const partVariance = Math.max(0, (msPart - msError) / (operators * trials));
+
+  return {
+    ...components(
+      Math.sqrt(repeatVariance),
+      Math.sqrt(operatorVariance + interactionVariance),
+      Math.sqrt(partVariance),
+      tolerance,
+    ),
+    table,
+    interactionPooled,
+  };
+}
+
+export function analyzeGaugeStudy(study: GaugeStudy, characteristic: Characteristic | undefined): GaugeRrResult {
+  const readings = study.readings;
+  const missingReadings = readings.flat(2).filter((value) => value === null || value === undefined).length;
+  const tolerance = characteristic?.charMax != null && characteristic?.charMin != null && characteristic.charMax > characteristic.charMin
+    ? characteristic.charMax - characteristic.charMin
+    : null;
+
+  if (missingReadings > 0) {
+    return {
+      studyId: study.id,
+      complete: false,
+      missingReadings,
+      tolerance,
+      operatorAverages: [],
+      operatorRanges: [],
+      partAverages: [],
+      averageRange: null,
+      anova: null,
+    };
+  }
+
+  const values = readings as number[][][];
+  return {
+    studyId: study.id,
+    complete: true,
+    missingReadings: 0,
+    tolerance,
+    operatorAverages: values.map((byPart) => mean(byPart.flat())),
+    operatorRanges: values.map((byPart) => mean(byPart.map(range))),
+    partAverages: Array.from({ length: study.partCount }, (_, part) => mean(values.flatMap((byPart) => byPart[part]))),
+    averageRange: averageAndRange(values, tolerance),
+    anova: anova(values, tolerance),
+  };
+}
+
+export async function calculateGaugeStudy(id: string): Promise<GaugeRrResult | undefined> {
+  const study = await storage.getGaugeStudy(id);
+  if (!study) return undefined;
+  return analyzeGaugeStudy(study, await storage.getCharacteristic(study.characteristicId));
+}
@@ -6,6 +6,7 @@ import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
 import { createServer } from "http";
 import { pool } from "./db";
+import { authenticate, bindActor, ensureInitialAdmin } from "./auth";
 
 const app = express();
 const httpServer = createServer(app);
@@ -32,13 +33,13 @@ app.options("/api/*", (req, res) => {
     res.setHeader("Access-Control-Allow-Methods", "GET,POST,PUT,PATCH,DELETE,OPTIONS");
     res.setHeader(
       "Access-Control-Allow-Headers",
-      "Content-Type,Authorization,Cache-Control,Pragma,x-api-password",
+      "Content-Type,Authorization,Cache-Control,Pragma",
     );
   }
   res.status(204).end();
 });
 
-// NOTE: API password middleware is registered later, after CORS/preflight handlers,
+// NOTE: Session middleware is registered later, after CORS/preflight handlers,
 // so preflight OPTIONS requests are handled and do not get rejected by auth.
 
 app.use(
@@ -74,7 +75,7 @@ app.use((req, res, next) => {
     );
     res.setHeader(
       "Access-Control-Allow-Headers",
-      "Content-Type,Authorization,Cache-Control,Pragma,x-api-password",
+      "Content-Type,Authorization,Cache-Control,Pragma",
     );
   }
 
@@ -87,18 +88,8 @@ app.use((req, res, next) => {
   next();
 });
 
-// Password protection middleware for all API routes
-const API_PASSWORD = process.env.API_PASSWORD || "changeme"; // Set your password here or in .env
-app.use("/api", (req, res, next) => {
-  // Preflight requests are already handled above; allow OPTIONS through
-  if (req.method === "OPTIONS") return next();
-
-  const password = req.headers["x-api-password"] as string | undefined;
-  if (!password || password !== API_PASSWORD) {
-    return res.status(401).json({ message: "Unauthorized: Invalid or missing API password." });
-  }
-  next();
-});
+// Every API route except login needs a session token; routes check the user's role themselves
+app.use("/api", authenticate);
 
 // Rate limiting to prevent abuse
 const limiter = rateLimit({
@@ -111,8 +102,21 @@ const limiter = rateLimit({
 
 app.use("/api/", limiter);
 
+// Tighter limit on login attempts to slow down password guessing
+const loginLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  message: "Too many login attempts, please try again later.",
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+app.use("/api/auth/login", loginLimiter);
+
 app.use(
   express.json({
+    // Bulk imports send tens of thousands of rows in one body
+    limit: "25mb",
     verify: (req, _res, buf) => {
       req.rawBody = buf;
     },
@@ -121,6 +125,8 @@ app.use(
 
 app.use(express.urlencoded({ extended: false }));
 
+app.use("/api", bindActor);
+
 export function log(message: string, source = "express") {
   const formattedTime = new Date().toLocaleTimeString("en-US", {
     hour: "numeric",
@@ -169,8 +175,9 @@ app.use((req, res, next) => {
 (async () => {
   async function ensureTables() {
     try {
-      // No-op: older auto-created tables (downtime_logs, events, event_tasks, event_members)
-      // were removed from the data model. Migrations handle dropping them. Nothing to ensure at runtime.
+      // Older auto-created tables (events, event_tasks, event_members) were removed from the data
+      // model, and tables are now created by migration. Only the first admin account is ensured.
+      await ensureInitialAdmin();
     } catch (err) {
       console.error("Table ensure skipped:", err);
     }
@@ -0,0 +1,239 @@
+import { storage } from "./storage";
+import type {
+  CellConfiguration,
+  CellOeeResult,
+  DowntimeLog,
+  Machine,
+  MachineStatus,
+  MachineStatusEvent,
+  OeeResult,
+  ProductionCount,
+  ScrapIncident,
+} from "@shared/schema";
+
+// Statuses that count as stop time against availability. Idle is treated as available
+// time the machine was not loaded, which shows up as a performance loss instead.
+const stopStatuses: MachineStatus[] = ["down", "maintenance", "setup"];
+
+type Interval = { start: number; end: number };
+
+const MINUTE_MS = 60 * 1000;
+
+function mergeIntervals(intervals: Interval[]): Interval[] {
+  const sorted = intervals
+    .filter((interval) => interval.end > interval.start)
+    .sort((left, right) => left.start - right.start);
+  const merged: Interval[] = [];
+  sorted.forEach((interval) => {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  });
+  return merged;
+}
+
+function clip(interval: Interval, window: Interval): Interval {
+  return {
+    start: Math.max(interval.start, window.start),
+    end: Math.min(interval.end, window.end),
+  };
+}
+
+// Intervals spent in a stop status. `events` are the transitions from the window start onward;
+// the status before the first one is that event's fromStatus, and after the last one the
+// machine is still in its current status.
+function statusStopIntervals(events: MachineStatusEvent[], currentStatus: MachineStatus, window: Interval): Interval[] {
+  const intervals: Interval[] = [];
+  let cursor = window.start;
+  let status: MachineStatus | null = events.length > 0 ? events[0].fromStatus : currentStatus;
+
+  events.forEach((event) => {
+    const at = new Date(event.createdAt).getTime();
+    if (status && stopStatuses.includes(status)) {
+      intervals.push({ start: cursor, end: at });
+    }
+    cursor = at;
+    status = event.toStatus;
+  });
+  if (status && stopStatuses.includes(status)) {
+    intervals.push({ start: cursor, end: window.end });
+  }
+  return intervals.map((interval) => clip(interval, window));
+}
+
+function downtimeLogIntervals(logs: DowntimeLog[], window: Interval, now: number): Interval[] {
+  return logs.map((log) => clip({
+    start: new Date(log.startTime).getTime(),
+    end: log.endTime ? new Date(log.endTime).getTime() : now,
+  }, window));
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const localDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+// When an incident happened. A bare `dateCreated` is a local day, timed by `createdAt` when the
+// entry was made that same day and otherwise taken as its local midnight.
+function incidentTime(incident: ScrapIncident): number {
+  const rawDate = incident.dateCreated || incident.createdAt;
+  if (!DATE_ONLY.test(rawDate)) return new Date(rawDate).getTime();
+  const createdAt = new Date(incident.createdAt);
+  if (!Number.isNaN(createdAt.getTime()) && localDateKey(createdAt) === rawDate) return createdAt.getTime();
+  const [y, m, d] = rawDate.split("-").map(Number);
+  return new Date(y, m - 1, d).getTime();
+}
+
+function scrapQuantityInWindow(incidents: ScrapIncident[], window: Interval): number {
+  return incidents.reduce((sum, incident) => {
+    const at = incidentTime(incident);
+    if (Number.isNaN(at) || at < window.start || at > window.end) return sum;
+    return sum + (incident.quantity || 0);
+  }, 0);
+}
+
+// Counts whose period straddles the window edge are prorated by the overlapping share
+function countsInWindow(counts: ProductionCount[], window: Interval): { good: number; total: number } | null {
+  if (counts.length === 0) return null;
+  return counts.reduce((totals, count) => {
+    const start = new Date(count.periodStart).getTime();
+    const end = new Date(count.periodEnd).getTime();
+    const overlap = clip({ start, end }, window);
+    if (overlap.end <= overlap.start || end <= start) return totals;
+    const share = (overlap.end - overlap.start) / (end - start);
+    return {
+      good: totals.good + count.goodQuantity * share,
+      total: totals.total + count.totalQuantity * share,
+    };
+  }, { good: 0, total: 0 });
+}
+
+const ratio = (numerator: number, denominator: number): number | null =>
+  denominator > 0 ? numerator / denominator : null;
+
+// Parts produced and parts scrapped that quality is taken over. Without counts, parts produced
+// is what the run time yields at the ideal cycle time. Rejects in the counts and scrap incidents
+// describe the same parts, so the larger of the two is the scrap rather than their sum.
+type QualityInputs = Pick<OeeResult, "goodCount" | "totalCount" | "scrapQuantity" | "runMinutes" | "idealCycleTime">;
+
+function qualityBase(result: QualityInputs): { produced: number; scrapped: number } | null {
+  const produced = result.totalCount ?? (result.idealCycleTime ? result.runMinutes * 60 / result.idealCycleTime : null);
+  if (produced === null) return null;
+  const rejected = result.goodCount !== null && result.totalCount !== null ? result.totalCount - result.goodCount : 0;
+  return { produced, scrapped: Math.min(produced, Math.max(rejected, result.scrapQuantity)) };
+}
+
+function combine(availability: number | null, performance: number | null, quality: number | null): number | null {
+  if (availability === null || performance === null || quality === null) return null;
+  return availability * performance * quality;
+}
+
+export async function calculateMachineOee(machine: Machine, from: Date, to: Date): Promise<OeeResult> {
+  const now = Date.now();
+  // Time before the machine existed is not planned production time
+  const window: Interval = {
+    start: Math.max(from.getTime(), new Date(machine.createdAt).getTime()),
+    end: Math.min(to.getTime(), now),
+  };
+
+  const [events, downtimeLogs, incidents, counts] = await Promise.all([
+    storage.getMachineStatusEvents(machine.id, { from: new Date(window.start).toISOString() }),
+    storage.getDowntimeLogsByMachine(machine.id),
+    storage.getScrapIncidentsByMachine(machine.id),
+    storage.getProductionCounts({
+      machineId: machine.id,
+      from: new Date(window.start).toISOString(),
+      to: new Date(window.end).toISOString(),
+    }),
+  ]);
+
+  const plannedMs = Math.max(0, window.end - window.start);
+  const stopMs = plannedMs === 0 ? 0 : mergeIntervals([
+    ...statusStopIntervals(events, machine.status, window),
+    ...downtimeLogIntervals(downtimeLogs, window, now),
+  ]).reduce((sum, interval) => sum + (interval.end - interval.start), 0);
+  const runMs = plannedMs - stopMs;
+
+  const produced = countsInWindow(counts, window);
+  const goodCount = produced ? produced.good : null;
+  const totalCount = produced ? produced.total : null;
+  const scrapQuantity = scrapQuantityInWindow(incidents, window);
+
+  const availability = ratio(runMs, plannedMs);
+  const performance = machine.idealCycleTime && totalCount !== null
+    ? ratio(machine.idealCycleTime * 1000 * totalCount, runMs)
+    : null;
+  const base = qualityBase({ goodCount, totalCount, scrapQuantity, runMinutes: runMs / MINUTE_MS, idealCycleTime: machine.idealCycleTime ?? null });
+  const quality = base ? ratio(base.produced - base.scrapped, base.produced) : null;
+
+  return {
+    machineId: machine.id,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    plannedMinutes: plannedMs / MINUTE_MS,
+    stopMinutes: stopMs / MINUTE_MS,
+    runMinutes: runMs / MINUTE_MS,
+    idealCycleTime: machine.idealCycleTime ?? null,
+    goodCount,
+    totalCount,
+    scrapQuantity,
+    availability,
+    performance,
+    quality,
+    oee: combine(availability, performance, quality),
+  };
+}
+
+// Cell OEE pools the machines' time and counts rather than averaging their ratios,
+// so a machine with little planned time does not skew the result.
+export async function calculateCellOee(cell: CellConfiguration, from: Date, to: Date): Promise<CellOeeResult> {
+  const operations = Array.isArray(cell.operationsJson)
+    ? cell.operationsJson as Array<{ machineIds?: string[] }>
+    : [];
+  const machineIds = Array.from(new Set(operations.flatMap((operation) => operation.machineIds ?? [])));
+
+  const machines = (await Promise.all(machineIds.map((id) => storage.getMachine(id))))
+    .filter((machine): machine is Machine => !!machine);
+  const results = await Promise.all(machines.map((machine) => calculateMachineOee(machine, from, to)));
+
+  const sum = (pick: (result: OeeResult) => number) => results.reduce((total, result) => total + pick(result), 0);
+  const plannedMinutes = sum((result) => result.plannedMinutes);
+  const stopMinutes = sum((result) => result.stopMinutes);
+  const runMinutes = sum((result) => result.runMinutes);
+  const scrapQuantity = sum((result) => result.scrapQuantity);
+
+  const counted = results.filter((result) => result.goodCount !== null && result.totalCount !== null);
+  const goodCount = counted.length > 0 ? counted.reduce((total, result) => total + result.goodCount!, 0) : null;
+  const totalCount = counted.length > 0 ? counted.reduce((total, result) => total + result.totalCount!, 0) : null;
+
+  const timed = results.filter((result) => result.performance !== null);
+  const idealMinutes = timed.reduce((total, result) => total + result.performance! * result.runMinutes, 0);
+  const timedRunMinutes = timed.reduce((total, result) => total + result.runMinutes, 0);
+
+  const availability = ratio(runMinutes, plannedMinutes);
+  const performance = timed.length > 0 ? ratio(idealMinutes, timedRunMinutes) : null;
+  const bases = results.map(qualityBase).filter((base): base is NonNullable<typeof base> => base !== null);
+  const produced = bases.reduce((total, base) => total + base.produced, 0);
+  const scrapped = bases.reduce((total, base) => total + base.scrapped, 0);
+  const quality = bases.length > 0 ? ratio(produced - scrapped, produced) : null;
+
+  return {
+    cellId: cell.id,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    plannedMinutes,
+    stopMinutes,
+    runMinutes,
+    goodCount,
+    totalCount,
+    scrapQuantity,
+    availability,
+    performance,
+    quality,
+    oee: combine(availability, performance, quality),
+    machines: results,
+  };
+}
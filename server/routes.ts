@@ -1,9 +1,30 @@
 import type { Express } from "express";
 import type { Server } from "http";
 import { storage } from "./storage";
-import { insertMachineSchema, insertCellConfigurationSchema, machineStatuses, insertPartSchema, insertCharacteristicSchema, insertSpcMeasurementSchema, insertScrapIncidentSchema } from "@shared/schema";
+import { calculateCellOee, calculateMachineOee } from "./oee";
+import { evaluateMeasurement, evaluateMeasurements, reevaluateChange } from "./spc-rules";
+import { calculateGaugeStudy } from "./gauge-rr";
+import { applyScrapCost, recalculateScrapCosts, scheduleScrapCostRecalculation, scrapCostFor } from "./scrap-cost";
+import { hashPassword, login, publicUser, requireRole, verifyPassword } from "./auth";
+import { insertMachineSchema, insertCellConfigurationSchema, machineStatuses, insertPartSchema, insertCharacteristicSchema, insertSpcMeasurementSchema, insertScrapIncidentSchema, insertDowntimeLogSchema, insertDowntimeReasonSchema, insertProductionCountSchema, insertShiftDefinitionSchema, insertPlantHolidaySchema, toleranceInput, spcImportRowSchema, insertGaugeStudySchema, updateGaugeStudySchema, gaugeReadingsFit, insertGaugeSchema, insertUserSchema, updateUserSchema, loginSchema, MIN_PASSWORD_LENGTH, changeLogQuerySchema, roleAtLeast, archivableEntityTypes, archiveRoles, routedMachineIds, calibrationStatus, missingStageFields, scrapCharacteristicLabel, scrapIncidentStatusLabels, scrapWorkflowFieldLabels, type Characteristic, type Gauge, type InsertSpcMeasurement, type SpcImportRow, type ScrapIncidentStatus } from "@shared/schema";
+import { extractUnit } from "@shared/numeric";
+import { convertReading } from "@shared/units";
 import { z } from "zod";
 
+// Accepts any date string Date can parse and normalizes it to ISO for text-column comparisons
+const isoDate = z.string()
+  .refine((value) => !Number.isNaN(new Date(value).getTime()), { message: "Invalid date" })
+  .transform((value) => new Date(value).toISOString());
+
+// OEE window defaults to the last 24 hours ending now
+const oeeWindowSchema = z.object({ from: isoDate.optional(), to: isoDate.optional() })
+  .transform(({ from, to }) => {
+    const end = to ? new Date(to) : new Date();
+    const start = from ? new Date(from) : new Date(end.getTime() - 24 * 3600 * 1000);
+    return { from: start, to: end };
+  })
+  .refine(({ from, to }) => from < to, { message: "from must be before to", path: ["from"] });
+
 export async function registerRoutes(httpServer: Server, app: Express): Promise<Server> {
   // Health check endpoint
   app.get("/api/health", async (_req, res) => {
@@ -18,11 +39,219 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
+  // ============ AUTH ROUTES ============
+
+  app.post('/api/auth/login', async (req, res) => {
+    try {
+      const credentials = loginSchema.parse(req.body);
+      const result = await login(credentials.username, credentials.password);
+      if (!result) return res.status(401).json({ message: 'Invalid username or password' });
+      res.json(result);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid login data', details: err.errors });
+      }
+      console.error('Error logging in', err);
+      res.status(500).json({ message: 'Failed to log in' });
+    }
+  });
+
+  app.post('/api/auth/logout', async (req, res) => {
+    try {
+      await storage.deleteUserSession(req.sessionId!);
+      res.json({ success: true });
+    } catch (err) {
+      console.error('Error logging out', err);
+      res.status(500).json({ message: 'Failed to log out' });
+    }
+  });
+
+  app.get('/api/auth/me', (req, res) => {
+    res.json(req.currentUser);
+  });
+
+  // Changing your own password logs out your other sessions and returns a new token for this one
+  app.post('/api/auth/password', async (req, res) => {
+    try {
+      const { currentPassword, newPassword } = z.object({
+        currentPassword: z.string().min(1),
+        newPassword: z.string().min(MIN_PASSWORD_LENGTH, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`),
+      }).parse(req.body);
+      const user = await storage.getUser(req.currentUser!.id);
+      if (!user || !(await verifyPassword(currentPassword, user.passwordHash))) {
+        return res.status(400).json({ message: 'Current password is incorrect' });
+      }
+      await storage.updateUser(user.id, { passwordHash: await hashPassword(newPassword) });
+      await storage.deleteUserSessions(user.id);
+      res.json(await login(user.username, newPassword));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid password data', details: err.errors });
+      }
+      console.error('Error changing password', err);
+      res.status(500).json({ message: 'Failed to change password' });
+    }
+  });
+
+  // ============ USERS ROUTES ============
+
+  app.get('/api/users', requireRole('admin'), async (_req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(publicUser));
+    } catch (err) {
+      console.error('Error fetching users', err);
+      res.status(500).json({ message: 'Failed to fetch users' });
+    }
+  });
+
+  app.post('/api/users', requireRole('admin'), async (req, res) => {
+    try {
+      const { password, ...fields } = insertUserSchema.parse(req.body);
+      if (await storage.getUserByUsername(fields.username)) {
+        return res.status(409).json({ message: `Username ${fields.username} already exists` });
+      }
+      const user = await storage.createUser({ ...fields, passwordHash: await hashPassword(password) });
+      res.status(201).json(publicUser(user));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid user data', details: err.errors });
+      }
+      console.error('Error creating user', err);
+      res.status(500).json({ message: 'Failed to create user' });
+    }
+  });
+
+  // A new password or deactivation logs the user out everywhere. Role changes apply on their next request.
+  app.patch('/api/users/:id', requireRole('admin'), async (req, res) => {
+    try {
+      const { password, ...fields } = updateUserSchema.parse(req.body);
+      const existing = await storage.getUser(req.params.id);
+      if (!existing) return res.status(404).json({ message: 'User not found' });
+      if (fields.username && fields.username !== existing.username && await storage.getUserByUsername(fields.username)) {
+        return res.status(409).json({ message: `Username ${fields.username} already exists` });
+      }
+      const losesAdmin = existing.role === 'admin' && existing.isActive
+        && ((fields.role !== undefined && fields.role !== 'admin') || fields.isActive === false);
+      if (losesAdmin) {
+        const otherAdmins = (await storage.getUsers()).filter((user) => user.id !== existing.id && user.role === 'admin' && user.isActive);
+        if (otherAdmins.length === 0) return res.status(400).json({ message: 'At least one active admin is required' });
+      }
+      const updated = await storage.updateUser(req.params.id, {
+        ...fields,
+        ...(password !== undefined ? { passwordHash: await hashPassword(password) } : {}),
+      });
+      if (!updated) return res.status(404).json({ message: 'User not found' });
+      if (password !== undefined || fields.isActive === false) await storage.deleteUserSessions(updated.id);
+      res.json(publicUser(updated));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid user data', details: err.errors });
+      }
+      console.error('Error updating user', err);
+      res.status(500).json({ message: 'Failed to update user' });
+    }
+  });
+
+  // ============ AUDIT LOG ROUTES ============
+  // Changes to user accounts are visible to admins only
+  app.get('/api/audit-log', async (req, res) => {
+    try {
+      const query = changeLogQuerySchema.extend({ from: isoDate.optional(), to: isoDate.optional() }).parse(req.query);
+      const isAdmin = roleAtLeast(req.currentUser!.role, 'admin');
+      if (query.entityType === 'user' && !isAdmin) {
+        return res.status(403).json({ message: 'Forbidden: This needs the Admin role.' });
+      }
+      const entries = await storage.getChangeLog({ ...query, excludeEntityTypes: isAdmin ? [] : ['user'] });
+      res.json(entries);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid audit log query', details: err.errors });
+      }
+      console.error('Error fetching audit log', err);
+      res.status(500).json({ message: 'Failed to fetch audit log' });
+    }
+  });
+
+  // ============ RECYCLE BIN ROUTES ============
+  // Deleting a machine, cell, part or characteristic archives it. Restoring needs the role that
+  // could delete it; purging needs an admin and no records that still point at it.
+  const archivableEntityType = z.enum(archivableEntityTypes);
+
+  app.get('/api/recycle-bin', requireRole('quality_engineer'), async (_req, res) => {
+    try {
+      res.json(await storage.getRecycleBin());
+    } catch (err) {
+      console.error('Error fetching recycle bin', err);
+      res.status(500).json({ message: 'Failed to fetch recycle bin' });
+    }
+  });
+
+  app.get('/api/recycle-bin/:entityType/:id/dependents', requireRole('quality_engineer'), async (req, res) => {
+    try {
+      const entityType = archivableEntityType.parse(req.params.entityType);
+      const check = await storage.getPurgeCheck(entityType, req.params.id);
+      if (!check) return res.status(404).json({ message: 'Record not found' });
+      res.json(check);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid record type', details: err.errors });
+      }
+      console.error('Error checking dependents', err);
+      res.status(500).json({ message: 'Failed to check dependent records' });
+    }
+  });
+
+  app.post('/api/recycle-bin/:entityType/:id/restore', async (req, res, next) => {
+    const parsed = archivableEntityType.safeParse(req.params.entityType);
+    if (!parsed.success) return res.status(400).json({ error: 'Invalid record type', details: parsed.error.errors });
+    requireRole(archiveRoles[parsed.data])(req, res, next);
+  }, async (req, res) => {
+    try {
+      const entityType = archivableEntityType.parse(req.params.entityType);
+      if (entityType === 'cell') {
+        const cell = await storage.getCellConfiguration(req.params.id);
+        const problem = cell?.isArchived ? await checkCellRouting(cell.operationsJson, cell.id) : null;
+        if (problem) return res.status(problem.status).json(problem.body);
+      }
+      const restored = await storage.restoreRecord(entityType, req.params.id);
+      if (!restored) return res.status(404).json({ message: 'Record not found' });
+      if (entityType !== 'characteristic') scheduleScrapCostRecalculation();
+      res.json({ success: true });
+    } catch (err) {
+      console.error('Error restoring record', err);
+      res.status(500).json({ message: 'Failed to restore record' });
+    }
+  });
+
+  app.delete('/api/recycle-bin/:entityType/:id', requireRole('admin'), async (req, res) => {
+    try {
+      const entityType = archivableEntityType.parse(req.params.entityType);
+      const check = await storage.getPurgeCheck(entityType, req.params.id);
+      if (!check) return res.status(404).json({ message: 'Record not found' });
+      if (!check.isArchived) {
+        return res.status(409).json({ message: 'Only archived records can be purged. Delete it first.', ...check });
+      }
+      if (!check.purgeable) {
+        const blocking = check.dependents.map((rows) => `${rows.count} ${rows.label}`).join(', ');
+        return res.status(409).json({ message: `Cannot purge ${check.label}: it is still used by ${blocking}.`, ...check });
+      }
+      await storage.purgeRecord(entityType, req.params.id);
+      res.json({ success: true, ...check });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid record type', details: err.errors });
+      }
+      console.error('Error purging record', err);
+      res.status(500).json({ message: 'Failed to purge record' });
+    }
+  });
+
   // ============ MACHINES ROUTES ============
   
-  app.get("/api/machines", async (_req, res) => {
+  app.get("/api/machines", async (req, res) => {
     try {
-      const machines = await storage.getMachines();
+      const machines = await storage.getMachines({ includeArchived: req.query.includeArchived === "true" });
       res.json(machines);
     } catch (error) {
       console.error("Error fetching machines:", error);
@@ -43,7 +272,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.post("/api/machines", async (req, res) => {
+  app.post("/api/machines", requireRole("admin"), async (req, res) => {
     try {
       const validated = insertMachineSchema.parse(req.body);
       const machine = await storage.createMachine(validated);
@@ -57,7 +286,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.patch("/api/machines/:id", async (req, res) => {
+  app.patch("/api/machines/:id", requireRole("admin"), async (req, res) => {
     try {
       const partialSchema = insertMachineSchema.partial();
       const validated = partialSchema.parse(req.body);
@@ -65,6 +294,10 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
       if (!machine) {
         return res.status(404).json({ message: "Machine not found" });
       }
+      // A machine's rate and timing feed the cost of scrap at every later operation of its cell
+      if ([validated.hourlyRate, validated.idealCycleTime, validated.setupTime, validated.batchSize].some((value) => value !== undefined)) {
+        scheduleScrapCostRecalculation();
+      }
       res.json(machine);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -75,7 +308,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.patch("/api/machines/:id/status", async (req, res) => {
+  app.patch("/api/machines/:id/status", requireRole("operator"), async (req, res) => {
     try {
       const statusSchema = z.object({
         status: z.enum(machineStatuses),
@@ -92,7 +325,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.patch("/api/machines/:id/status-update", async (req, res) => {
+  app.patch("/api/machines/:id/status-update", requireRole("operator"), async (req, res) => {
     try {
       const { statusUpdate } = req.body;
       const machine = await storage.updateMachineStatusUpdate(req.params.id, statusUpdate);
@@ -106,7 +339,46 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.delete("/api/machines/:id", async (req, res) => {
+  app.get("/api/machines/:id/status-history", async (req, res) => {
+    try {
+      const rangeSchema = z.object({
+        from: isoDate.optional(),
+        to: isoDate.optional(),
+      });
+      const { from, to } = rangeSchema.parse(req.query);
+      const machine = await storage.getMachine(req.params.id);
+      if (!machine) {
+        return res.status(404).json({ message: "Machine not found" });
+      }
+      const events = await storage.getMachineStatusEvents(req.params.id, { from, to });
+      res.json(events);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid date range", details: error.errors });
+      }
+      console.error("Error fetching machine status history:", error);
+      res.status(500).json({ message: "Failed to fetch machine status history" });
+    }
+  });
+
+  app.get("/api/machines/:id/oee", async (req, res) => {
+    try {
+      const { from, to } = oeeWindowSchema.parse(req.query);
+      const machine = await storage.getMachine(req.params.id);
+      if (!machine) {
+        return res.status(404).json({ message: "Machine not found" });
+      }
+      res.json(await calculateMachineOee(machine, from, to));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid date range", details: error.errors });
+      }
+      console.error("Error calculating machine OEE:", error);
+      res.status(500).json({ message: "Failed to calculate machine OEE" });
+    }
+  });
+
+  app.delete("/api/machines/:id", requireRole("admin"), async (req, res) => {
     try {
       const success = await storage.deleteMachine(req.params.id);
       if (!success) {
@@ -119,8 +391,396 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
+  // ============ DOWNTIME REASON CODES ROUTES ============
+
+  app.get('/api/downtime-reasons', async (req, res) => {
+    try {
+      const reasons = await storage.getDowntimeReasons();
+      // ?active=true limits the list to codes that can still be picked for new logs
+      res.json(req.query.active === 'true' ? reasons.filter((reason) => reason.isActive) : reasons);
+    } catch (err) {
+      console.error('Error fetching downtime reason codes', err);
+      res.status(500).json({ message: 'Failed to fetch downtime reason codes' });
+    }
+  });
+
+  app.post('/api/downtime-reasons', requireRole('admin'), async (req, res) => {
+    try {
+      const validated = insertDowntimeReasonSchema.parse(req.body);
+      const duplicate = await storage.getDowntimeReasonByCode(validated.code);
+      if (duplicate) return res.status(409).json({ message: `Reason code ${validated.code} already exists` });
+      const reason = await storage.createDowntimeReason(validated);
+      res.status(201).json(reason);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid downtime reason code data', details: err.errors });
+      }
+      console.error('Error creating downtime reason code', err);
+      res.status(500).json({ message: 'Failed to create downtime reason code' });
+    }
+  });
+
+  app.patch('/api/downtime-reasons/:id', requireRole('admin'), async (req, res) => {
+    try {
+      const partial = insertDowntimeReasonSchema.partial().parse(req.body);
+      if (partial.code !== undefined) {
+        const duplicate = await storage.getDowntimeReasonByCode(partial.code);
+        if (duplicate && duplicate.id !== req.params.id) {
+          return res.status(409).json({ message: `Reason code ${partial.code} already exists` });
+        }
+      }
+      const updated = await storage.updateDowntimeReason(req.params.id, partial);
+      if (!updated) return res.status(404).json({ message: 'Downtime reason code not found' });
+      res.json(updated);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid downtime reason code data', details: err.errors });
+      }
+      console.error('Error updating downtime reason code', err);
+      res.status(500).json({ message: 'Failed to update downtime reason code' });
+    }
+  });
+
+  // ============ DOWNTIME ROUTES ============
+
+  app.get('/api/downtime', async (_req, res) => {
+    try {
+      const logs = await storage.getDowntimeLogs();
+      res.json(logs);
+    } catch (err) {
+      console.error('Error fetching downtime logs', err);
+      res.status(500).json({ message: 'Failed to fetch downtime logs' });
+    }
+  });
+
+  app.get('/api/machines/:id/downtime', async (req, res) => {
+    try {
+      const logs = await storage.getDowntimeLogsByMachine(req.params.id);
+      res.json(logs);
+    } catch (err) {
+      console.error('Error fetching machine downtime logs', err);
+      res.status(500).json({ message: 'Failed to fetch machine downtime logs' });
+    }
+  });
+
+  const downtimeLogBodySchema = insertDowntimeLogSchema.extend({
+    startTime: isoDate,
+    endTime: isoDate.nullable().optional(),
+  });
+
+  app.post('/api/downtime', requireRole('operator'), async (req, res) => {
+    try {
+      const validated = downtimeLogBodySchema.parse(req.body);
+      if (validated.endTime && validated.endTime < validated.startTime) {
+        return res.status(400).json({ message: 'Downtime cannot end before it starts' });
+      }
+      const machine = await storage.getMachine(validated.machineId);
+      if (!machine) return res.status(404).json({ message: 'Machine not found' });
+      const reason = await storage.getDowntimeReasonByCode(validated.reasonCode);
+      if (!reason || !reason.isActive) {
+        return res.status(400).json({ message: `Unknown or inactive reason code ${validated.reasonCode}` });
+      }
+      // The catalog is authoritative for which category a code belongs to
+      const log = await storage.createDowntimeLog({ ...validated, reasonCategory: reason.category });
+      res.status(201).json(log);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid downtime data', details: err.errors });
+      }
+      console.error('Error creating downtime log', err);
+      res.status(500).json({ message: 'Failed to create downtime log' });
+    }
+  });
+
+  app.patch('/api/downtime/:id', requireRole('operator'), async (req, res) => {
+    try {
+      const partial = downtimeLogBodySchema.partial().parse(req.body);
+      const existing = await storage.getDowntimeLog(req.params.id);
+      if (!existing) return res.status(404).json({ message: 'Downtime log not found' });
+      if (partial.machineId !== undefined && partial.machineId !== existing.machineId) {
+        const machine = await storage.getMachine(partial.machineId);
+        if (!machine) return res.status(404).json({ message: 'Machine not found' });
+      }
+      if (partial.reasonCode !== undefined && partial.reasonCode !== existing.reasonCode) {
+        const reason = await storage.getDowntimeReasonByCode(partial.reasonCode);
+        if (!reason || !reason.isActive) {
+          return res.status(400).json({ message: `Unknown or inactive reason code ${partial.reasonCode}` });
+        }
+        partial.reasonCategory = reason.category;
+      }
+      const startTime = partial.startTime ?? existing.startTime;
+      const endTime = partial.endTime !== undefined ? partial.endTime : existing.endTime;
+      if (endTime && endTime < startTime) {
+        return res.status(400).json({ message: 'Downtime cannot end before it starts' });
+      }
+      const updated = await storage.updateDowntimeLog(req.params.id, partial);
+      if (!updated) return res.status(404).json({ message: 'Downtime log not found' });
+      res.json(updated);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid downtime data', details: err.errors });
+      }
+      console.error('Error updating downtime log', err);
+      res.status(500).json({ message: 'Failed to update downtime log' });
+    }
+  });
+
+  app.post('/api/downtime/:id/end', requireRole('operator'), async (req, res) => {
+    try {
+      const { endTime } = z.object({ endTime: isoDate.optional() }).parse(req.body ?? {});
+      const existing = await storage.getDowntimeLog(req.params.id);
+      if (!existing) return res.status(404).json({ message: 'Downtime log not found' });
+      if (existing.endTime) return res.status(409).json({ message: 'Downtime has already ended' });
+      const end = endTime ?? new Date().toISOString();
+      if (end < existing.startTime) {
+        return res.status(400).json({ message: 'Downtime cannot end before it starts' });
+      }
+      const updated = await storage.endDowntimeLog(req.params.id, end);
+      res.json(updated);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid downtime data', details: err.errors });
+      }
+      console.error('Error ending downtime log', err);
+      res.status(500).json({ message: 'Failed to end downtime log' });
+    }
+  });
+
+  app.delete('/api/downtime/:id', requireRole('quality_engineer'), async (req, res) => {
+    try {
+      const success = await storage.deleteDowntimeLog(req.params.id);
+      if (!success) return res.status(404).json({ message: 'Downtime log not found' });
+      res.json({ success: true });
+    } catch (err) {
+      console.error('Error deleting downtime log', err);
+      res.status(500).json({ message: 'Failed to delete downtime log' });
+    }
+  });
+
+  // ============ PRODUCTION COUNTS ROUTES ============
+
+  const productionCountBodySchema = insertProductionCountSchema.extend({
+    periodStart: isoDate,
+    periodEnd: isoDate,
+  });
+
+  // Cross-field checks shared by single and bulk posts; returns a message or null
+  const checkProductionCount = (count: { goodQuantity: number; totalQuantity: number; periodStart: string; periodEnd: string }) => {
+    if (count.goodQuantity > count.totalQuantity) return 'Good quantity cannot exceed total quantity';
+    if (count.periodEnd <= count.periodStart) return 'Period end must be after period start';
+    return null;
+  };
+
+  app.get('/api/production-counts', async (req, res) => {
+    try {
+      const filter = z.object({
+        machineId: z.string().optional(),
+        from: isoDate.optional(),
+        to: isoDate.optional(),
+      }).parse(req.query);
+      const counts = await storage.getProductionCounts(filter);
+      res.json(counts);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid production count filter', details: err.errors });
+      }
+      console.error('Error fetching production counts', err);
+      res.status(500).json({ message: 'Failed to fetch production counts' });
+    }
+  });
+
+  app.get('/api/machines/:id/production-counts', async (req, res) => {
+    try {
+      const counts = await storage.getProductionCounts({ machineId: req.params.id });
+      res.json(counts);
+    } catch (err) {
+      console.error('Error fetching machine production counts', err);
+      res.status(500).json({ message: 'Failed to fetch machine production counts' });
+    }
+  });
+
+  app.post('/api/production-counts', requireRole('operator'), async (req, res) => {
+    try {
+      const validated = productionCountBodySchema.parse(req.body);
+      const problem = checkProductionCount(validated);
+      if (problem) return res.status(400).json({ message: problem });
+      const machine = await storage.getMachine(validated.machineId);
+      if (!machine) return res.status(404).json({ message: 'Machine not found' });
+      const count = await storage.createProductionCount(validated);
+      res.status(201).json(count);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid production count data', details: err.errors });
+      }
+      console.error('Error creating production count', err);
+      res.status(500).json({ message: 'Failed to create production count' });
+    }
+  });
+
+  // Bulk post: every row is validated first and nothing is saved unless all rows are valid
+  app.post('/api/production-counts/bulk', requireRole('operator'), async (req, res) => {
+    try {
+      const rows = z.array(z.unknown()).min(1).parse(req.body);
+      const machineIds = new Set((await storage.getMachines({ includeArchived: true })).map((machine) => machine.id));
+      const valid: z.infer<typeof productionCountBodySchema>[] = [];
+      const rowErrors: { index: number; message: string; details?: z.ZodIssue[] }[] = [];
+
+      rows.forEach((row, index) => {
+        const parsed = productionCountBodySchema.safeParse(row);
+        if (!parsed.success) {
+          rowErrors.push({ index, message: 'Invalid production count data', details: parsed.error.errors });
+          return;
+        }
+        const problem = checkProductionCount(parsed.data)
+          ?? (machineIds.has(parsed.data.machineId) ? null : 'Machine not found');
+        if (problem) {
+          rowErrors.push({ index, message: problem });
+          return;
+        }
+        valid.push(parsed.data);
+      });
+
+      if (rowErrors.length > 0) {
+        return res.status(400).json({ error: 'Invalid production count data', rows: rowErrors });
+      }
+      const created = await storage.createProductionCounts(valid);
+      res.status(201).json(created);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Expected a non-empty array of production counts', details: err.errors });
+      }
+      console.error('Error creating production counts', err);
+      res.status(500).json({ message: 'Failed to create production counts' });
+    }
+  });
+
+  app.patch('/api/production-counts/:id', requireRole('operator'), async (req, res) => {
+    try {
+      const partial = productionCountBodySchema.partial().parse(req.body);
+      const existing = await storage.getProductionCount(req.params.id);
+      if (!existing) return res.status(404).json({ message: 'Production count not found' });
+      const problem = checkProductionCount({ ...existing, ...partial });
+      if (problem) return res.status(400).json({ message: problem });
+      const updated = await storage.updateProductionCount(req.params.id, partial);
+      if (!updated) return res.status(404).json({ message: 'Production count not found' });
+      res.json(updated);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid production count data', details: err.errors });
+      }
+      console.error('Error updating production count', err);
+      res.status(500).json({ message: 'Failed to update production count' });
+    }
+  });
+
+  app.delete('/api/production-counts/:id', requireRole('quality_engineer'), async (req, res) => {
+    try {
+      const success = await storage.deleteProductionCount(req.params.id);
+      if (!success) return res.status(404).json({ message: 'Production count not found' });
+      res.json({ success: true });
+    } catch (err) {
+      console.error('Error deleting production count', err);
+      res.status(500).json({ message: 'Failed to delete production count' });
+    }
+  });
+
+  // ============ SHIFT CALENDAR ROUTES ============
+
+  app.get('/api/shift-calendar', async (_req, res) => {
+    try {
+      const [shifts, holidays] = await Promise.all([storage.getShiftDefinitions(), storage.getPlantHolidays()]);
+      res.json({ shifts, holidays });
+    } catch (err) {
+      console.error('Error fetching shift calendar', err);
+      res.status(500).json({ message: 'Failed to fetch shift calendar' });
+    }
+  });
+
+  app.post('/api/shifts', requireRole('admin'), async (req, res) => {
+    try {
+      const validated = insertShiftDefinitionSchema.parse(req.body);
+      const shift = await storage.createShiftDefinition(validated);
+      res.status(201).json(shift);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid shift data', details: err.errors });
+      }
+      console.error('Error creating shift', err);
+      res.status(500).json({ message: 'Failed to create shift' });
+    }
+  });
+
+  app.patch('/api/shifts/:id', requireRole('admin'), async (req, res) => {
+    try {
+      const partial = insertShiftDefinitionSchema.partial().parse(req.body);
+      const updated = await storage.updateShiftDefinition(req.params.id, partial);
+      if (!updated) return res.status(404).json({ message: 'Shift not found' });
+      res.json(updated);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid shift data', details: err.errors });
+      }
+      console.error('Error updating shift', err);
+      res.status(500).json({ message: 'Failed to update shift' });
+    }
+  });
+
+  app.delete('/api/shifts/:id', requireRole('admin'), async (req, res) => {
+    try {
+      const success = await storage.deleteShiftDefinition(req.params.id);
+      if (!success) return res.status(404).json({ message: 'Shift not found' });
+      res.json({ success: true });
+    } catch (err) {
+      console.error('Error deleting shift', err);
+      res.status(500).json({ message: 'Failed to delete shift' });
+    }
+  });
+
+  app.post('/api/holidays', requireRole('admin'), async (req, res) => {
+    try {
+      const validated = insertPlantHolidaySchema.parse(req.body);
+      const existing = (await storage.getPlantHolidays()).find((holiday) => holiday.date === validated.date);
+      if (existing) return res.status(409).json({ message: `${validated.date} is already a holiday` });
+      const holiday = await storage.createPlantHoliday(validated);
+      res.status(201).json(holiday);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid holiday data', details: err.errors });
+      }
+      console.error('Error creating holiday', err);
+      res.status(500).json({ message: 'Failed to create holiday' });
+    }
+  });
+
+  app.delete('/api/holidays/:id', requireRole('admin'), async (req, res) => {
+    try {
+      const success = await storage.deletePlantHoliday(req.params.id);
+      if (!success) return res.status(404).json({ message: 'Holiday not found' });
+      res.json({ success: true });
+    } catch (err) {
+      console.error('Error deleting holiday', err);
+      res.status(500).json({ message: 'Failed to delete holiday' });
+    }
+  });
+
   // ============ SCRAP INCIDENTS ROUTES ============
 
+  // An incident moves into a workflow stage only once the earlier stages are filled in
+  const stageProblem = (incident: Parameters<typeof missingStageFields>[0], status: ScrapIncidentStatus) => {
+    const missing = missingStageFields(incident, status);
+    if (missing.length === 0) return null;
+    return `Cannot move to ${scrapIncidentStatusLabels[status]}: missing ${missing.map((field) => scrapWorkflowFieldLabels[field]).join(', ')}`;
+  };
+
+  // A linked characteristic must belong to the incident's part. Its label replaces any typed
+  // text so the stored characteristic cannot drift from the master.
+  const resolveIncidentCharacteristic = async (characteristicId: string, partId: string | null | undefined) => {
+    const char = await storage.getCharacteristic(characteristicId);
+    if (!char) return { error: 'Characteristic not found' };
+    if (char.partId !== (partId ?? null)) return { error: 'Characteristic does not belong to the incident part' };
+    return { label: scrapCharacteristicLabel(char) };
+  };
+
   app.get('/api/scrap-incidents', async (_req, res) => {
     try {
       const incidents = await storage.getScrapIncidents();
@@ -141,9 +801,21 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.post('/api/scrap-incidents', async (req, res) => {
+  app.post('/api/scrap-incidents', requireRole('operator'), async (req, res) => {
     try {
       const validated = insertScrapIncidentSchema.parse(req.body);
+      const problem = validated.status ? stageProblem(validated, validated.status) : null;
+      if (problem) return res.status(400).json({ message: problem });
+      if (validated.characteristicId) {
+        const resolved = await resolveIncidentCharacteristic(validated.characteristicId, validated.partId);
+        if (resolved.error) return res.status(400).json({ message: resolved.error });
+        validated.characteristic = resolved.label;
+      } else if (!validated.characteristic) {
+        return res.status(400).json({ message: 'A characteristic or characteristicId is required' });
+      }
+      const costProblem = await applyScrapCost(validated);
+      if (costProblem) return res.status(400).json({ message: costProblem });
+      if (validated.estimatedCost === undefined) return res.status(400).json({ message: 'Estimated cost is required' });
       const incident = await storage.createScrapIncident(validated);
       res.status(201).json(incident);
     } catch (err) {
@@ -155,9 +827,40 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.patch('/api/scrap-incidents/:id', async (req, res) => {
+  app.patch('/api/scrap-incidents/:id', requireRole('quality_engineer'), async (req, res) => {
     try {
       const partial = insertScrapIncidentSchema.partial().parse(req.body);
+      const existing = await storage.getScrapIncident(req.params.id);
+      if (!existing) return res.status(404).json({ message: 'Scrap incident not found' });
+      if (partial.status && partial.status !== existing.status) {
+        const problem = stageProblem({ ...existing, ...partial }, partial.status);
+        if (problem) return res.status(400).json({ message: problem });
+      }
+      const characteristicId = partial.characteristicId !== undefined ? partial.characteristicId : existing.characteristicId;
+      if (characteristicId && (partial.characteristicId !== undefined || partial.partId !== undefined)) {
+        const partId = partial.partId !== undefined ? partial.partId : existing.partId;
+        const resolved = await resolveIncidentCharacteristic(characteristicId, partId);
+        if (resolved.error) return res.status(400).json({ message: resolved.error });
+        partial.characteristic = resolved.label;
+      } else if (partial.characteristic === '') {
+        return res.status(400).json({ message: 'A characteristic or characteristicId is required' });
+      }
+      // A typed cost takes the incident off the cost model; a calculated one follows part, quantity and machine.
+      // Edits that leave the cost inputs alone do not recalculate, so older incidents stay editable.
+      const costTyped = partial.estimatedCost !== undefined && partial.estimatedCost !== existing.estimatedCost;
+      const costInputsChanged = costTyped
+        || (partial.partId !== undefined && partial.partId !== existing.partId)
+        || (partial.machineId !== undefined && partial.machineId !== existing.machineId)
+        || (partial.quantity !== undefined && partial.quantity !== existing.quantity)
+        || (partial.costCalculated === true && !existing.costCalculated);
+      if (costTyped && partial.costCalculated === undefined) partial.costCalculated = false;
+      if (costInputsChanged) {
+        const costed = { ...existing, ...partial };
+        const costProblem = await applyScrapCost(costed);
+        if (costProblem) return res.status(400).json({ message: costProblem });
+        partial.estimatedCost = costed.estimatedCost;
+        partial.costCalculated = costed.costCalculated;
+      }
       const updated = await storage.updateScrapIncident(req.params.id, partial);
       if (!updated) return res.status(404).json({ message: 'Scrap incident not found' });
       res.json(updated);
@@ -170,7 +873,44 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.delete('/api/scrap-incidents/:id', async (req, res) => {
+  // Cost suggestion for the incident form
+  app.get('/api/scrap-cost', async (req, res) => {
+    try {
+      const query = z.object({
+        partId: z.string().min(1),
+        machineId: z.string().min(1),
+        quantity: z.coerce.number().int().positive().default(1),
+      }).parse(req.query);
+      const breakdown = await scrapCostFor(query.partId, query.machineId, query.quantity);
+      if (!breakdown) return res.status(404).json({ message: 'Part or machine not found' });
+      res.json(breakdown);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid scrap cost query', details: err.errors });
+      }
+      console.error('Error calculating scrap cost', err);
+      res.status(500).json({ message: 'Failed to calculate scrap cost' });
+    }
+  });
+
+  app.post('/api/scrap-incidents/recalculate-costs', requireRole('quality_engineer'), async (req, res) => {
+    try {
+      const filter = z.object({
+        partId: z.string().optional(),
+        machineId: z.string().optional(),
+        includeManual: z.boolean().optional(),
+      }).parse(req.body ?? {});
+      res.json(await recalculateScrapCosts(filter));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid recalculation request', details: err.errors });
+      }
+      console.error('Error recalculating scrap costs', err);
+      res.status(500).json({ message: 'Failed to recalculate scrap costs' });
+    }
+  });
+
+  app.delete('/api/scrap-incidents/:id', requireRole('quality_engineer'), async (req, res) => {
     try {
       const success = await storage.deleteScrapIncident(req.params.id);
       if (!success) return res.status(404).json({ message: 'Scrap incident not found' });
@@ -183,9 +923,9 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
   // ============ PARTS ROUTES ============
 
-  app.get('/api/parts', async (_req, res) => {
+  app.get('/api/parts', async (req, res) => {
     try {
-      const allParts = await storage.getParts();
+      const allParts = await storage.getParts({ includeArchived: req.query.includeArchived === 'true' });
       res.json(allParts);
     } catch (err) {
       console.error('Error fetching parts', err);
@@ -193,7 +933,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.post('/api/parts', async (req, res) => {
+  app.post('/api/parts', requireRole('quality_engineer'), async (req, res) => {
     try {
       const validated = insertPartSchema.parse(req.body);
       const part = await storage.createPart(validated);
@@ -207,11 +947,12 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.patch('/api/parts/:id', async (req, res) => {
+  app.patch('/api/parts/:id', requireRole('quality_engineer'), async (req, res) => {
     try {
       const partial = insertPartSchema.partial().parse(req.body);
       const updated = await storage.updatePart(req.params.id, partial);
       if (!updated) return res.status(404).json({ message: 'Part not found' });
+      if (partial.rawMaterialCost !== undefined) scheduleScrapCostRecalculation({ partId: updated.id });
       res.json(updated);
     } catch (err) {
       if (err instanceof z.ZodError) {
@@ -222,9 +963,19 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.delete('/api/parts/:id', async (req, res) => {
+  app.delete('/api/parts/:id', requireRole('quality_engineer'), async (req, res) => {
     try {
-      const success = await storage.deletePart(req.params.id);
+      const part = await storage.getPart(req.params.id);
+      if (!part) return res.status(404).json({ message: 'Part not found' });
+      const dependents = await storage.getPartDependents(part.id);
+      if (dependents.length > 0) {
+        const usedBy = dependents.map((rows) => `${rows.count} ${rows.label}`).join(', ');
+        return res.status(409).json({
+          message: `Cannot delete part ${part.partNumber}: it still has ${usedBy}. Delete its characteristics first.`,
+          dependents,
+        });
+      }
+      const success = await storage.deletePart(part.id);
       if (!success) return res.status(404).json({ message: 'Part not found' });
       res.json({ success: true });
     } catch (err) {
@@ -235,9 +986,9 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
   // ============ CHARACTERISTICS ROUTES ============
 
-  app.get('/api/characteristics', async (_req, res) => {
+  app.get('/api/characteristics', async (req, res) => {
     try {
-      const chars = await storage.getCharacteristics();
+      const chars = await storage.getCharacteristics({ includeArchived: req.query.includeArchived === 'true' });
       res.json(chars);
     } catch (err) {
       console.error('Error fetching characteristics', err);
@@ -247,7 +998,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
   app.get('/api/parts/:id/characteristics', async (req, res) => {
     try {
-      const chars = await storage.getCharacteristicsByPart(req.params.id);
+      const chars = await storage.getCharacteristicsByPart(req.params.id, { includeArchived: req.query.includeArchived === 'true' });
       res.json(chars);
     } catch (err) {
       console.error('Error fetching characteristics for part', err);
@@ -255,9 +1006,20 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.post('/api/characteristics', async (req, res) => {
+  // Older clients send the tolerance as one string ("±0.05"); it fills the signed deviations
+  // unless those are sent too
+  const characteristicBodySchema = insertCharacteristicSchema.extend({ tolerance: toleranceInput.optional() });
+
+  const foldLegacyTolerance = <T extends { tolerance?: { upper: number; lower: number } | null; toleranceUpper?: number | null; toleranceLower?: number | null }>(
+    { tolerance, ...fields }: T,
+  ) => {
+    if (tolerance === undefined || fields.toleranceUpper !== undefined || fields.toleranceLower !== undefined) return fields;
+    return { ...fields, toleranceUpper: tolerance?.upper ?? null, toleranceLower: tolerance?.lower ?? null };
+  };
+
+  app.post('/api/characteristics', requireRole('quality_engineer'), async (req, res) => {
     try {
-      const validated = insertCharacteristicSchema.parse(req.body);
+      const validated = foldLegacyTolerance(characteristicBodySchema.parse(req.body));
       const char = await storage.createCharacteristic(validated);
       res.status(201).json(char);
     } catch (err) {
@@ -269,9 +1031,9 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.patch('/api/characteristics/:id', async (req, res) => {
+  app.patch('/api/characteristics/:id', requireRole('quality_engineer'), async (req, res) => {
     try {
-      const partial = insertCharacteristicSchema.partial().parse(req.body);
+      const partial = foldLegacyTolerance(characteristicBodySchema.partial().parse(req.body));
       const updated = await storage.updateCharacteristic(req.params.id, partial);
       if (!updated) return res.status(404).json({ message: 'Characteristic not found' });
       res.json(updated);
@@ -284,7 +1046,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.delete('/api/characteristics/:id', async (req, res) => {
+  app.delete('/api/characteristics/:id', requireRole('quality_engineer'), async (req, res) => {
     try {
       const success = await storage.deleteCharacteristic(req.params.id);
       if (!success) return res.status(404).json({ message: 'Characteristic not found' });
@@ -297,11 +1059,121 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
 
   // ============ SPC MEASUREMENTS ROUTES ============
 
-  app.post('/api/measurements', async (req, res) => {
+  const violationFilterSchema = z.object({
+    machineId: z.string().optional(),
+    from: isoDate.optional(),
+  });
+
+  // Checks against the characteristic being measured; returns a message or null.
+  // Attribute checks post a sample size and count instead of a reading; measuredValue then mirrors the count.
+  const checkMeasurement = (
+    measurement: { measuredValue?: number | null; sampleSize?: number | null; defectCount?: number | null },
+    char: Characteristic,
+  ) => {
+    if (!char.isAttributeCheck) {
+      return measurement.measuredValue != null ? null : 'Measured value is required';
+    }
+    if (measurement.sampleSize == null || measurement.defectCount == null) {
+      return 'Sample size and defect count are required for attribute checks';
+    }
+    if ((char.attributeChartType === 'p' || char.attributeChartType === 'np') && measurement.defectCount > measurement.sampleSize) {
+      return 'Defectives cannot exceed the sample size';
+    }
+    return null;
+  };
+
+  // Readings can be entered in another unit than the characteristic's, sent as `unit` or as a
+  // suffix on the value ("0.394 in"); they are stored converted to the characteristic's unit
+  const measurementBodySchema = insertSpcMeasurementSchema.extend({ unit: z.string().nullable().optional() });
+
+  const inCharacteristicUnit = <T extends { measuredValue?: number | null; unit?: string | null }>(
+    { unit, ...measurement }: T,
+    rawValue: unknown,
+    char: Characteristic,
+  ) => {
+    const entered = unit || extractUnit(rawValue as string | number);
+    if (char.isAttributeCheck || measurement.measuredValue == null || !entered) return { measurement };
+    const converted = convertReading(measurement.measuredValue, entered, char.unit);
+    if ('error' in converted) return { error: converted.error };
+    return { measurement: { ...measurement, measuredValue: converted.value } };
+  };
+
+  // A named gauge must exist and be in service. An overdue gauge is accepted, but the response
+  // carries a warning so the operator can flag the reading.
+  const checkGauge = (gaugeId: string | null | undefined, gauge: Gauge | undefined): { error?: string; warning?: string } => {
+    if (!gaugeId) return {};
+    if (!gauge) return { error: 'Gauge not found' };
+    if (!gauge.isActive) return { error: `Gauge ${gauge.gaugeNumber} is retired` };
+    if (calibrationStatus(gauge) === 'overdue') {
+      return { warning: `Gauge ${gauge.gaugeNumber} was due for calibration on ${gauge.nextCalibrationDue}` };
+    }
+    return {};
+  };
+
+  // Attribute checks store the count as the value; variable readings carry no sample size or count
+  const storedMeasurement = <T extends { measuredValue?: number | null; defectCount?: number | null }>(measurement: T, char: Characteristic) =>
+    char.isAttributeCheck
+      ? { ...measurement, measuredValue: measurement.defectCount }
+      : { ...measurement, sampleSize: null, defectCount: null };
+
+  app.get('/api/characteristics/:id/measurements', async (req, res) => {
     try {
-      const validated = insertSpcMeasurementSchema.parse(req.body);
-      const measurement = await storage.createMeasurement(validated);
-      res.status(201).json(measurement);
+      const char = await storage.getCharacteristic(req.params.id);
+      if (!char) return res.status(404).json({ message: 'Characteristic not found' });
+      const measurements = await storage.getMeasurementsByCharacteristic(req.params.id);
+      res.json(measurements);
+    } catch (err) {
+      console.error('Error fetching measurements', err);
+      res.status(500).json({ message: 'Failed to fetch measurements' });
+    }
+  });
+
+  app.get('/api/characteristics/:id/violations', async (req, res) => {
+    try {
+      const char = await storage.getCharacteristic(req.params.id);
+      if (!char) return res.status(404).json({ message: 'Characteristic not found' });
+      const filter = violationFilterSchema.parse(req.query);
+      const violations = await storage.getRuleViolations({ ...filter, characteristicId: req.params.id });
+      res.json(violations);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid violation filter', details: err.errors });
+      }
+      console.error('Error fetching rule violations', err);
+      res.status(500).json({ message: 'Failed to fetch rule violations' });
+    }
+  });
+
+  // Recent violations across all characteristics, for the dashboard
+  app.get('/api/spc-violations', async (req, res) => {
+    try {
+      const filter = violationFilterSchema.parse(req.query);
+      const violations = await storage.getRuleViolations(filter);
+      res.json(violations);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid violation filter', details: err.errors });
+      }
+      console.error('Error fetching rule violations', err);
+      res.status(500).json({ message: 'Failed to fetch rule violations' });
+    }
+  });
+
+  app.post('/api/measurements', requireRole('operator'), async (req, res) => {
+    try {
+      const body = measurementBodySchema.parse(req.body);
+      const char = await storage.getCharacteristic(body.characteristicId);
+      if (!char) return res.status(404).json({ message: 'Characteristic not found' });
+      const { measurement: validated, error } = inCharacteristicUnit(body, req.body.measuredValue, char);
+      if (!validated) return res.status(400).json({ message: error });
+      const problem = checkMeasurement(validated, char);
+      if (problem) return res.status(400).json({ message: problem });
+      if (!await storage.getMachine(validated.machineId)) return res.status(404).json({ message: 'Machine not found' });
+      const gauge = checkGauge(validated.gaugeId, validated.gaugeId ? await storage.getGauge(validated.gaugeId) : undefined);
+      if (gauge.error) return res.status(400).json({ message: gauge.error });
+      const measurement = await storage.createMeasurement(storedMeasurement(validated, char));
+      const violations = await evaluateMeasurement(measurement);
+      res.status(201).json({ ...measurement, violations, gaugeWarning: gauge.warning ?? null });
     } catch (err) {
       if (err instanceof z.ZodError) {
         return res.status(400).json({ error: 'Invalid measurement data', details: err.errors });
@@ -311,12 +1183,88 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.patch('/api/measurements/:id', async (req, res) => {
+  // A whole inspection at once, e.g. from the entry station. Every row is checked first;
+  // if any is invalid nothing is saved and the failing row indexes are returned.
+  app.post('/api/measurements/bulk', requireRole('operator'), async (req, res) => {
     try {
-      const partial = insertSpcMeasurementSchema.partial().parse(req.body);
+      const rows = z.array(z.unknown()).min(1).parse(req.body);
+      const machineIds = new Set((await storage.getMachines({ includeArchived: true })).map((machine) => machine.id));
+      const charById = new Map((await storage.getCharacteristics({ includeArchived: true })).map((char) => [char.id, char]));
+      const gaugeById = new Map((await storage.getGauges()).map((gauge) => [gauge.id, gauge]));
+      const valid: InsertSpcMeasurement[] = [];
+      const gaugeWarnings: (string | null)[] = [];
+      const rowErrors: { index: number; message: string; details?: z.ZodIssue[] }[] = [];
+
+      rows.forEach((row, index) => {
+        const parsed = measurementBodySchema.safeParse(row);
+        if (!parsed.success) {
+          rowErrors.push({ index, message: 'Invalid measurement data', details: parsed.error.errors });
+          return;
+        }
+        const char = charById.get(parsed.data.characteristicId);
+        if (!char) {
+          rowErrors.push({ index, message: 'Characteristic not found' });
+          return;
+        }
+        const { measurement, error } = inCharacteristicUnit(parsed.data, (row as { measuredValue?: unknown }).measuredValue, char);
+        if (!measurement) {
+          rowErrors.push({ index, message: error });
+          return;
+        }
+        const gauge = checkGauge(parsed.data.gaugeId, parsed.data.gaugeId ? gaugeById.get(parsed.data.gaugeId) : undefined);
+        const problem = checkMeasurement(measurement, char)
+          ?? (machineIds.has(parsed.data.machineId) ? null : 'Machine not found')
+          ?? gauge.error;
+        if (problem) {
+          rowErrors.push({ index, message: problem });
+          return;
+        }
+        valid.push(storedMeasurement(measurement, char));
+        gaugeWarnings.push(gauge.warning ?? null);
+      });
+
+      if (rowErrors.length > 0) {
+        return res.status(400).json({ error: 'Invalid measurement data', rows: rowErrors });
+      }
+      const created = await storage.createMeasurements(valid);
+      const violations = await evaluateMeasurements(created);
+      res.status(201).json(created.map((measurement, index) => ({
+        ...measurement,
+        violations: violations.get(measurement.id) ?? [],
+        gaugeWarning: gaugeWarnings[index],
+      })));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Expected a non-empty array of measurements', details: err.errors });
+      }
+      console.error('Error creating measurements', err);
+      res.status(500).json({ message: 'Failed to create measurements' });
+    }
+  });
+
+  app.patch('/api/measurements/:id', requireRole('operator'), async (req, res) => {
+    try {
+      const body = measurementBodySchema.partial().parse(req.body);
+      const existing = await storage.getMeasurement(req.params.id);
+      if (!existing) return res.status(404).json({ message: 'Measurement not found' });
+      const char = await storage.getCharacteristic(body.characteristicId ?? existing.characteristicId);
+      if (!char) return res.status(404).json({ message: 'Characteristic not found' });
+      const { measurement: partial, error } = inCharacteristicUnit(body, req.body.measuredValue, char);
+      if (!partial) return res.status(400).json({ message: error });
+      const problem = checkMeasurement({ ...existing, ...partial }, char);
+      if (problem) return res.status(400).json({ message: problem });
+      if (partial.machineId !== undefined && partial.machineId !== existing.machineId && !await storage.getMachine(partial.machineId)) {
+        return res.status(404).json({ message: 'Machine not found' });
+      }
+      const gauge = checkGauge(partial.gaugeId, partial.gaugeId ? await storage.getGauge(partial.gaugeId) : undefined);
+      if (gauge.error) return res.status(400).json({ message: gauge.error });
+      if (char.isAttributeCheck && partial.defectCount != null) partial.measuredValue = partial.defectCount;
       const updated = await storage.updateMeasurement(req.params.id, partial);
       if (!updated) return res.status(404).json({ message: 'Measurement not found' });
-      res.json(updated);
+      if (partial.measuredValue !== undefined || partial.machineId !== undefined || partial.characteristicId !== undefined) {
+        await reevaluateChange(existing, updated);
+      }
+      res.json({ ...updated, gaugeWarning: gauge.warning ?? null });
     } catch (err) {
       if (err instanceof z.ZodError) {
         return res.status(400).json({ error: 'Invalid measurement data', details: err.errors });
@@ -326,10 +1274,13 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.delete('/api/measurements/:id', async (req, res) => {
+  app.delete('/api/measurements/:id', requireRole('quality_engineer'), async (req, res) => {
     try {
-      const success = await storage.deleteMeasurement(req.params.id);
+      const existing = await storage.getMeasurement(req.params.id);
+      if (!existing) return res.status(404).json({ message: 'Measurement not found' });
+      const success = await storage.deleteMeasurement(existing.id);
       if (!success) return res.status(404).json({ message: 'Measurement not found' });
+      await reevaluateChange(existing, null);
       res.json({ success: true });
     } catch (err) {
       console.error('Error deleting measurement', err);
@@ -360,61 +1311,153 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.post('/api/machines/:id/findings', async (req, res) => {
+  app.post('/api/machines/:id/findings', requireRole('operator'), async (req, res) => {
     try {
+      if (!await storage.getMachine(req.params.id)) return res.status(404).json({ message: 'Machine not found' });
       const payload = { ...req.body, machineId: req.params.id };
       const created = await storage.createAuditFinding(payload);
       res.status(201).json(created);
     } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid audit finding data', details: err.errors });
+      }
       console.error('Error creating audit finding', err);
       res.status(500).json({ message: 'Failed to create audit finding' });
     }
   });
 
-  // Bulk import audit findings (from CSV import)
-  app.post('/api/bulk-findings', async (req, res) => {
+  // Validates import rows; `rows` keeps each valid row's index in the request so failures
+  // raised later by the import can be reported against it.
+  const validateImportRows = async (items: unknown[]) => {
+    const machineIds = new Set((await storage.getMachines({ includeArchived: true })).map((machine) => machine.id));
+    const rows: { index: number; row: SpcImportRow }[] = [];
+    const rowErrors: { index: number; message: string; details?: z.ZodIssue[] }[] = [];
+    items.forEach((item, index) => {
+      const parsed = spcImportRowSchema.safeParse(item);
+      if (!parsed.success) {
+        rowErrors.push({ index, message: parsed.error.errors.map((issue) => issue.message).join(', '), details: parsed.error.errors });
+      } else if (!machineIds.has(parsed.data.machineId)) {
+        rowErrors.push({ index, message: 'Machine not found' });
+      } else {
+        rows.push({ index, row: parsed.data });
+      }
+    });
+    return { rows, rowErrors };
+  };
+
+  // Row errors from a ZodError raised inside the import, whose issue paths start with the row index
+  const importRowErrors = (err: z.ZodError, rows: { index: number }[]) => err.errors
+    .filter((issue) => typeof issue.path[0] === 'number')
+    .map((issue) => ({ index: rows[issue.path[0] as number]?.index ?? (issue.path[0] as number), message: issue.message }));
+
+  const bulkFindingsSchema = z.object({
+    findings: z.array(z.record(z.unknown())).min(1, 'Expected a non-empty "findings" array.'),
+    mode: z.enum(['all-or-nothing', 'skip-invalid']).default('all-or-nothing'),
+  });
+
+  // Bulk import of flat findings. All-or-nothing by default: if any row is invalid nothing is
+  // saved and the failing rows are returned. With mode "skip-invalid" the valid rows are saved
+  // and the rest are listed in `skipped`.
+  app.post('/api/bulk-findings', requireRole('quality_engineer'), async (req, res) => {
+    let rows: { index: number; row: SpcImportRow }[] = [];
     try {
-      const items = req.body?.findings;
-      if (!Array.isArray(items) || items.length === 0) {
-        return res.status(400).json({ message: 'Expected a non-empty "findings" array.' });
+      const { findings, mode } = bulkFindingsSchema.parse(req.body);
+      // Older CSV exports name these fields differently
+      const items = findings.map((finding) => ({
+        ...finding,
+        charNumber: finding.charNumber ?? finding.characteristic,
+        recordNote: finding.recordNote ?? finding.correctiveAction,
+      }));
+      const validated = await validateImportRows(items);
+      rows = validated.rows;
+      const skipInvalid = mode === 'skip-invalid';
+      if (validated.rowErrors.length > 0 && !skipInvalid) {
+        return res.status(400).json({ error: 'Invalid import data', rows: validated.rowErrors });
       }
-      const created: any[] = [];
-      const errors: string[] = [];
-      for (let i = 0; i < items.length; i++) {
-        try {
-          const result = await storage.createAuditFinding(items[i]);
-          created.push(result);
-        } catch (err) {
-          const msg = err instanceof z.ZodError
-            ? err.errors.map(e => e.message).join(', ')
-            : String(err);
-          errors.push(`Item ${i}: ${msg}`);
+
+      const result = rows.length > 0
+        ? await storage.importAuditFindings(rows.map((entry) => entry.row), { skipInvalid })
+        : { imported: 0, partsCreated: 0, characteristicsCreated: 0, skipped: [] };
+      const skipped = [
+        ...validated.rowErrors.map(({ index, message }) => ({ index, message })),
+        ...result.skipped.map((entry) => ({ index: rows[entry.index].index, message: entry.message })),
+      ].sort((left, right) => left.index - right.index);
+      res.status(201).json({
+        created: result.imported,
+        partsCreated: result.partsCreated,
+        characteristicsCreated: result.characteristicsCreated,
+        skipped,
+      });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        const rowErrors = importRowErrors(err, rows);
+        if (rowErrors.length > 0) {
+          return res.status(400).json({ error: 'Invalid import data', rows: rowErrors });
         }
+        return res.status(400).json({ error: 'Invalid bulk import data', details: err.errors });
       }
-      res.status(201).json({ created: created.length, errors });
-    } catch (err) {
       console.error('Error in bulk import', err);
       res.status(500).json({ message: 'Bulk import failed' });
     }
   });
 
+  // Import wizard commit. Every row is validated first; if any is invalid nothing is saved and
+  // the failing row indexes are returned, otherwise all rows are saved in one transaction.
+  app.post('/api/spc-import', requireRole('quality_engineer'), async (req, res) => {
+    let rows: { index: number; row: SpcImportRow }[] = [];
+    try {
+      const validated = await validateImportRows(z.array(z.unknown()).min(1).parse(req.body));
+      rows = validated.rows;
+      if (validated.rowErrors.length > 0) {
+        return res.status(400).json({ error: 'Invalid import data', rows: validated.rowErrors });
+      }
+      const result = await storage.importAuditFindings(rows.map((entry) => entry.row));
+      res.status(201).json(result);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        const rowErrors = importRowErrors(err, rows);
+        if (rowErrors.length > 0) {
+          return res.status(400).json({ error: 'Invalid import data', rows: rowErrors });
+        }
+        return res.status(400).json({ error: 'Expected a non-empty array of import rows', details: err.errors });
+      }
+      console.error('Error importing SPC data', err);
+      res.status(500).json({ message: 'Import failed' });
+    }
+  });
+
   // Update a finding (legacy flat update)
-  app.patch('/api/findings/:id', async (req, res) => {
+  app.patch('/api/findings/:id', requireRole('quality_engineer'), async (req, res) => {
     try {
+      const existing = await storage.getMeasurement(req.params.id);
+      if (!existing) return res.status(404).json({ message: 'Audit finding not found' });
+      if (req.body.machineId !== undefined && req.body.machineId !== existing.machineId && !await storage.getMachine(req.body.machineId)) {
+        return res.status(404).json({ message: 'Machine not found' });
+      }
       const updated = await storage.updateAuditFinding(req.params.id, req.body);
       if (!updated) return res.status(404).json({ message: 'Audit finding not found' });
+      if (req.body.measuredValue !== undefined || req.body.machineId !== undefined) {
+        const after = await storage.getMeasurement(req.params.id);
+        if (after) await reevaluateChange(existing, after);
+      }
       res.json(updated);
     } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid audit finding data', details: err.errors });
+      }
       console.error('Error updating audit finding', err);
       res.status(500).json({ message: 'Failed to update audit finding' });
     }
   });
 
   // Delete a finding
-  app.delete('/api/findings/:id', async (req, res) => {
+  app.delete('/api/findings/:id', requireRole('quality_engineer'), async (req, res) => {
     try {
-      const success = await storage.deleteAuditFinding(req.params.id);
+      const existing = await storage.getMeasurement(req.params.id);
+      if (!existing) return res.status(404).json({ message: 'Audit finding not found' });
+      const success = await storage.deleteAuditFinding(existing.id);
       if (!success) return res.status(404).json({ message: 'Audit finding not found' });
+      await reevaluateChange(existing, null);
       res.json({ success: true });
     } catch (err) {
       console.error('Error deleting audit finding', err);
@@ -422,11 +1465,186 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
+  // ============ GAUGES ROUTES ============
+
+  app.get('/api/gauges', async (_req, res) => {
+    try {
+      res.json(await storage.getGauges());
+    } catch (err) {
+      console.error('Error fetching gauges', err);
+      res.status(500).json({ message: 'Failed to fetch gauges' });
+    }
+  });
+
+  app.get('/api/gauges/:id', async (req, res) => {
+    try {
+      const gauge = await storage.getGauge(req.params.id);
+      if (!gauge) return res.status(404).json({ message: 'Gauge not found' });
+      res.json(gauge);
+    } catch (err) {
+      console.error('Error fetching gauge', err);
+      res.status(500).json({ message: 'Failed to fetch gauge' });
+    }
+  });
+
+  app.post('/api/gauges', requireRole('quality_engineer'), async (req, res) => {
+    try {
+      const validated = insertGaugeSchema.parse(req.body);
+      const existing = await storage.getGaugeByNumber(validated.gaugeNumber);
+      if (existing) return res.status(409).json({ message: `Gauge ${validated.gaugeNumber} already exists` });
+      const gauge = await storage.createGauge(validated);
+      res.status(201).json(gauge);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid gauge data', details: err.errors });
+      }
+      console.error('Error creating gauge', err);
+      res.status(500).json({ message: 'Failed to create gauge' });
+    }
+  });
+
+  // Also used to record a calibration (lastCalibratedAt) and to retire a gauge (isActive: false)
+  app.patch('/api/gauges/:id', requireRole('quality_engineer'), async (req, res) => {
+    try {
+      const partial = insertGaugeSchema.partial().parse(req.body);
+      if (partial.gaugeNumber) {
+        const existing = await storage.getGaugeByNumber(partial.gaugeNumber);
+        if (existing && existing.id !== req.params.id) {
+          return res.status(409).json({ message: `Gauge ${partial.gaugeNumber} already exists` });
+        }
+      }
+      const updated = await storage.updateGauge(req.params.id, partial);
+      if (!updated) return res.status(404).json({ message: 'Gauge not found' });
+      res.json(updated);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid gauge data', details: err.errors });
+      }
+      console.error('Error updating gauge', err);
+      res.status(500).json({ message: 'Failed to update gauge' });
+    }
+  });
+
+  // ============ GAUGE R&R ROUTES ============
+
+  app.get('/api/gauge-studies', async (_req, res) => {
+    try {
+      res.json(await storage.getGaugeStudies());
+    } catch (err) {
+      console.error('Error fetching gauge studies', err);
+      res.status(500).json({ message: 'Failed to fetch gauge studies' });
+    }
+  });
+
+  app.get('/api/gauge-studies/:id', async (req, res) => {
+    try {
+      const study = await storage.getGaugeStudy(req.params.id);
+      if (!study) return res.status(404).json({ message: 'Gauge study not found' });
+      res.json(study);
+    } catch (err) {
+      console.error('Error fetching gauge study', err);
+      res.status(500).json({ message: 'Failed to fetch gauge study' });
+    }
+  });
+
+  // Repeatability, reproducibility, %GRR, %tolerance and ndc by average-and-range and ANOVA
+  app.get('/api/gauge-studies/:id/results', async (req, res) => {
+    try {
+      const result = await calculateGaugeStudy(req.params.id);
+      if (!result) return res.status(404).json({ message: 'Gauge study not found' });
+      res.json(result);
+    } catch (err) {
+      console.error('Error calculating gauge study', err);
+      res.status(500).json({ message: 'Failed to calculate gauge study' });
+    }
+  });
+
+  // Gauge studies are for variable characteristics; a pass/fail check has no readings to compare
+  const gaugeCharacteristicError = async (characteristicId: string) => {
+    const char = await storage.getCharacteristic(characteristicId);
+    if (!char) return 'Characteristic not found';
+    if (char.isAttributeCheck) return 'A gauge study needs a variable characteristic, not an attribute check';
+    return null;
+  };
+
+  app.post('/api/gauge-studies', requireRole('quality_engineer'), async (req, res) => {
+    try {
+      const validated = insertGaugeStudySchema.parse(req.body);
+      const charError = await gaugeCharacteristicError(validated.characteristicId);
+      if (charError) return res.status(400).json({ message: charError });
+      const study = await storage.createGaugeStudy(validated);
+      res.status(201).json(study);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid gauge study data', details: err.errors });
+      }
+      console.error('Error creating gauge study', err);
+      res.status(500).json({ message: 'Failed to create gauge study' });
+    }
+  });
+
+  app.patch('/api/gauge-studies/:id', requireRole('quality_engineer'), async (req, res) => {
+    try {
+      const partial = updateGaugeStudySchema.parse(req.body);
+      const existing = await storage.getGaugeStudy(req.params.id);
+      if (!existing) return res.status(404).json({ message: 'Gauge study not found' });
+      if (partial.characteristicId) {
+        const charError = await gaugeCharacteristicError(partial.characteristicId);
+        if (charError) return res.status(400).json({ message: charError });
+      }
+      const operators = (partial.operators ?? existing.operators).length;
+      const partCount = partial.partCount ?? existing.partCount;
+      const trialCount = partial.trialCount ?? existing.trialCount;
+      if (partial.readings && !gaugeReadingsFit(partial.readings, operators, partCount, trialCount)) {
+        return res.status(400).json({ message: `Readings must be ${operators} operators × ${partCount} parts × ${trialCount} trials` });
+      }
+      const updated = await storage.updateGaugeStudy(req.params.id, partial);
+      if (!updated) return res.status(404).json({ message: 'Gauge study not found' });
+      res.json(updated);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid gauge study data', details: err.errors });
+      }
+      console.error('Error updating gauge study', err);
+      res.status(500).json({ message: 'Failed to update gauge study' });
+    }
+  });
+
+  app.delete('/api/gauge-studies/:id', requireRole('quality_engineer'), async (req, res) => {
+    try {
+      const success = await storage.deleteGaugeStudy(req.params.id);
+      if (!success) return res.status(404).json({ message: 'Gauge study not found' });
+      res.json({ success: true });
+    } catch (err) {
+      console.error('Error deleting gauge study', err);
+      res.status(500).json({ message: 'Failed to delete gauge study' });
+    }
+  });
+
   // ============ CELL CONFIGURATIONS ROUTES ============
 
-  app.get("/api/cells", async (_req, res) => {
+  // A routing may use any existing machine that no other active cell has
+  const checkCellRouting = async (operationsJson: unknown, cellId?: string) => {
+    const machineIds = routedMachineIds(operationsJson);
+    const known = new Set((await storage.getMachines({ includeArchived: true })).map((machine) => machine.id));
+    const unknown = machineIds.filter((id) => !known.has(id));
+    if (unknown.length > 0) {
+      return { status: 400, body: { message: `Unknown machines: ${unknown.join(", ")}` } };
+    }
+    const conflicts = await storage.getCellMembershipConflicts(machineIds, cellId);
+    if (conflicts.length > 0) {
+      const taken = conflicts.map((conflict) => `${conflict.machineName} (${conflict.cellName})`).join(", ");
+      return {
+        status: 409,
+        body: { message: `A machine can be in only one cell. Already in another cell: ${taken}.`, conflicts },
+      };
+    }
+    return null;
+  };
+
+  app.get("/api/cells", async (req, res) => {
     try {
-      const configurations = await storage.getCellConfigurations();
+      const configurations = await storage.getCellConfigurations({ includeArchived: req.query.includeArchived === "true" });
       res.json(configurations);
     } catch (error) {
       console.error("Error fetching cell configurations:", error);
@@ -447,9 +1665,28 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.post("/api/cells", async (req, res) => {
+  app.get("/api/cells/:id/oee", async (req, res) => {
+    try {
+      const { from, to } = oeeWindowSchema.parse(req.query);
+      const configuration = await storage.getCellConfiguration(req.params.id);
+      if (!configuration) {
+        return res.status(404).json({ message: "Cell configuration not found" });
+      }
+      res.json(await calculateCellOee(configuration, from, to));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid date range", details: error.errors });
+      }
+      console.error("Error calculating cell OEE:", error);
+      res.status(500).json({ message: "Failed to calculate cell OEE" });
+    }
+  });
+
+  app.post("/api/cells", requireRole("admin"), async (req, res) => {
     try {
       const validated = insertCellConfigurationSchema.parse(req.body);
+      const problem = await checkCellRouting(validated.operationsJson);
+      if (problem) return res.status(problem.status).json(problem.body);
       const configuration = await storage.createCellConfiguration(validated);
       res.status(201).json(configuration);
     } catch (error) {
@@ -461,12 +1698,19 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.put("/api/cells/:id", async (req, res) => {
+  app.put("/api/cells/:id", requireRole("admin"), async (req, res) => {
     try {
-      const configuration = await storage.updateCellConfiguration(req.params.id, req.body);
+      // Archiving goes through delete and the recycle bin
+      const { isArchived: _isArchived, archivedAt: _archivedAt, ...updates } = req.body ?? {};
+      if (updates.operationsJson !== undefined) {
+        const problem = await checkCellRouting(updates.operationsJson, req.params.id);
+        if (problem) return res.status(problem.status).json(problem.body);
+      }
+      const configuration = await storage.updateCellConfiguration(req.params.id, updates);
       if (!configuration) {
         return res.status(404).json({ message: "Cell configuration not found" });
       }
+      if (req.body?.operationsJson !== undefined) scheduleScrapCostRecalculation();
       res.json(configuration);
     } catch (error) {
       console.error("Error updating cell configuration:", error);
@@ -474,7 +1718,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.delete("/api/cells/:id", async (req, res) => {
+  app.delete("/api/cells/:id", requireRole("admin"), async (req, res) => {
     try {
       const success = await storage.deleteCellConfiguration(req.params.id);
       if (!success) {
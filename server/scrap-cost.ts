@@ -0,0 +1,165 @@
+import { storage } from "./storage";
+import type {
+  CellConfiguration,
+  InsertScrapIncident,
+  Machine,
+  Part,
+  ScrapCostBreakdown,
+  ScrapCostOperation,
+  ScrapCostRecalculation,
+} from "@shared/schema";
+
+// "suggest" (default) offers the calculated cost; "enforce" replaces typed costs with it
+export const scrapCostEnforced = () => process.env.SCRAP_COST_MODE === "enforce";
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+type CellOperation = { name?: string; machineIds?: string[] };
+
+// Value added per part on one machine. Setup is spread over the batch, or charged per part
+// without one, as in the throughput calculation on the Machines page.
+export function machineCostPerPart(machine: Machine): number | null {
+  if (machine.hourlyRate == null || machine.idealCycleTime == null) return null;
+  const setupPerPart = (machine.setupTime ?? 0) / (machine.batchSize && machine.batchSize > 0 ? machine.batchSize : 1);
+  return (machine.hourlyRate * (machine.idealCycleTime + setupPerPart)) / 3600;
+}
+
+function cellOperations(cell: CellConfiguration): CellOperation[] {
+  return Array.isArray(cell.operationsJson) ? cell.operationsJson as CellOperation[] : [];
+}
+
+export function calculateScrapCost(
+  part: Part,
+  machine: Machine,
+  quantity: number,
+  cells: CellConfiguration[],
+  machineById: Map<string, Machine>,
+): ScrapCostBreakdown {
+  const warnings: string[] = [];
+  const cell = cells.find((candidate) => candidate.id === machine.cellId);
+
+  // Operations in routing order up to and including the scrap machine's. A part went through
+  // only one machine of a parallel operation, so those are averaged.
+  let routing: CellOperation[];
+  if (cell) {
+    const operations = cellOperations(cell);
+    const index = operations.findIndex((operation) => (operation.machineIds ?? []).includes(machine.id));
+    routing = operations.slice(0, index + 1);
+  } else {
+    warnings.push(`${machine.name} is not in a cell, so only its own operation is counted`);
+    routing = [{ name: machine.name, machineIds: [machine.id] }];
+  }
+
+  const operations: ScrapCostOperation[] = routing.map((operation, index) => {
+    const machineIds = operation.machineIds ?? [];
+    // The scrap machine's own operation is charged at that machine's rate
+    const charged = index === routing.length - 1 ? [machine.id] : machineIds;
+    const costs = charged
+      .map((id) => machineById.get(id))
+      .map((candidate) => (candidate ? machineCostPerPart(candidate) : null))
+      .filter((cost): cost is number => cost !== null);
+    const name = operation.name || `Operation ${index + 1}`;
+    if (costs.length === 0) warnings.push(`${name} has no machine with an hourly rate and cycle time`);
+    return {
+      name,
+      machineIds,
+      costPerPart: costs.length > 0 ? costs.reduce((sum, cost) => sum + cost, 0) / costs.length : null,
+    };
+  });
+
+  const valueAddedCost = operations.reduce((sum, operation) => sum + (operation.costPerPart ?? 0), 0);
+  const materialCost = part.rawMaterialCost ?? null;
+  if (materialCost === null) warnings.push(`Part ${part.partNumber} has no raw material cost`);
+  const unitCost = materialCost === null ? null : materialCost + valueAddedCost;
+
+  return {
+    partId: part.id,
+    machineId: machine.id,
+    quantity,
+    cellId: cell?.id ?? null,
+    materialCost,
+    valueAddedCost,
+    operations,
+    unitCost,
+    totalCost: unitCost === null ? null : roundCents(unitCost * quantity),
+    warnings,
+    enforced: scrapCostEnforced(),
+  };
+}
+
+// undefined when the part or machine does not exist
+export async function scrapCostFor(partId: string, machineId: string, quantity: number): Promise<ScrapCostBreakdown | undefined> {
+  const [part, machines, cells] = await Promise.all([
+    storage.getPart(partId),
+    storage.getMachines({ includeArchived: true }),
+    storage.getCellConfigurations(),
+  ]);
+  const machine = machines.find((candidate) => candidate.id === machineId);
+  if (!part || !machine) return undefined;
+  return calculateScrapCost(part, machine, quantity, cells, new Map(machines.map((item) => [item.id, item])));
+}
+
+// Fills in the cost of an incident that asks for it, or of every incident when enforced.
+// Returns an error message when the cost cannot be calculated.
+export async function applyScrapCost(incident: Partial<InsertScrapIncident>): Promise<string | null> {
+  if (!scrapCostEnforced() && !incident.costCalculated) return null;
+  if (!incident.partId || !incident.machineId || !incident.quantity) {
+    return 'A part, machine and quantity are needed to calculate the scrap cost';
+  }
+  const breakdown = await scrapCostFor(incident.partId, incident.machineId, incident.quantity);
+  if (!breakdown) return 'Part or machine not found';
+  if (breakdown.totalCost === null) return `Cannot calculate the scrap cost: ${breakdown.warnings.join('; ')}`;
+  incident.estimatedCost = breakdown.totalCost;
+  incident.costCalculated = true;
+  return null;
+}
+
+// Recalculates the stored cost of incidents whose cost came from the cost model, optionally
+// only for one part or machine. includeManual also replaces typed costs.
+export async function recalculateScrapCosts(
+  filter: { partId?: string; machineId?: string; includeManual?: boolean } = {},
+): Promise<ScrapCostRecalculation> {
+  const [incidents, parts, machines, cells] = await Promise.all([
+    storage.getScrapIncidents(),
+    // Incidents on archived parts and machines keep their calculated cost
+    storage.getParts({ includeArchived: true }),
+    storage.getMachines({ includeArchived: true }),
+    storage.getCellConfigurations(),
+  ]);
+  const partById = new Map(parts.map((part) => [part.id, part]));
+  const machineById = new Map(machines.map((machine) => [machine.id, machine]));
+
+  const result: ScrapCostRecalculation = { checked: 0, updated: 0, skipped: 0 };
+  for (const incident of incidents) {
+    if (!incident.costCalculated && !filter.includeManual) continue;
+    if (filter.partId && incident.partId !== filter.partId) continue;
+    if (filter.machineId && incident.machineId !== filter.machineId) continue;
+    result.checked += 1;
+
+    const part = incident.partId ? partById.get(incident.partId) : undefined;
+    const machine = machineById.get(incident.machineId);
+    const totalCost = part && machine
+      ? calculateScrapCost(part, machine, incident.quantity, cells, machineById).totalCost
+      : null;
+    if (totalCost === null) {
+      result.skipped += 1;
+      continue;
+    }
+    if (totalCost !== incident.estimatedCost || !incident.costCalculated) {
+      await storage.updateScrapIncident(incident.id, { estimatedCost: totalCost, costCalculated: true });
+      result.updated += 1;
+    }
+  }
+  return result;
+}
+
+// Runs a recalculation after the response has been sent, e.g. when a part cost changes
+export function scheduleScrapCostRecalculation(filter: { partId?: string; machineId?: string } = {}) {
+  setImmediate(() => {
+    recalculateScrapCosts(filter)
+      .then((result) => {
+        if (result.updated > 0) console.log(`Recalculated scrap cost of ${result.updated} incident(s)`, filter);
+      })
+      .catch((err) => console.error('Error recalculating scrap costs', err));
+  });
+}
@@ -0,0 +1,172 @@
+import { storage } from "./storage";
+import type { Characteristic, InsertSpcRuleViolation, SpcMeasurement, SpcRuleSet, SpcRuleViolation } from "@shared/schema";
+
+// Limits from fewer points than this are too unstable to judge runs against
+const MIN_POINTS_FOR_LIMITS = 5;
+
+// d2 for moving ranges of two consecutive points
+const D2_MOVING_RANGE = 1.128;
+
+type RuleCheck = {
+  rule: number;
+  description: string;
+  // `zones` are the points up to and including the one being judged, in sigma units from the center
+  test: (zones: number[]) => boolean;
+};
+
+// The last `count` points, or null when there are not that many yet
+const tail = (zones: number[], count: number) => (zones.length >= count ? zones.slice(-count) : null);
+
+const side = (zone: number) => Math.sign(zone);
+
+// `count` of the last `of` points beyond `limit` sigma on the same side as the newest point,
+// the newest point being one of them
+const countBeyond = (count: number, of: number, limit: number) => (zones: number[]) => {
+  const window = tail(zones, of);
+  if (!window) return false;
+  const newest = window[window.length - 1];
+  if (Math.abs(newest) <= limit) return false;
+  return window.filter((zone) => side(zone) === side(newest) && Math.abs(zone) > limit).length >= count;
+};
+
+const sameSide = (count: number) => (zones: number[]) => {
+  const window = tail(zones, count);
+  if (!window || window[0] === 0) return false;
+  return window.every((zone) => side(zone) === side(window[0]));
+};
+
+const trending = (count: number) => (zones: number[]) => {
+  const window = tail(zones, count);
+  if (!window) return false;
+  const steps = window.slice(1).map((zone, index) => side(zone - window[index]));
+  return steps[0] !== 0 && steps.every((step) => step === steps[0]);
+};
+
+const alternating = (count: number) => (zones: number[]) => {
+  const window = tail(zones, count);
+  if (!window) return false;
+  const steps = window.slice(1).map((zone, index) => side(zone - window[index]));
+  return steps.every((step, index) => step !== 0 && (index === 0 || step === -steps[index - 1]));
+};
+
+const allWithin = (count: number, limit: number) => (zones: number[]) => {
+  const window = tail(zones, count);
+  return !!window && window.every((zone) => Math.abs(zone) < limit);
+};
+
+const noneWithin = (count: number, limit: number) => (zones: number[]) => {
+  const window = tail(zones, count);
+  return !!window && window.every((zone) => Math.abs(zone) > limit);
+};
+
+const beyondControlLimits = (zones: number[]) => Math.abs(zones[zones.length - 1]) > 3;
+
+const ruleChecks: Record<SpcRuleSet, RuleCheck[]> = {
+  western_electric: [
+    { rule: 1, description: "One point beyond 3σ", test: beyondControlLimits },
+    { rule: 2, description: "2 of 3 points beyond 2σ on the same side", test: countBeyond(2, 3, 2) },
+    { rule: 3, description: "4 of 5 points beyond 1σ on the same side", test: countBeyond(4, 5, 1) },
+    { rule: 4, description: "8 points in a row on the same side of the center line", test: sameSide(8) },
+  ],
+  nelson: [
+    { rule: 1, description: "One point beyond 3σ", test: beyondControlLimits },
+    { rule: 2, description: "9 points in a row on the same side of the center line", test: sameSide(9) },
+    { rule: 3, description: "6 points in a row steadily increasing or decreasing", test: trending(6) },
+    { rule: 4, description: "14 points in a row alternating up and down", test: alternating(14) },
+    { rule: 5, description: "2 of 3 points beyond 2σ on the same side", test: countBeyond(2, 3, 2) },
+    { rule: 6, description: "4 of 5 points beyond 1σ on the same side", test: countBeyond(4, 5, 1) },
+    { rule: 7, description: "15 points in a row within 1σ of the center line", test: allWithin(15, 1) },
+    { rule: 8, description: "8 points in a row beyond 1σ on either side", test: noneWithin(8, 1) },
+  ],
+};
+
+// Center line and within sigma of an individuals chart (σ = MR̄/d2)
+function individualsLimits(values: number[]): { center: number; sigma: number } | null {
+  if (values.length < MIN_POINTS_FOR_LIMITS) return null;
+  const center = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const mrBar = values.slice(1).reduce((sum, value, index) => sum + Math.abs(value - values[index]), 0) / (values.length - 1);
+  const sigma = mrBar / D2_MOVING_RANGE;
+  return sigma > 0 ? { center, sigma } : null;
+}
+
+// Rules tripped by the last value, judged against limits from all of `values`
+function evaluateRules(values: number[], ruleSet: SpcRuleSet): RuleCheck[] {
+  const limits = individualsLimits(values);
+  if (!limits) return [];
+  const zones = values.map((value) => (value - limits.center) / limits.sigma);
+  return ruleChecks[ruleSet].filter((check) => check.test(zones));
+}
+
+// Violations each of `measurements` trips against `history`, all of its characteristic's
+// measurements. A measurement is judged on the same machine's readings up to and including it.
+// Rules run on individual values even for subgrouped characteristics, so a single reading is
+// flagged as soon as it is recorded.
+function violationsAgainst(
+  measurements: SpcMeasurement[],
+  characteristic: Characteristic | undefined,
+  history: SpcMeasurement[],
+): InsertSpcRuleViolation[] {
+  if (!characteristic || characteristic.isAttributeCheck) return [];
+  return measurements.flatMap((measurement) => {
+    const value = measurement.measuredValue;
+    if (value === null) return [];
+    const earlier = history
+      .filter((entry) => entry.machineId === measurement.machineId && entry.id !== measurement.id
+        && entry.createdAt <= measurement.createdAt)
+      .map((entry) => entry.measuredValue)
+      .filter((entry): entry is number => entry !== null);
+    return evaluateRules([...earlier, value], characteristic.ruleSet).map((check) => ({
+      measurementId: measurement.id,
+      characteristicId: measurement.characteristicId,
+      machineId: measurement.machineId,
+      ruleSet: characteristic.ruleSet,
+      rule: check.rule,
+      description: check.description,
+    }));
+  });
+}
+
+// Evaluates stored measurements and replaces their violations, returned by measurement id.
+// Each characteristic's history is read once, however many of its measurements there are.
+export async function evaluateMeasurements(measurements: SpcMeasurement[]): Promise<Map<string, SpcRuleViolation[]>> {
+  const violations: InsertSpcRuleViolation[] = [];
+  for (const characteristicId of Array.from(new Set(measurements.map((measurement) => measurement.characteristicId)))) {
+    const characteristic = await storage.getCharacteristic(characteristicId);
+    const history = characteristic && !characteristic.isAttributeCheck
+      ? await storage.getMeasurementsByCharacteristic(characteristicId)
+      : [];
+    const own = measurements.filter((measurement) => measurement.characteristicId === characteristicId);
+    violations.push(...violationsAgainst(own, characteristic, history));
+  }
+  const stored = await storage.replaceRuleViolations(measurements.map((measurement) => measurement.id), violations);
+  return new Map(measurements.map((measurement) => [
+    measurement.id,
+    stored.filter((violation) => violation.measurementId === measurement.id),
+  ]));
+}
+
+export async function evaluateMeasurement(measurement: SpcMeasurement): Promise<SpcRuleViolation[]> {
+  return (await evaluateMeasurements([measurement])).get(measurement.id) ?? [];
+}
+
+// Every reading's limits include the ones before it, so a changed or removed reading changes
+// the verdict on the rest of its series (characteristic and machine) from its time on.
+export async function reevaluateSeries(characteristicId: string, machineId: string, from: string): Promise<void> {
+  const characteristic = await storage.getCharacteristic(characteristicId);
+  const history = await storage.getMeasurementsByCharacteristic(characteristicId);
+  const affected = history.filter((entry) => entry.machineId === machineId && entry.createdAt >= from);
+  if (affected.length === 0) return;
+  await storage.replaceRuleViolations(
+    affected.map((entry) => entry.id),
+    violationsAgainst(affected, characteristic, history),
+  );
+}
+
+// Re-evaluates after `before` was edited into `after`, or removed when `after` is null: the
+// series it is in now, and the one it left when it was moved or removed
+export async function reevaluateChange(before: SpcMeasurement, after: SpcMeasurement | null): Promise<void> {
+  if (after) await reevaluateSeries(after.characteristicId, after.machineId, after.createdAt);
+  if (!after || after.characteristicId !== before.characteristicId || after.machineId !== before.machineId) {
+    await reevaluateSeries(before.characteristicId, before.machineId, before.createdAt);
+  }
+}
@@ -1,23 +1,51 @@
 import { 
   type Machine, type InsertMachine,
   type MachineStatus,
-  type CellConfiguration, type InsertCellConfiguration,
+  type MachineStatusEvent,
+  type DowntimeReason, type InsertDowntimeReason,
+  type DowntimeLog, type InsertDowntimeLog,
+  type ProductionCount, type InsertProductionCount,
+  type ShiftDefinition, type InsertShiftDefinition,
+  type PlantHoliday, type InsertPlantHoliday,
+  type CellConfiguration, type InsertCellConfiguration, type CellMembershipConflict,
   type ScrapIncident, type InsertScrapIncident,
   type Part, type InsertPart,
   type Characteristic, type InsertCharacteristic,
   type SpcMeasurement, type InsertSpcMeasurement,
+  type SpcRuleViolation, type InsertSpcRuleViolation,
   type SpcRecordFlat,
-  machines, cellConfigurations,
+  type SpcImportRow, type SpcImportResult,
+  type Gauge, type InsertGauge,
+  type GaugeStudy, type InsertGaugeStudy,
+  type User, type InsertUser, type UserSession,
+  type ChangeLogEntityType, type ChangeLogEntry, type ChangeLogQuery,
+  type ArchivableEntityType, type RecycleBinItem, type DependentRows, type PurgeCheck,
+  machines, machineStatusEvents, downtimeReasons, downtimeLogs, productionCounts, shiftDefinitions, plantHolidays, cellConfigurations,
+  cellMachines, routedMachineIds,
   scrapIncidents,
-  parts, characteristics, spcMeasurements,
+  parts, characteristics, spcMeasurements, spcRuleViolations,
+  gauges, gaugeStudies, emptyGaugeReadings, addDaysToDateKey,
+  users, userSessions, changeLog,
+  decimalInput, toleranceInput, unitInput,
 } from "@shared/schema";
+import { completeSpec, extractUnit } from "@shared/numeric";
+import { convertReading } from "@shared/units";
 import { randomUUID } from "crypto";
+import { z } from "zod";
 import { db } from "./db";
-import { eq, and } from "drizzle-orm";
+import { changeLogLabel, currentActor, fieldChanges } from "./change-log";
+import { eq, and, gte, lte, desc, inArray, notInArray, count, type SQL } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+
+// Lists leave out archived machines, cells, parts and characteristics unless asked for them
+export type ArchiveFilter = { includeArchived?: boolean };
+
+// Users are stored with the hash of their password, never the password itself
+export type StoredUserFields = Omit<InsertUser, 'password'> & { passwordHash: string };
 
 export interface IStorage {
   // Machines
-  getMachines(): Promise<Machine[]>;
+  getMachines(options?: ArchiveFilter): Promise<Machine[]>;
   getMachine(id: string): Promise<Machine | undefined>;
   createMachine(machine: InsertMachine): Promise<Machine>;
   updateMachine(id: string, updates: Partial<InsertMachine>): Promise<Machine | undefined>;
@@ -25,30 +53,70 @@ export interface IStorage {
   updateMachineStatusUpdate(id: string, statusUpdate: string): Promise<Machine | undefined>;
   deleteMachine(id: string): Promise<boolean>;
 
+  // Machine Status History
+  getMachineStatusEvents(machineId: string, range?: { from?: string; to?: string }): Promise<MachineStatusEvent[]>;
+
+  // Downtime Reason Codes
+  getDowntimeReasons(): Promise<DowntimeReason[]>;
+  getDowntimeReason(id: string): Promise<DowntimeReason | undefined>;
+  getDowntimeReasonByCode(code: string): Promise<DowntimeReason | undefined>;
+  createDowntimeReason(reason: InsertDowntimeReason): Promise<DowntimeReason>;
+  updateDowntimeReason(id: string, updates: Partial<InsertDowntimeReason>): Promise<DowntimeReason | undefined>;
+
+  // Downtime Logs
+  getDowntimeLogs(): Promise<DowntimeLog[]>;
+  getDowntimeLogsByMachine(machineId: string): Promise<DowntimeLog[]>;
+  getDowntimeLog(id: string): Promise<DowntimeLog | undefined>;
+  createDowntimeLog(log: InsertDowntimeLog): Promise<DowntimeLog>;
+  updateDowntimeLog(id: string, updates: Partial<InsertDowntimeLog>): Promise<DowntimeLog | undefined>;
+  endDowntimeLog(id: string, endTime: string): Promise<DowntimeLog | undefined>;
+  deleteDowntimeLog(id: string): Promise<boolean>;
+
+  // Production Counts
+  getProductionCounts(filter?: { machineId?: string; from?: string; to?: string }): Promise<ProductionCount[]>;
+  getProductionCount(id: string): Promise<ProductionCount | undefined>;
+  createProductionCount(count: InsertProductionCount): Promise<ProductionCount>;
+  createProductionCounts(counts: InsertProductionCount[]): Promise<ProductionCount[]>;
+  updateProductionCount(id: string, updates: Partial<InsertProductionCount>): Promise<ProductionCount | undefined>;
+  deleteProductionCount(id: string): Promise<boolean>;
+
+  // Shift Calendar
+  getShiftDefinitions(): Promise<ShiftDefinition[]>;
+  createShiftDefinition(shift: InsertShiftDefinition): Promise<ShiftDefinition>;
+  updateShiftDefinition(id: string, updates: Partial<InsertShiftDefinition>): Promise<ShiftDefinition | undefined>;
+  deleteShiftDefinition(id: string): Promise<boolean>;
+  getPlantHolidays(): Promise<PlantHoliday[]>;
+  createPlantHoliday(holiday: InsertPlantHoliday): Promise<PlantHoliday>;
+  deletePlantHoliday(id: string): Promise<boolean>;
+
   // Cell Configurations
-  getCellConfigurations(): Promise<CellConfiguration[]>;
+  getCellConfigurations(options?: ArchiveFilter): Promise<CellConfiguration[]>;
   getCellConfiguration(id: string): Promise<CellConfiguration | undefined>;
   createCellConfiguration(config: InsertCellConfiguration): Promise<CellConfiguration>;
   updateCellConfiguration(id: string, updates: Partial<InsertCellConfiguration>): Promise<CellConfiguration | undefined>;
   deleteCellConfiguration(id: string): Promise<boolean>;
+  getCellMembershipConflicts(machineIds: string[], cellId?: string): Promise<CellMembershipConflict[]>;
 
   // Scrap Incidents
   getScrapIncidents(): Promise<ScrapIncident[]>;
   getScrapIncidentsByMachine(machineId: string): Promise<ScrapIncident[]>;
+  getScrapIncident(id: string): Promise<ScrapIncident | undefined>;
   createScrapIncident(incident: InsertScrapIncident): Promise<ScrapIncident>;
   updateScrapIncident(id: string, updates: Partial<InsertScrapIncident>): Promise<ScrapIncident | undefined>;
   deleteScrapIncident(id: string): Promise<boolean>;
 
   // Parts
-  getParts(): Promise<Part[]>;
+  getParts(options?: ArchiveFilter): Promise<Part[]>;
+  getPart(id: string): Promise<Part | undefined>;
   getPartByNumber(partNumber: string): Promise<Part | undefined>;
   createPart(part: InsertPart): Promise<Part>;
   updatePart(id: string, updates: Partial<InsertPart>): Promise<Part | undefined>;
   deletePart(id: string): Promise<boolean>;
+  getPartDependents(id: string): Promise<DependentRows[]>;
 
   // Characteristics
-  getCharacteristics(): Promise<Characteristic[]>;
-  getCharacteristicsByPart(partId: string): Promise<Characteristic[]>;
+  getCharacteristics(options?: ArchiveFilter): Promise<Characteristic[]>;
+  getCharacteristicsByPart(partId: string, options?: ArchiveFilter): Promise<Characteristic[]>;
   getCharacteristic(id: string): Promise<Characteristic | undefined>;
   findCharacteristic(partId: string, charNumber: string): Promise<Characteristic | undefined>;
   createCharacteristic(char: InsertCharacteristic): Promise<Characteristic>;
@@ -58,10 +126,16 @@ export interface IStorage {
   // SPC Measurements
   getMeasurements(): Promise<SpcMeasurement[]>;
   getMeasurementsByCharacteristic(characteristicId: string): Promise<SpcMeasurement[]>;
+  getMeasurement(id: string): Promise<SpcMeasurement | undefined>;
   createMeasurement(measurement: InsertSpcMeasurement): Promise<SpcMeasurement>;
+  createMeasurements(measurements: InsertSpcMeasurement[]): Promise<SpcMeasurement[]>;
   updateMeasurement(id: string, updates: Partial<InsertSpcMeasurement>): Promise<SpcMeasurement | undefined>;
   deleteMeasurement(id: string): Promise<boolean>;
 
+  // SPC Rule Violations
+  getRuleViolations(filter?: { characteristicId?: string; machineId?: string; from?: string }): Promise<SpcRuleViolation[]>;
+  replaceRuleViolations(measurementIds: string[], violations: InsertSpcRuleViolation[]): Promise<SpcRuleViolation[]>;
+
   // Flat joined view (backward compat)
   getSpcRecordsFlat(): Promise<SpcRecordFlat[]>;
   getSpcRecordsFlatByMachine(machineId: string): Promise<SpcRecordFlat[]>;
@@ -71,27 +145,115 @@ export interface IStorage {
   getFindingsByMachine(machineId: string): Promise<SpcRecordFlat[]>;
   getDistinctPartNumbers(): Promise<{ partNumber: string; partName?: string }[]>;
   createAuditFinding(finding: any): Promise<SpcRecordFlat>;
+  importAuditFindings(rows: SpcImportRow[], options?: { skipInvalid?: boolean }): Promise<SpcImportResult>;
   updateAuditFinding(id: string, updates: any): Promise<SpcRecordFlat | undefined>;
   deleteAuditFinding(id: string): Promise<boolean>;
+
+  // Gauges
+  getGauges(): Promise<Gauge[]>;
+  getGauge(id: string): Promise<Gauge | undefined>;
+  getGaugeByNumber(gaugeNumber: string): Promise<Gauge | undefined>;
+  createGauge(gauge: InsertGauge): Promise<Gauge>;
+  updateGauge(id: string, updates: Partial<InsertGauge>): Promise<Gauge | undefined>;
+
+  // Gauge R&R studies
+  getGaugeStudies(): Promise<GaugeStudy[]>;
+  getGaugeStudy(id: string): Promise<GaugeStudy | undefined>;
+  createGaugeStudy(study: InsertGaugeStudy): Promise<GaugeStudy>;
+  updateGaugeStudy(id: string, updates: Partial<InsertGaugeStudy>): Promise<GaugeStudy | undefined>;
+  deleteGaugeStudy(id: string): Promise<boolean>;
+
+  // Users and login sessions
+  getUsers(): Promise<User[]>;
+  getUser(id: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(user: StoredUserFields): Promise<User>;
+  updateUser(id: string, updates: Partial<StoredUserFields> & { lastLoginAt?: string }): Promise<User | undefined>;
+  createUserSession(userId: string, expiresAt: string): Promise<UserSession>;
+  getUserSession(id: string): Promise<UserSession | undefined>;
+  deleteUserSession(id: string): Promise<boolean>;
+  deleteUserSessions(userId: string): Promise<number>;
+
+  // Change log
+  getChangeLog(query: ChangeLogQuery & { excludeEntityTypes?: ChangeLogEntityType[] }): Promise<ChangeLogEntry[]>;
+
+  // Recycle bin (deleteMachine, deleteCellConfiguration, deletePart and deleteCharacteristic archive)
+  getRecycleBin(): Promise<RecycleBinItem[]>;
+  restoreRecord(entityType: ArchivableEntityType, id: string): Promise<boolean>;
+  getPurgeCheck(entityType: ArchivableEntityType, id: string): Promise<PurgeCheck | undefined>;
+  purgeRecord(entityType: ArchivableEntityType, id: string): Promise<void>;
+}
+
+function downtimeMinutes(startTime: string, endTime: string): number {
+  const minutes = (new Date(endTime).getTime() - new Date(startTime).getTime()) / 60000;
+  return Math.max(0, Math.round(minutes * 10) / 10);
+}
+
+// Legacy flat payloads carry specs as text. Values that do not parse throw a ZodError,
+// which the bulk import reports against the item like any other validation failure.
+function legacySpecFields(finding: any): Partial<InsertCharacteristic> {
+  const fields: Partial<InsertCharacteristic> = {};
+  if (finding.nominalValue !== undefined) fields.nominalValue = decimalInput.parse(finding.nominalValue);
+  if (finding.charMax !== undefined) fields.charMax = decimalInput.parse(finding.charMax);
+  if (finding.charMin !== undefined) fields.charMin = decimalInput.parse(finding.charMin);
+  if (finding.tolerance !== undefined) {
+    const tolerance = toleranceInput.parse(finding.tolerance);
+    fields.toleranceUpper = tolerance?.upper ?? null;
+    fields.toleranceLower = tolerance?.lower ?? null;
+  }
+  if (finding.unit !== undefined) fields.unit = unitInput.parse(finding.unit);
+  return fields;
+}
+
+const requiredDecimal = (value: unknown) => decimalInput.pipe(z.number()).parse(value);
+
+// Rows per multi-row insert; keeps each statement well under Postgres' 65535 parameter limit
+const IMPORT_BATCH_SIZE = 1000;
+
+// The database or a transaction, so bulk writes log inside their own transaction
+type ChangeLogExecutor = Pick<typeof db, 'insert'>;
+type CellMachinesExecutor = Pick<typeof db, 'insert' | 'delete'>;
+
+function chunk<T>(list: T[], size: number): T[][] {
+  const batches: T[][] = [];
+  for (let offset = 0; offset < list.length; offset += size) batches.push(list.slice(offset, offset + size));
+  return batches;
+}
+
+// A legacy reading in the characteristic's unit. A suffix on the value ("0.394 in") says what it
+// was entered in; otherwise `enteredUnit`, which flat payloads use for the characteristic's unit.
+function legacyReading(raw: unknown, enteredUnit: string | null | undefined, charUnit: string | null): number {
+  const converted = convertReading(requiredDecimal(raw), extractUnit(raw as string | number) ?? enteredUnit, charUnit);
+  if ('error' in converted) {
+    throw new z.ZodError([{ code: z.ZodIssueCode.custom, path: ['measuredValue'], message: converted.error }]);
+  }
+  return converted.value;
 }
 
 export class DatabaseStorage implements IStorage {
   // Machines
-  async getMachines(): Promise<Machine[]> {
-    return await db.select({
+  async getMachines(options: ArchiveFilter = {}): Promise<Machine[]> {
+    const query = db.select({
       id: machines.id,
       name: machines.name,
       machineId: machines.machineId,
       status: machines.status,
-      cell: machines.cell,
+      cellId: cellMachines.cellId,
+      cell: cellConfigurations.name,
       idealCycleTime: machines.idealCycleTime,
       batchSize: machines.batchSize,
       uptimePercent: machines.uptimePercent,
       setupTime: machines.setupTime,
+      hourlyRate: machines.hourlyRate,
       statusUpdate: machines.statusUpdate,
+      isArchived: machines.isArchived,
+      archivedAt: machines.archivedAt,
       createdAt: machines.createdAt,
       updatedAt: machines.updatedAt,
-    }).from(machines);
+    }).from(machines)
+      .leftJoin(cellMachines, eq(cellMachines.machineId, machines.id))
+      .leftJoin(cellConfigurations, eq(cellConfigurations.id, cellMachines.cellId));
+    return await (options.includeArchived ? query : query.where(eq(machines.isArchived, false)));
   }
 
   async getMachine(id: string): Promise<Machine | undefined> {
@@ -100,15 +262,22 @@ export class DatabaseStorage implements IStorage {
       name: machines.name,
       machineId: machines.machineId,
       status: machines.status,
-      cell: machines.cell,
+      cellId: cellMachines.cellId,
+      cell: cellConfigurations.name,
       idealCycleTime: machines.idealCycleTime,
       batchSize: machines.batchSize,
       uptimePercent: machines.uptimePercent,
       setupTime: machines.setupTime,
+      hourlyRate: machines.hourlyRate,
       statusUpdate: machines.statusUpdate,
+      isArchived: machines.isArchived,
+      archivedAt: machines.archivedAt,
       createdAt: machines.createdAt,
       updatedAt: machines.updatedAt,
-    }).from(machines).where(eq(machines.id, id)).limit(1);
+    }).from(machines)
+      .leftJoin(cellMachines, eq(cellMachines.machineId, machines.id))
+      .leftJoin(cellConfigurations, eq(cellConfigurations.id, cellMachines.cellId))
+      .where(eq(machines.id, id)).limit(1);
     return result[0];
   }
 
@@ -121,18 +290,21 @@ export class DatabaseStorage implements IStorage {
       name: machine.name,
       machineId: machine.machineId,
       status: machine.status as MachineStatus,
-      cell: machine.cell ?? null,
       idealCycleTime: machine.idealCycleTime ?? null,
       batchSize: machine.batchSize ?? null,
       uptimePercent: machine.uptimePercent ?? null,
       setupTime: machine.setupTime ?? null,
+      hourlyRate: machine.hourlyRate ?? null,
       statusUpdate: machine.statusUpdate ?? null,
       createdAt: now,
       updatedAt: now,
     };
 
     await db.insert(machines).values(newMachine);
-    return (await this.getMachine(id))!;
+    await this.recordStatusEvent(id, null, newMachine.status, newMachine.statusUpdate, now);
+    const created = (await this.getMachine(id))!;
+    await this.recordChange('machine', id, null, created);
+    return created;
   }
 
   async updateMachine(id: string, updates: Partial<InsertMachine>): Promise<Machine | undefined> {
@@ -146,24 +318,32 @@ export class DatabaseStorage implements IStorage {
     const batchSizeValue = updates.batchSize !== undefined ? updates.batchSize : machine.batchSize;
     const uptimePercentValue = updates.uptimePercent !== undefined ? updates.uptimePercent : machine.uptimePercent;
     const setupTimeValue = updates.setupTime !== undefined ? updates.setupTime : machine.setupTime;
-    const cellValue = updates.cell !== undefined ? updates.cell : machine.cell;
+    const hourlyRateValue = updates.hourlyRate !== undefined ? updates.hourlyRate : machine.hourlyRate;
+    const statusValue = (updates.status ?? machine.status) as MachineStatus;
+    const statusUpdateValue = updates.statusUpdate ?? machine.statusUpdate;
     
     await db.update(machines)
       .set({
         name: updates.name ?? machine.name,
         machineId: updates.machineId ?? machine.machineId,
-        status: (updates.status ?? machine.status) as MachineStatus,
-        cell: cellValue,
-        statusUpdate: updates.statusUpdate ?? machine.statusUpdate,
+        status: statusValue,
+        statusUpdate: statusUpdateValue,
         idealCycleTime: idealCycleTimeValue,
         batchSize: batchSizeValue,
         uptimePercent: uptimePercentValue,
         setupTime: setupTimeValue,
+        hourlyRate: hourlyRateValue,
         updatedAt: now,
       })
       .where(eq(machines.id, id));
 
-    return (await this.getMachine(id))!;
+    if (statusValue !== machine.status) {
+      await this.recordStatusEvent(id, machine.status, statusValue, statusUpdateValue, now);
+    }
+
+    const updated = (await this.getMachine(id))!;
+    await this.recordChange('machine', id, machine, updated);
+    return updated;
   }
 
   async updateMachineStatus(id: string, status: MachineStatus): Promise<Machine | undefined> {
@@ -178,7 +358,13 @@ export class DatabaseStorage implements IStorage {
       })
       .where(eq(machines.id, id));
 
-    return (await this.getMachine(id))!;
+    if (status !== machine.status) {
+      await this.recordStatusEvent(id, machine.status, status, machine.statusUpdate, now);
+    }
+
+    const updated = (await this.getMachine(id))!;
+    await this.recordChange('machine', id, machine, updated);
+    return updated;
   }
 
   async updateMachineStatusUpdate(id: string, statusUpdate: string): Promise<Machine | undefined> {
@@ -193,17 +379,306 @@ export class DatabaseStorage implements IStorage {
       })
       .where(eq(machines.id, id));
 
-    return (await this.getMachine(id))!;
+    const updated = (await this.getMachine(id))!;
+    await this.recordChange('machine', id, machine, updated);
+    return updated;
   }
 
   async deleteMachine(id: string): Promise<boolean> {
-    await db.delete(machines).where(eq(machines.id, id));
+    return this.setArchived('machine', id, true);
+  }
+
+  // Machine status history
+  private async recordStatusEvent(
+    machineId: string,
+    fromStatus: MachineStatus | null,
+    toStatus: MachineStatus,
+    note: string | null,
+    createdAt: string,
+  ): Promise<void> {
+    await db.insert(machineStatusEvents).values({
+      id: randomUUID(),
+      machineId,
+      fromStatus,
+      toStatus,
+      note,
+      createdAt,
+    });
+  }
+
+  async getMachineStatusEvents(machineId: string, range: { from?: string; to?: string } = {}): Promise<MachineStatusEvent[]> {
+    const conditions = [eq(machineStatusEvents.machineId, machineId)];
+    if (range.from) conditions.push(gte(machineStatusEvents.createdAt, range.from));
+    if (range.to) conditions.push(lte(machineStatusEvents.createdAt, range.to));
+    return await db.select().from(machineStatusEvents)
+      .where(and(...conditions))
+      .orderBy(machineStatusEvents.createdAt);
+  }
+
+  // Downtime reason code operations
+  async getDowntimeReasons(): Promise<DowntimeReason[]> {
+    return await db.select().from(downtimeReasons).orderBy(downtimeReasons.category, downtimeReasons.code);
+  }
+
+  async getDowntimeReason(id: string): Promise<DowntimeReason | undefined> {
+    const result = await db.select().from(downtimeReasons).where(eq(downtimeReasons.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getDowntimeReasonByCode(code: string): Promise<DowntimeReason | undefined> {
+    const result = await db.select().from(downtimeReasons).where(eq(downtimeReasons.code, code)).limit(1);
+    return result[0];
+  }
+
+  async createDowntimeReason(reason: InsertDowntimeReason): Promise<DowntimeReason> {
+    const id = randomUUID();
+    const now = new Date().toISOString();
+    const isActive = reason.isActive ?? true;
+    await db.insert(downtimeReasons).values({
+      id,
+      code: reason.code,
+      category: reason.category,
+      label: reason.label,
+      isActive,
+      deactivatedAt: isActive ? null : now,
+      createdAt: now,
+      updatedAt: now,
+    });
+    const created = (await this.getDowntimeReason(id))!;
+    await this.recordChange('downtime_reason', id, null, created);
+    return created;
+  }
+
+  async updateDowntimeReason(id: string, updates: Partial<InsertDowntimeReason>): Promise<DowntimeReason | undefined> {
+    const existing = await this.getDowntimeReason(id);
+    if (!existing) return undefined;
+
+    const now = new Date().toISOString();
+    const updateObj: any = { updatedAt: now };
+    if (updates.code !== undefined) updateObj.code = updates.code;
+    if (updates.category !== undefined) updateObj.category = updates.category;
+    if (updates.label !== undefined) updateObj.label = updates.label;
+    if (updates.isActive !== undefined && updates.isActive !== existing.isActive) {
+      updateObj.isActive = updates.isActive;
+      updateObj.deactivatedAt = updates.isActive ? null : now;
+    }
+
+    await db.update(downtimeReasons).set(updateObj).where(eq(downtimeReasons.id, id));
+    const updated = await this.getDowntimeReason(id);
+    await this.recordChange('downtime_reason', id, existing, updated);
+    return updated;
+  }
+
+  // Downtime log operations
+  async getDowntimeLogs(): Promise<DowntimeLog[]> {
+    return await db.select().from(downtimeLogs).orderBy(downtimeLogs.startTime);
+  }
+
+  async getDowntimeLogsByMachine(machineId: string): Promise<DowntimeLog[]> {
+    return await db.select().from(downtimeLogs).where(eq(downtimeLogs.machineId, machineId)).orderBy(downtimeLogs.startTime);
+  }
+
+  async getDowntimeLog(id: string): Promise<DowntimeLog | undefined> {
+    const result = await db.select().from(downtimeLogs).where(eq(downtimeLogs.id, id)).limit(1);
+    return result[0];
+  }
+
+  async createDowntimeLog(log: InsertDowntimeLog): Promise<DowntimeLog> {
+    const id = randomUUID();
+    const now = new Date().toISOString();
+    const endTime = log.endTime ?? null;
+    await db.insert(downtimeLogs).values({
+      id,
+      machineId: log.machineId,
+      reasonCategory: log.reasonCategory,
+      reasonCode: log.reasonCode,
+      description: log.description ?? null,
+      reportedBy: log.reportedBy ?? null,
+      startTime: log.startTime,
+      endTime,
+      durationMinutes: endTime ? downtimeMinutes(log.startTime, endTime) : null,
+      createdAt: now,
+      updatedAt: now,
+    });
+    const created = (await this.getDowntimeLog(id))!;
+    await this.recordChange('downtime_log', id, null, created);
+    return created;
+  }
+
+  async updateDowntimeLog(id: string, updates: Partial<InsertDowntimeLog>): Promise<DowntimeLog | undefined> {
+    const existing = await this.getDowntimeLog(id);
+    if (!existing) return undefined;
+
+    const updateObj: any = { updatedAt: new Date().toISOString() };
+    if (updates.machineId !== undefined) updateObj.machineId = updates.machineId;
+    if (updates.reasonCategory !== undefined) updateObj.reasonCategory = updates.reasonCategory;
+    if (updates.reasonCode !== undefined) updateObj.reasonCode = updates.reasonCode;
+    if (updates.description !== undefined) updateObj.description = updates.description;
+    if (updates.reportedBy !== undefined) updateObj.reportedBy = updates.reportedBy;
+    if (updates.startTime !== undefined) updateObj.startTime = updates.startTime;
+    if (updates.endTime !== undefined) updateObj.endTime = updates.endTime;
+
+    // Keep the stamped duration consistent with whatever start/end the row ends up with
+    const startTime = updateObj.startTime ?? existing.startTime;
+    const endTime = updateObj.endTime !== undefined ? updateObj.endTime : existing.endTime;
+    updateObj.durationMinutes = endTime ? downtimeMinutes(startTime, endTime) : null;
+
+    await db.update(downtimeLogs).set(updateObj).where(eq(downtimeLogs.id, id));
+    const updated = await this.getDowntimeLog(id);
+    await this.recordChange('downtime_log', id, existing, updated);
+    return updated;
+  }
+
+  async endDowntimeLog(id: string, endTime: string): Promise<DowntimeLog | undefined> {
+    const existing = await this.getDowntimeLog(id);
+    if (!existing) return undefined;
+
+    await db.update(downtimeLogs).set({
+      endTime,
+      durationMinutes: downtimeMinutes(existing.startTime, endTime),
+      updatedAt: new Date().toISOString(),
+    }).where(eq(downtimeLogs.id, id));
+    const updated = await this.getDowntimeLog(id);
+    await this.recordChange('downtime_log', id, existing, updated);
+    return updated;
+  }
+
+  async deleteDowntimeLog(id: string): Promise<boolean> {
+    const existing = await this.getDowntimeLog(id);
+    if (!existing) return false;
+    await db.delete(downtimeLogs).where(eq(downtimeLogs.id, id));
+    await this.recordChange('downtime_log', id, existing, null);
+    return true;
+  }
+
+  // Production count operations
+  async getProductionCounts(filter: { machineId?: string; from?: string; to?: string } = {}): Promise<ProductionCount[]> {
+    const conditions = [];
+    if (filter.machineId) conditions.push(eq(productionCounts.machineId, filter.machineId));
+    // Any period overlapping the window
+    if (filter.from) conditions.push(gte(productionCounts.periodEnd, filter.from));
+    if (filter.to) conditions.push(lte(productionCounts.periodStart, filter.to));
+    return await db.select().from(productionCounts)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(productionCounts.periodStart);
+  }
+
+  async getProductionCount(id: string): Promise<ProductionCount | undefined> {
+    const result = await db.select().from(productionCounts).where(eq(productionCounts.id, id)).limit(1);
+    return result[0];
+  }
+
+  async createProductionCount(count: InsertProductionCount): Promise<ProductionCount> {
+    const [created] = await this.createProductionCounts([count]);
+    return created;
+  }
+
+  // All-or-nothing: a bad row rolls back the whole batch
+  async createProductionCounts(counts: InsertProductionCount[]): Promise<ProductionCount[]> {
+    if (counts.length === 0) return [];
+    const now = new Date().toISOString();
+    const rows = counts.map((count) => ({
+      id: randomUUID(),
+      machineId: count.machineId,
+      partId: count.partId ?? null,
+      shift: count.shift ?? null,
+      goodQuantity: count.goodQuantity,
+      totalQuantity: count.totalQuantity,
+      periodStart: count.periodStart,
+      periodEnd: count.periodEnd,
+      note: count.note ?? null,
+      createdAt: now,
+      updatedAt: now,
+    }));
+    await db.transaction(async (tx) => {
+      await tx.insert(productionCounts).values(rows);
+      await this.recordCreations('production_count', rows, tx);
+    });
+    return rows;
+  }
+
+  async updateProductionCount(id: string, updates: Partial<InsertProductionCount>): Promise<ProductionCount | undefined> {
+    const existing = await this.getProductionCount(id);
+    if (!existing) return undefined;
+    const updateObj: any = { updatedAt: new Date().toISOString() };
+    if (updates.machineId !== undefined) updateObj.machineId = updates.machineId;
+    if (updates.partId !== undefined) updateObj.partId = updates.partId;
+    if (updates.shift !== undefined) updateObj.shift = updates.shift;
+    if (updates.goodQuantity !== undefined) updateObj.goodQuantity = updates.goodQuantity;
+    if (updates.totalQuantity !== undefined) updateObj.totalQuantity = updates.totalQuantity;
+    if (updates.periodStart !== undefined) updateObj.periodStart = updates.periodStart;
+    if (updates.periodEnd !== undefined) updateObj.periodEnd = updates.periodEnd;
+    if (updates.note !== undefined) updateObj.note = updates.note;
+
+    await db.update(productionCounts).set(updateObj).where(eq(productionCounts.id, id));
+    const updated = await this.getProductionCount(id);
+    await this.recordChange('production_count', id, existing, updated);
+    return updated;
+  }
+
+  async deleteProductionCount(id: string): Promise<boolean> {
+    const existing = await this.getProductionCount(id);
+    if (!existing) return false;
+    await db.delete(productionCounts).where(eq(productionCounts.id, id));
+    await this.recordChange('production_count', id, existing, null);
+    return true;
+  }
+
+  // Shift calendar operations
+  async getShiftDefinitions(): Promise<ShiftDefinition[]> {
+    return await db.select().from(shiftDefinitions).orderBy(shiftDefinitions.sortOrder, shiftDefinitions.startTime);
+  }
+
+  async createShiftDefinition(shift: InsertShiftDefinition): Promise<ShiftDefinition> {
+    const id = randomUUID();
+    const now = new Date().toISOString();
+    await db.insert(shiftDefinitions).values({ id, ...shift, createdAt: now, updatedAt: now });
+    const result = await db.select().from(shiftDefinitions).where(eq(shiftDefinitions.id, id)).limit(1);
+    await this.recordChange('shift', id, null, result[0]);
+    return result[0]!;
+  }
+
+  async updateShiftDefinition(id: string, updates: Partial<InsertShiftDefinition>): Promise<ShiftDefinition | undefined> {
+    const [existing] = await db.select().from(shiftDefinitions).where(eq(shiftDefinitions.id, id)).limit(1);
+    await db.update(shiftDefinitions).set({ ...updates, updatedAt: new Date().toISOString() }).where(eq(shiftDefinitions.id, id));
+    const result = await db.select().from(shiftDefinitions).where(eq(shiftDefinitions.id, id)).limit(1);
+    if (existing) await this.recordChange('shift', id, existing, result[0]);
+    return result[0];
+  }
+
+  async deleteShiftDefinition(id: string): Promise<boolean> {
+    const [existing] = await db.select().from(shiftDefinitions).where(eq(shiftDefinitions.id, id)).limit(1);
+    if (!existing) return false;
+    await db.delete(shiftDefinitions).where(eq(shiftDefinitions.id, id));
+    await this.recordChange('shift', id, existing, null);
+    return true;
+  }
+
+  async getPlantHolidays(): Promise<PlantHoliday[]> {
+    return await db.select().from(plantHolidays).orderBy(plantHolidays.date);
+  }
+
+  async createPlantHoliday(holiday: InsertPlantHoliday): Promise<PlantHoliday> {
+    const id = randomUUID();
+    await db.insert(plantHolidays).values({ id, ...holiday, createdAt: new Date().toISOString() });
+    const result = await db.select().from(plantHolidays).where(eq(plantHolidays.id, id)).limit(1);
+    await this.recordChange('holiday', id, null, result[0]);
+    return result[0]!;
+  }
+
+  async deletePlantHoliday(id: string): Promise<boolean> {
+    const [existing] = await db.select().from(plantHolidays).where(eq(plantHolidays.id, id)).limit(1);
+    if (!existing) return false;
+    await db.delete(plantHolidays).where(eq(plantHolidays.id, id));
+    await this.recordChange('holiday', id, existing, null);
     return true;
   }
 
   // Cell Configuration operations
-  async getCellConfigurations(): Promise<CellConfiguration[]> {
-    return await db.select().from(cellConfigurations).orderBy(cellConfigurations.updatedAt);
+  async getCellConfigurations(options: ArchiveFilter = {}): Promise<CellConfiguration[]> {
+    return await db.select().from(cellConfigurations)
+      .where(options.includeArchived ? undefined : eq(cellConfigurations.isArchived, false))
+      .orderBy(cellConfigurations.updatedAt);
   }
 
   async getCellConfiguration(id: string): Promise<CellConfiguration | undefined> {
@@ -214,29 +689,62 @@ export class DatabaseStorage implements IStorage {
   async createCellConfiguration(config: InsertCellConfiguration): Promise<CellConfiguration> {
     const id = randomUUID();
     const now = new Date().toISOString();
-    await db.insert(cellConfigurations).values({
-      id,
-      ...config,
-      createdAt: now,
-      updatedAt: now,
+    await db.transaction(async (tx) => {
+      await tx.insert(cellConfigurations).values({
+        id,
+        ...config,
+        createdAt: now,
+        updatedAt: now,
+      });
+      await this.setCellMachines(tx, id, routedMachineIds(config.operationsJson));
     });
     const result = await db.select().from(cellConfigurations).where(eq(cellConfigurations.id, id)).limit(1);
+    await this.recordChange('cell', id, null, result[0]);
     return result[0]!;
   }
 
   async updateCellConfiguration(id: string, updates: Partial<InsertCellConfiguration>): Promise<CellConfiguration | undefined> {
+    const existing = await this.getCellConfiguration(id);
     const now = new Date().toISOString();
-    await db.update(cellConfigurations).set({
-      ...updates,
-      updatedAt: now,
-    }).where(eq(cellConfigurations.id, id));
+    await db.transaction(async (tx) => {
+      await tx.update(cellConfigurations).set({
+        ...updates,
+        updatedAt: now,
+      }).where(eq(cellConfigurations.id, id));
+      if (existing && !existing.isArchived && updates.operationsJson !== undefined) {
+        await this.setCellMachines(tx, id, routedMachineIds(updates.operationsJson));
+      }
+    });
     const result = await db.select().from(cellConfigurations).where(eq(cellConfigurations.id, id)).limit(1);
+    if (existing) await this.recordChange('cell', id, existing, result[0]);
     return result[0];
   }
 
   async deleteCellConfiguration(id: string): Promise<boolean> {
-    const result = await db.delete(cellConfigurations).where(eq(cellConfigurations.id, id));
-    return !!result;
+    return this.setArchived('cell', id, true);
+  }
+
+  // Which of the machines another active cell already has; archived cells have no members
+  async getCellMembershipConflicts(machineIds: string[], cellId?: string): Promise<CellMembershipConflict[]> {
+    if (machineIds.length === 0) return [];
+    const members = await db.select({
+      machineId: cellMachines.machineId,
+      machineName: machines.name,
+      cellId: cellMachines.cellId,
+      cellName: cellConfigurations.name,
+    }).from(cellMachines)
+      .innerJoin(machines, eq(machines.id, cellMachines.machineId))
+      .innerJoin(cellConfigurations, eq(cellConfigurations.id, cellMachines.cellId))
+      .where(inArray(cellMachines.machineId, machineIds));
+    return members.filter((member) => member.cellId !== cellId);
+  }
+
+  // Replaces a cell's membership with the machines its routing uses. Callers check conflicts first.
+  private async setCellMachines(executor: CellMachinesExecutor, cellId: string, machineIds: string[]) {
+    await executor.delete(cellMachines).where(eq(cellMachines.cellId, cellId));
+    if (machineIds.length === 0) return;
+    const now = new Date().toISOString();
+    await executor.insert(cellMachines).values(machineIds.map((machineId) => ({ id: randomUUID(), cellId, machineId, createdAt: now })));
   }
 
   // Scrap Incident operations
@@ -248,54 +756,93 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(scrapIncidents).where(eq(scrapIncidents.machineId, machineId)).orderBy(scrapIncidents.createdAt);
   }
 
+  async getScrapIncident(id: string): Promise<ScrapIncident | undefined> {
+    const result = await db.select().from(scrapIncidents).where(eq(scrapIncidents.id, id)).limit(1);
+    return result[0];
+  }
+
   async createScrapIncident(incident: InsertScrapIncident): Promise<ScrapIncident> {
     const id = randomUUID();
     const now = new Date().toISOString();
-    const status = incident.status === 'closed' ? 'closed' : 'open';
     await db.insert(scrapIncidents).values({
       id,
       machineId: incident.machineId,
       partId: incident.partId ?? null,
-      characteristic: incident.characteristic,
+      characteristic: incident.characteristic ?? '',
+      characteristicId: incident.characteristicId ?? null,
       quantity: incident.quantity,
-      estimatedCost: incident.estimatedCost,
+      estimatedCost: incident.estimatedCost ?? 0,
       note: incident.note ?? null,
-      status,
+      status: incident.status ?? 'open',
       dateCreated: incident.dateCreated ?? null,
       dateClosed: incident.dateClosed ?? null,
+      containmentAction: incident.containmentAction ?? null,
+      rootCauseCategory: incident.rootCauseCategory ?? null,
+      rootCause: incident.rootCause ?? null,
+      correctiveAction: incident.correctiveAction ?? null,
+      actionOwner: incident.actionOwner ?? null,
+      actionDueDate: incident.actionDueDate ?? null,
+      verifiedBy: incident.verifiedBy ?? null,
+      verifiedAt: incident.verifiedAt ?? null,
+      verificationNote: incident.verificationNote ?? null,
+      costCalculated: incident.costCalculated ?? false,
       updatedAt: now,
       createdAt: now,
     });
     const result = await db.select().from(scrapIncidents).where(eq(scrapIncidents.id, id)).limit(1);
+    await this.recordChange('scrap_incident', id, null, result[0]);
     return result[0]!;
   }
 
   async updateScrapIncident(id: string, updates: Partial<InsertScrapIncident>): Promise<ScrapIncident | undefined> {
+    const existing = await this.getScrapIncident(id);
     const now = new Date().toISOString();
     const updateObj: any = { updatedAt: now };
     if (updates.machineId !== undefined) updateObj.machineId = updates.machineId;
     if (updates.partId !== undefined) updateObj.partId = updates.partId;
     if (updates.characteristic !== undefined) updateObj.characteristic = updates.characteristic;
+    if (updates.characteristicId !== undefined) updateObj.characteristicId = updates.characteristicId;
     if (updates.quantity !== undefined) updateObj.quantity = updates.quantity;
     if (updates.estimatedCost !== undefined) updateObj.estimatedCost = updates.estimatedCost;
     if (updates.note !== undefined) updateObj.note = updates.note;
-    if (updates.status !== undefined) updateObj.status = updates.status === 'closed' ? 'closed' : 'open';
+    if (updates.status !== undefined) updateObj.status = updates.status;
     if (updates.dateCreated !== undefined) updateObj.dateCreated = updates.dateCreated;
     if (updates.dateClosed !== undefined) updateObj.dateClosed = updates.dateClosed;
+    if (updates.containmentAction !== undefined) updateObj.containmentAction = updates.containmentAction;
+    if (updates.rootCauseCategory !== undefined) updateObj.rootCauseCategory = updates.rootCauseCategory;
+    if (updates.rootCause !== undefined) updateObj.rootCause = updates.rootCause;
+    if (updates.correctiveAction !== undefined) updateObj.correctiveAction = updates.correctiveAction;
+    if (updates.actionOwner !== undefined) updateObj.actionOwner = updates.actionOwner;
+    if (updates.actionDueDate !== undefined) updateObj.actionDueDate = updates.actionDueDate;
+    if (updates.verifiedBy !== undefined) updateObj.verifiedBy = updates.verifiedBy;
+    if (updates.verifiedAt !== undefined) updateObj.verifiedAt = updates.verifiedAt;
+    if (updates.verificationNote !== undefined) updateObj.verificationNote = updates.verificationNote;
+    if (updates.costCalculated !== undefined) updateObj.costCalculated = updates.costCalculated;
     await db.update(scrapIncidents).set(updateObj).where(eq(scrapIncidents.id, id));
     const result = await db.select().from(scrapIncidents).where(eq(scrapIncidents.id, id)).limit(1);
+    if (existing) await this.recordChange('scrap_incident', id, existing, result[0]);
     return result[0];
   }
 
   async deleteScrapIncident(id: string): Promise<boolean> {
+    const existing = await this.getScrapIncident(id);
+    if (!existing) return false;
     await db.delete(scrapIncidents).where(eq(scrapIncidents.id, id));
+    await this.recordChange('scrap_incident', id, existing, null);
     return true;
   }
 
   // SPC records — normalized 3NF operations
   // ─── Parts ───
-  async getParts(): Promise<Part[]> {
-    return await db.select().from(parts).orderBy(parts.partNumber);
+  async getParts(options: ArchiveFilter = {}): Promise<Part[]> {
+    return await db.select().from(parts)
+      .where(options.includeArchived ? undefined : eq(parts.isArchived, false))
+      .orderBy(parts.partNumber);
+  }
+
+  async getPart(id: string): Promise<Part | undefined> {
+    const result = await db.select().from(parts).where(eq(parts.id, id)).limit(1);
+    return result[0];
   }
 
   async getPartByNumber(partNumber: string): Promise<Part | undefined> {
@@ -308,27 +855,44 @@ export class DatabaseStorage implements IStorage {
     const now = new Date().toISOString();
     await db.insert(parts).values({ id, ...part, createdAt: now });
     const result = await db.select().from(parts).where(eq(parts.id, id)).limit(1);
+    await this.recordChange('part', id, null, result[0]);
     return result[0]!;
   }
 
   async updatePart(id: string, updates: Partial<InsertPart>): Promise<Part | undefined> {
+    const existing = await this.getPart(id);
     await db.update(parts).set(updates).where(eq(parts.id, id));
     const result = await db.select().from(parts).where(eq(parts.id, id)).limit(1);
+    if (existing) await this.recordChange('part', id, existing, result[0]);
     return result[0];
   }
 
   async deletePart(id: string): Promise<boolean> {
-    await db.delete(parts).where(eq(parts.id, id));
-    return true;
+    return this.setArchived('part', id, true);
+  }
+
+  // Active characteristics and their measurements, which would be left without a visible part
+  async getPartDependents(id: string): Promise<DependentRows[]> {
+    const activeChars = and(eq(characteristics.partId, id), eq(characteristics.isArchived, false))!;
+    const charIds = db.select({ id: characteristics.id }).from(characteristics).where(activeChars);
+    const dependents = [
+      { label: 'characteristics', count: await this.countRows(characteristics, activeChars) },
+      { label: 'measurements', count: await this.countRows(spcMeasurements, inArray(spcMeasurements.characteristicId, charIds)) },
+    ];
+    return dependents.filter((rows) => rows.count > 0);
   }
 
   // ─── Characteristics ───
-  async getCharacteristics(): Promise<Characteristic[]> {
-    return await db.select().from(characteristics).orderBy(characteristics.charNumber);
+  async getCharacteristics(options: ArchiveFilter = {}): Promise<Characteristic[]> {
+    return await db.select().from(characteristics)
+      .where(options.includeArchived ? undefined : eq(characteristics.isArchived, false))
+      .orderBy(characteristics.charNumber);
   }
 
-  async getCharacteristicsByPart(partId: string): Promise<Characteristic[]> {
-    return await db.select().from(characteristics).where(eq(characteristics.partId, partId)).orderBy(characteristics.charNumber);
+  async getCharacteristicsByPart(partId: string, options: ArchiveFilter = {}): Promise<Characteristic[]> {
+    const conditions = [eq(characteristics.partId, partId)];
+    if (!options.includeArchived) conditions.push(eq(characteristics.isArchived, false));
+    return await db.select().from(characteristics).where(and(...conditions)).orderBy(characteristics.charNumber);
   }
 
   async getCharacteristic(id: string): Promise<Characteristic | undefined> {
@@ -348,10 +912,12 @@ export class DatabaseStorage implements IStorage {
     const now = new Date().toISOString();
     await db.insert(characteristics).values({ id, ...char, createdAt: now });
     const result = await db.select().from(characteristics).where(eq(characteristics.id, id)).limit(1);
+    await this.recordChange('characteristic', id, null, result[0]);
     return result[0]!;
   }
 
   async updateCharacteristic(id: string, updates: Partial<InsertCharacteristic>): Promise<Characteristic | undefined> {
+    const existing = await this.getCharacteristic(id);
     const updateObj: any = {};
     if (updates.charNumber !== undefined) updateObj.charNumber = updates.charNumber;
     if (updates.charName !== undefined) updateObj.charName = updates.charName;
@@ -359,21 +925,25 @@ export class DatabaseStorage implements IStorage {
     if (updates.nominalValue !== undefined) updateObj.nominalValue = updates.nominalValue;
     if (updates.charMax !== undefined) updateObj.charMax = updates.charMax;
     if (updates.charMin !== undefined) updateObj.charMin = updates.charMin;
-    if (updates.tolerance !== undefined) updateObj.tolerance = updates.tolerance;
+    if (updates.toleranceUpper !== undefined) updateObj.toleranceUpper = updates.toleranceUpper;
+    if (updates.toleranceLower !== undefined) updateObj.toleranceLower = updates.toleranceLower;
+    if (updates.unit !== undefined) updateObj.unit = updates.unit;
     if (updates.opName !== undefined) updateObj.opName = updates.opName;
     if (updates.partId !== undefined) updateObj.partId = updates.partId;
+    if (updates.subgroupSize !== undefined) updateObj.subgroupSize = updates.subgroupSize;
+    if (updates.ruleSet !== undefined) updateObj.ruleSet = updates.ruleSet;
+    if (updates.attributeChartType !== undefined) updateObj.attributeChartType = updates.attributeChartType;
     if (Object.keys(updateObj).length > 0) {
       await db.update(characteristics).set(updateObj).where(eq(characteristics.id, id));
     }
     const result = await db.select().from(characteristics).where(eq(characteristics.id, id)).limit(1);
+    if (existing) await this.recordChange('characteristic', id, existing, result[0]);
     return result[0];
   }
 
+  // Its measurements are kept, and they block purging the characteristic until they are gone
   async deleteCharacteristic(id: string): Promise<boolean> {
-    // Also delete measurements for this characteristic
-    await db.delete(spcMeasurements).where(eq(spcMeasurements.characteristicId, id));
-    await db.delete(characteristics).where(eq(characteristics.id, id));
-    return true;
+    return this.setArchived('characteristic', id, true);
   }
 
   // ─── Measurements ───
@@ -385,17 +955,49 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(spcMeasurements).where(eq(spcMeasurements.characteristicId, characteristicId)).orderBy(spcMeasurements.createdAt);
   }
 
-  async createMeasurement(measurement: InsertSpcMeasurement): Promise<SpcMeasurement> {
-    const id = randomUUID();
-    const now = new Date().toISOString();
-    await db.insert(spcMeasurements).values({ id, ...measurement, createdAt: now });
+  async getMeasurement(id: string): Promise<SpcMeasurement | undefined> {
     const result = await db.select().from(spcMeasurements).where(eq(spcMeasurements.id, id)).limit(1);
-    return result[0]!;
+    return result[0];
+  }
+
+  async createMeasurement(measurement: InsertSpcMeasurement): Promise<SpcMeasurement> {
+    const [created] = await this.createMeasurements([measurement]);
+    return created;
+  }
+
+  // All-or-nothing. Rows are stamped a millisecond apart so they keep their order on the charts
+  // and in the run rules.
+  async createMeasurements(measurements: InsertSpcMeasurement[]): Promise<SpcMeasurement[]> {
+    if (measurements.length === 0) return [];
+    const start = Date.now();
+    const rows = measurements.map((measurement, index) => ({
+      id: randomUUID(),
+      characteristicId: measurement.characteristicId,
+      machineId: measurement.machineId,
+      measuredValue: measurement.measuredValue ?? null,
+      subgroupId: measurement.subgroupId ?? null,
+      gaugeId: measurement.gaugeId ?? null,
+      sampleSize: measurement.sampleSize ?? null,
+      defectCount: measurement.defectCount ?? null,
+      status: measurement.status ?? 'open',
+      recordNote: measurement.recordNote ?? null,
+      createdAt: new Date(start + index).toISOString(),
+    }));
+    await db.transaction(async (tx) => {
+      await tx.insert(spcMeasurements).values(rows);
+      await this.recordCreations('measurement', rows, tx);
+    });
+    return rows;
   }
 
   async updateMeasurement(id: string, updates: Partial<InsertSpcMeasurement>): Promise<SpcMeasurement | undefined> {
+    const existing = await this.getMeasurement(id);
     const updateObj: any = {};
     if (updates.measuredValue !== undefined) updateObj.measuredValue = updates.measuredValue;
+    if (updates.subgroupId !== undefined) updateObj.subgroupId = updates.subgroupId;
+    if (updates.gaugeId !== undefined) updateObj.gaugeId = updates.gaugeId;
+    if (updates.sampleSize !== undefined) updateObj.sampleSize = updates.sampleSize;
+    if (updates.defectCount !== undefined) updateObj.defectCount = updates.defectCount;
     if (updates.status !== undefined) updateObj.status = updates.status;
     if (updates.recordNote !== undefined) updateObj.recordNote = updates.recordNote;
     if (updates.machineId !== undefined) updateObj.machineId = updates.machineId;
@@ -404,14 +1006,52 @@ export class DatabaseStorage implements IStorage {
       await db.update(spcMeasurements).set(updateObj).where(eq(spcMeasurements.id, id));
     }
     const result = await db.select().from(spcMeasurements).where(eq(spcMeasurements.id, id)).limit(1);
+    if (existing) await this.recordChange('measurement', id, existing, result[0]);
     return result[0];
   }
 
   async deleteMeasurement(id: string): Promise<boolean> {
+    const existing = await this.getMeasurement(id);
+    if (!existing) return false;
+    await db.delete(spcRuleViolations).where(eq(spcRuleViolations.measurementId, id));
     await db.delete(spcMeasurements).where(eq(spcMeasurements.id, id));
+    await this.recordChange('measurement', id, existing, null);
     return true;
   }
 
+  // ─── Rule violations ───
+  async getRuleViolations(filter: { characteristicId?: string; machineId?: string; from?: string } = {}): Promise<SpcRuleViolation[]> {
+    const conditions = [];
+    if (filter.characteristicId) conditions.push(eq(spcRuleViolations.characteristicId, filter.characteristicId));
+    if (filter.machineId) conditions.push(eq(spcRuleViolations.machineId, filter.machineId));
+    if (filter.from) conditions.push(gte(spcRuleViolations.createdAt, filter.from));
+    return await db.select().from(spcRuleViolations)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(spcRuleViolations.createdAt), spcRuleViolations.rule);
+  }
+
+  // A measurement's violations are always re-evaluated as a whole. A violation that is found
+  // again keeps its id and createdAt, so re-evaluation does not report old signals as new.
+  async replaceRuleViolations(measurementIds: string[], violations: InsertSpcRuleViolation[]): Promise<SpcRuleViolation[]> {
+    const now = new Date().toISOString();
+    if (measurementIds.length === 0) {
+      return violations.map((violation) => ({ id: randomUUID(), ...violation, createdAt: now }));
+    }
+    return await db.transaction(async (tx) => {
+      const key = (violation: InsertSpcRuleViolation) => `${violation.measurementId}:${violation.ruleSet}:${violation.rule}`;
+      const previous = await tx.select().from(spcRuleViolations)
+        .where(inArray(spcRuleViolations.measurementId, measurementIds));
+      const previousByKey = new Map(previous.map((violation) => [key(violation), violation]));
+      const rows = violations.map((violation) => {
+        const kept = previousByKey.get(key(violation));
+        return { ...violation, id: kept?.id ?? randomUUID(), createdAt: kept?.createdAt ?? now };
+      });
+      await tx.delete(spcRuleViolations).where(inArray(spcRuleViolations.measurementId, measurementIds));
+      if (rows.length > 0) await tx.insert(spcRuleViolations).values(rows);
+      return rows;
+    });
+  }
+
   // ─── Flat joined view (backward compat for dashboard + frontend) ───
   private async buildFlatRecords(whereClause?: any): Promise<SpcRecordFlat[]> {
     let query = db
@@ -427,7 +1067,9 @@ export class DatabaseStorage implements IStorage {
         nominalValue: characteristics.nominalValue,
         charMax: characteristics.charMax,
         charMin: characteristics.charMin,
-        tolerance: characteristics.tolerance,
+        toleranceUpper: characteristics.toleranceUpper,
+        toleranceLower: characteristics.toleranceLower,
+        unit: characteristics.unit,
         opName: characteristics.opName,
         measuredValue: spcMeasurements.measuredValue,
         status: spcMeasurements.status,
@@ -498,10 +1140,7 @@ export class DatabaseStorage implements IStorage {
         partId: part.id,
         charNumber: charNumber || '(unknown)',
         charName,
-        nominalValue: finding.nominalValue || null,
-        charMax: finding.charMax || null,
-        charMin: finding.charMin || null,
-        tolerance: finding.tolerance || null,
+        ...legacySpecFields(finding),
         opName: finding.opName || null,
       });
     }
@@ -510,7 +1149,7 @@ export class DatabaseStorage implements IStorage {
     const measurement = await this.createMeasurement({
       characteristicId: char.id,
       machineId: finding.machineId,
-      measuredValue: finding.measuredValue,
+      measuredValue: legacyReading(finding.measuredValue, finding.unit, char.unit),
       status: finding.status || 'open',
       recordNote: finding.correctiveAction || finding.recordNote || null,
     });
@@ -520,6 +1159,118 @@ export class DatabaseStorage implements IStorage {
     return flat[0]!;
   }
 
+  /**
+   * Import of flat rows in one transaction. Parts and characteristics are looked up in batch by
+   * number, the missing ones are created, and measurements go in with multi-row inserts. By
+   * default a failing row aborts the import with a ZodError whose issue paths start with the row
+   * index; with `skipInvalid` such rows are left out and listed in `skipped`. Run rules are not
+   * evaluated for imported history.
+   */
+  async importAuditFindings(rows: SpcImportRow[], options: { skipInvalid?: boolean } = {}): Promise<SpcImportResult> {
+    return db.transaction(async (tx) => {
+      const now = new Date().toISOString();
+      const start = Date.now();
+
+      const partByNumber = new Map<string, Part>();
+      for (const batch of chunk(Array.from(new Set(rows.map((row) => row.partNumber))), IMPORT_BATCH_SIZE)) {
+        const found = await tx.select().from(parts).where(inArray(parts.partNumber, batch));
+        found.forEach((part) => partByNumber.set(part.partNumber, part));
+      }
+      const charByKey = new Map<string, Characteristic>();
+      for (const batch of chunk(Array.from(partByNumber.values()).map((part) => part.id), IMPORT_BATCH_SIZE)) {
+        const found = await tx.select().from(characteristics).where(inArray(characteristics.partId, batch));
+        found.forEach((char) => charByKey.set(`${char.partId}|${char.charNumber}`, char));
+      }
+
+      // Parts and characteristics to create, keyed like the lookups; the first row for each sets its fields
+      const newParts = new Map<string, typeof parts.$inferInsert>();
+      const newChars = new Map<string, typeof characteristics.$inferInsert>();
+      const measurementRows: (typeof spcMeasurements.$inferInsert)[] = [];
+      const skipped: SpcImportResult['skipped'] = [];
+
+      for (let index = 0; index < rows.length; index++) {
+        const row = rows[index];
+        const part = partByNumber.get(row.partNumber) ?? newParts.get(row.partNumber) ?? {
+          id: randomUUID(),
+          partNumber: row.partNumber,
+          partName: row.partName || null,
+          createdAt: now,
+        };
+        const key = `${part.id}|${row.charNumber}`;
+        const existingChar = charByKey.get(key) ?? newChars.get(key);
+        let pendingChar: typeof characteristics.$inferInsert | undefined;
+        if (!existingChar) {
+          const spec = completeSpec({
+            nominal: row.nominalValue ?? null,
+            max: row.charMax ?? null,
+            min: row.charMin ?? null,
+            tolerance: row.tolerance ?? null,
+          });
+          pendingChar = {
+            id: randomUUID(),
+            partId: part.id!,
+            charNumber: row.charNumber,
+            charName: row.charName || null,
+            nominalValue: spec.nominal,
+            charMax: spec.max,
+            charMin: spec.min,
+            toleranceUpper: spec.tolerance?.upper ?? null,
+            toleranceLower: spec.tolerance?.lower ?? null,
+            unit: row.unit ?? null,
+            opName: row.opName || null,
+            createdAt: now,
+          };
+        }
+        const char = existingChar ?? pendingChar!;
+
+        let measuredValue: number;
+        try {
+          measuredValue = legacyReading(row.measuredValue, row.unit, char.unit ?? null);
+        } catch (err) {
+          if (!(err instanceof z.ZodError)) throw err;
+          if (!options.skipInvalid) {
+            throw new z.ZodError(err.errors.map((issue) => ({ ...issue, path: [index, ...issue.path] })));
+          }
+          skipped.push({ index, message: err.errors.map((issue) => issue.message).join(', ') });
+          continue;
+        }
+
+        // Only rows that are kept create their part and characteristic
+        if (!partByNumber.has(part.partNumber)) newParts.set(part.partNumber, part);
+        if (pendingChar) newChars.set(key, pendingChar);
+        measurementRows.push({
+          id: randomUUID(),
+          characteristicId: char.id!,
+          machineId: row.machineId,
+          measuredValue,
+          status: row.status || 'open',
+          recordNote: row.recordNote || null,
+          // Undated rows keep their file order a millisecond apart
+          createdAt: row.createdAt ? new Date(row.createdAt).toISOString() : new Date(start + index).toISOString(),
+        });
+      }
+
+      for (const batch of chunk(Array.from(newParts.values()), IMPORT_BATCH_SIZE)) {
+        await tx.insert(parts).values(batch);
+      }
+      for (const batch of chunk(Array.from(newChars.values()), IMPORT_BATCH_SIZE)) {
+        await tx.insert(characteristics).values(batch);
+      }
+      for (const batch of chunk(measurementRows, IMPORT_BATCH_SIZE)) {
+        await tx.insert(spcMeasurements).values(batch);
+      }
+      await this.recordCreations('part', Array.from(newParts.values()) as Part[], tx);
+      await this.recordCreations('characteristic', Array.from(newChars.values()) as Characteristic[], tx);
+      await this.recordCreations('measurement', measurementRows as SpcMeasurement[], tx);
+      return {
+        imported: measurementRows.length,
+        partsCreated: newParts.size,
+        characteristicsCreated: newChars.size,
+        skipped,
+      };
+    });
+  }
+
   /**
    * Legacy update: accepts flat payload. Updates measurement fields on spc_measurements,
    * and characteristic fields on characteristics table.
@@ -531,26 +1282,31 @@ export class DatabaseStorage implements IStorage {
 
     // Update measurement fields
     const measUpdates: any = {};
-    if (updates.measuredValue !== undefined) measUpdates.measuredValue = updates.measuredValue;
+    if (updates.measuredValue !== undefined) {
+      // A unit sent alongside changes the characteristic's unit below, so the value is taken as in it
+      const charUnit = updates.unit !== undefined
+        ? unitInput.parse(updates.unit)
+        : (await this.getCharacteristic(meas[0].characteristicId))?.unit ?? null;
+      measUpdates.measuredValue = legacyReading(updates.measuredValue, updates.unit, charUnit);
+    }
     if (updates.status !== undefined) measUpdates.status = updates.status;
     if (updates.correctiveAction !== undefined) measUpdates.recordNote = updates.correctiveAction;
     if (updates.recordNote !== undefined) measUpdates.recordNote = updates.recordNote;
     if (updates.machineId !== undefined) measUpdates.machineId = updates.machineId;
     if (Object.keys(measUpdates).length > 0) {
       await db.update(spcMeasurements).set(measUpdates).where(eq(spcMeasurements.id, id));
+      await this.recordChange('measurement', id, meas[0], await this.getMeasurement(id));
     }
 
     // Update characteristic fields if any provided
-    const charUpdates: any = {};
+    const charUpdates: any = legacySpecFields(updates);
     if (updates.charName !== undefined) charUpdates.charName = updates.charName;
-    if (updates.nominalValue !== undefined) charUpdates.nominalValue = updates.nominalValue;
-    if (updates.charMax !== undefined) charUpdates.charMax = updates.charMax;
-    if (updates.charMin !== undefined) charUpdates.charMin = updates.charMin;
-    if (updates.tolerance !== undefined) charUpdates.tolerance = updates.tolerance;
     if (updates.opName !== undefined) charUpdates.opName = updates.opName;
     if (updates.charNumber !== undefined) charUpdates.charNumber = updates.charNumber;
     if (Object.keys(charUpdates).length > 0) {
+      const before = await this.getCharacteristic(meas[0].characteristicId);
       await db.update(characteristics).set(charUpdates).where(eq(characteristics.id, meas[0].characteristicId));
+      if (before) await this.recordChange('characteristic', before.id, before, await this.getCharacteristic(before.id));
     }
 
     // Update part fields if any provided
@@ -561,7 +1317,9 @@ export class DatabaseStorage implements IStorage {
         if (updates.partNumber !== undefined) partUpdates.partNumber = updates.partNumber;
         if (updates.partName !== undefined) partUpdates.partName = updates.partName;
         if (char[0].partId) {
+          const before = await this.getPart(char[0].partId);
           await db.update(parts).set(partUpdates).where(eq(parts.id, char[0].partId));
+          if (before) await this.recordChange('part', before.id, before, await this.getPart(before.id));
         }
       }
     }
@@ -573,6 +1331,412 @@ export class DatabaseStorage implements IStorage {
   async deleteAuditFinding(id: string): Promise<boolean> {
     return this.deleteMeasurement(id);
   }
+
+  // Gauges
+  async getGauges(): Promise<Gauge[]> {
+    return await db.select().from(gauges).orderBy(gauges.gaugeNumber);
+  }
+
+  async getGauge(id: string): Promise<Gauge | undefined> {
+    const result = await db.select().from(gauges).where(eq(gauges.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getGaugeByNumber(gaugeNumber: string): Promise<Gauge | undefined> {
+    const result = await db.select().from(gauges).where(eq(gauges.gaugeNumber, gaugeNumber)).limit(1);
+    return result[0];
+  }
+
+  async createGauge(gauge: InsertGauge): Promise<Gauge> {
+    const id = randomUUID();
+    const now = new Date().toISOString();
+    const isActive = gauge.isActive ?? true;
+    const lastCalibratedAt = gauge.lastCalibratedAt ?? null;
+    await db.insert(gauges).values({
+      id,
+      gaugeNumber: gauge.gaugeNumber,
+      description: gauge.description ?? null,
+      type: gauge.type,
+      resolution: gauge.resolution ?? null,
+      unit: gauge.unit ?? null,
+      calibrationIntervalDays: gauge.calibrationIntervalDays,
+      lastCalibratedAt,
+      nextCalibrationDue: gauge.nextCalibrationDue
+        ?? (lastCalibratedAt ? addDaysToDateKey(lastCalibratedAt, gauge.calibrationIntervalDays) : null),
+      isActive,
+      deactivatedAt: isActive ? null : now,
+      createdAt: now,
+      updatedAt: now,
+    });
+    const created = (await this.getGauge(id))!;
+    await this.recordChange('gauge', id, null, created);
+    return created;
+  }
+
+  /**
+   * A new calibration date or interval moves the due date on, unless a due date is sent with it.
+   */
+  async updateGauge(id: string, updates: Partial<InsertGauge>): Promise<Gauge | undefined> {
+    const existing = await this.getGauge(id);
+    if (!existing) return undefined;
+
+    const now = new Date().toISOString();
+    const { isActive, ...fields } = updates;
+    const updateObj: Partial<typeof gauges.$inferInsert> = { ...fields, updatedAt: now };
+    if (isActive !== undefined && isActive !== existing.isActive) {
+      updateObj.isActive = isActive;
+      updateObj.deactivatedAt = isActive ? null : now;
+    }
+    if (updates.nextCalibrationDue === undefined && (updates.lastCalibratedAt !== undefined || updates.calibrationIntervalDays !== undefined)) {
+      const lastCalibratedAt = updates.lastCalibratedAt !== undefined ? updates.lastCalibratedAt : existing.lastCalibratedAt;
+      const interval = updates.calibrationIntervalDays ?? existing.calibrationIntervalDays;
+      updateObj.nextCalibrationDue = lastCalibratedAt ? addDaysToDateKey(lastCalibratedAt, interval) : existing.nextCalibrationDue;
+    }
+
+    await db.update(gauges).set(updateObj).where(eq(gauges.id, id));
+    const updated = await this.getGauge(id);
+    await this.recordChange('gauge', id, existing, updated);
+    return updated;
+  }
+
+  // Gauge R&R studies
+  async getGaugeStudies(): Promise<GaugeStudy[]> {
+    return await db.select().from(gaugeStudies).orderBy(desc(gaugeStudies.createdAt));
+  }
+
+  async getGaugeStudy(id: string): Promise<GaugeStudy | undefined> {
+    const result = await db.select().from(gaugeStudies).where(eq(gaugeStudies.id, id)).limit(1);
+    return result[0];
+  }
+
+  async createGaugeStudy(study: InsertGaugeStudy): Promise<GaugeStudy> {
+    const id = randomUUID();
+    const now = new Date().toISOString();
+    await db.insert(gaugeStudies).values({
+      ...study,
+      id,
+      readings: study.readings ?? emptyGaugeReadings(study.operators.length, study.partCount, study.trialCount),
+      notes: study.notes ?? null,
+      createdAt: now,
+      updatedAt: now,
+    });
+    const created = (await this.getGaugeStudy(id))!;
+    await this.recordChange('gauge_study', id, null, created);
+    return created;
+  }
+
+  /**
+   * Changing the operators, parts or trials without sending readings resizes the existing grid,
+   * keeping the readings that still fit.
+   */
+  async updateGaugeStudy(id: string, updates: Partial<InsertGaugeStudy>): Promise<GaugeStudy | undefined> {
+    const existing = await this.getGaugeStudy(id);
+    if (!existing) return undefined;
+    let readings = updates.readings;
+    if (!readings && (updates.operators || updates.partCount || updates.trialCount)) {
+      const resized = emptyGaugeReadings(
+        (updates.operators ?? existing.operators).length,
+        updates.partCount ?? existing.partCount,
+        updates.trialCount ?? existing.trialCount,
+      );
+      readings = resized.map((byPart, operator) => byPart.map((trials, part) =>
+        trials.map((_, trial) => existing.readings[operator]?.[part]?.[trial] ?? null)));
+    }
+    await db.update(gaugeStudies)
+      .set({ ...updates, ...(readings ? { readings } : {}), updatedAt: new Date().toISOString() })
+      .where(eq(gaugeStudies.id, id));
+    const updated = await this.getGaugeStudy(id);
+    await this.recordChange('gauge_study', id, existing, updated);
+    return updated;
+  }
+
+  async deleteGaugeStudy(id: string): Promise<boolean> {
+    const existing = await this.getGaugeStudy(id);
+    const result = await db.delete(gaugeStudies).where(eq(gaugeStudies.id, id)).returning({ id: gaugeStudies.id });
+    if (existing) await this.recordChange('gauge_study', id, existing, null);
+    return result.length > 0;
+  }
+
+  // User and login session operations
+  async getUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(users.username);
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const result = await db.select().from(users).where(eq(users.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const result = await db.select().from(users).where(eq(users.username, username.toLowerCase())).limit(1);
+    return result[0];
+  }
+
+  async createUser(user: StoredUserFields): Promise<User> {
+    const id = randomUUID();
+    const now = new Date().toISOString();
+    await db.insert(users).values({
+      id,
+      username: user.username.toLowerCase(),
+      displayName: user.displayName ?? null,
+      passwordHash: user.passwordHash,
+      role: user.role,
+      isActive: user.isActive ?? true,
+      createdAt: now,
+      updatedAt: now,
+    });
+    const created = (await this.getUser(id))!;
+    await this.recordChange('user', id, null, created);
+    return created;
+  }
+
+  async updateUser(id: string, updates: Partial<StoredUserFields> & { lastLoginAt?: string }): Promise<User | undefined> {
+    const existing = await this.getUser(id);
+    if (!existing) return undefined;
+    const updateObj: Partial<typeof users.$inferInsert> = { ...updates, updatedAt: new Date().toISOString() };
+    if (updates.username !== undefined) updateObj.username = updates.username.toLowerCase();
+    await db.update(users).set(updateObj).where(eq(users.id, id));
+    const updated = await this.getUser(id);
+    await this.recordChange('user', id, existing, updated);
+    return updated;
+  }
+
+  async createUserSession(userId: string, expiresAt: string): Promise<UserSession> {
+    const session: UserSession = { id: randomUUID(), userId, createdAt: new Date().toISOString(), expiresAt };
+    await db.insert(userSessions).values(session);
+    return session;
+  }
+
+  async getUserSession(id: string): Promise<UserSession | undefined> {
+    const result = await db.select().from(userSessions).where(eq(userSessions.id, id)).limit(1);
+    return result[0];
+  }
+
+  async deleteUserSession(id: string): Promise<boolean> {
+    const result = await db.delete(userSessions).where(eq(userSessions.id, id)).returning({ id: userSessions.id });
+    return result.length > 0;
+  }
+
+  async deleteUserSessions(userId: string): Promise<number> {
+    const result = await db.delete(userSessions).where(eq(userSessions.userId, userId)).returning({ id: userSessions.id });
+    return result.length;
+  }
+
+  // Change log
+  // A null `before` records a create and a null `after` a delete; updates that change nothing are skipped
+  private async recordChange(
+    entityType: ChangeLogEntityType,
+    entityId: string,
+    before: object | null | undefined,
+    after: object | null | undefined,
+    executor: ChangeLogExecutor = db,
+  ): Promise<void> {
+    const changes = fieldChanges(before, after);
+    if (before && after && Object.keys(changes).length === 0) return;
+    const actor = currentActor();
+    await executor.insert(changeLog).values({
+      id: randomUUID(),
+      entityType,
+      entityId,
+      entityLabel: changeLogLabel(entityType, (after ?? before ?? {}) as Record<string, any>),
+      action: !before ? 'create' : !after ? 'delete' : 'update',
+      changes,
+      actorId: actor?.id ?? null,
+      actorName: actor?.name ?? null,
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  // One create entry per row, written with the rows' own transaction for bulk inserts and imports
+  private async recordCreations(
+    entityType: ChangeLogEntityType,
+    rows: Array<{ id: string }>,
+    executor: ChangeLogExecutor,
+  ): Promise<void> {
+    const actor = currentActor();
+    const now = new Date().toISOString();
+    const entries = rows.map((row) => ({
+      id: randomUUID(),
+      entityType,
+      entityId: row.id,
+      entityLabel: changeLogLabel(entityType, row),
+      action: 'create' as const,
+      changes: fieldChanges(null, row),
+      actorId: actor?.id ?? null,
+      actorName: actor?.name ?? null,
+      createdAt: now,
+    }));
+    for (const batch of chunk(entries, IMPORT_BATCH_SIZE)) {
+      await executor.insert(changeLog).values(batch);
+    }
+  }
+
+  async getChangeLog(query: ChangeLogQuery & { excludeEntityTypes?: ChangeLogEntityType[] }): Promise<ChangeLogEntry[]> {
+    const conditions = [];
+    if (query.entityType) conditions.push(eq(changeLog.entityType, query.entityType));
+    if (query.excludeEntityTypes?.length) conditions.push(notInArray(changeLog.entityType, query.excludeEntityTypes));
+    if (query.entityId) conditions.push(eq(changeLog.entityId, query.entityId));
+    if (query.actorId) conditions.push(eq(changeLog.actorId, query.actorId));
+    if (query.from) conditions.push(gte(changeLog.createdAt, query.from));
+    if (query.to) conditions.push(lte(changeLog.createdAt, query.to));
+    return await db.select().from(changeLog)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(changeLog.createdAt))
+      .limit(query.limit);
+  }
+
+  // Recycle bin
+  private async getArchivable(entityType: ArchivableEntityType, id: string): Promise<Machine | CellConfiguration | Part | Characteristic | undefined> {
+    switch (entityType) {
+      case 'machine': return this.getMachine(id);
+      case 'cell': return this.getCellConfiguration(id);
+      case 'part': return this.getPart(id);
+      case 'characteristic': return this.getCharacteristic(id);
+    }
+  }
+
+  // Archives or restores a record in place; returns false when it does not exist
+  private async setArchived(entityType: ArchivableEntityType, id: string, archived: boolean): Promise<boolean> {
+    const existing = await this.getArchivable(entityType, id);
+    if (!existing) return false;
+    if (existing.isArchived === archived) return true;
+    const now = new Date().toISOString();
+    const values = { isArchived: archived, archivedAt: archived ? now : null };
+    switch (entityType) {
+      case 'machine':
+        await db.update(machines).set({ ...values, updatedAt: now }).where(eq(machines.id, id));
+        break;
+      case 'cell':
+        // An archived cell releases its machines; restoring takes them back
+        await db.transaction(async (tx) => {
+          await tx.update(cellConfigurations).set({ ...values, updatedAt: now }).where(eq(cellConfigurations.id, id));
+          await this.setCellMachines(tx, id, archived ? [] : routedMachineIds((existing as CellConfiguration).operationsJson));
+        });
+        break;
+      case 'part':
+        await db.update(parts).set(values).where(eq(parts.id, id));
+        break;
+      case 'characteristic':
+        await db.update(characteristics).set(values).where(eq(characteristics.id, id));
+        break;
+    }
+    await this.recordChange(entityType, id, existing, await this.getArchivable(entityType, id));
+    return true;
+  }
+
+  async getRecycleBin(): Promise<RecycleBinItem[]> {
+    const [archivedMachines, archivedCells, archivedParts, archivedChars] = await Promise.all([
+      this.getMachines({ includeArchived: true }),
+      this.getCellConfigurations({ includeArchived: true }),
+      this.getParts({ includeArchived: true }),
+      this.getCharacteristics({ includeArchived: true }),
+    ]);
+    const items = ([
+      ...archivedMachines.map((record) => ['machine', record] as const),
+      ...archivedCells.map((record) => ['cell', record] as const),
+      ...archivedParts.map((record) => ['part', record] as const),
+      ...archivedChars.map((record) => ['characteristic', record] as const),
+    ] as Array<[ArchivableEntityType, Machine | CellConfiguration | Part | Characteristic]>)
+      .filter(([, record]) => record.isArchived)
+      .map(([entityType, record]) => ({
+        entityType,
+        id: record.id,
+        label: changeLogLabel(entityType, record) ?? record.id,
+        archivedAt: record.archivedAt ?? '',
+      }));
+    return items.sort((left, right) => right.archivedAt.localeCompare(left.archivedAt));
+  }
+
+  async restoreRecord(entityType: ArchivableEntityType, id: string): Promise<boolean> {
+    return this.setArchived(entityType, id, false);
+  }
+
+  private async countRows(table: PgTable, where: SQL): Promise<number> {
+    const [row] = await db.select({ value: count() }).from(table).where(where);
+    return Number(row?.value ?? 0);
+  }
+
+  // Archived dependents count too: they still point at the record
+  async getPurgeCheck(entityType: ArchivableEntityType, id: string): Promise<PurgeCheck | undefined> {
+    const record = await this.getArchivable(entityType, id);
+    if (!record) return undefined;
+    let dependents: DependentRows[] = [];
+    let ownedRows: DependentRows[] = [];
+    switch (entityType) {
+      case 'machine': {
+        const cells = await this.getCellConfigurations({ includeArchived: true });
+        const routings = cells.filter((cell) => (Array.isArray(cell.operationsJson) ? cell.operationsJson as Array<{ machineIds?: string[] }> : [])
+          .some((operation) => (operation.machineIds ?? []).includes(id)));
+        dependents = [
+          { label: 'scrap incidents', count: await this.countRows(scrapIncidents, eq(scrapIncidents.machineId, id)) },
+          { label: 'measurements', count: await this.countRows(spcMeasurements, eq(spcMeasurements.machineId, id)) },
+          { label: 'downtime logs', count: await this.countRows(downtimeLogs, eq(downtimeLogs.machineId, id)) },
+          { label: 'production counts', count: await this.countRows(productionCounts, eq(productionCounts.machineId, id)) },
+          { label: 'cell routings', count: routings.length },
+        ];
+        ownedRows = [
+          { label: 'status history events', count: await this.countRows(machineStatusEvents, eq(machineStatusEvents.machineId, id)) },
+        ];
+        break;
+      }
+      case 'cell':
+        // Archiving released its machines, and routings live in the cell itself
+        break;
+      case 'part':
+        dependents = [
+          { label: 'characteristics', count: await this.countRows(characteristics, eq(characteristics.partId, id)) },
+          { label: 'scrap incidents', count: await this.countRows(scrapIncidents, eq(scrapIncidents.partId, id)) },
+          { label: 'production counts', count: await this.countRows(productionCounts, eq(productionCounts.partId, id)) },
+        ];
+        break;
+      case 'characteristic':
+        dependents = [
+          { label: 'scrap incidents', count: await this.countRows(scrapIncidents, eq(scrapIncidents.characteristicId, id)) },
+          { label: 'Gauge R&R studies', count: await this.countRows(gaugeStudies, eq(gaugeStudies.characteristicId, id)) },
+          { label: 'measurements', count: await this.countRows(spcMeasurements, eq(spcMeasurements.characteristicId, id)) },
+        ];
+        ownedRows = [
+          { label: 'rule violations', count: await this.countRows(spcRuleViolations, eq(spcRuleViolations.characteristicId, id)) },
+        ];
+        break;
+    }
+    dependents = dependents.filter((rows) => rows.count > 0);
+    ownedRows = ownedRows.filter((rows) => rows.count > 0);
+    return {
+      entityType,
+      id,
+      label: changeLogLabel(entityType, record) ?? id,
+      isArchived: record.isArchived,
+      dependents,
+      ownedRows,
+      purgeable: record.isArchived && dependents.length === 0,
+    };
+  }
+
+  // Deletes an archived record and the rows it owns for good. Callers check getPurgeCheck first.
+  async purgeRecord(entityType: ArchivableEntityType, id: string): Promise<void> {
+    const existing = await this.getArchivable(entityType, id);
+    if (!existing) return;
+    await db.transaction(async (tx) => {
+      switch (entityType) {
+        case 'machine':
+          await tx.delete(machineStatusEvents).where(eq(machineStatusEvents.machineId, id));
+          await tx.delete(machines).where(eq(machines.id, id));
+          break;
+        case 'cell':
+          await tx.delete(cellConfigurations).where(eq(cellConfigurations.id, id));
+          break;
+        case 'part':
+          await tx.delete(parts).where(eq(parts.id, id));
+          break;
+        case 'characteristic':
+          await tx.delete(spcRuleViolations).where(eq(spcRuleViolations.characteristicId, id));
+          await tx.delete(characteristics).where(eq(characteristics.id, id));
+          break;
+      }
+      await this.recordChange(entityType, id, existing, null, tx);
+    });
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,166 @@
+// Parsing for spec and measurement values typed by hand or carried over from the old text
+// columns, e.g. "12,5", "Ø10.02 mm", "±0.05" or "+0.1/-0.05".
+
+// Unit spellings seen in legacy values, folded to one form
+const unitAliases: Record<string, string> = {
+  um: "µm",
+  "μm": "µm",
+  micron: "µm",
+  microns: "µm",
+  inch: "in",
+  inches: "in",
+  '"': "in",
+  "°": "deg",
+  degree: "deg",
+  degrees: "deg",
+  "n.m": "N·m",
+  "n-m": "N·m",
+  "n·m": "N·m",
+  Nm: "N·m", // case-sensitive: "nm" is nanometres
+  mil: "thou",
+  mils: "thou",
+  "ft-lb": "lbf·ft",
+  "lb-ft": "lbf·ft",
+  "ft·lbf": "lbf·ft",
+  "lbf-ft": "lbf·ft",
+  "in-lb": "lbf·in",
+  "lb-in": "lbf·in",
+  "lbf-in": "lbf·in",
+  lbs: "lb",
+  ra: "Ra",
+  "ra µin": "Ra µin",
+  "ra μin": "Ra µin",
+  "ra uin": "Ra µin",
+  "µin ra": "Ra µin",
+  "μin ra": "Ra µin",
+};
+
+export function normalizeUnit(raw: string | null | undefined): string | null {
+  const unit = (raw ?? "").trim();
+  if (!unit) return null;
+  return unitAliases[unit.toLowerCase()] ?? unitAliases[unit] ?? unit;
+}
+
+const tidy = (raw: string) => raw
+  .trim()
+  .replace(/[−–—]/g, "-") // minus sign and dashes typed as minus
+  .replace(/^[Ø⌀]\s*/, "");
+
+// "1,234" could be 1234 or 1.234; a leading 0 ("0,125") cannot be a thousands group
+const AMBIGUOUS_COMMA = /^[+-]?[1-9]\d{0,2},\d{3}$/;
+
+// "12,5" and "12.5" are both 12.5; with both separators the last one is the decimal point.
+// A lone comma before exactly three digits is ambiguous and not read at all.
+function toNumber(token: string): number | null {
+  let text = token.replace(/['\s]/g, "");
+  const lastComma = text.lastIndexOf(",");
+  const lastDot = text.lastIndexOf(".");
+  if (lastComma >= 0 && lastDot >= 0) {
+    text = lastComma > lastDot
+      ? text.replace(/\./g, "").replace(",", ".")
+      : text.replace(/,/g, "");
+  } else if (lastComma >= 0) {
+    if (AMBIGUOUS_COMMA.test(text)) return null;
+    text = text.split(",").length > 2 ? text.replace(/,/g, "") : text.replace(",", ".");
+  }
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)$/.test(text)) return null;
+  const value = Number(text);
+  return Number.isFinite(value) ? value : null;
+}
+
+const VALUE_PATTERN = /^([+-]?\s*[\d.,']+)\s*([^\d\s±+\-/][^\d±/]*)?$/;
+
+export const isBlank = (raw: unknown) =>
+  raw === null || raw === undefined || (typeof raw === "string" && raw.trim() === "");
+
+// A single number with an optional trailing unit; null when blank or not a number
+export function parseDecimal(raw: string | number | null | undefined): number | null {
+  if (typeof raw === "number") return Number.isFinite(raw) ? raw : null;
+  if (isBlank(raw)) return null;
+  const match = tidy(raw!).match(VALUE_PATTERN);
+  return match ? toNumber(match[1].replace(/\s/g, "")) : null;
+}
+
+// The unit written after a value, if any ("10.02 mm" → "mm")
+export function extractUnit(raw: string | number | null | undefined): string | null {
+  if (typeof raw !== "string") return null;
+  const match = tidy(raw).match(VALUE_PATTERN);
+  return match?.[2] ? normalizeUnit(match[2]) : null;
+}
+
+// Signed deviations from nominal: ±0.05 is { upper: 0.05, lower: -0.05 }
+export type Tolerance = { upper: number; lower: number };
+
+const SYMMETRIC_PATTERN = /^(?:±|\+\/-|\+-|-\/\+|\+\s*\/\s*-)\s*([\d.,']+)\s*([^\d\s][^\d]*)?$/;
+
+export function parseTolerance(raw: string | number | null | undefined): Tolerance | null {
+  if (typeof raw === "number") return Number.isFinite(raw) ? { upper: Math.abs(raw), lower: -Math.abs(raw) } : null;
+  if (isBlank(raw)) return null;
+  const text = tidy(raw!);
+
+  const symmetric = text.match(SYMMETRIC_PATTERN);
+  if (symmetric) {
+    const value = toNumber(symmetric[1]);
+    return value === null ? null : { upper: value, lower: -value };
+  }
+
+  // One or two deviations separated by "/" or spaces; a trailing unit is dropped
+  const parts = text.replace(/\s*([^\d\s.,+\-/']+)\s*$/, "").split(/\s*\/\s*|\s+(?=[+-])/).filter(Boolean);
+  if (parts.length === 0 || parts.length > 2) return null;
+  const signed = parts.map((part) => ({ sign: part.trim()[0], value: toNumber(part.replace(/\s/g, "")) }));
+  if (signed.some((part) => part.value === null)) return null;
+
+  if (signed.length === 1) {
+    const [{ sign, value }] = signed;
+    if (sign === "+") return { upper: value!, lower: 0 };
+    if (sign === "-") return { upper: 0, lower: value! + 0 };
+    return { upper: value!, lower: -value! };
+  }
+
+  // An unsigned second part takes the opposite side of the first, as in "+0.1/0"
+  const [first, second] = signed;
+  const firstValue = first.value!;
+  const secondValue = second.sign === "+" || second.sign === "-" || second.value === 0
+    ? second.value!
+    : (first.sign === "-" ? Math.abs(second.value!) : -Math.abs(second.value!));
+  // `+ 0` turns the -0 of "+0.05/-0" into 0
+  return { upper: Math.max(firstValue, secondValue) + 0, lower: Math.min(firstValue, secondValue) + 0 };
+}
+
+// A nominal written with its tolerance in one field, e.g. "10 ±0.1" or "25.4 +0.1/-0.05"
+export function parseSpecification(raw: string | null | undefined): { nominal: number; tolerance: Tolerance } | null {
+  if (isBlank(raw)) return null;
+  const match = tidy(raw!).match(/^([\d.,']+(?:\s*[^\d\s±+\-/]+)?)\s*([±+\-].*)$/);
+  if (!match) return null;
+  const nominal = parseDecimal(match[1]);
+  const tolerance = parseTolerance(match[2]);
+  return nominal === null || tolerance === null ? null : { nominal, tolerance };
+}
+
+const trim = (value: number) => Number(value.toFixed(6)).toString();
+
+// "±0.05" when symmetric, otherwise "+0.1/-0.05" (zero keeps its side: "+0.05/-0")
+export function formatTolerance(upper: number | null | undefined, lower: number | null | undefined): string {
+  if (upper === null || upper === undefined || lower === null || lower === undefined) return "";
+  if (upper > 0 && upper === -lower) return `±${trim(upper)}`;
+  const upperText = upper >= 0 ? `+${trim(upper)}` : `-${trim(-upper)}`;
+  const lowerText = lower > 0 ? `+${trim(lower)}` : `-${trim(-lower)}`;
+  return `${upperText}/${lowerText}`;
+}
+
+// Removes float noise from values derived by adding deviations to a nominal
+export const roundSpec = (value: number) => Number(value.toFixed(10));
+
+// Fills in the limits from nominal + deviations, or the deviations from the limits around the nominal
+export function completeSpec(spec: { nominal: number | null; max: number | null; min: number | null; tolerance: Tolerance | null }) {
+  const { nominal } = spec;
+  let { max, min, tolerance } = spec;
+  if (nominal !== null && tolerance !== null) {
+    max = max ?? roundSpec(nominal + tolerance.upper);
+    min = min ?? roundSpec(nominal + tolerance.lower);
+  }
+  if (tolerance === null && nominal !== null && max !== null && min !== null) {
+    tolerance = { upper: roundSpec(max - nominal), lower: roundSpec(min - nominal) };
+  }
+  return { nominal, max, min, tolerance };
+}
@@ -1,6 +1,8 @@
-import { pgTable, text, varchar, integer, real, jsonb, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, real, doublePrecision, jsonb, boolean, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { isBlank, parseDecimal, parseTolerance } from "./numeric";
+import { findUnit } from "./units";
 
 // === MANUFACTURING APP TABLES ===
 
@@ -14,39 +16,107 @@ export const machines = pgTable("machines", {
   name: text("name").notNull(),
   machineId: text("machine_id").notNull(),
   status: text("status").notNull().$type<MachineStatus>(),
-  cell: text("cell"), // Cell/area the machine belongs to
   // Cell flow fields
   idealCycleTime: real("ideal_cycle_time"), // cycle time in seconds
   batchSize: integer("batch_size"), // pcs per setup
   uptimePercent: real("uptime_percent"), // reliability percentage (0-100)
   setupTime: real("setup_time"), // setup time in seconds
+  hourlyRate: real("hourly_rate"), // machine and labour cost per hour, for scrap cost
   statusUpdate: text("status_update"), // Machine status notes
   // Operational counters (optional)
   // (legacy OEE fields removed from DB migrations)
+  // Deleting archives the machine: hidden from lists, still resolvable by id for history
+  isArchived: boolean("is_archived").notNull().default(false),
+  archivedAt: text("archived_at"),
   createdAt: text("created_at").notNull(),
   updatedAt: text("updated_at").notNull(),
 });
 
-export const insertMachineSchema = createInsertSchema(machines).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertMachineSchema = createInsertSchema(machines).omit({ id: true, isArchived: true, archivedAt: true, createdAt: true, updatedAt: true });
 export type InsertMachine = z.infer<typeof insertMachineSchema>;
-export type Machine = typeof machines.$inferSelect;
+// The cell comes from cell membership, not from the machine row
+export type Machine = typeof machines.$inferSelect & { cellId: string | null; cell: string | null };
+
+// Machine status events – one row per status transition
+export const machineStatusEvents = pgTable("machine_status_events", {
+  id: varchar("id").primaryKey(),
+  machineId: varchar("machine_id").notNull(),   // FK → machines.id
+  fromStatus: text("from_status").$type<MachineStatus>(), // null for the initial status
+  toStatus: text("to_status").notNull().$type<MachineStatus>(),
+  note: text("note"), // statusUpdate at the time of the transition
+  createdAt: text("created_at").notNull(),
+}, (table) => [
+  index("machine_status_events_machine_created_idx").on(table.machineId, table.createdAt),
+]);
+
+export const insertMachineStatusEventSchema = createInsertSchema(machineStatusEvents).omit({ id: true, createdAt: true });
+export type InsertMachineStatusEvent = z.infer<typeof insertMachineStatusEventSchema>;
+export type MachineStatusEvent = typeof machineStatusEvents.$inferSelect;
 
 // Placeholder / additional shared types for frontend usage
 export type Operator = { id: string; name: string; };
-export type ProductionStat = any;
-export type DowntimeLog = any;
 
-// Lightweight downtime helper lists (frontend may import these)
+// === DOWNTIME REASON CODES ===
+
 export const downtimeCategories = ['mechanical', 'electrical', 'material', 'operator', 'quality', 'other'] as const;
-export const downtimeReasonCodes: Record<string, { category: typeof downtimeCategories[number]; label: string }> = {
-  MECH_01: { category: 'mechanical', label: 'Bearing failure' },
-  ELEC_01: { category: 'electrical', label: 'Power loss' },
-  MAT_01: { category: 'material', label: 'Missing raw material' },
-  OP_01: { category: 'operator', label: 'Operator absent' },
-  QUA_01: { category: 'quality', label: 'Quality hold' },
-  OTH_01: { category: 'other', label: 'Other' },
+export type DowntimeCategory = typeof downtimeCategories[number];
+export const downtimeCategoryLabels: Record<DowntimeCategory, string> = {
+  mechanical: 'Mechanical',
+  electrical: 'Electrical',
+  material: 'Material',
+  operator: 'Operator',
+  quality: 'Quality',
+  other: 'Other',
 };
 
+// Reason code master – retired codes are deactivated, never deleted, so old logs still resolve
+export const downtimeReasons = pgTable("downtime_reason_codes", {
+  id: varchar("id").primaryKey(),
+  code: text("code").notNull(),                  // unique, e.g. MECH_01
+  category: text("category").notNull().$type<DowntimeCategory>(),
+  label: text("label").notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  deactivatedAt: text("deactivated_at"),
+  createdAt: text("created_at").notNull(),
+  updatedAt: text("updated_at").notNull(),
+}, (table) => [
+  uniqueIndex("downtime_reason_codes_code_idx").on(table.code),
+]);
+
+export const insertDowntimeReasonSchema = createInsertSchema(downtimeReasons)
+  .omit({ id: true, deactivatedAt: true, createdAt: true, updatedAt: true })
+  .extend({
+    code: z.string().trim().min(1),
+    category: z.enum(downtimeCategories),
+    label: z.string().trim().min(1),
+  });
+export type InsertDowntimeReason = z.infer<typeof insertDowntimeReasonSchema>;
+export type DowntimeReason = typeof downtimeReasons.$inferSelect;
+
+// === DOWNTIME LOGS ===
+
+export const downtimeLogs = pgTable("downtime_logs", {
+  id: varchar("id").primaryKey(),
+  machineId: varchar("machine_id").notNull(),   // FK → machines.id
+  reasonCategory: text("reason_category").notNull(),
+  reasonCode: text("reason_code").notNull(),
+  description: text("description"),
+  reportedBy: text("reported_by"),
+  startTime: text("start_time").notNull(),
+  endTime: text("end_time"),                     // null while the downtime is still open
+  durationMinutes: real("duration_minutes"),     // stamped when the downtime is ended
+  createdAt: text("created_at").notNull(),
+  updatedAt: text("updated_at").notNull(),
+}, (table) => [
+  index("downtime_logs_machine_start_idx").on(table.machineId, table.startTime),
+]);
+
+export const insertDowntimeLogSchema = createInsertSchema(downtimeLogs)
+  .omit({ id: true, durationMinutes: true, createdAt: true, updatedAt: true })
+  .extend({ reasonCategory: z.enum(downtimeCategories) });
+export type InsertDowntimeLog = z.infer<typeof insertDowntimeLogSchema>;
+export type DowntimeLog = typeof downtimeLogs.$inferSelect;
+
 // === CELL CONFIGURATIONS ===
 
 export const cellConfigurations = pgTable("cell_configurations", {
@@ -58,44 +128,306 @@ export const cellConfigurations = pgTable("cell_configurations", {
   throughputUph: real("throughput_uph"),
   totalWip: real("total_wip"),
   notes: text("notes"),
+  isArchived: boolean("is_archived").notNull().default(false),
+  archivedAt: text("archived_at"),
   createdAt: text("created_at").notNull(),
   updatedAt: text("updated_at").notNull(),
 });
 
 export const insertCellConfigurationSchema = createInsertSchema(cellConfigurations).omit({ 
   id: true, 
+  isArchived: true,
+  archivedAt: true,
   createdAt: true, 
   updatedAt: true,
 });
 export type InsertCellConfiguration = z.infer<typeof insertCellConfigurationSchema>;
 export type CellConfiguration = typeof cellConfigurations.$inferSelect;
 
+// Machines a cell's routing (operationsJson) uses, each once
+export function routedMachineIds(operationsJson: unknown): string[] {
+  const operations = Array.isArray(operationsJson) ? operationsJson as Array<{ machineIds?: unknown }> : [];
+  const ids = operations.flatMap((operation) => Array.isArray(operation?.machineIds) ? operation.machineIds : []);
+  return Array.from(new Set(ids.filter((id): id is string => typeof id === "string")));
+}
+
+// Cell membership – the one record of which cell a machine is in. The server rebuilds a cell's
+// rows from its routing when the cell is saved; archived cells have none, so a machine (unique
+// here) belongs to at most one active cell.
+export const cellMachines = pgTable("cell_machines", {
+  id: varchar("id").primaryKey(),
+  cellId: varchar("cell_id").notNull().references(() => cellConfigurations.id, { onDelete: "cascade" }),
+  machineId: varchar("machine_id").notNull().references(() => machines.id, { onDelete: "restrict" }),
+  createdAt: text("created_at").notNull(),
+}, (table) => [
+  uniqueIndex("cell_machines_machine_idx").on(table.machineId),
+  index("cell_machines_cell_idx").on(table.cellId),
+]);
+
+export type CellMachine = typeof cellMachines.$inferSelect;
+
+// A machine a cell's routing uses that is already in another active cell
+export interface CellMembershipConflict {
+  machineId: string;
+  machineName: string;
+  cellId: string;
+  cellName: string;
+}
+
+// === PRODUCTION COUNTS ===
+
+// One row per reported production period (typically a shift) on a machine
+export const productionCounts = pgTable("production_counts", {
+  id: varchar("id").primaryKey(),
+  machineId: varchar("machine_id").notNull(),   // FK → machines.id
+  partId: varchar("part_id"),                   // FK → parts.id (optional)
+  shift: text("shift"),                         // e.g. Day / Afternoon / Midnight
+  goodQuantity: integer("good_quantity").notNull(),
+  totalQuantity: integer("total_quantity").notNull(),
+  periodStart: text("period_start").notNull(),
+  periodEnd: text("period_end").notNull(),
+  note: text("note"),
+  createdAt: text("created_at").notNull(),
+  updatedAt: text("updated_at").notNull(),
+}, (table) => [
+  index("production_counts_machine_period_idx").on(table.machineId, table.periodStart),
+]);
+
+export const insertProductionCountSchema = createInsertSchema(productionCounts)
+  .omit({ id: true, createdAt: true, updatedAt: true })
+  .extend({
+    partId: z.string().nullable().optional(),
+    goodQuantity: z.number().int().nonnegative(),
+    totalQuantity: z.number().int().nonnegative(),
+  });
+export type InsertProductionCount = z.infer<typeof insertProductionCountSchema>;
+export type ProductionCount = typeof productionCounts.$inferSelect;
+export type ProductionStat = ProductionCount;
+
+// === SHIFT CALENDAR ===
+
+// Shift times are local wall-clock "HH:MM"; a shift whose end is not after its start runs past
+// midnight and belongs to the day it started. Working days use Date.getDay() (0 = Sunday).
+const clockTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected HH:MM");
+
+export const shiftDefinitions = pgTable("shift_definitions", {
+  id: varchar("id").primaryKey(),
+  name: text("name").notNull(),
+  startTime: text("start_time").notNull(),
+  endTime: text("end_time").notNull(),
+  workingDays: jsonb("working_days").notNull().$type<number[]>(),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: text("created_at").notNull(),
+  updatedAt: text("updated_at").notNull(),
+});
+
+export const insertShiftDefinitionSchema = createInsertSchema(shiftDefinitions)
+  .omit({ id: true, createdAt: true, updatedAt: true })
+  .extend({
+    name: z.string().trim().min(1),
+    startTime: clockTime,
+    endTime: clockTime,
+    workingDays: z.array(z.number().int().min(0).max(6)),
+  });
+export type InsertShiftDefinition = z.infer<typeof insertShiftDefinitionSchema>;
+export type ShiftDefinition = typeof shiftDefinitions.$inferSelect;
+
+// Plant-wide non-working dates; no shift that starts on a holiday is worked
+export const plantHolidays = pgTable("plant_holidays", {
+  id: varchar("id").primaryKey(),
+  date: text("date").notNull(),   // YYYY-MM-DD
+  name: text("name").notNull(),
+  createdAt: text("created_at").notNull(),
+}, (table) => [
+  uniqueIndex("plant_holidays_date_idx").on(table.date),
+]);
+
+export const insertPlantHolidaySchema = createInsertSchema(plantHolidays)
+  .omit({ id: true, createdAt: true })
+  .extend({
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD"),
+    name: z.string().trim().min(1),
+  });
+export type InsertPlantHoliday = z.infer<typeof insertPlantHolidaySchema>;
+export type PlantHoliday = typeof plantHolidays.$inferSelect;
+
+export interface ShiftCalendar {
+  shifts: ShiftDefinition[];
+  holidays: PlantHoliday[];
+}
+
+// === OEE ===
+
+// Computed on the server from status history, downtime logs and scrap; never stored.
+// Ratios are 0–1 and null when the inputs needed for them are missing.
+export interface OeeResult {
+  machineId: string;
+  from: string;
+  to: string;
+  plannedMinutes: number;
+  stopMinutes: number;
+  runMinutes: number;
+  idealCycleTime: number | null;
+  goodCount: number | null;
+  totalCount: number | null;
+  scrapQuantity: number;
+  availability: number | null;
+  performance: number | null;
+  quality: number | null;
+  oee: number | null;
+}
+
+export interface CellOeeResult extends Omit<OeeResult, "machineId" | "idealCycleTime"> {
+  cellId: string;
+  machines: OeeResult[];
+}
+
 // === SCRAP INCIDENTS ===
 
-export const scrapIncidentStatuses = ["open", "closed"] as const;
+// 8D-style workflow stages, in order. "open" and "closed" are the original two statuses.
+export const scrapIncidentStatuses = ["open", "containment", "root_cause", "corrective_action", "verification", "closed"] as const;
 export type ScrapIncidentStatus = typeof scrapIncidentStatuses[number];
+export const scrapIncidentStatusLabels: Record<ScrapIncidentStatus, string> = {
+  open: 'Open',
+  containment: 'Containment',
+  root_cause: 'Root cause analysis',
+  corrective_action: 'Corrective action',
+  verification: 'Verification',
+  closed: 'Closed',
+};
+
+// Ishikawa (6M) categories for the root cause
+export const rootCauseCategories = ['operator', 'machine', 'method', 'material', 'measurement', 'environment', 'other'] as const;
+export type RootCauseCategory = typeof rootCauseCategories[number];
+export const rootCauseCategoryLabels: Record<RootCauseCategory, string> = {
+  operator: 'Operator',
+  machine: 'Machine',
+  method: 'Method',
+  material: 'Material',
+  measurement: 'Measurement',
+  environment: 'Environment',
+  other: 'Other',
+};
 
 export const scrapIncidents = pgTable("scrap_incidents", {
   id: varchar("id").primaryKey(),
-  machineId: varchar("machine_id").notNull(),
-  partId: varchar("part_id"),
-  characteristic: text("characteristic").notNull(),
+  machineId: varchar("machine_id").notNull().references(() => machines.id, { onDelete: "restrict" }),
+  partId: varchar("part_id").references(() => parts.id, { onDelete: "restrict" }),
+  characteristic: text("characteristic").notNull(),   // label as entered; kept for legacy rows without characteristicId
+  // A characteristic of the incident's part
+  characteristicId: varchar("characteristic_id").references(() => characteristics.id, { onDelete: "restrict" }),
   quantity: integer("quantity").notNull(),
   estimatedCost: real("estimated_cost").notNull(),
   note: text("note"),
   status: text("status").notNull().$type<ScrapIncidentStatus>().default("open"),
   dateCreated: text("date_created"),
   dateClosed: text("date_closed"),
+  containmentAction: text("containment_action"),
+  rootCauseCategory: text("root_cause_category").$type<RootCauseCategory>(),
+  rootCause: text("root_cause"),
+  correctiveAction: text("corrective_action"),
+  actionOwner: text("action_owner"),
+  actionDueDate: text("action_due_date"),        // YYYY-MM-DD
+  verifiedBy: text("verified_by"),
+  verifiedAt: text("verified_at"),               // YYYY-MM-DD
+  verificationNote: text("verification_note"),
+  // estimatedCost came from the cost model and is recalculated when part, machine or routing costs change
+  costCalculated: boolean("cost_calculated").notNull().default(false),
   createdAt: text("created_at").notNull(),
   updatedAt: text("updated_at").notNull(),
-});
+}, (table) => [
+  index("scrap_incidents_action_due_idx").on(table.actionDueDate),
+  index("scrap_incidents_part_idx").on(table.partId),
+  index("scrap_incidents_characteristic_idx").on(table.characteristicId),
+]);
 
 export const insertScrapIncidentSchema = createInsertSchema(scrapIncidents)
   .omit({ id: true, createdAt: true, updatedAt: true })
-  .extend({ partId: z.string().nullable().optional() });
+  .extend({
+    partId: z.string().nullable().optional(),
+    characteristic: z.string().trim().optional(),
+    characteristicId: z.string().nullable().optional(),
+    estimatedCost: z.number().min(0).optional(),   // calculated by the server when costCalculated is set
+    status: z.enum(scrapIncidentStatuses).optional(),
+    rootCauseCategory: z.enum(rootCauseCategories).nullable().optional(),
+    actionDueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD").nullable().optional(),
+    verifiedAt: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD").nullable().optional(),
+  });
 export type InsertScrapIncident = z.infer<typeof insertScrapIncidentSchema>;
 export type ScrapIncident = typeof scrapIncidents.$inferSelect;
 
+// Label stored in scrapIncidents.characteristic for a linked characteristic, e.g. "10 – Bore diameter"
+export const scrapCharacteristicLabel = (char: Pick<Characteristic, 'charNumber' | 'charName'>) =>
+  char.charName ? `${char.charNumber} – ${char.charName}` : char.charNumber;
+
+type ScrapWorkflowField = 'containmentAction' | 'rootCauseCategory' | 'rootCause' | 'correctiveAction' | 'actionOwner' | 'actionDueDate' | 'verifiedBy' | 'verifiedAt';
+
+export const scrapWorkflowFieldLabels: Record<ScrapWorkflowField, string> = {
+  containmentAction: 'containment action',
+  rootCauseCategory: 'root cause category',
+  rootCause: 'root cause',
+  correctiveAction: 'corrective action',
+  actionOwner: 'action owner',
+  actionDueDate: 'action due date',
+  verifiedBy: 'verified by',
+  verifiedAt: 'verification date',
+};
+
+// Fields that must be filled before an incident can move into each stage
+const scrapStageRequirements: Record<ScrapIncidentStatus, ScrapWorkflowField[]> = {
+  open: [],
+  containment: [],
+  root_cause: ['containmentAction'],
+  corrective_action: ['containmentAction', 'rootCauseCategory', 'rootCause'],
+  verification: ['containmentAction', 'rootCauseCategory', 'rootCause', 'correctiveAction', 'actionOwner', 'actionDueDate'],
+  closed: ['containmentAction', 'rootCauseCategory', 'rootCause', 'correctiveAction', 'actionOwner', 'actionDueDate', 'verifiedBy', 'verifiedAt'],
+};
+
+export function missingStageFields(
+  incident: Partial<Record<ScrapWorkflowField, string | null>>,
+  status: ScrapIncidentStatus,
+): ScrapWorkflowField[] {
+  return scrapStageRequirements[status].filter((field) => !incident[field]?.trim());
+}
+
+// The corrective action is overdue while it is still being worked on past its due date
+// Scrap cost = raw material cost + value added by every operation of the machine's cell up to
+// and including the one where the part was scrapped
+export interface ScrapCostOperation {
+  name: string;
+  machineIds: string[];
+  costPerPart: number | null;   // null when none of its machines has an hourly rate and cycle time
+}
+
+export interface ScrapCostBreakdown {
+  partId: string;
+  machineId: string;
+  quantity: number;
+  cellId: string | null;
+  materialCost: number | null;   // per part
+  valueAddedCost: number;        // per part
+  operations: ScrapCostOperation[];
+  unitCost: number | null;
+  totalCost: number | null;      // null when the part has no raw material cost
+  warnings: string[];
+  enforced: boolean;             // the server ignores typed costs (SCRAP_COST_MODE=enforce)
+}
+
+export interface ScrapCostRecalculation {
+  checked: number;
+  updated: number;
+  skipped: number;               // no longer calculable, e.g. the part lost its material cost
+}
+
+export function scrapActionOverdue(
+  incident: Pick<ScrapIncident, 'status' | 'actionDueDate'>,
+  today: string,
+): boolean {
+  if (!incident.actionDueDate) return false;
+  if (incident.status === 'verification' || incident.status === 'closed') return false;
+  return incident.actionDueDate < today;
+}
+
 // === SPC DATA (3NF) ===
 
 // Parts table – one row per unique part
@@ -106,49 +438,160 @@ export const parts = pgTable("parts", {
   material: text("material"),
   rawMaterialCost: real("raw_material_cost"),
   notes: text("notes"),
+  isArchived: boolean("is_archived").notNull().default(false),
+  archivedAt: text("archived_at"),
   createdAt: text("created_at").notNull(),
 });
 
-export const insertPartSchema = createInsertSchema(parts).omit({ id: true, createdAt: true });
+export const insertPartSchema = createInsertSchema(parts).omit({ id: true, isArchived: true, archivedAt: true, createdAt: true });
 export type InsertPart = z.infer<typeof insertPartSchema>;
 export type Part = typeof parts.$inferSelect;
 
+// Run rules evaluated against each new measurement
+export const spcRuleSets = ["western_electric", "nelson"] as const;
+export type SpcRuleSet = typeof spcRuleSets[number];
+export const spcRuleSetLabels: Record<SpcRuleSet, string> = {
+  western_electric: "Western Electric",
+  nelson: "Nelson",
+};
+
+// Control charts for attribute checks: p/np chart defective units, c/u chart defects
+export const attributeChartTypes = ["p", "np", "c", "u"] as const;
+export type AttributeChartType = typeof attributeChartTypes[number];
+export const attributeChartTypeLabels: Record<AttributeChartType, string> = {
+  p: "p – fraction defective",
+  np: "np – number defective",
+  c: "c – defects per sample",
+  u: "u – defects per unit",
+};
+
 // Characteristics table – one row per unique characteristic within a part
 export const characteristics = pgTable("characteristics", {
   id: varchar("id").primaryKey(),
-  partId: varchar("part_id"),  // FK → parts.id (optional)
+  partId: varchar("part_id").references(() => parts.id, { onDelete: "restrict" }),  // optional
   charNumber: text("char_number").notNull(),
   charName: text("char_name"),
   isAttributeCheck: boolean("is_attribute_check").notNull().default(false),
-  nominalValue: text("nominal_value"),
-  charMax: text("char_max"),
-  charMin: text("char_min"),
-  tolerance: text("tolerance"),
+  nominalValue: doublePrecision("nominal_value"),
+  charMax: doublePrecision("char_max"),
+  charMin: doublePrecision("char_min"),
+  // Signed deviations from nominal: ±0.05 is stored as +0.05 / -0.05
+  toleranceUpper: doublePrecision("tolerance_upper"),
+  toleranceLower: doublePrecision("tolerance_lower"),
+  unit: text("unit"),
   opName: text("op_name"),
+  // Measurements per subgroup for X-bar charts; 1 charts individuals (I-MR)
+  subgroupSize: integer("subgroup_size").notNull().default(1),
+  ruleSet: text("rule_set").notNull().$type<SpcRuleSet>().default("western_electric"),
+  attributeChartType: text("attribute_chart_type").notNull().$type<AttributeChartType>().default("p"),
+  isArchived: boolean("is_archived").notNull().default(false),
+  archivedAt: text("archived_at"),
   createdAt: text("created_at").notNull(),
 });
 
+// Largest subgroup size with tabulated control chart constants
+export const MAX_SUBGROUP_SIZE = 10;
+
+// Numbers, or numeric strings in the legacy formats ("12,5", "10.02 mm"); blank means null
+export const decimalInput = z.union([z.number(), z.string()]).nullable().transform((value, ctx) => {
+  if (isBlank(value)) return null;
+  const parsed = parseDecimal(value);
+  if (parsed === null) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${value}" is not a number` });
+    return z.NEVER;
+  }
+  return parsed;
+});
+
+// Legacy tolerance notation ("±0.05", "+0.1/-0.05") as signed upper/lower deviations
+export const toleranceInput = z.string().nullable().transform((value, ctx) => {
+  if (isBlank(value)) return null;
+  const parsed = parseTolerance(value);
+  if (parsed === null) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${value}" is not a tolerance` });
+    return z.NEVER;
+  }
+  return parsed;
+});
+
+// A unit from the catalog in ./units, stored as its catalog symbol ("MM" → "mm"); blank means none
+export const unitInput = z.string().nullable().transform((value, ctx) => {
+  if (isBlank(value)) return null;
+  const unit = findUnit(value);
+  if (!unit) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${value}" is not a supported unit` });
+    return z.NEVER;
+  }
+  return unit.symbol;
+});
+
 export const insertCharacteristicSchema = createInsertSchema(characteristics)
-  .omit({ id: true, createdAt: true })
-  .extend({ partId: z.string().nullable().optional() });
+  .omit({ id: true, isArchived: true, archivedAt: true, createdAt: true })
+  .extend({
+    partId: z.string().nullable().optional(),
+    nominalValue: decimalInput.optional(),
+    charMax: decimalInput.optional(),
+    charMin: decimalInput.optional(),
+    toleranceUpper: decimalInput.optional(),
+    toleranceLower: decimalInput.optional(),
+    unit: unitInput.optional(),
+    subgroupSize: z.number().int().min(1).max(MAX_SUBGROUP_SIZE).optional(),
+    ruleSet: z.enum(spcRuleSets).optional(),
+    attributeChartType: z.enum(attributeChartTypes).optional(),
+  });
 export type InsertCharacteristic = z.infer<typeof insertCharacteristicSchema>;
 export type Characteristic = typeof characteristics.$inferSelect;
 
 // SPC Measurements table – one row per individual measurement
 export const spcMeasurements = pgTable("spc_measurements", {
   id: varchar("id").primaryKey(),
-  characteristicId: varchar("characteristic_id").notNull(), // FK → characteristics.id
-  machineId: varchar("machine_id").notNull(),               // FK → machines.id
-  measuredValue: text("measured_value").notNull(),
+  characteristicId: varchar("characteristic_id").notNull().references(() => characteristics.id, { onDelete: "restrict" }),
+  machineId: varchar("machine_id").notNull().references(() => machines.id, { onDelete: "restrict" }),
+  measuredValue: doublePrecision("measured_value"),      // null only for legacy text the migration could not convert
+  subgroupId: text("subgroup_id"),  // optional; groups measurements taken as one sample
+  gaugeId: varchar("gauge_id"),     // optional FK → gauges.id, the instrument that took the reading
+  // Attribute checks only: units inspected and the defectives (p/np) or defects (c/u) found.
+  // measuredValue mirrors defectCount so older views still show a number.
+  sampleSize: integer("sample_size"),
+  defectCount: integer("defect_count"),
   status: text("status").default("open"),
   recordNote: text("record_note"),
   createdAt: text("created_at").notNull(),
-});
+}, (table) => [
+  index("spc_measurements_gauge_idx").on(table.gaugeId),
+  index("spc_measurements_subgroup_idx").on(table.characteristicId, table.subgroupId),
+]);
 
-export const insertSpcMeasurementSchema = createInsertSchema(spcMeasurements).omit({ id: true, createdAt: true });
+export const insertSpcMeasurementSchema = createInsertSchema(spcMeasurements)
+  .omit({ id: true, createdAt: true })
+  .extend({
+    measuredValue: decimalInput.optional(),
+    sampleSize: z.number().int().min(1).nullable().optional(),
+    defectCount: z.number().int().min(0).nullable().optional(),
+  });
 export type InsertSpcMeasurement = z.infer<typeof insertSpcMeasurementSchema>;
 export type SpcMeasurement = typeof spcMeasurements.$inferSelect;
 
+// Rule violations – one row per rule a measurement tripped when it was recorded.
+// Rule numbers follow the characteristic's rule set (Western Electric 1–4, Nelson 1–8).
+export const spcRuleViolations = pgTable("spc_rule_violations", {
+  id: varchar("id").primaryKey(),
+  // Violations are derived from their measurement and go with it
+  measurementId: varchar("measurement_id").notNull().references(() => spcMeasurements.id, { onDelete: "cascade" }),
+  characteristicId: varchar("characteristic_id").notNull().references(() => characteristics.id, { onDelete: "restrict" }),
+  machineId: varchar("machine_id").notNull().references(() => machines.id, { onDelete: "restrict" }),
+  ruleSet: text("rule_set").notNull().$type<SpcRuleSet>(),
+  rule: integer("rule").notNull(),
+  description: text("description").notNull(),
+  createdAt: text("created_at").notNull(),
+}, (table) => [
+  index("spc_rule_violations_characteristic_idx").on(table.characteristicId, table.createdAt),
+  index("spc_rule_violations_measurement_idx").on(table.measurementId),
+]);
+
+export type SpcRuleViolation = typeof spcRuleViolations.$inferSelect;
+export type InsertSpcRuleViolation = Omit<SpcRuleViolation, "id" | "createdAt">;
+
 // Flat joined view type returned by the API for backward compatibility
 export interface SpcRecordFlat {
   id: string;
@@ -159,12 +602,14 @@ export interface SpcRecordFlat {
   partName: string | null;
   charNumber: string;
   charName: string | null;
-  nominalValue: string | null;
-  charMax: string | null;
-  charMin: string | null;
-  tolerance: string | null;
+  nominalValue: number | null;
+  charMax: number | null;
+  charMin: number | null;
+  toleranceUpper: number | null;
+  toleranceLower: number | null;
+  unit: string | null;
   opName: string | null;
-  measuredValue: string;
+  measuredValue: number | null;
   status: string | null;
   recordNote: string | null;
   createdAt: string;
@@ -178,18 +623,401 @@ export type InsertSpcRecord = InsertSpcMeasurement & {
   partName?: string;
   charNumber?: string;
   charName?: string;
-  nominalValue?: string;
-  charMax?: string;
-  charMin?: string;
-  tolerance?: string;
+  // Legacy payloads send these as text; they are parsed like decimalInput
+  nominalValue?: string | number;
+  charMax?: string | number;
+  charMin?: string | number;
+  tolerance?: string;  // e.g. "±0.05" or "+0.1/-0.05"
+  unit?: string;  // the characteristic's unit; a reading in another unit ("0.394 in") is converted to it
   opName?: string;
   characteristic?: string;
   correctiveAction?: string;
 };
 export type InsertAuditFinding = InsertSpcRecord;
 
+// One row of an SPC import, flat like SpcRecordFlat; numbers may still be text in the legacy
+// formats. Parts and characteristics are matched by number or created.
+const optionalText = z.string().trim().nullable().optional();
+export const spcImportRowSchema = z.object({
+  machineId: z.string().min(1),
+  partNumber: z.string().trim().min(1),
+  partName: optionalText,
+  charNumber: z.string().trim().min(1),
+  charName: optionalText,
+  opName: optionalText,
+  nominalValue: decimalInput.optional(),
+  charMax: decimalInput.optional(),
+  charMin: decimalInput.optional(),
+  tolerance: toleranceInput.optional(),
+  unit: unitInput.optional(),
+  // Kept as sent so a unit written after the value ("0.394 in") can be converted
+  measuredValue: z.union([z.number(), z.string()])
+    .refine((value) => parseDecimal(value) !== null, { message: "Measured value is not a number" }),
+  status: optionalText,
+  recordNote: optionalText,
+  createdAt: z.string().refine((value) => !Number.isNaN(Date.parse(value)), { message: "Not a date" }).optional(),
+});
+export type SpcImportRow = z.infer<typeof spcImportRowSchema>;
+
+export type SpcImportResult = {
+  imported: number;
+  partsCreated: number;
+  characteristicsCreated: number;
+  // Rows left out when importing with skipInvalid, by their index in the request
+  skipped: { index: number; message: string }[];
+};
+
 // Keep table aliases for any code that still references these
 export const spcRecords = spcMeasurements;
 export const auditFindings = spcMeasurements;
 export const insertAuditFindingSchema = insertSpcMeasurementSchema;
 export const insertSpcRecordSchema = insertSpcMeasurementSchema;
+
+// === GAUGES ===
+
+export const gaugeTypes = ['micrometer', 'caliper', 'height_gauge', 'bore_gauge', 'indicator', 'pin_gauge', 'thread_gauge', 'cmm_program', 'surface_tester', 'torque_tool', 'other'] as const;
+export type GaugeType = typeof gaugeTypes[number];
+export const gaugeTypeLabels: Record<GaugeType, string> = {
+  micrometer: 'Micrometer',
+  caliper: 'Caliper',
+  height_gauge: 'Height gauge',
+  bore_gauge: 'Bore gauge',
+  indicator: 'Indicator',
+  pin_gauge: 'Pin gauge',
+  thread_gauge: 'Thread gauge',
+  cmm_program: 'CMM program',
+  surface_tester: 'Surface tester',
+  torque_tool: 'Torque tool',
+  other: 'Other',
+};
+
+const dateKey = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+
+// Gauge and instrument master. Retired gauges are deactivated, never deleted, so the
+// measurements taken with them still resolve. Calibration dates are YYYY-MM-DD.
+export const gauges = pgTable("gauges", {
+  id: varchar("id").primaryKey(),
+  gaugeNumber: text("gauge_number").notNull(),   // unique asset tag, e.g. MIC-0042
+  description: text("description"),
+  type: text("type").notNull().$type<GaugeType>(),
+  resolution: doublePrecision("resolution"),
+  unit: text("unit"),
+  calibrationIntervalDays: integer("calibration_interval_days").notNull(),
+  lastCalibratedAt: text("last_calibrated_at"),
+  nextCalibrationDue: text("next_calibration_due"),  // last calibration + interval unless set by hand
+  isActive: boolean("is_active").notNull().default(true),
+  deactivatedAt: text("deactivated_at"),
+  createdAt: text("created_at").notNull(),
+  updatedAt: text("updated_at").notNull(),
+}, (table) => [
+  uniqueIndex("gauges_gauge_number_idx").on(table.gaugeNumber),
+]);
+
+export const insertGaugeSchema = createInsertSchema(gauges)
+  .omit({ id: true, deactivatedAt: true, createdAt: true, updatedAt: true })
+  .extend({
+    gaugeNumber: z.string().trim().min(1),
+    type: z.enum(gaugeTypes),
+    resolution: z.number().positive().nullable().optional(),
+    unit: unitInput.optional(),
+    calibrationIntervalDays: z.number().int().min(1).max(3650),
+    lastCalibratedAt: dateKey.nullable().optional(),
+    nextCalibrationDue: dateKey.nullable().optional(),
+  });
+export type InsertGauge = z.infer<typeof insertGaugeSchema>;
+export type Gauge = typeof gauges.$inferSelect;
+
+// Gauges due within this many days are listed as due soon
+export const CALIBRATION_DUE_SOON_DAYS = 30;
+
+export type CalibrationStatus = 'overdue' | 'due_soon' | 'current' | 'unknown';
+
+// Today's date in local time as YYYY-MM-DD
+export const localDateKey = (date = new Date()) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const addDaysToDateKey = (key: string, days: number) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+};
+
+export function calibrationStatus(gauge: Pick<Gauge, 'nextCalibrationDue'>, today = localDateKey()): CalibrationStatus {
+  if (!gauge.nextCalibrationDue) return 'unknown';
+  if (gauge.nextCalibrationDue < today) return 'overdue';
+  if (gauge.nextCalibrationDue <= addDaysToDateKey(today, CALIBRATION_DUE_SOON_DAYS)) return 'due_soon';
+  return 'current';
+}
+
+// === GAUGE R&R ===
+
+// Crossed study: every operator measures every part `trialCount` times. Readings are indexed
+// [operator][part][trial], with null for a reading not entered yet.
+export type GaugeStudyReadings = (number | null)[][][];
+
+export const gaugeStudies = pgTable("gauge_studies", {
+  id: varchar("id").primaryKey(),
+  name: text("name").notNull(),
+  characteristicId: varchar("characteristic_id").notNull(), // FK → characteristics.id
+  gaugeName: text("gauge_name").notNull(),
+  operators: jsonb("operators").notNull().$type<string[]>(),
+  partCount: integer("part_count").notNull(),
+  trialCount: integer("trial_count").notNull(),
+  readings: jsonb("readings").notNull().$type<GaugeStudyReadings>(),
+  notes: text("notes"),
+  createdAt: text("created_at").notNull(),
+  updatedAt: text("updated_at").notNull(),
+}, (table) => [
+  index("gauge_studies_characteristic_idx").on(table.characteristicId),
+]);
+
+// Study sizes the average-and-range constants are tabulated for
+export const GAUGE_STUDY_LIMITS = {
+  operators: { min: 2, max: 10 },
+  parts: { min: 2, max: 15 },
+  trials: { min: 2, max: 10 },
+} as const;
+
+const gaugeStudyFields = z.object({
+  name: z.string().trim().min(1),
+  characteristicId: z.string().min(1),
+  gaugeName: z.string().trim().min(1),
+  operators: z.array(z.string().trim().min(1))
+    .min(GAUGE_STUDY_LIMITS.operators.min)
+    .max(GAUGE_STUDY_LIMITS.operators.max)
+    .refine((names) => new Set(names).size === names.length, { message: "Operator names must be unique" }),
+  partCount: z.number().int().min(GAUGE_STUDY_LIMITS.parts.min).max(GAUGE_STUDY_LIMITS.parts.max),
+  trialCount: z.number().int().min(GAUGE_STUDY_LIMITS.trials.min).max(GAUGE_STUDY_LIMITS.trials.max),
+  readings: z.array(z.array(z.array(z.number().finite().nullable()))).optional(),
+  notes: z.string().nullable().optional(),
+});
+
+// Readings must match the study's operators × parts × trials
+export const gaugeReadingsFit = (readings: GaugeStudyReadings, operators: number, partCount: number, trialCount: number) =>
+  readings.length === operators
+  && readings.every((byPart) => byPart.length === partCount && byPart.every((trials) => trials.length === trialCount));
+
+export const emptyGaugeReadings = (operators: number, partCount: number, trialCount: number): GaugeStudyReadings =>
+  Array.from({ length: operators }, () =>
+    Array.from({ length: partCount }, () => Array.from({ length: trialCount }, () => null)));
+
+export const insertGaugeStudySchema = gaugeStudyFields.refine(
+  (study) => !study.readings || gaugeReadingsFit(study.readings, study.operators.length, study.partCount, study.trialCount),
+  { message: "Readings do not match the operators, parts and trials", path: ["readings"] },
+);
+export const updateGaugeStudySchema = gaugeStudyFields.partial();
+export type InsertGaugeStudy = z.infer<typeof insertGaugeStudySchema>;
+export type GaugeStudy = typeof gaugeStudies.$inferSelect;
+
+// Computed on the server from a study's readings; never stored. Standard deviations are in the
+// characteristic's unit and percentages are 0–100.
+export interface GaugeRrComponents {
+  repeatability: number;      // EV, equipment variation
+  reproducibility: number;    // AV, appraiser variation (including operator × part interaction for ANOVA)
+  grr: number;
+  partVariation: number;
+  totalVariation: number;
+  percentRepeatability: number | null;
+  percentReproducibility: number | null;
+  percentGrr: number | null;
+  percentPartVariation: number | null;
+  // 6 × GRR against charMax − charMin; null when the characteristic has no two-sided tolerance
+  percentTolerance: number | null;
+  ndc: number | null;         // number of distinct categories
+}
+
+export interface GaugeRrAnovaRow {
+  source: "Part" | "Operator" | "Part × Operator" | "Repeatability" | "Total";
+  df: number;
+  ss: number;
+  ms: number | null;
+  f: number | null;
+  p: number | null;
+}
+
+export interface GaugeRrResult {
+  studyId: string;
+  // Results need every reading; until then `missingReadings` says how many are still blank
+  complete: boolean;
+  missingReadings: number;
+  tolerance: number | null;
+  operatorAverages: number[];
+  operatorRanges: number[];   // average range of each operator's trials
+  partAverages: number[];
+  averageRange: GaugeRrComponents | null;
+  anova: (GaugeRrComponents & {
+    table: GaugeRrAnovaRow[];
+    // The interaction is pooled into repeatability when it is not significant (p > 0.25)
+    interactionPooled: boolean;
+  }) | null;
+}
+
+// === USERS ===
+
+// Ordered from least to most access; each role can do everything the roles before it can
+export const userRoles = ['viewer', 'operator', 'quality_engineer', 'admin'] as const;
+export type UserRole = typeof userRoles[number];
+export const userRoleLabels: Record<UserRole, string> = {
+  viewer: 'Viewer',
+  operator: 'Operator',
+  quality_engineer: 'Quality engineer',
+  admin: 'Admin',
+};
+export const userRoleDescriptions: Record<UserRole, string> = {
+  viewer: 'Read-only access to every page',
+  operator: 'Records measurements, scrap, downtime, production counts and machine status',
+  quality_engineer: 'Also maintains parts, characteristics, gauges, studies and the scrap workflow',
+  admin: 'Also maintains machines, cells, reason codes, the shift calendar and users',
+};
+
+export const roleAtLeast = (role: UserRole, minimum: UserRole) =>
+  userRoles.indexOf(role) >= userRoles.indexOf(minimum);
+
+// Deactivated users keep their row so records they made still name them
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey(),
+  username: text("username").notNull(),          // stored lower-case, unique
+  displayName: text("display_name"),
+  passwordHash: text("password_hash").notNull(), // scrypt, see server/auth.ts
+  role: text("role").notNull().$type<UserRole>(),
+  isActive: boolean("is_active").notNull().default(true),
+  lastLoginAt: text("last_login_at"),
+  createdAt: text("created_at").notNull(),
+  updatedAt: text("updated_at").notNull(),
+}, (table) => [
+  uniqueIndex("users_username_idx").on(table.username),
+]);
+
+// One row per login. The session token signs the row id, so deleting the row logs the token out.
+export const userSessions = pgTable("user_sessions", {
+  id: varchar("id").primaryKey(),
+  userId: varchar("user_id").notNull(),
+  createdAt: text("created_at").notNull(),
+  expiresAt: text("expires_at").notNull(),
+}, (table) => [
+  index("user_sessions_user_idx").on(table.userId),
+]);
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export const insertUserSchema = z.object({
+  username: z.string().trim().min(1).max(64).regex(/^[A-Za-z0-9._-]+$/, "Use letters, digits, dots, dashes and underscores")
+    .transform((value) => value.toLowerCase()),
+  displayName: z.string().trim().max(100).nullable().optional(),
+  password: z.string().min(MIN_PASSWORD_LENGTH, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`),
+  role: z.enum(userRoles),
+  isActive: z.boolean().optional(),
+});
+export const updateUserSchema = insertUserSchema.partial();
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type User = typeof users.$inferSelect;
+export type UserSession = typeof userSessions.$inferSelect;
+
+// A user as the API returns it, without the password hash
+export type PublicUser = Omit<User, 'passwordHash'>;
+
+export const loginSchema = z.object({
+  username: z.string().trim().min(1).transform((value) => value.toLowerCase()),
+  password: z.string().min(1),
+});
+
+export interface LoginResponse {
+  token: string;
+  expiresAt: string;
+  user: PublicUser;
+}
+
+// === CHANGE LOG ===
+
+export const changeLogEntityTypes = [
+  'machine', 'cell', 'part', 'characteristic', 'measurement', 'scrap_incident', 'downtime_reason', 'downtime_log',
+  'production_count', 'shift', 'holiday', 'gauge', 'gauge_study', 'user',
+] as const;
+export type ChangeLogEntityType = typeof changeLogEntityTypes[number];
+export const changeLogEntityLabels: Record<ChangeLogEntityType, string> = {
+  machine: 'Machine',
+  cell: 'Cell',
+  part: 'Part',
+  characteristic: 'Characteristic',
+  measurement: 'Measurement',
+  scrap_incident: 'Scrap incident',
+  downtime_reason: 'Downtime reason',
+  downtime_log: 'Downtime',
+  production_count: 'Production count',
+  shift: 'Shift',
+  holiday: 'Holiday',
+  gauge: 'Gauge',
+  gauge_study: 'Gauge R&R study',
+  user: 'User',
+};
+
+export const changeLogActions = ['create', 'update', 'delete'] as const;
+export type ChangeLogAction = typeof changeLogActions[number];
+
+// Field name to its value before and after; creates have null befores and deletes null afters
+export type FieldChanges = Record<string, { before: unknown; after: unknown }>;
+
+// Written by DatabaseStorage on every create, update and delete. The actor is null for changes
+// the server makes on its own, e.g. creating the first admin.
+export const changeLog = pgTable("change_log", {
+  id: varchar("id").primaryKey(),
+  entityType: text("entity_type").notNull().$type<ChangeLogEntityType>(),
+  entityId: varchar("entity_id").notNull(),
+  entityLabel: text("entity_label"),   // e.g. the part number, as it was at the time
+  action: text("action").notNull().$type<ChangeLogAction>(),
+  changes: jsonb("changes").notNull().$type<FieldChanges>(),
+  actorId: varchar("actor_id"),
+  actorName: text("actor_name"),
+  createdAt: text("created_at").notNull(),
+}, (table) => [
+  index("change_log_entity_idx").on(table.entityType, table.entityId, table.createdAt),
+  index("change_log_actor_idx").on(table.actorId, table.createdAt),
+  index("change_log_created_idx").on(table.createdAt),
+]);
+export type ChangeLogEntry = typeof changeLog.$inferSelect;
+
+export const changeLogQuerySchema = z.object({
+  entityType: z.enum(changeLogEntityTypes).optional(),
+  entityId: z.string().optional(),
+  actorId: z.string().optional(),
+  from: z.string().optional(),
+  to: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(200),
+});
+export type ChangeLogQuery = z.infer<typeof changeLogQuerySchema>;
+
+// === RECYCLE BIN ===
+
+// Records that are archived instead of deleted. Purging one deletes it for good.
+export const archivableEntityTypes = ['machine', 'cell', 'part', 'characteristic'] as const;
+export type ArchivableEntityType = typeof archivableEntityTypes[number];
+// The role that may delete (archive) and restore each type; purging always needs an admin
+export const archiveRoles: Record<ArchivableEntityType, UserRole> = {
+  machine: 'admin',
+  cell: 'admin',
+  part: 'quality_engineer',
+  characteristic: 'quality_engineer',
+};
+
+export interface RecycleBinItem {
+  entityType: ArchivableEntityType;
+  id: string;
+  label: string;
+  archivedAt: string;
+}
+
+export interface DependentRows {
+  label: string;   // e.g. "scrap incidents"
+  count: number;
+}
+
+// What purging a record would affect. Dependents are other records that still point at it and
+// block the purge; owned rows are history that is deleted along with it.
+export interface PurgeCheck {
+  entityType: ArchivableEntityType;
+  id: string;
+  label: string;
+  isArchived: boolean;
+  dependents: DependentRows[];
+  ownedRows: DependentRows[];
+  purgeable: boolean;            // archived, with no dependents
+}
@@ -0,0 +1,91 @@
+// Units of measure a characteristic can be specified in, and conversion between units of the
+// same dimension so a reading taken in inches can be recorded against a millimetre spec.
+import { normalizeUnit, roundSpec } from "./numeric";
+
+export const unitDimensions = ["length", "angle", "roughness", "torque", "force", "mass"] as const;
+export type UnitDimension = typeof unitDimensions[number];
+
+export const unitDimensionLabels: Record<UnitDimension, string> = {
+  length: "Length",
+  angle: "Angle",
+  roughness: "Surface roughness",
+  torque: "Torque",
+  force: "Force",
+  mass: "Mass",
+};
+
+export type UnitDefinition = {
+  symbol: string;
+  label: string;
+  dimension: UnitDimension;
+  // Multiplier to the first unit listed for the dimension (mm, deg, Ra µm, N·m, N, g)
+  toBase: number;
+};
+
+export const unitCatalog: UnitDefinition[] = [
+  { symbol: "mm", label: "Millimetre", dimension: "length", toBase: 1 },
+  { symbol: "µm", label: "Micrometre", dimension: "length", toBase: 0.001 },
+  { symbol: "cm", label: "Centimetre", dimension: "length", toBase: 10 },
+  { symbol: "m", label: "Metre", dimension: "length", toBase: 1000 },
+  { symbol: "in", label: "Inch", dimension: "length", toBase: 25.4 },
+  { symbol: "thou", label: "Thousandth of an inch", dimension: "length", toBase: 0.0254 },
+  { symbol: "deg", label: "Degree", dimension: "angle", toBase: 1 },
+  { symbol: "arcmin", label: "Arc minute", dimension: "angle", toBase: 1 / 60 },
+  { symbol: "arcsec", label: "Arc second", dimension: "angle", toBase: 1 / 3600 },
+  { symbol: "rad", label: "Radian", dimension: "angle", toBase: 180 / Math.PI },
+  { symbol: "Ra", label: "Ra (µm)", dimension: "roughness", toBase: 1 },
+  { symbol: "Ra µin", label: "Ra (µin)", dimension: "roughness", toBase: 0.0254 },
+  { symbol: "N·m", label: "Newton metre", dimension: "torque", toBase: 1 },
+  { symbol: "lbf·ft", label: "Pound-force foot", dimension: "torque", toBase: 1.3558179483 },
+  { symbol: "lbf·in", label: "Pound-force inch", dimension: "torque", toBase: 0.112984829 },
+  { symbol: "N", label: "Newton", dimension: "force", toBase: 1 },
+  { symbol: "kN", label: "Kilonewton", dimension: "force", toBase: 1000 },
+  { symbol: "lbf", label: "Pound-force", dimension: "force", toBase: 4.4482216153 },
+  { symbol: "g", label: "Gram", dimension: "mass", toBase: 1 },
+  { symbol: "kg", label: "Kilogram", dimension: "mass", toBase: 1000 },
+  { symbol: "lb", label: "Pound", dimension: "mass", toBase: 453.59237 },
+];
+
+// Catalog entry for a unit as typed ("MM", "microns", "Nm"); undefined when not in the catalog
+export function findUnit(raw: string | null | undefined): UnitDefinition | undefined {
+  const unit = normalizeUnit(raw);
+  if (!unit) return undefined;
+  return unitCatalog.find((entry) => entry.symbol === unit)
+    ?? unitCatalog.find((entry) => entry.symbol.toLowerCase() === unit.toLowerCase());
+}
+
+// Units a value in `raw` can be converted to, its own included
+export function compatibleUnits(raw: string | null | undefined): UnitDefinition[] {
+  const unit = findUnit(raw);
+  return unit ? unitCatalog.filter((entry) => entry.dimension === unit.dimension) : [];
+}
+
+// "10.02 mm", or just the number when there is no unit
+export function withUnit(value: string | number | null | undefined, unit: string | null | undefined): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  if (!text || !unit) return text;
+  return unit === "deg" ? `${text}°` : `${text} ${unit}`;
+}
+
+/**
+ * Converts a reading entered in `from` to the characteristic's unit `to`. A reading without a
+ * unit, or against a characteristic without one, is taken as already in the characteristic's unit.
+ */
+export function convertReading(
+  value: number,
+  from: string | null | undefined,
+  to: string | null | undefined,
+): { value: number } | { error: string } {
+  const fromText = normalizeUnit(from);
+  const toText = normalizeUnit(to);
+  if (!fromText || !toText || fromText === toText) return { value };
+
+  const source = findUnit(fromText);
+  if (!source) return { error: `Unknown unit "${fromText}"` };
+  const target = findUnit(toText);
+  if (source === target) return { value };
+  if (!target || source.dimension !== target.dimension) {
+    return { error: `A reading in ${source.symbol} cannot be recorded against a characteristic measured in ${toText}` };
+  }
+  return { value: roundSpec(value * source.toBase / target.toBase) };
+}